@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeAutoExposure,
+  resolveExposure,
+  logAverageLuminance,
+  luminancePercentile,
+} from '../export/AutoExposure.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { LayerStack } from '../core/LayerStack.js';
+
+function grey(w: number, h: number, v: number): ColorBuffer {
+  const buf = new ColorBuffer(w, h, 32);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) buf.setPixel(x, y, v, v, v, 1);
+  }
+  return buf;
+}
+
+/** Half the pixels at `dark`, half at `bright` */
+function split(dark: number, bright: number): ColorBuffer {
+  const buf = new ColorBuffer(10, 10, 32);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      const v = y < 5 ? dark : bright;
+      buf.setPixel(x, y, v, v, v, 1);
+    }
+  }
+  return buf;
+}
+
+describe('logAverageLuminance', () => {
+  it('is the geometric mean of the luminances', () => {
+    expect(logAverageLuminance(grey(4, 4, 0.5))).toBeCloseTo(0.5, 6);
+    expect(logAverageLuminance(split(0.01, 1))).toBeCloseTo(0.1, 6);
+  });
+
+  it('uses the luminance weights of the working space', () => {
+    const buf = new ColorBuffer(1, 1, 32);
+    buf.setPixel(0, 0, 0, 1, 0, 1);
+    expect(logAverageLuminance(buf)).toBeCloseTo(0.7152, 4);
+  });
+});
+
+describe('luminancePercentile', () => {
+  it('finds the percentile to within 1/32 stop', () => {
+    const buf = split(0.01, 1);
+    const within = (value: number | null, expected: number) =>
+      expect(Math.abs(Math.log2(value!) - Math.log2(expected))).toBeLessThanOrEqual(1 / 32);
+    within(luminancePercentile(buf, 25), 0.01);
+    within(luminancePercentile(buf, 90), 1);
+    within(luminancePercentile(buf, 100), 1);
+  });
+});
+
+describe('computeAutoExposure', () => {
+  it('maps the log-average luminance to middle grey', () => {
+    expect(computeAutoExposure(grey(4, 4, 0.36))).toBeCloseTo(-1, 6);
+    expect(computeAutoExposure(grey(4, 4, 0.045))).toBeCloseTo(2, 6);
+    expect(computeAutoExposure(grey(4, 4, 0.5), { middleGrey: 0.5 })).toBeCloseTo(0, 6);
+  });
+
+  it('maps a percentile to middle grey', () => {
+    const exposure = computeAutoExposure(split(0.01, 1), { method: 'percentile', percentile: 90, middleGrey: 0.9 });
+    expect(Math.abs(exposure - Math.log2(0.9))).toBeLessThanOrEqual(1 / 32);
+  });
+
+  it('ignores transparent pixels by weighting with alpha', () => {
+    const buf = grey(2, 1, 0.36);
+    buf.setPixel(1, 0, 100, 100, 100, 0);
+    expect(computeAutoExposure(buf)).toBeCloseTo(-1, 6);
+    expect(computeAutoExposure(buf, { ignoreTransparent: false })).toBeLessThan(-3);
+  });
+
+  it('measures premultiplied buffers as straight color', () => {
+    const straight = grey(2, 2, 0.4);
+    straight.setPixel(0, 0, 2, 1, 0.5, 0.5);
+    expect(computeAutoExposure(straight.toPremultiplied())).toBeCloseTo(computeAutoExposure(straight), 6);
+  });
+
+  it('accepts layer stacks', () => {
+    const stack = new LayerStack(2, 2);
+    const layer = stack.addLayer('base');
+    for (let i = 0; i < 4; i++) layer.buffer.setPixel(i % 2, i >> 1, 0.72, 0.72, 0.72, 1);
+    expect(computeAutoExposure(stack)).toBeCloseTo(-2, 6);
+  });
+
+  it('returns 0 without visible pixels and clamps to the range', () => {
+    expect(computeAutoExposure(new ColorBuffer(3, 3, 32))).toBe(0);
+    expect(computeAutoExposure(grey(2, 2, 0), { range: [-4, 4] })).toBe(4);
+    expect(computeAutoExposure(grey(2, 2, 0))).toBe(16);
+  });
+
+  it('validates options', () => {
+    const buf = grey(1, 1, 1);
+    expect(() => computeAutoExposure(buf, { method: 'mean' as 'percentile' })).toThrow(/Unknown auto exposure method/);
+    expect(() => computeAutoExposure(buf, { middleGrey: 0 })).toThrow(RangeError);
+    expect(() => computeAutoExposure(buf, { percentile: 101 })).toThrow(RangeError);
+    expect(() => computeAutoExposure(buf, { range: [2, 1] })).toThrow(RangeError);
+  });
+});
+
+describe('resolveExposure', () => {
+  it('adds the exposure to the auto exposure as compensation', () => {
+    const buf = grey(2, 2, 0.36);
+    expect(resolveExposure(buf, { exposure: 0.5 })).toBe(0.5);
+    expect(resolveExposure(buf, { autoExposure: true })).toBeCloseTo(-1, 6);
+    expect(resolveExposure(buf, { exposure: 0.5, autoExposure: { middleGrey: 0.72 } })).toBeCloseTo(1.5, 6);
+  });
+});
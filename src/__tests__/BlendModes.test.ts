@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BLEND_MODES,
+  resolveBlendFn,
+  screen,
+  overlay,
+  softLight,
+  hardLight,
+  difference,
+  exclusion,
+  lighten,
+  darken,
+  subtract,
+  divide,
+  colorDodge,
+  colorBurn,
+  type BlendMode,
+} from '../core/BlendModes.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+
+// ─── Classic [0, 1] behaviour ────────────────────────────────────────
+
+describe('blend functions in the unit range', () => {
+  it('screen matches 1 - (1 - s)(1 - d)', () => {
+    expect(screen(0.5, 0.5)).toBeCloseTo(0.75);
+    expect(screen(0, 0.3)).toBeCloseTo(0.3);
+    expect(screen(1, 0.3)).toBeCloseTo(1);
+  });
+
+  it('hard-light multiplies dark sources and screens bright ones', () => {
+    expect(hardLight(0.25, 0.8)).toBeCloseTo(0.4);
+    expect(hardLight(0.75, 0.5)).toBeCloseTo(0.75);
+  });
+
+  it('overlay is hard-light with arguments swapped', () => {
+    expect(overlay(0.8, 0.25)).toBeCloseTo(hardLight(0.25, 0.8));
+    expect(overlay(0.3, 0.9)).toBeCloseTo(hardLight(0.9, 0.3));
+  });
+
+  it('soft-light with a 0.5 source is a no-op', () => {
+    for (const d of [0, 0.1, 0.5, 0.9, 1]) {
+      expect(softLight(0.5, d)).toBeCloseTo(d);
+    }
+  });
+
+  it('difference, exclusion, lighten, darken', () => {
+    expect(difference(0.2, 0.7)).toBeCloseTo(0.5);
+    expect(exclusion(0.5, 0.5)).toBeCloseTo(0.5);
+    expect(lighten(0.2, 0.7)).toBe(0.7);
+    expect(darken(0.2, 0.7)).toBe(0.2);
+  });
+
+  it('subtract, divide, color-dodge, color-burn', () => {
+    expect(subtract(0.2, 0.7)).toBeCloseTo(0.5);
+    expect(divide(0.5, 0.25)).toBeCloseTo(0.5);
+    expect(colorDodge(0.5, 0.25)).toBeCloseTo(0.5);
+    expect(colorBurn(0.5, 0.75)).toBeCloseTo(0.5);
+  });
+});
+
+// ─── HDR behaviour (> 1.0) ───────────────────────────────────────────
+
+describe('blend functions above 1.0', () => {
+  it('screen never darkens and stays continuous at 1', () => {
+    expect(screen(2, 3)).toBe(3);
+    expect(screen(4, 0.5)).toBe(4);
+    expect(screen(1, 0.5)).toBeCloseTo(screen(1.000001, 0.5), 5);
+  });
+
+  it('exclusion never goes negative', () => {
+    expect(exclusion(2, 2)).toBe(0);
+    expect(exclusion(3, 1)).toBe(2);
+    expect(exclusion(1, 0.25)).toBeCloseTo(exclusion(1.000001, 0.25), 5);
+  });
+
+  it('soft-light passes HDR destinations through', () => {
+    expect(softLight(0.9, 2.5)).toBe(2.5);
+    expect(softLight(0.1, 2.5)).toBe(2.5);
+  });
+
+  it('color-burn passes HDR destinations through', () => {
+    expect(colorBurn(0.3, 1.5)).toBe(1.5);
+  });
+
+  it('subtract is floored at zero', () => {
+    expect(subtract(3, 1)).toBe(0);
+  });
+
+  it('divide and color-dodge stay finite', () => {
+    expect(Number.isFinite(divide(0, 1))).toBe(true);
+    expect(Number.isFinite(colorDodge(1, 1))).toBe(true);
+    expect(Number.isFinite(colorDodge(5, 1))).toBe(true);
+    expect(colorDodge(1, 0)).toBe(0);
+  });
+
+  it('every registered mode returns finite values for HDR inputs', () => {
+    const samples = [-0.5, 0, 0.25, 0.5, 1, 2, 10, 100];
+    for (const [name, fn] of Object.entries(BLEND_MODES)) {
+      for (const s of samples) {
+        for (const d of samples) {
+          const v = fn(s, d);
+          expect(Number.isFinite(v), `${name}(${s}, ${d}) = ${v}`).toBe(true);
+        }
+      }
+    }
+  });
+});
+
+// ─── Registry ────────────────────────────────────────────────────────
+
+describe('resolveBlendFn', () => {
+  it('returns registered functions', () => {
+    expect(resolveBlendFn('screen')).toBe(screen);
+    expect(resolveBlendFn('soft-light')).toBe(softLight);
+  });
+
+  it('throws for unknown modes', () => {
+    expect(() => resolveBlendFn('nope' as BlendMode)).toThrow(/Unknown blend mode/);
+  });
+});
+
+// ─── ColorBuffer integration ─────────────────────────────────────────
+
+describe('ColorBuffer blend paths share the registry', () => {
+  const modes = Object.keys(BLEND_MODES) as BlendMode[];
+
+  it('blendPixel, blendPixelUnchecked and blendRowUnchecked agree for every mode', () => {
+    for (const mode of modes) {
+      const a = new ColorBuffer(1, 1, 64);
+      const b = new ColorBuffer(1, 1, 64);
+      const c = new ColorBuffer(1, 1, 64);
+      for (const buf of [a, b, c]) buf.setPixel(0, 0, 0.6, 1.8, 0.2, 0.9);
+
+      a.blendPixel(0, 0, 0.3, 2.5, 0.7, 0.6, mode);
+      b.blendPixelUnchecked(0, 0, 0.3, 2.5, 0.7, 0.6, mode);
+      c.blendRowUnchecked(0, 0, 1, new Float64Array([0.3, 2.5, 0.7, 0.6]), mode);
+
+      for (let i = 0; i < 4; i++) {
+        expect(b.data[i]).toBeCloseTo(a.data[i]!, 6);
+        expect(c.data[i]).toBeCloseTo(a.data[i]!, 6);
+      }
+    }
+  });
+
+  it('every mode onto a transparent pixel shows the source unchanged', () => {
+    for (const alphaMode of ['straight', 'premultiplied'] as const) {
+      for (const mode of modes) {
+        const buf = new ColorBuffer(1, 1, 64, { alphaMode });
+        buf.blendPixel(0, 0, 1, 0.5, 0.25, 1, mode);
+        expect(Array.from(buf.data), `${alphaMode} ${mode}`).toEqual([1, 0.5, 0.25, 1]);
+
+        const soft = new ColorBuffer(1, 1, 64);
+        soft.blendPixel(0, 0, 1, 0.5, 0.25, 0.5, mode);
+        const [r, g, b, a] = soft.getPixel(0, 0);
+        expect([r, g, b], mode).toEqual([1, 0.5, 0.25]);
+        expect(a).toBe(0.5);
+      }
+    }
+  });
+
+  it('blends by the destination coverage over a partly transparent pixel', () => {
+    for (const alphaMode of ['straight', 'premultiplied'] as const) {
+      const buf = new ColorBuffer(1, 1, 64);
+      buf.setPixel(0, 0, 0.5, 0.5, 0.5, 0.5);
+      const target = alphaMode === 'premultiplied' ? buf.toPremultiplied() : buf;
+      target.blendPixel(0, 0, 1, 1, 1, 1, 'multiply');
+      // Cs' = 0.5·1 + 0.5·(1 × 0.5) = 0.75, opaque
+      const [r, , , a] = alphaMode === 'premultiplied' ? target.toStraight().getPixel(0, 0) : target.getPixel(0, 0);
+      expect(r, alphaMode).toBeCloseTo(0.75, 10);
+      expect(a).toBe(1);
+    }
+  });
+
+  it('opaque screen onto opaque dst gives the screen result', () => {
+    const buf = new ColorBuffer(1, 1);
+    buf.setPixel(0, 0, 0.5, 0.5, 0.5, 1);
+    buf.blendPixel(0, 0, 0.5, 0.5, 0.5, 1, 'screen');
+    expect(buf.getPixel(0, 0)[0]).toBeCloseTo(0.75);
+  });
+
+  it('rejects unknown modes on every path', () => {
+    const buf = new ColorBuffer(1, 1);
+    expect(() => buf.blendPixel(0, 0, 1, 1, 1, 1, 'bogus' as BlendMode)).toThrow(/Unknown blend mode/);
+    expect(() => buf.blendPixelUnchecked(0, 0, 1, 1, 1, 1, 'bogus' as BlendMode)).toThrow(/Unknown blend mode/);
+    expect(() => buf.blendRowUnchecked(0, 0, 1, new Float32Array(4), 'bogus' as BlendMode))
+      .toThrow(/Unknown blend mode/);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { applyBloom, bloomSteps } from '../filters/Bloom.js';
+
+function energy(buf: ColorBuffer, c = 0): number {
+  let sum = 0;
+  for (let i = c; i < buf.data.length; i += 4) sum += buf.data[i]! * buf.data[i + 3 - c]!;
+  return sum;
+}
+
+/** Opaque black buffer with one hot pixel */
+function hotSpot(size: number, value: number): ColorBuffer {
+  const buf = new ColorBuffer(size, size, 64);
+  buf.clear(0, 0, 0, 1);
+  buf.setPixel(size >> 1, size >> 1, value, value, value, 1);
+  return buf;
+}
+
+describe('applyBloom', () => {
+  it('spreads light from pixels above the threshold', () => {
+    const buf = hotSpot(64, 40);
+    applyBloom(buf, { radius: 8, intensity: 1 });
+    expect(buf.getPixel(32, 26)[0]).toBeGreaterThan(0);
+    expect(buf.getPixel(32, 32)[0]).toBeGreaterThanOrEqual(40);
+    expect(buf.getPixel(0, 0)[0]).toBeLessThan(1e-3);
+  });
+
+  it('leaves pixels below the threshold alone', () => {
+    const buf = new ColorBuffer(32, 32, 64);
+    buf.clear(0.4, 0.6, 0.5, 1);
+    const before = buf.data.slice();
+    applyBloom(buf, { threshold: 1, softKnee: 0 });
+    expect(buf.data).toEqual(before);
+  });
+
+  it('adds glow energy proportional to intensity', () => {
+    const glowAt = (intensity: number) => {
+      const buf = hotSpot(64, 40);
+      applyBloom(buf, { radius: 8, intensity, threshold: 1, softKnee: 0 });
+      return energy(buf) - 40;
+    };
+    const half = glowAt(0.5);
+    const full = glowAt(1);
+    expect(half).toBeGreaterThan(0);
+    expect(full).toBeCloseTo(half * 2, 6);
+    // Normalized pyramid: total glow ≈ intensity × light above the threshold
+    expect(full).toBeCloseTo((40 - 1) * 1, 0);
+  });
+
+  it('spreads further with a larger radius', () => {
+    const spread = (radius: number) => {
+      const buf = hotSpot(128, 40);
+      applyBloom(buf, { radius, intensity: 1 });
+      return buf.getPixel(64, 44)[0];
+    };
+    expect(spread(32)).toBeGreaterThan(spread(4));
+  });
+
+  it('lets glow spill onto transparent pixels by raising alpha', () => {
+    const buf = new ColorBuffer(32, 32, 64);
+    buf.setPixel(16, 16, 80, 80, 80, 1);
+    applyBloom(buf, { radius: 4, intensity: 1 });
+    const [, , , a] = buf.getPixel(16, 14);
+    expect(a).toBeGreaterThan(0);
+    expect(a).toBeLessThanOrEqual(1);
+  });
+
+  it('handles premultiplied buffers', () => {
+    const straight = hotSpot(32, 20);
+    const premul = new ColorBuffer(32, 32, 64, { alphaMode: 'premultiplied' });
+    premul.data.set(straight.data);
+    applyBloom(straight, { radius: 4 });
+    applyBloom(premul, { radius: 4 });
+    for (let i = 0; i < straight.data.length; i++) {
+      expect(premul.data[i]).toBeCloseTo(straight.data[i]!, 9);
+    }
+  });
+
+  it('is a no-op at zero intensity and validates options', () => {
+    const buf = hotSpot(16, 10);
+    const before = buf.data.slice();
+    applyBloom(buf, { intensity: 0 });
+    expect(buf.data).toEqual(before);
+
+    expect(() => applyBloom(buf, { threshold: -1 })).toThrow(RangeError);
+    expect(() => applyBloom(buf, { softKnee: 2 })).toThrow(RangeError);
+    expect(() => applyBloom(buf, { radius: 0 })).toThrow(RangeError);
+  });
+
+  it('works on tiny buffers', () => {
+    const buf = hotSpot(1, 10);
+    applyBloom(buf, { radius: 64 });
+    expect(Number.isFinite(buf.getPixel(0, 0)[0])).toBe(true);
+  });
+});
+
+describe('bloomSteps', () => {
+  it('matches applyBloom, reporting rising fractions up to 1', () => {
+    // Wide enough for two full-resolution strips
+    const make = () => {
+      const buf = new ColorBuffer(2048, 160, 32);
+      buf.clear(0, 0, 0, 1);
+      buf.setPixel(1024, 80, 40, 40, 40, 1);
+      return buf;
+    };
+    const whole = make();
+    applyBloom(whole, { radius: 8 });
+    const stepped = make();
+    const fractions = [...bloomSteps(stepped, { radius: 8 })];
+
+    expect(fractions.length).toBeGreaterThan(6);
+    expect(fractions.at(-1)).toBe(1);
+    for (let i = 1; i < fractions.length; i++) expect(fractions[i]!).toBeGreaterThanOrEqual(fractions[i - 1]!);
+    expect(stepped.data.every((v, i) => v === whole.data[i])).toBe(true);
+    expect(stepped.getPixel(1024, 74)[0]).toBeGreaterThan(0);
+  });
+
+  it('validates options on the first step', () => {
+    const steps = bloomSteps(hotSpot(4, 1), { intensity: -1 });
+    expect(() => steps.next()).toThrow(RangeError);
+  });
+});
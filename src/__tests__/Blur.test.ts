@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { gaussianBlur, gaussianKernel, boxBlur, unsharpMask } from '../filters/Blur.js';
+
+function channelSum(buf: ColorBuffer, c: number): number {
+  let sum = 0;
+  for (let i = c; i < buf.data.length; i += 4) sum += buf.data[i]!;
+  return sum;
+}
+
+/** Opaque black buffer with one bright HDR pixel in the centre */
+function impulse(size: number, value = 100): ColorBuffer {
+  const buf = new ColorBuffer(size, size, 64);
+  buf.clear(0, 0, 0, 1);
+  const c = size >> 1;
+  buf.setPixel(c, c, value, value, value, 1);
+  return buf;
+}
+
+describe('gaussianKernel', () => {
+  it('is normalized, symmetric and spans ⌈3σ⌉ by default', () => {
+    const k = gaussianKernel(2);
+    expect(k.length).toBe(13);
+    expect(k.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+    expect(k[0]).toBeCloseTo(k[12]!, 15);
+    expect(k[6]).toBeGreaterThan(k[5]!);
+  });
+
+  it('validates sigma and radius', () => {
+    expect(() => gaussianKernel(0)).toThrow(RangeError);
+    expect(() => gaussianKernel(1, 1.5)).toThrow(RangeError);
+  });
+});
+
+describe('gaussianBlur', () => {
+  it('records its writes in the buffer version', () => {
+    const buf = new ColorBuffer(4, 4);
+    for (const filter of [
+      () => gaussianBlur(buf, 1),
+      () => boxBlur(buf, 1),
+      () => unsharpMask(buf, { sigma: 1, amount: 1 }),
+    ]) {
+      const before = buf.version;
+      filter();
+      expect(buf.version).toBeGreaterThan(before);
+    }
+  });
+
+  it('conserves energy and spreads HDR values without clamping', () => {
+    const buf = impulse(41);
+    gaussianBlur(buf, 3);
+    expect(channelSum(buf, 0)).toBeCloseTo(100, 6);
+    const [centre] = buf.getPixel(20, 20);
+    expect(centre).toBeLessThan(100);
+    expect(centre).toBeGreaterThan(1);
+  });
+
+  it('has the expected spread', () => {
+    const sigma = 2.5;
+    const buf = impulse(41, 1);
+    gaussianBlur(buf, sigma, { radius: 15 });
+    // Variance of the blurred impulse along x equals σ² (kernel wide enough not to truncate)
+    let variance = 0;
+    for (let y = 0; y < 41; y++) {
+      for (let x = 0; x < 41; x++) variance += buf.getPixel(x, y)[0] * (x - 20) ** 2;
+    }
+    expect(variance).toBeCloseTo(sigma * sigma, 2);
+  });
+
+  it('is a no-op for σ = 0 and leaves flat images unchanged', () => {
+    const flat = new ColorBuffer(8, 8, 64);
+    flat.clear(2.5, 1, 0.5, 1);
+    gaussianBlur(flat, 0);
+    gaussianBlur(flat, 1.5);
+    for (let i = 0; i < flat.data.length; i += 4) expect(flat.data[i]).toBeCloseTo(2.5, 12);
+  });
+
+  it('only touches the region', () => {
+    const buf = impulse(21);
+    buf.setPixel(2, 2, 50, 0, 0, 1);
+    gaussianBlur(buf, 1, { region: { x: 5, y: 5, width: 11, height: 11 } });
+    expect(buf.getPixel(2, 2)[0]).toBe(50);
+    expect(buf.getPixel(10, 10)[0]).toBeLessThan(100);
+  });
+
+  it('works on Float32 buffers', () => {
+    const buf = new ColorBuffer(16, 16, 32);
+    buf.clear(0, 0, 0, 1);
+    buf.setPixel(8, 8, 10, 0, 0, 1);
+    gaussianBlur(buf, 1);
+    expect(channelSum(buf, 0)).toBeCloseTo(10, 4);
+  });
+});
+
+describe('boxBlur', () => {
+  it('averages a square neighbourhood', () => {
+    const buf = impulse(9, 9);
+    boxBlur(buf, 1);
+    expect(buf.getPixel(4, 4)[0]).toBeCloseTo(1);
+    expect(buf.getPixel(3, 5)[0]).toBeCloseTo(1);
+    expect(buf.getPixel(2, 4)[0]).toBeCloseTo(0);
+  });
+
+  it('wraps around with the wrap edge mode', () => {
+    const buf = new ColorBuffer(5, 1, 64);
+    buf.clear(0, 0, 0, 1);
+    buf.setPixel(0, 0, 3, 0, 0, 1);
+    boxBlur(buf, 1, { edge: 'wrap' });
+    expect(buf.getPixel(4, 0)[0]).toBeCloseTo(1);
+    expect(buf.getPixel(1, 0)[0]).toBeCloseTo(1);
+  });
+
+  it('validates the radius', () => {
+    const buf = new ColorBuffer(4, 4);
+    expect(() => boxBlur(buf, 1.5)).toThrow(RangeError);
+    expect(() => boxBlur(buf, -1)).toThrow(RangeError);
+  });
+});
+
+describe('unsharpMask', () => {
+  it('increases contrast across an edge', () => {
+    const buf = new ColorBuffer(10, 1, 64);
+    for (let x = 0; x < 10; x++) buf.setPixel(x, 0, x < 5 ? 0.2 : 0.8, 0.5, 0.5, 1);
+    unsharpMask(buf, { sigma: 1, amount: 1 });
+    expect(buf.getPixel(4, 0)[0]).toBeLessThan(0.2);
+    expect(buf.getPixel(5, 0)[0]).toBeGreaterThan(0.8);
+    expect(buf.getPixel(0, 0)[0]).toBeCloseTo(0.2);
+    expect(buf.getPixel(5, 0)[3]).toBe(1);
+  });
+
+  it('skips differences below the threshold', () => {
+    const buf = new ColorBuffer(10, 1, 64);
+    for (let x = 0; x < 10; x++) buf.setPixel(x, 0, x < 5 ? 0.5 : 0.52, 0, 0, 1);
+    unsharpMask(buf, { sigma: 1, amount: 2, threshold: 0.05 });
+    expect(buf.getPixel(4, 0)[0]).toBe(0.5);
+  });
+
+  it('keeps premultiplied storage consistent', () => {
+    const buf = new ColorBuffer(10, 1, 64, { alphaMode: 'premultiplied' });
+    for (let x = 0; x < 10; x++) {
+      const v = x < 5 ? 0.2 : 0.8;
+      buf.setPixel(x, 0, v * 0.5, 0, 0, 0.5);
+    }
+    unsharpMask(buf, { sigma: 1 });
+    const [r, , , a] = buf.getPixel(5, 0);
+    expect(a).toBe(0.5);
+    expect(r / a).toBeGreaterThan(0.8);
+  });
+});
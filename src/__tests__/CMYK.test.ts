@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { separateCMYK, createCMYKLut, type CMYKSeparationOptions } from '../export/CMYK.js';
+
+function separate(rgba: number[], options?: CMYKSeparationOptions): number[] {
+  return Array.from(separateCMYK(Uint8Array.from(rgba), options));
+}
+
+describe('separateCMYK', () => {
+  it('leaves white paper blank and prints black with K only', () => {
+    expect(separate([255, 255, 255, 255])).toEqual([0, 0, 0, 0]);
+    expect(separate([0, 0, 0, 255])).toEqual([0, 0, 0, 255]);
+  });
+
+  it('prints pure red with magenta and yellow', () => {
+    expect(separate([255, 0, 0, 255])).toEqual([0, 255, 255, 0]);
+  });
+
+  it('keeps the color on paper: (1 - C)(1 - K) = R', () => {
+    const [c, m, y, k] = separate([64, 128, 200, 255]).map((v) => v / 255);
+    expect((1 - c!) * (1 - k!)).toBeCloseTo(64 / 255, 1);
+    expect((1 - m!) * (1 - k!)).toBeCloseTo(128 / 255, 1);
+    expect((1 - y!) * (1 - k!)).toBeCloseTo(200 / 255, 1);
+  });
+
+  it('generates less black with UCR than GCR on saturated colors', () => {
+    const gcr = separate([40, 80, 200, 255], { blackGeneration: 'gcr' });
+    const ucr = separate([40, 80, 200, 255], { blackGeneration: 'ucr' });
+    expect(ucr[3]!).toBeLessThan(gcr[3]!);
+    // Neutrals are treated alike
+    expect(separate([60, 60, 60, 255], { blackGeneration: 'ucr' })).toEqual(separate([60, 60, 60, 255]));
+  });
+
+  it('scales black generation with blackAmount and blackStart', () => {
+    expect(separate([60, 60, 60, 255], { blackAmount: 0 })).toEqual([195, 195, 195, 0]);
+    expect(separate([240, 240, 240, 255], { blackStart: 0.1 })[3]).toBe(0);
+    expect(separate([240, 240, 240, 255], { blackStart: 0 })[3]).toBe(15);
+  });
+
+  it('enforces the total ink limit', () => {
+    const out = separate([10, 0, 20, 255], { blackAmount: 0.3, totalInkLimit: 240 });
+    expect(out.reduce((a, b) => a + b, 0)).toBeLessThanOrEqual(Math.ceil(2.4 * 255) + 2);
+    const unlimited = separate([10, 0, 20, 255], { blackAmount: 0.3, totalInkLimit: 400 });
+    expect(out[3]).toBe(unlimited[3]);
+  });
+
+  it('composites transparency over paper white', () => {
+    expect(separate([0, 0, 0, 0])).toEqual([0, 0, 0, 0]);
+    expect(separate([255, 0, 0, 128])).toEqual(separate([255, 127, 127, 255]));
+  });
+
+  it('keeps 16-bit precision', () => {
+    const out = separateCMYK(Uint16Array.from([0, 65535, 65535, 65535]));
+    expect(out).toBeInstanceOf(Uint16Array);
+    expect(Array.from(out)).toEqual([65535, 0, 0, 0]);
+  });
+
+  it('interpolates a supplied LUT', () => {
+    const complement = (r: number, g: number, b: number) => [1 - r, 1 - g, 1 - b, 0] as const;
+    const lut = createCMYKLut(5, complement);
+    expect(lut.data.length).toBe(5 ** 3 * 4);
+    // A linear conversion is reproduced exactly between grid points
+    expect(separate([0, 100, 255, 255], { lut })).toEqual([255, 155, 0, 0]);
+    expect(separate([37, 201, 90, 255], { lut, totalInkLimit: 400 })).toEqual([218, 54, 165, 0]);
+  });
+
+  it('validates options', () => {
+    const px = Uint8Array.from([0, 0, 0, 255]);
+    expect(() => separateCMYK(px, { blackGeneration: 'max' as 'gcr' })).toThrow(/Unknown black generation mode/);
+    expect(() => separateCMYK(px, { blackAmount: 1.5 })).toThrow(RangeError);
+    expect(() => separateCMYK(px, { blackStart: 1 })).toThrow(RangeError);
+    expect(() => separateCMYK(px, { totalInkLimit: 500 })).toThrow(RangeError);
+    expect(() => separateCMYK(px, { lut: { size: 2, data: [0] } })).toThrow(/needs 32 values/);
+    expect(() => separateCMYK(new Uint8Array(3))).toThrow(/multiple of 4/);
+    expect(() => createCMYKLut(1, () => [0, 0, 0, 0])).toThrow(RangeError);
+  });
+});
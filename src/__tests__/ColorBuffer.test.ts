@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { ColorBuffer, type BlendMode } from '../core/ColorBuffer.js';
+import { ColorBuffer, premultiply, unpremultiply, type BlendMode } from '../core/ColorBuffer.js';
 
 describe('ColorBuffer', () => {
   describe('construction', () => {
@@ -454,4 +454,142 @@ describe('ColorBuffer', () => {
       }
     });
   });
+
+  describe('premultiplied alpha', () => {
+    it('defaults to straight alpha', () => {
+      expect(new ColorBuffer(2, 2).alphaMode).toBe('straight');
+      expect(new ColorBuffer(2, 2, 64, { alphaMode: 'premultiplied' }).alphaMode).toBe('premultiplied');
+    });
+
+    it('rejects unknown alpha modes', () => {
+      expect(() => new ColorBuffer(2, 2, 32, { alphaMode: 'bogus' as any })).toThrow(/Unknown alpha mode/);
+    });
+
+    it('normal blend stores premultiplied color', () => {
+      const buf = new ColorBuffer(1, 1, 64, { alphaMode: 'premultiplied' });
+      buf.blendPixel(0, 0, 1, 0.5, 0, 0.5);
+      const [r, g, b, a] = buf.getPixel(0, 0);
+      expect(r).toBeCloseTo(0.5);
+      expect(g).toBeCloseTo(0.25);
+      expect(b).toBeCloseTo(0);
+      expect(a).toBeCloseTo(0.5);
+    });
+
+    it('matches straight compositing after conversion, for every mode', () => {
+      const modes: BlendMode[] = ['normal', 'add', 'multiply', 'screen', 'overlay', 'difference'];
+      for (const mode of modes) {
+        const straight = new ColorBuffer(1, 1, 64);
+        const premul = new ColorBuffer(1, 1, 64, { alphaMode: 'premultiplied' });
+        straight.setPixel(0, 0, 0.8, 1.6, 0.2, 0.7);
+        premul.setPixel(0, 0, 0.8 * 0.7, 1.6 * 0.7, 0.2 * 0.7, 0.7);
+
+        straight.blendPixel(0, 0, 0.4, 0.1, 2.0, 0.3, mode);
+        premul.blendPixel(0, 0, 0.4, 0.1, 2.0, 0.3, mode);
+
+        const converted = premul.toStraight();
+        for (let i = 0; i < 4; i++) {
+          expect(converted.data[i]).toBeCloseTo(straight.data[i]!, 10);
+        }
+      }
+    });
+
+    it('keeps color when repeatedly compositing near-zero alpha', () => {
+      const buf = new ColorBuffer(1, 1, 32, { alphaMode: 'premultiplied' });
+      for (let i = 0; i < 100; i++) {
+        buf.blendPixel(0, 0, 2.0, 1.0, 0.5, 1e-4);
+      }
+      const [r, g, b] = buf.toStraight().getPixel(0, 0);
+      expect(r).toBeCloseTo(2.0, 3);
+      expect(g).toBeCloseTo(1.0, 3);
+      expect(b).toBeCloseTo(0.5, 3);
+    });
+
+    it('blendRowUnchecked takes straight source rows', () => {
+      const buf = new ColorBuffer(1, 1, 32, { alphaMode: 'premultiplied' });
+      buf.blendRowUnchecked(0, 0, 1, new Float32Array([1, 1, 1, 0.25]));
+      const [r, , , a] = buf.getPixel(0, 0);
+      expect(r).toBeCloseTo(0.25);
+      expect(a).toBeCloseTo(0.25);
+    });
+
+    it('getRegion preserves the alpha mode', () => {
+      const buf = new ColorBuffer(4, 4, 32, { alphaMode: 'premultiplied' });
+      expect(buf.getRegion(0, 0, 2, 2).alphaMode).toBe('premultiplied');
+    });
+
+    it('putRegion converts between alpha modes', () => {
+      const straight = new ColorBuffer(2, 1);
+      straight.setPixel(0, 0, 1, 0.5, 0.25, 0.5);
+
+      const premul = new ColorBuffer(2, 1, 32, { alphaMode: 'premultiplied' });
+      premul.putRegion(0, 0, straight);
+      expect(premul.getPixel(0, 0)).toEqual([0.5, 0.25, 0.125, 0.5]);
+
+      const back = new ColorBuffer(2, 1);
+      back.putRegion(0, 0, premul);
+      expect(back.getPixel(0, 0)).toEqual([1, 0.5, 0.25, 0.5]);
+    });
+
+    it('toPremultiplied / toStraight round-trip and return copies', () => {
+      const buf = new ColorBuffer(1, 1);
+      buf.setPixel(0, 0, 2, 1, 0.5, 0.5);
+      const premul = buf.toPremultiplied();
+      expect(premul.alphaMode).toBe('premultiplied');
+      expect(premul.getPixel(0, 0)).toEqual([1, 0.5, 0.25, 0.5]);
+      expect(buf.getPixel(0, 0)).toEqual([2, 1, 0.5, 0.5]);
+
+      const straight = premul.toStraight();
+      expect(straight.alphaMode).toBe('straight');
+      expect(straight.getPixel(0, 0)).toEqual([2, 1, 0.5, 0.5]);
+      expect(straight.toStraight()).not.toBe(straight);
+    });
+
+    it('premultiply / unpremultiply work on raw arrays', () => {
+      const data = new Float32Array([1, 0.5, 0.25, 0.5, 1, 1, 1, 0]);
+      premultiply(data);
+      expect(Array.from(data)).toEqual([0.5, 0.25, 0.125, 0.5, 0, 0, 0, 0]);
+      unpremultiply(data);
+      expect(Array.from(data)).toEqual([1, 0.5, 0.25, 0.5, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('color space', () => {
+    it('defaults to linear sRGB and carries over to copies', () => {
+      expect(new ColorBuffer(1, 1).colorSpace).toBe('linear-srgb');
+      const buf = new ColorBuffer(2, 2, 32, { colorSpace: 'acescg' });
+      expect(buf.getRegion(0, 0, 1, 1).colorSpace).toBe('acescg');
+      expect(buf.toPremultiplied().colorSpace).toBe('acescg');
+      expect(buf.toStraight().colorSpace).toBe('acescg');
+    });
+
+    it('rejects encoded or unknown spaces', () => {
+      expect(() => new ColorBuffer(1, 1, 32, { colorSpace: 'srgb' as 'linear-srgb' })).toThrow();
+      expect(() => new ColorBuffer(1, 1, 32, { colorSpace: 'xyz' as 'linear-srgb' })).toThrow();
+    });
+
+    it('toColorSpace converts a copy, keeping white white', () => {
+      const buf = new ColorBuffer(2, 1, 64);
+      buf.setPixel(0, 0, 1, 0, 0, 1);
+      buf.setPixel(1, 0, 3, 3, 3, 0.5);
+      const p3 = buf.toColorSpace('linear-p3');
+      expect(p3.colorSpace).toBe('linear-p3');
+      const [r, g, b] = p3.getPixel(0, 0);
+      expect(r).toBeCloseTo(0.8225, 4);
+      expect(g).toBeCloseTo(0.0332, 4);
+      expect(b).toBeCloseTo(0.0171, 4);
+      p3.getPixel(1, 0).forEach((v, i) => expect(v).toBeCloseTo([3, 3, 3, 0.5][i]!, 9));
+      expect(buf.getPixel(0, 0)).toEqual([1, 0, 0, 1]);
+    });
+
+    it('putRegion converts between color spaces', () => {
+      const src = new ColorBuffer(1, 1, 64, { colorSpace: 'linear-p3' });
+      src.setPixel(0, 0, 0.8225, 0.0332, 0.0171, 1);
+      const dst = new ColorBuffer(2, 2, 64);
+      dst.putRegion(1, 1, src);
+      const [r, g, b] = dst.getPixel(1, 1);
+      expect(r).toBeCloseTo(1, 3);
+      expect(g).toBeCloseTo(0, 3);
+      expect(b).toBeCloseTo(0, 3);
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COLOR_SPACES,
+  TRANSFER_FUNCTIONS,
+  IDENTITY_MATRIX,
+  colorSpaceMatrix,
+  rgbToXyzMatrix,
+  invertMatrix,
+  multiplyMatrix,
+  applyColorMatrix,
+  luminanceWeights,
+  resolveColorSpace,
+  resolveWorkingColorSpace,
+  resolveOutputColorSpace,
+  srgbEncode,
+  srgbDecode,
+  rec2020Encode,
+  ADOBE_RGB_GAMMA,
+  type ColorSpace,
+  type Matrix3,
+} from '../core/ColorSpace.js';
+
+function expectMatrixClose(actual: Matrix3, expected: Matrix3, digits = 4): void {
+  expected.forEach((v, i) => expect(actual[i], `m[${i}]`).toBeCloseTo(v, digits));
+}
+
+describe('transfer functions', () => {
+  it('sRGB encodes with the piecewise curve', () => {
+    expect(srgbEncode(0)).toBe(0);
+    expect(srgbEncode(1)).toBeCloseTo(1, 12);
+    expect(srgbEncode(0.5)).toBeCloseTo(0.7354, 4);
+    // Linear segment near black — a plain 2.2 power would give ≈0.0284
+    expect(srgbEncode(0.001)).toBeCloseTo(0.01292, 5);
+  });
+
+  it('round-trips every curve', () => {
+    for (const [name, tf] of Object.entries(TRANSFER_FUNCTIONS)) {
+      for (const v of [0, 0.001, 0.0031308, 0.018, 0.2, 0.5, 1]) {
+        expect(tf.decode(tf.encode(v)), `${name}(${v})`).toBeCloseTo(v, 10);
+      }
+    }
+    expect(srgbDecode(0.04045)).toBeCloseTo(0.04045 / 12.92, 10);
+  });
+
+  it('Adobe RGB is a pure 563/256 power curve', () => {
+    expect(ADOBE_RGB_GAMMA).toBeCloseTo(2.19921875, 10);
+    expect(TRANSFER_FUNCTIONS['adobe-rgb'].encode(0.5)).toBeCloseTo(Math.pow(0.5, 256 / 563), 10);
+    expect(TRANSFER_FUNCTIONS['adobe-rgb'].encode(-1)).toBe(0);
+  });
+
+  it('Rec.2020 is continuous at the knee', () => {
+    const beta = 0.018053968510807;
+    expect(rec2020Encode(beta - 1e-12)).toBeCloseTo(rec2020Encode(beta), 9);
+  });
+});
+
+describe('color space matrices', () => {
+  it('derive the standard sRGB → XYZ matrix', () => {
+    const { primaries, white } = COLOR_SPACES['linear-srgb'];
+    expectMatrixClose(rgbToXyzMatrix(primaries, white), [
+      0.4124, 0.3576, 0.1805,
+      0.2126, 0.7152, 0.0722,
+      0.0193, 0.1192, 0.9505,
+    ]);
+  });
+
+  it('convert linear sRGB to linear Display P3', () => {
+    expectMatrixClose(colorSpaceMatrix('linear-srgb', 'linear-p3'), [
+      0.8225, 0.1774, 0,
+      0.0332, 0.9669, 0,
+      0.0171, 0.0724, 0.9108,
+    ], 3);
+  });
+
+  it('keep white neutral between every pair of spaces', () => {
+    const spaces = Object.keys(COLOR_SPACES) as ColorSpace[];
+    for (const from of spaces) {
+      for (const to of spaces) {
+        const m = colorSpaceMatrix(from, to);
+        for (let r = 0; r < 3; r++) {
+          expect(m[r * 3]! + m[r * 3 + 1]! + m[r * 3 + 2]!, `${from}→${to}`).toBeCloseTo(1, 6);
+        }
+      }
+    }
+  });
+
+  it('are inverses in opposite directions', () => {
+    const there = colorSpaceMatrix('acescg', 'linear-rec2020');
+    const back = colorSpaceMatrix('linear-rec2020', 'acescg');
+    expectMatrixClose(multiplyMatrix(there, back), IDENTITY_MATRIX, 10);
+    expectMatrixClose(invertMatrix(there), back, 10);
+  });
+
+  it('return the identity when only the transfer curve differs', () => {
+    expect(colorSpaceMatrix('linear-srgb', 'srgb')).toBe(IDENTITY_MATRIX);
+    expect(colorSpaceMatrix('linear-p3', 'display-p3')).toBe(IDENTITY_MATRIX);
+  });
+
+  it('applyColorMatrix transforms RGB and leaves alpha', () => {
+    const data = new Float64Array([1, 0, 0, 0.5]);
+    applyColorMatrix(data, colorSpaceMatrix('linear-srgb', 'linear-p3'));
+    expect(data[0]).toBeCloseTo(0.8225, 4);
+    expect(data[1]).toBeCloseTo(0.0332, 4);
+    expect(data[3]).toBe(0.5);
+  });
+
+  it('luminanceWeights gives the Y row of each space', () => {
+    const [r, g, b] = luminanceWeights('srgb');
+    expect(r).toBeCloseTo(0.2126, 4);
+    expect(g).toBeCloseTo(0.7152, 4);
+    expect(b).toBeCloseTo(0.0722, 4);
+    for (const space of ['linear-p3', 'rec2020', 'acescg'] as const) {
+      const w = luminanceWeights(space);
+      expect(w[0] + w[1] + w[2]).toBeCloseTo(1, 6);
+    }
+    expect(luminanceWeights('rec2020')[1]).toBeCloseTo(0.678, 3);
+  });
+});
+
+describe('resolving color spaces', () => {
+  it('rejects unknown names', () => {
+    expect(() => resolveColorSpace('prophoto' as ColorSpace)).toThrow(/Unknown color space/);
+  });
+
+  it('separates working and output spaces', () => {
+    expect(() => resolveWorkingColorSpace('srgb' as 'linear-srgb')).toThrow(/not a linear working/);
+    expect(() => resolveOutputColorSpace('acescg' as 'srgb')).toThrow(/not an output/);
+    expect(resolveWorkingColorSpace('acescg').transfer).toBe('linear');
+    expect(resolveOutputColorSpace('rec2020').transfer).toBe('rec2020');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { convolve, convolveSeparable } from '../filters/Convolution.js';
+import { EDGE_MODES, resolveEdgeMode, resolveRegion, type EdgeMode } from '../filters/EdgeModes.js';
+
+/** 1-row buffer with opaque red values from `values` */
+function row(values: number[], depth: 32 | 64 = 64): ColorBuffer {
+  const buf = new ColorBuffer(values.length, 1, depth);
+  values.forEach((v, x) => buf.setPixel(x, 0, v, 0, 0, 1));
+  return buf;
+}
+
+function reds(buf: ColorBuffer): number[] {
+  const out: number[] = [];
+  for (let x = 0; x < buf.width; x++) out.push(buf.getPixel(x, 0)[0]);
+  return out;
+}
+
+describe('edge modes', () => {
+  it('map out-of-range indices', () => {
+    const n = 4;
+    const at = (mode: EdgeMode) => [-2, -1, 4, 5].map(i => EDGE_MODES[mode](i, n));
+    expect(at('clamp')).toEqual([0, 0, 3, 3]);
+    expect(at('wrap')).toEqual([2, 3, 0, 1]);
+    expect(at('mirror')).toEqual([1, 0, 3, 2]);
+    expect(at('transparent')).toEqual([-1, -1, -1, -1]);
+  });
+
+  it('mirror handles single-pixel images', () => {
+    expect(EDGE_MODES.mirror(-3, 1)).toBe(0);
+    expect(EDGE_MODES.mirror(7, 1)).toBe(0);
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => resolveEdgeMode('nope' as EdgeMode)).toThrow(/Unknown edge mode/);
+  });
+
+  it('validates regions', () => {
+    const buf = new ColorBuffer(4, 4);
+    expect(resolveRegion(buf)).toEqual({ x: 0, y: 0, width: 4, height: 4 });
+    expect(() => resolveRegion(buf, { x: 2, y: 0, width: 3, height: 1 })).toThrow(RangeError);
+    expect(() => resolveRegion(buf, { x: 0, y: 0, width: 0, height: 1 })).toThrow(RangeError);
+  });
+});
+
+describe('convolveSeparable', () => {
+  const kernel = [0.25, 0.5, 0.25];
+
+  it('applies each edge mode at the borders', () => {
+    const expected: Record<EdgeMode, number[]> = {
+      clamp: [1.25, 2, 3, 3.75],
+      wrap: [2, 2, 3, 3],
+      mirror: [1.25, 2, 3, 3.75],
+      transparent: [1, 2, 3, 2.75],
+    };
+    for (const edge of Object.keys(expected) as EdgeMode[]) {
+      const buf = row([1, 2, 3, 4]);
+      // Transparent edges change alpha — compare premultiplied red
+      convolveSeparable(buf, kernel, [1], { edge });
+      const got = [0, 1, 2, 3].map(x => {
+        const [r, , , a] = buf.getPixel(x, 0);
+        return r * a;
+      });
+      got.forEach((v, i) => expect(v, `${edge}[${i}]`).toBeCloseTo(expected[edge][i]!));
+    }
+  });
+
+  it('keeps HDR values and negative lobes unclamped', () => {
+    const buf = row([0, 0, 10, 0, 0]);
+    convolveSeparable(buf, [-1, 3, -1], [1]);
+    expect(reds(buf)).toEqual([0, -10, 30, -10, 0]);
+  });
+
+  it('does not bleed color from transparent pixels', () => {
+    const buf = new ColorBuffer(3, 1, 64);
+    buf.setPixel(0, 0, 1, 0, 0, 1);
+    buf.setPixel(1, 0, 0, 1, 0, 0); // invisible green
+    buf.setPixel(2, 0, 1, 0, 0, 1);
+    convolveSeparable(buf, [1 / 3, 1 / 3, 1 / 3], [1]);
+    const [r, g, , a] = buf.getPixel(1, 0);
+    expect(r).toBeCloseTo(1);
+    expect(g).toBeCloseTo(0);
+    expect(a).toBeCloseTo(2 / 3);
+  });
+
+  it('filters premultiplied buffers directly', () => {
+    const buf = new ColorBuffer(2, 1, 64, { alphaMode: 'premultiplied' });
+    buf.setPixel(0, 0, 0.5, 0, 0, 0.5);
+    buf.setPixel(1, 0, 0, 0, 0, 0);
+    convolveSeparable(buf, [0.5, 0.5], [1], { edge: 'clamp' });
+    // anchor ⌊2/2⌋ = 1: out[x] = 0.5·in[x-1] + 0.5·in[x]
+    expect(buf.getPixel(1, 0)).toEqual([0.25, 0, 0, 0.25]);
+  });
+
+  it('matches full 2D convolution with the outer-product kernel', () => {
+    const a = new ColorBuffer(70, 9, 64); // wider than one vertical-pass strip
+    for (let y = 0; y < 9; y++) {
+      for (let x = 0; x < 70; x++) a.setPixel(x, y, Math.sin(x * 0.7 + y), y * 0.3, x % 3, 1);
+    }
+    const b = new ColorBuffer(70, 9, 64);
+    b.data.set(a.data);
+
+    const kx = [1, 2, 1];
+    const ky = [0.5, 0.3, 0.2];
+    const weights = ky.flatMap(wy => kx.map(wx => wx * wy));
+    convolveSeparable(a, kx, ky, { edge: 'mirror' });
+    convolve(b, { width: 3, height: 3, weights }, { edge: 'mirror' });
+
+    for (let i = 0; i < a.data.length; i++) expect(a.data[i]).toBeCloseTo(b.data[i]!, 9);
+  });
+
+  it('uses the running-sum path for uniform kernels without changing results', () => {
+    const a = new ColorBuffer(20, 20, 64);
+    for (let i = 0; i < a.data.length; i += 4) {
+      a.data[i] = (i * 7919) % 13;
+      a.data[i + 3] = 1;
+    }
+    const b = new ColorBuffer(20, 20, 64);
+    b.data.set(a.data);
+
+    const box = Array(7).fill(1 / 7);
+    convolveSeparable(a, box, box);
+    const weights = Array(49).fill(1 / 49);
+    convolve(b, { width: 7, height: 7, weights });
+
+    for (let i = 0; i < a.data.length; i++) expect(a.data[i]).toBeCloseTo(b.data[i]!, 9);
+  });
+});
+
+describe('convolve', () => {
+  it('applies kernels without flipping', () => {
+    const buf = row([1, 2, 3, 4]);
+    // Weight on the right neighbour shifts content left
+    convolve(buf, { width: 3, height: 1, weights: [0, 0, 1] });
+    expect(reds(buf)).toEqual([2, 3, 4, 4]);
+  });
+
+  it('restricts work to a region whose bounds act as image edges', () => {
+    const buf = new ColorBuffer(5, 1, 64);
+    [9, 1, 2, 3, 9].forEach((v, x) => buf.setPixel(x, 0, v, 0, 0, 1));
+    convolve(buf, { width: 3, height: 1, weights: [1 / 3, 1 / 3, 1 / 3] }, {
+      region: { x: 1, y: 0, width: 3, height: 1 },
+    });
+    const out = reds(buf);
+    expect(out[0]).toBe(9);
+    expect(out[4]).toBe(9);
+    expect(out[1]).toBeCloseTo(4 / 3); // clamp at region edge, not the 9 outside
+    expect(out[2]).toBeCloseTo(2);
+  });
+
+  it('validates kernel shape', () => {
+    const buf = new ColorBuffer(2, 2);
+    expect(() => convolve(buf, { width: 3, height: 3, weights: [1] })).toThrow(RangeError);
+    expect(() => convolve(buf, { width: 0, height: 1, weights: [] })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { unzlibSync } from 'fflate';
+import { EXRExporter, toHalf, fromHalf, type EXRExportOptions } from '../export/EXRExporter.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+
+// ─── Minimal EXR reader (scanline, NONE/ZIPS/ZIP) ────────────────────
+
+interface DecodedEXR {
+  attributes: Map<string, { type: string; value: Uint8Array }>;
+  offsets: number[];
+  /** RGBA, as stored (premultiplied) */
+  pixels: Float64Array;
+}
+
+function readEXR(file: Uint8Array): DecodedEXR {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  expect(view.getUint32(0, true)).toBe(20000630);
+  expect(view.getUint32(4, true)).toBe(2);
+
+  let p = 8;
+  const cstr = (): string => {
+    const end = file.indexOf(0, p);
+    const s = String.fromCharCode(...file.subarray(p, end));
+    p = end + 1;
+    return s;
+  };
+  const attributes = new Map<string, { type: string; value: Uint8Array }>();
+  while (file[p] !== 0) {
+    const name = cstr();
+    const type = cstr();
+    const size = view.getInt32(p, true);
+    attributes.set(name, { type, value: file.subarray(p + 4, p + 4 + size) });
+    p += 4 + size;
+  }
+  p++;
+
+  const box = new DataView(attributes.get('dataWindow')!.value.slice().buffer);
+  const width = box.getInt32(8, true) + 1;
+  const height = box.getInt32(12, true) + 1;
+  const compression = attributes.get('compression')!.value[0]!;
+  const pixelType = new DataView(attributes.get('channels')!.value.slice().buffer).getInt32(2, true);
+  const bytes = pixelType === 1 ? 2 : 4;
+  const linesPerBlock = compression === 3 ? 16 : 1;
+  const blockCount = Math.ceil(height / linesPerBlock);
+
+  const offsets: number[] = [];
+  for (let i = 0; i < blockCount; i++) offsets.push(Number(view.getBigUint64(p + i * 8, true)));
+
+  const pixels = new Float64Array(width * height * 4);
+  const lineBytes = width * 4 * bytes;
+  for (const offset of offsets) {
+    const y0 = view.getInt32(offset, true);
+    const size = view.getInt32(offset + 4, true);
+    const lines = Math.min(linesPerBlock, height - y0);
+    let data = file.subarray(offset + 8, offset + 8 + size);
+    if (compression !== 0 && size < lines * lineBytes) data = unzip(data);
+    const dv = new DataView(data.slice().buffer);
+    for (let l = 0; l < lines; l++) {
+      ['A', 'B', 'G', 'R'].forEach((_, ci) => {
+        const channel = 3 - ci; // A→3, B→2, G→1, R→0
+        for (let x = 0; x < width; x++) {
+          const o = l * lineBytes + (ci * width + x) * bytes;
+          const v = bytes === 2 ? fromHalf(dv.getUint16(o, true)) : dv.getFloat32(o, true);
+          pixels[((y0 + l) * width + x) * 4 + channel] = v;
+        }
+      });
+    }
+  }
+  return { attributes, offsets, pixels };
+}
+
+function unzip(data: Uint8Array): Uint8Array {
+  const t = unzlibSync(data);
+  for (let i = 1; i < t.length; i++) t[i] = (t[i - 1]! + t[i]! - 128) & 0xff;
+  const out = new Uint8Array(t.length);
+  const half = (t.length + 1) >> 1;
+  for (let i = 0, a = 0, b = half; i < t.length; i += 2) {
+    out[i] = t[a++]!;
+    if (i + 1 < t.length) out[i + 1] = t[b++]!;
+  }
+  return out;
+}
+
+function floats(bytes: Uint8Array): number[] {
+  const view = new DataView(bytes.slice().buffer);
+  return Array.from({ length: bytes.length / 4 }, (_, i) => view.getFloat32(i * 4, true));
+}
+
+function hdrBuffer(width: number, height: number): ColorBuffer {
+  const buf = new ColorBuffer(width, height, 32, { alphaMode: 'premultiplied' });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      buf.setPixel(x, y, x * 0.37, y * 2.5, (x + y) / 7, 1);
+    }
+  }
+  return buf;
+}
+
+// ─── Half floats ─────────────────────────────────────────────────────
+
+describe('half floats', () => {
+  it('convert exactly representable values', () => {
+    for (const v of [0, 1, -2, 0.5, 65504, 2 ** -14, 2 ** -24]) {
+      expect(fromHalf(toHalf(v))).toBe(v);
+    }
+    expect(toHalf(1)).toBe(0x3c00);
+    expect(toHalf(-0)).toBe(0x8000);
+  });
+
+  it('round to nearest even', () => {
+    expect(toHalf(1 + 2 ** -11)).toBe(0x3c00); // tie → even
+    expect(toHalf(1 + 3 * 2 ** -11)).toBe(0x3c02); // tie → even (up)
+    expect(fromHalf(toHalf(0.1))).toBeCloseTo(0.1, 3);
+  });
+
+  it('handle overflow, underflow and NaN', () => {
+    expect(fromHalf(toHalf(1e6))).toBe(Infinity);
+    expect(fromHalf(toHalf(-Infinity))).toBe(-Infinity);
+    expect(fromHalf(toHalf(65520))).toBe(Infinity); // rounds up past the max
+    expect(toHalf(1e-10)).toBe(0);
+    expect(Number.isNaN(fromHalf(toHalf(NaN)))).toBe(true);
+  });
+});
+
+// ─── EXRExporter ─────────────────────────────────────────────────────
+
+describe('EXRExporter', () => {
+  const exporter = new EXRExporter();
+  const exportEXR = (buf: ColorBuffer, options: Partial<EXRExportOptions> = {}) =>
+    exporter.export(buf, { dpi: 300, ...options });
+
+  it('writes the required header attributes', () => {
+    const { data, mimeType, filename } = exportEXR(hdrBuffer(3, 2));
+    const { attributes } = readEXR(data);
+    for (const name of [
+      'channels', 'compression', 'dataWindow', 'displayWindow',
+      'lineOrder', 'pixelAspectRatio', 'screenWindowCenter', 'screenWindowWidth',
+    ]) {
+      expect(attributes.has(name), name).toBe(true);
+    }
+    expect(attributes.get('channels')!.type).toBe('chlist');
+    expect(floats(attributes.get('xDensity')!.value)).toEqual([300]);
+    expect(mimeType).toBe('image/x-exr');
+    expect(filename).toBe('artwork-3x2-300dpi.exr');
+  });
+
+  it('records the working color space as chromaticities', () => {
+    const buf = new ColorBuffer(1, 1, 32, { colorSpace: 'acescg' });
+    const c = floats(readEXR(exportEXR(buf).data).attributes.get('chromaticities')!.value);
+    expect(c[0]).toBeCloseTo(0.713, 5);
+    expect(c[6]).toBeCloseTo(0.32168, 5);
+  });
+
+  it('round-trips full floats losslessly with every compression', () => {
+    const buf = hdrBuffer(7, 37);
+    for (const compression of ['none', 'zips', 'zip'] as const) {
+      const { pixels, offsets } = readEXR(exportEXR(buf, { pixelType: 'float', compression }).data);
+      expect(offsets.length, compression).toBe(compression === 'zip' ? 3 : 37);
+      expect(Array.from(pixels), compression).toEqual(Array.from(buf.data));
+    }
+  });
+
+  it('stores half floats within half precision, keeping HDR values', () => {
+    const buf = hdrBuffer(5, 20);
+    const { pixels } = readEXR(exportEXR(buf).data);
+    for (let i = 0; i < buf.data.length; i++) {
+      expect(Math.abs(pixels[i]! - buf.data[i]!)).toBeLessThanOrEqual(Math.abs(buf.data[i]!) * 2 ** -11);
+    }
+    expect(Math.max(...pixels)).toBeGreaterThan(40);
+  });
+
+  it('compresses smooth images', () => {
+    const buf = new ColorBuffer(64, 64, 32);
+    buf.clear(0.5, 0.25, 0.125, 1);
+    const raw = exportEXR(buf, { compression: 'none' }).data.length;
+    expect(exportEXR(buf, { compression: 'zip' }).data.length).toBeLessThan(raw / 10);
+    expect(exportEXR(buf, { compression: 'zips' }).data.length).toBeLessThan(raw / 4);
+  });
+
+  it('premultiplies straight alpha', () => {
+    const buf = new ColorBuffer(1, 1, 64);
+    buf.setPixel(0, 0, 2, 1, 0.5, 0.5);
+    const { pixels } = readEXR(exportEXR(buf, { pixelType: 'float' }).data);
+    expect(Array.from(pixels)).toEqual([1, 0.5, 0.25, 0.5]);
+  });
+
+  it('rejects unknown options', () => {
+    const buf = hdrBuffer(1, 1);
+    expect(() => exportEXR(buf, { pixelType: 'uint' as 'half' })).toThrow(/Unknown EXR pixel type/);
+    expect(() => exportEXR(buf, { compression: 'piz' as 'zip' })).toThrow(/Unknown EXR compression/);
+    expect(() => exportEXR(buf, { dpi: 0 })).toThrow(/DPI must be positive/);
+  });
+});
@@ -2,12 +2,20 @@ import { describe, it, expect, vi } from 'vitest';
 import { decode } from 'fast-png';
 import {
   exportBuffer,
+  exportBufferAsync,
   attachExportPipeline,
+  ExportAbortedError,
+  EXPORT_PHASES,
+  type ExportPhase,
   generateFilename,
   type ExportableCanvas,
   type ExportOptions,
+  type ExportPipelineOptions,
 } from '../export/ExportPipeline.js';
 import { ColorBuffer, type IColorBuffer } from '../core/ColorBuffer.js';
+import { LayerStack } from '../core/LayerStack.js';
+import { readPNGMetadata } from '../export/PNGMetadata.js';
+import { loadHDR } from '../export/RadianceHDR.js';
 
 // ─── Helper: create a test buffer with known HDR content ─────────────
 
@@ -78,6 +86,59 @@ describe('exportBuffer', () => {
     const blobReinhard = exportBuffer(buf, { dpi: 300, toneMap: 'reinhard', gamma: 1 });
     const decodedReinhard = decode(new Uint8Array(await blobReinhard.arrayBuffer()));
     expect(decodedReinhard.data[0]).toBe(170);
+
+    // extended reinhard with white point 2: 2.0 → 1.0 → 255
+    const blobExtended = exportBuffer(buf, {
+      dpi: 300,
+      toneMap: { algorithm: 'reinhard-extended', whitePoint: 2 },
+      gamma: 1,
+    });
+    expect(decode(new Uint8Array(await blobExtended.arrayBuffer())).data[0]).toBe(255);
+
+    // AgX mixes channels: pure red picks up some green
+    const blobAgX = exportBuffer(buf, { dpi: 300, toneMap: { algorithm: 'agx', look: 'punchy' } });
+    expect(decode(new Uint8Array(await blobAgX.arrayBuffer())).data[1]).toBeGreaterThan(0);
+  });
+
+  it('picks the exposure automatically, with exposure as compensation', async () => {
+    const buf = new ColorBuffer(2, 2, 32);
+    for (let i = 0; i < 4; i++) buf.setPixel(i % 2, i >> 1, 0.36, 0.36, 0.36, 1);
+    const red = async (options: ExportOptions) =>
+      decode(new Uint8Array(await exportBuffer(buf, { dpi: 300, toneMap: 'clamp', gamma: 1, ...options }).arrayBuffer())).data[0];
+
+    // 0.36 → middle grey 0.18 → 46
+    expect(await red({ autoExposure: true })).toBe(46);
+    expect(await red({ autoExposure: true, exposure: 1 })).toBe(92);
+    expect(await red({ autoExposure: { middleGrey: 0.5 } })).toBe(128);
+  });
+
+  it('respects toneMapMode and highlightDesaturation', async () => {
+    const buf = new ColorBuffer(1, 1, 32);
+    buf.setPixel(0, 0, 10, 5, 0, 1);
+    const pixel = async (options: ExportOptions) =>
+      Array.from(decode(new Uint8Array(await exportBuffer(buf, { dpi: 300, gamma: 1, ...options }).arrayBuffer())).data.slice(0, 3));
+
+    // max-rgb keeps the 2:1 ratio; per channel, both channels saturate
+    expect(await pixel({ toneMapMode: 'max-rgb' })).toEqual([232, 116, 0]);
+    expect(await pixel({})).toEqual([232, 212, 0]);
+    const desaturated = await pixel({ toneMapMode: 'max-rgb', highlightDesaturation: 1 });
+    expect(desaturated[2]).toBeGreaterThan(0);
+    expect(() => exportBuffer(buf, { dpi: 300, highlightDesaturation: 2 })).toThrow(RangeError);
+  });
+
+  it('dithers the quantization', async () => {
+    const buf = new ColorBuffer(16, 16, 32);
+    buf.clear(60.5 / 255, 60.5 / 255, 60.5 / 255, 1);
+    const reds = async (options: ExportOptions) => {
+      const { data } = decode(new Uint8Array(await exportBuffer(buf, { dpi: 300, toneMap: 'clamp', gamma: 1, ...options }).arrayBuffer()));
+      return Array.from(data).filter((_, i) => i % 4 === 0);
+    };
+
+    expect(new Set(await reds({}))).toEqual(new Set([61]));
+    const dithered = await reds({ dither: 'ordered' });
+    expect(new Set(dithered)).toEqual(new Set([60, 61]));
+    expect(dithered.reduce((sum, v) => sum + v, 0) / dithered.length).toBeCloseTo(60.5, 2);
+    expect(() => exportBuffer(buf, { dpi: 300, dither: 'dots' as 'ordered' })).toThrow(/Unknown dither method/);
   });
 
   it('respects exposure option', async () => {
@@ -137,17 +198,225 @@ describe('exportBuffer', () => {
 
     expect(progress).toContain(0);
     expect(progress).toContain(50);
-    expect(progress).toContain(90);
     expect(progress).toContain(100);
+    expect(progress.at(-1)).toBe(100);
     // Should be in order
     for (let i = 1; i < progress.length; i++) {
       expect(progress[i]).toBeGreaterThanOrEqual(progress[i - 1]);
     }
   });
 
+  it('reports per-strip progress with its phase', () => {
+    const buf = makeTestBuffer(1024, 600);
+    const progress: [number, ExportPhase][] = [];
+    exportBuffer(buf, { dpi: 300, onProgress: (p, phase) => progress.push([p, phase]) });
+
+    expect(progress[0]).toEqual([0, 'tone-map']);
+    expect(progress.at(-1)).toEqual([100, 'done']);
+    // 600 rows = 3 strips of 256 rows, for tone mapping and encoding each
+    expect(progress.filter(([, phase]) => phase === 'tone-map')).toHaveLength(3);
+    expect(progress.filter(([, phase]) => phase === 'encode').length).toBeGreaterThan(3);
+    expect(progress.filter(([, phase]) => phase === 'metadata')).toEqual([[90, 'metadata']]);
+    expect(progress.filter(([, phase]) => phase === 'done')).toEqual([[100, 'done']]);
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i]![0]).toBeGreaterThanOrEqual(progress[i - 1]![0]);
+      expect(EXPORT_PHASES.indexOf(progress[i]![1])).toBeGreaterThanOrEqual(EXPORT_PHASES.indexOf(progress[i - 1]![1]));
+    }
+  });
+
+  it('stops when the signal is aborted', () => {
+    const controller = new AbortController();
+    const progress: number[] = [];
+    const run = () => exportBuffer(makeTestBuffer(1024, 600), {
+      dpi: 300,
+      signal: controller.signal,
+      onProgress: (p) => {
+        progress.push(p);
+        if (p >= 50) controller.abort('user cancelled');
+      },
+    });
+    expect(run).toThrow(ExportAbortedError);
+    expect(progress).not.toContain(100);
+  });
+
+  it('encodes every format in steps that can be stopped', () => {
+    const buf = makeTestBuffer(512, 300);
+    const formats: Omit<ExportPipelineOptions, 'dpi'>[] = [
+      { format: 'tiff' },
+      { format: 'tiff', cmyk: {} },
+      { format: 'tiff', bitDepth: 32 },
+      { format: 'pdf' },
+      { format: 'exr' },
+      { format: 'hdr' },
+    ];
+    for (const options of formats) {
+      const encode: number[] = [];
+      const metadata: number[] = [];
+      exportBuffer(buf, {
+        ...options,
+        dpi: 300,
+        onProgress: (p, phase) => (phase === 'encode' ? encode : phase === 'metadata' ? metadata : []).push(p),
+      });
+      expect(encode.length, JSON.stringify(options)).toBeGreaterThan(2);
+      expect(encode.at(-1)).toBeLessThanOrEqual(90);
+      expect(metadata).toEqual([90]);
+
+      const controller = new AbortController();
+      const progress: number[] = [];
+      const run = () => exportBuffer(buf, {
+        ...options,
+        dpi: 300,
+        signal: controller.signal,
+        onProgress: (p, phase) => {
+          progress.push(p);
+          if (phase === 'encode' && p > encode[0]!) controller.abort();
+        },
+      });
+      expect(run, JSON.stringify(options)).toThrow(ExportAbortedError);
+      expect(progress.at(-1)).toBeLessThan(100);
+    }
+  });
+
+  it('blooms in steps before tone mapping', () => {
+    const progress: [number, ExportPhase][] = [];
+    exportBuffer(makeTestBuffer(1024, 600), {
+      dpi: 300,
+      bloom: { radius: 8 },
+      onProgress: (p, phase) => progress.push([p, phase]),
+    });
+    const bloom = progress.filter(([, phase]) => phase === 'bloom').map(([p]) => p);
+    expect(bloom.length).toBeGreaterThan(3);
+    expect(bloom.at(-1)).toBe(20);
+    expect(progress.find(([, phase]) => phase === 'tone-map')).toEqual([20, 'tone-map']);
+  });
+
+  it('exports 16-bit PNGs', async () => {
+    const buf = new ColorBuffer(2, 1, 32);
+    buf.setPixel(0, 0, 1.0, 0.0, 0.0, 1.0); // reinhard(1.0) = 0.5
+    buf.setPixel(1, 0, 0.001, 0.0, 0.0, 1.0);
+
+    const blob = exportBuffer(buf, { dpi: 300, gamma: 1, bitDepth: 16 });
+    const decoded = decode(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(decoded.depth).toBe(16);
+    expect(decoded.data).toBeInstanceOf(Uint16Array);
+    expect(decoded.data[0]).toBe(32768);
+    // A shade 8-bit output rounds to 0
+    expect(decoded.data[4]).toBe(65);
+  });
+
+  it('rejects unsupported bit depths', () => {
+    const buf = makeTestBuffer(2, 2);
+    expect(() => exportBuffer(buf, { dpi: 300, bitDepth: 12 as 8 }))
+      .toThrow(/Output depth must be 8 or 16/);
+  });
+
+  it('exports the raw float buffer as OpenEXR', async () => {
+    const buf = new ColorBuffer(2, 2, 32);
+    buf.setPixel(0, 0, 8, 0.5, 0, 1);
+    const progress: number[] = [];
+
+    const blob = exportBuffer(buf, {
+      dpi: 300,
+      format: 'exr',
+      exr: { pixelType: 'float', compression: 'none' },
+      onProgress: p => progress.push(p),
+    });
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    expect(blob.type).toBe('image/x-exr');
+    expect(view.getUint32(0, true)).toBe(20000630);
+    // Uncompressed: the last block is y = 1, the first block holds y = 0 —
+    // its R channel (after A, B, G) carries the untouched HDR value
+    const firstBlock = bytes.length - 2 * (8 + 2 * 4 * 4);
+    expect(view.getInt32(firstBlock, true)).toBe(0);
+    expect(view.getFloat32(firstBlock + 8 + 3 * 2 * 4, true)).toBe(8);
+    // One step per scanline block, then the header and offset table
+    expect(progress).toEqual([0, 45, 90, 100]);
+  });
+
+  it('exports Radiance HDR', async () => {
+    const buf = new ColorBuffer(2, 1, 32);
+    buf.setPixel(0, 0, 8, 0.5, 0, 1);
+    const blob = exportBuffer(buf, { dpi: 300, format: 'hdr', toneMap: 'clamp' });
+    expect(blob.type).toBe('image/vnd.radiance');
+    const loaded = loadHDR(new Uint8Array(await blob.arrayBuffer()));
+    expect(loaded.getPixel(0, 0)[0]).toBeCloseTo(8, 1);
+  });
+
+  it('exports tone-mapped TIFF with an ICC profile', async () => {
+    const buf = new ColorBuffer(2, 2, 32);
+    buf.setPixel(0, 0, 1, 0, 0, 1);
+    const blob = exportBuffer(buf, { dpi: 300, format: 'tiff', colorSpace: 'srgb', bitDepth: 16 });
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    expect(blob.type).toBe('image/tiff');
+    expect(String.fromCharCode(bytes[0]!, bytes[1]!)).toBe('II');
+    const text = new TextDecoder('latin1').decode(bytes);
+    expect(text).toContain('sRGB IEC61966-2.1'.split('').join('\0'));
+  });
+
+  it('exports float TIFF with a linear working-space profile', async () => {
+    const buf = new ColorBuffer(2, 2, 32, { colorSpace: 'linear-p3' });
+    buf.setPixel(1, 1, 12.5, 0, 0, 1);
+    const blob = exportBuffer(buf, { dpi: 300, format: 'tiff', bitDepth: 32, tiff: { compression: 'none' } });
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const text = new TextDecoder('latin1').decode(bytes);
+    expect(text).toContain('Linear Display P3'.split('').join('\0'));
+    // Uncompressed strip holds the untouched float
+    const floats = new Float32Array(bytes.slice(bytes.length - 64).buffer);
+    expect(floats[12]).toBe(12.5);
+  });
+
+  it('exports a PDF page with bleed and metadata', async () => {
+    const buf = makeTestBuffer(4, 4);
+    const blob = exportBuffer(buf, {
+      dpi: 300,
+      format: 'pdf',
+      pdf: { pageSize: { widthMM: 100, heightMM: 50 }, bleedMM: 5 },
+      metadata: { Title: 'Test' },
+    });
+    expect(blob.type).toBe('application/pdf');
+    const text = new TextDecoder('latin1').decode(await blob.arrayBuffer());
+    expect(text).toContain('/TrimBox [14.1732 14.1732 297.6378 155.9055]');
+    expect(text).toContain('/Title (Test)');
+  });
+
+  it('separates into a CMYK TIFF', async () => {
+    const buf = new ColorBuffer(2, 1, 32);
+    buf.setPixel(0, 0, 0, 0, 0, 1);
+    buf.setPixel(1, 0, 1, 1, 1, 1);
+    const blob = exportBuffer(buf, { dpi: 300, format: 'tiff', toneMap: 'clamp', cmyk: {}, tiff: { compression: 'none' } });
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    expect(blob.type).toBe('image/tiff');
+    // Black → K only; white → no ink
+    expect(Array.from(bytes.slice(bytes.length - 8))).toEqual([0, 0, 0, 255, 0, 0, 0, 0]);
+  });
+
+  it('rejects CMYK output for formats other than 8/16-bit TIFF', () => {
+    const buf = makeTestBuffer(2, 2);
+    expect(() => exportBuffer(buf, { dpi: 300, cmyk: {} })).toThrow(/CMYK output requires format 'tiff'/);
+    expect(() => exportBuffer(buf, { dpi: 300, format: 'tiff', bitDepth: 32, cmyk: {} }))
+      .toThrow(/CMYK output requires/);
+  });
+
+  it('rejects gamma with a color space, whose tags would not match the pixels', () => {
+    const buf = makeTestBuffer(2, 2);
+    for (const format of ['png', 'tiff', 'pdf'] as const) {
+      expect(() => exportBuffer(buf, { dpi: 300, format, gamma: 1, colorSpace: 'display-p3' }))
+        .toThrow(/gamma cannot be combined with colorSpace "display-p3"/);
+    }
+    expect(exportBuffer(buf, { dpi: 300, format: 'exr', gamma: 1, colorSpace: 'srgb' }).type).toBe('image/x-exr');
+  });
+
+  it('rejects 32-bit output for formats other than TIFF', () => {
+    const buf = makeTestBuffer(2, 2);
+    expect(() => exportBuffer(buf, { dpi: 300, bitDepth: 32 })).toThrow(/only supported for format 'tiff'/);
+  });
+
   it('rejects unsupported format', () => {
     const buf = makeTestBuffer(2, 2);
-    expect(() => exportBuffer(buf, { dpi: 300, format: 'tiff' as any }))
+    expect(() => exportBuffer(buf, { dpi: 300, format: 'webp' as any }))
       .toThrow(/Unsupported export format/);
   });
 
@@ -156,10 +425,100 @@ describe('exportBuffer', () => {
     const blob = exportBuffer(buf, { dpi: 300 });
     expect(blob.size).toBeGreaterThan(0);
   });
+
+  it('exports the composite of a layer stack', async () => {
+    const stack = new LayerStack(1, 1);
+    stack.addLayer('base').buffer.setPixel(0, 0, 0.25, 0, 0, 1);
+    stack.addLayer('glow', { blendMode: 'add' }).buffer.setPixel(0, 0, 0.25, 0, 0, 1);
+
+    const blob = exportBuffer(stack, { dpi: 300, toneMap: 'clamp', gamma: 1 });
+    const decoded = decode(new Uint8Array(await blob.arrayBuffer()));
+    expect(decoded.data[0]).toBe(128);
+  });
+
+  it('encodes and tags the output color space', async () => {
+    const buf = new ColorBuffer(1, 1, 32, { colorSpace: 'linear-p3' });
+    buf.setPixel(0, 0, 0.5, 0, 0, 1);
+    const bytes = new Uint8Array(
+      await exportBuffer(buf, { dpi: 300, toneMap: 'clamp', colorSpace: 'display-p3' }).arrayBuffer()
+    );
+    expect(decode(bytes).data[0]).toBe(188); // piecewise sRGB curve, no primaries change
+    expect(new TextDecoder().decode(bytes)).toContain('cHRM');
+  });
+
+  it('writes text metadata', async () => {
+    const buf = new ColorBuffer(1, 1, 32);
+    const bytes = new Uint8Array(
+      await exportBuffer(buf, { dpi: 300, metadata: { Title: 'Test', Params: { seed: 7 } } }).arrayBuffer()
+    );
+    expect(readPNGMetadata(bytes)).toEqual({ Title: 'Test', Params: '{"seed":7}' });
+  });
+
+  it('embeds an ICC profile', async () => {
+    const buf = new ColorBuffer(1, 1, 32);
+    const bytes = new Uint8Array(
+      await exportBuffer(buf, { dpi: 300, colorSpace: 'adobe-rgb' }).arrayBuffer()
+    );
+    const text = new TextDecoder('latin1').decode(bytes);
+    expect(text).toContain('iCCP');
+    expect(text).toContain('Adobe RGB (1998) compatible');
+  });
+
+  it('applies bloom to a copy without touching the buffer', async () => {
+    const buf = new ColorBuffer(16, 16, 32);
+    buf.clear(0, 0, 0, 1);
+    buf.setPixel(8, 8, 50, 50, 50, 1);
+    const before = buf.data.slice();
+
+    const plain = decode(new Uint8Array(await exportBuffer(buf, { dpi: 300 }).arrayBuffer()));
+    const bloomed = decode(new Uint8Array(
+      await exportBuffer(buf, { dpi: 300, bloom: { radius: 4, intensity: 1 } }).arrayBuffer()
+    ));
+
+    const near = (5 * 16 + 8) * 4; // 3 px above the hot pixel
+    expect(plain.data[near]).toBe(0);
+    expect(bloomed.data[near]).toBeGreaterThan(0);
+    expect(buf.data).toEqual(before);
+  });
 });
 
 // ─── attachExportPipeline ────────────────────────────────────────────
 
+describe('exportBufferAsync', () => {
+  it('produces the same file as exportBuffer', async () => {
+    const buf = makeTestBuffer(16, 16);
+    for (const format of ['png', 'tiff', 'exr'] as const) {
+      const a = new Uint8Array(await exportBuffer(buf, { dpi: 300, format }).arrayBuffer());
+      const b = new Uint8Array(await (await exportBufferAsync(buf, { dpi: 300, format })).arrayBuffer());
+      expect(b).toEqual(a);
+    }
+  });
+
+  it('yields to the event loop while working', async () => {
+    let ticked = false;
+    setTimeout(() => { ticked = true; }, 0);
+    await exportBufferAsync(makeTestBuffer(1024, 512), { dpi: 300 });
+    expect(ticked).toBe(true);
+  });
+
+  it('rejects with an ExportAbortedError carrying the reason', async () => {
+    const controller = new AbortController();
+    controller.abort('too slow');
+    const error = await exportBufferAsync(makeTestBuffer(2, 2), { dpi: 300, signal: controller.signal })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ExportAbortedError);
+    expect((error as Error).name).toBe('AbortError');
+    expect((error as Error).cause).toBe('too slow');
+  });
+
+  it('can be aborted while running', async () => {
+    const controller = new AbortController();
+    const promise = exportBufferAsync(makeTestBuffer(1024, 512), { dpi: 300, signal: controller.signal });
+    setTimeout(() => controller.abort(), 0);
+    await expect(promise).rejects.toBeInstanceOf(ExportAbortedError);
+  });
+});
+
 describe('attachExportPipeline', () => {
   it('registers an export function on the canvas', () => {
     const canvas = makeMockCanvas(4, 4);
@@ -219,6 +578,28 @@ describe('attachExportPipeline', () => {
     }
   });
 
+  it('sizes PDF pages from the canvas paper size', async () => {
+    const canvas: ExportableCanvas & { exportFn: any } = {
+      buffer: makeTestBuffer(2, 2),
+      dpi: 300,
+      paperMM: { widthMM: 25.4, heightMM: 50.8 },
+      exportFn: null,
+      setExportFn(fn) { this.exportFn = fn; },
+    };
+    attachExportPipeline(canvas);
+
+    const blob = await canvas.exportFn(canvas.buffer, { format: 'pdf' });
+    const text = new TextDecoder('latin1').decode(await blob.arrayBuffer());
+    expect(text).toContain('/MediaBox [0 0 72 144]');
+  });
+
+  it('passes the abort signal through', async () => {
+    const canvas = makeMockCanvas(4, 4);
+    attachExportPipeline(canvas);
+    await expect(canvas.exportFn(canvas.buffer, { signal: AbortSignal.abort() }))
+      .rejects.toBeInstanceOf(ExportAbortedError);
+  });
+
   it('forwards progress callback', async () => {
     const canvas = makeMockCanvas(4, 4);
     const progress: number[] = [];
@@ -241,6 +622,10 @@ describe('generateFilename', () => {
   it('accepts custom prefix', () => {
     expect(generateFilename(2480, 3508, 300, 'flow-field')).toBe('flow-field-2480x3508-300dpi.png');
   });
+
+  it('accepts a file extension', () => {
+    expect(generateFilename(100, 100, 300, 'master', 'exr')).toBe('master-100x100-300dpi.exr');
+  });
 });
 
 // ─── End-to-end integration test ─────────────────────────────────────
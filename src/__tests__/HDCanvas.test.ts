@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { HDCanvas } from '../core/HDCanvas.js';
+import { Path } from '../draw/Path.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
 
 describe('HDCanvas', () => {
   describe('construction', () => {
@@ -50,6 +52,25 @@ describe('HDCanvas', () => {
       expect(canvas.memoryBytes).toBe(2480 * 3508 * 4 * 4);
     });
 
+    it('defaults to straight alpha and accepts premultiplied', () => {
+      const size = { widthMM: 25.4, heightMM: 25.4 };
+      expect(new HDCanvas({ paperSize: size, dpi: 10 }).buffer.alphaMode).toBe('straight');
+
+      const canvas = new HDCanvas({ paperSize: size, dpi: 10, alphaMode: 'premultiplied' });
+      expect(canvas.alphaMode).toBe('premultiplied');
+      expect(canvas.buffer.alphaMode).toBe('premultiplied');
+    });
+
+    it('declares a working color space for every layer', () => {
+      const size = { widthMM: 25.4, heightMM: 25.4 };
+      expect(new HDCanvas({ paperSize: size, dpi: 10 }).colorSpace).toBe('linear-srgb');
+
+      const canvas = new HDCanvas({ paperSize: size, dpi: 10, colorSpace: 'linear-p3' });
+      expect(canvas.buffer.colorSpace).toBe('linear-p3');
+      expect(canvas.addLayer('ink').buffer.colorSpace).toBe('linear-p3');
+      expect(canvas.withDpi(20).getLayer('ink').buffer.colorSpace).toBe('linear-p3');
+    });
+
     it('stores paper dimensions in mm', () => {
       const canvas = new HDCanvas({ paperSize: 'A4' });
       expect(canvas.paperMM.widthMM).toBe(210);
@@ -109,6 +130,178 @@ describe('HDCanvas', () => {
       canvas.putRegion(5, 5, region);
       expect(canvas.getPixel(5, 5)).toEqual([1, 0, 0, 1]);
     });
+
+    it('splat delegates to buffer', () => {
+      const canvas = new HDCanvas({
+        paperSize: { widthMM: 25.4, heightMM: 25.4 },
+        dpi: 10,
+      });
+      canvas.clear(0, 0, 0, 1);
+      canvas.splat(3, 3.5, 1, 0, 0, 1);
+      expect(canvas.getPixel(2, 3)[0]).toBeCloseTo(0.5);
+      expect(canvas.getPixel(3, 3)[0]).toBeCloseTo(0.5);
+    });
+
+    it('fillPath/strokePath rasterize into the buffer', () => {
+      const canvas = new HDCanvas({
+        paperSize: { widthMM: 25.4, heightMM: 25.4 },
+        dpi: 10,
+      });
+      canvas.fillPath(new Path().rect(1, 1, 3, 3), [2, 0, 0, 1]);
+      expect(canvas.getPixel(2, 2)[0]).toBeCloseTo(2);
+
+      canvas.strokePath(new Path().moveTo(0, 7.5).lineTo(10, 7.5), [0, 1, 0, 1], { width: 1 });
+      expect(canvas.getPixel(5, 7)[1]).toBeCloseTo(1);
+      expect(canvas.getPixel(5, 6)[3]).toBe(0);
+    });
+  });
+
+  describe('layers', () => {
+    it('starts with the background layer backed by buffer', () => {
+      const canvas = new HDCanvas({ paperSize: { widthMM: 25.4, heightMM: 25.4 }, dpi: 10 });
+      expect(canvas.layers.length).toBe(1);
+      expect(canvas.getLayer('background').buffer).toBe(canvas.buffer);
+    });
+
+    it('adds, moves and removes layers', () => {
+      const canvas = new HDCanvas({ paperSize: { widthMM: 25.4, heightMM: 25.4 }, dpi: 10 });
+      const glow = canvas.addLayer('glow', { blendMode: 'add', opacity: 0.5 });
+      expect(glow.buffer.width).toBe(10);
+      canvas.addLayer('ink');
+      canvas.moveLayer('ink', 1);
+      expect(canvas.layers.layers.map(l => l.name)).toEqual(['background', 'ink', 'glow']);
+      canvas.removeLayer('ink');
+      expect(canvas.layers.length).toBe(2);
+      expect(() => canvas.removeLayer('background')).toThrow(/cannot be removed/);
+    });
+
+    it('flatten composites without touching layers', () => {
+      const canvas = new HDCanvas({ paperSize: { widthMM: 25.4, heightMM: 25.4 }, dpi: 10 });
+      canvas.clear(0.5, 0.5, 0.5, 1);
+      canvas.addLayer('glow', { blendMode: 'add' }).buffer.setPixel(0, 0, 1, 0, 0, 1);
+
+      const flat = canvas.flatten();
+      expect(flat.getPixel(0, 0)[0]).toBeCloseTo(1.5);
+      expect(canvas.getPixel(0, 0)[0]).toBeCloseTo(0.5);
+    });
+
+    it('export receives the composite', async () => {
+      const canvas = new HDCanvas({ paperSize: { widthMM: 25.4, heightMM: 25.4 }, dpi: 10 });
+      canvas.clear(0.5, 0.5, 0.5, 1);
+      canvas.addLayer('glow', { blendMode: 'add' }).buffer.setPixel(0, 0, 1, 0, 0, 1);
+
+      const exportFn = vi.fn().mockResolvedValue(new Blob(['x']));
+      canvas.setExportFn(exportFn);
+      await canvas.export();
+
+      const exported = exportFn.mock.calls[0]![0];
+      expect(exported).not.toBe(canvas.buffer);
+      expect(exported.getPixel(0, 0)[0]).toBeCloseTo(1.5);
+    });
+
+    it('export receives a snapshot that later edits leave alone', async () => {
+      const canvas = new HDCanvas({ paperSize: { widthMM: 25.4, heightMM: 25.4 }, dpi: 10 });
+      canvas.clear(0.5, 0.5, 0.5, 1);
+      const exportFn = vi.fn().mockResolvedValue(new Blob(['x']));
+      canvas.setExportFn(exportFn);
+      await canvas.export();
+
+      const exported = exportFn.mock.calls[0]![0];
+      expect(exported).not.toBe(canvas.buffer);
+      canvas.clear(0, 0, 0, 1);
+      expect(exported.getPixel(0, 0)[0]).toBeCloseTo(0.5);
+    });
+
+    it('shared canvases export shared snapshots', async () => {
+      const canvas = new HDCanvas({ paperSize: { widthMM: 25.4, heightMM: 25.4 }, dpi: 10, shared: true });
+      const exportFn = vi.fn().mockResolvedValue(new Blob(['x']));
+      canvas.setExportFn(exportFn);
+      await canvas.export();
+      canvas.addLayer('ink', { opacity: 0.5 });
+      await canvas.export();
+
+      expect(canvas.buffer.data.buffer).toBeInstanceOf(SharedArrayBuffer);
+      for (const [exported] of exportFn.mock.calls) {
+        expect(exported.data.buffer).toBeInstanceOf(SharedArrayBuffer);
+      }
+      expect(canvas.withDpi(20).layers.shared).toBe(true);
+    });
+
+    it('memoryBytes includes every layer', () => {
+      const canvas = new HDCanvas({ paperSize: { widthMM: 25.4, heightMM: 25.4 }, dpi: 10 });
+      canvas.addLayer('second');
+      expect(canvas.memoryBytes).toBe(2 * 10 * 10 * 4 * 4);
+    });
+  });
+
+  describe('rescaling', () => {
+    const inch = { widthMM: 25.4, heightMM: 25.4 };
+
+    it('withDpi resamples every layer and keeps layer properties', () => {
+      const canvas = new HDCanvas({ paperSize: inch, dpi: 10 });
+      canvas.clear(2, 0.5, 0.25, 1);
+      const glow = canvas.addLayer('glow', { blendMode: 'add', opacity: 0.5, visible: false });
+      glow.buffer.clear(0, 1, 0, 1);
+      canvas.moveLayer('glow', 0);
+
+      const big = canvas.withDpi(30);
+      expect(big).not.toBe(canvas);
+      expect(big.widthPx).toBe(30);
+      expect(big.dpi).toBe(30);
+      expect(big.paperMM).toEqual(canvas.paperMM);
+      expect(big.layers.layers.map(l => l.name)).toEqual(['glow', 'background']);
+      expect(big.getLayer('background').buffer).toBe(big.buffer);
+
+      const [r, g, b, a] = big.getPixel(15, 15);
+      expect(r).toBeCloseTo(2);
+      expect(g).toBeCloseTo(0.5);
+      expect(b).toBeCloseTo(0.25);
+      expect(a).toBeCloseTo(1);
+
+      const bigGlow = big.getLayer('glow');
+      expect(bigGlow.blendMode).toBe('add');
+      expect(bigGlow.opacity).toBe(0.5);
+      expect(bigGlow.visible).toBe(false);
+      expect(bigGlow.buffer.getPixel(29, 29)[1]).toBeCloseTo(1);
+      // Source untouched
+      expect(canvas.widthPx).toBe(10);
+    });
+
+    it('withDpi resamples masks', () => {
+      const canvas = new HDCanvas({ paperSize: inch, dpi: 10 });
+      const mask = new ColorBuffer(10, 10);
+      mask.clear(0, 0, 0, 1);
+      canvas.addLayer('ink', { mask, maskChannel: 'luminance' });
+
+      const small = canvas.withDpi(5, { filter: 'bilinear' });
+      const ink = small.getLayer('ink');
+      expect(ink.mask!.width).toBe(5);
+      expect(ink.maskChannel).toBe('luminance');
+    });
+
+    it('withPaperSize letterboxes with contain and crops with cover', () => {
+      const canvas = new HDCanvas({ paperSize: inch, dpi: 10 });
+      canvas.clear(1, 1, 1, 1);
+      const wide = { widthMM: 50.8, heightMM: 25.4 };
+
+      const contained = canvas.withPaperSize(wide, { filter: 'nearest' });
+      expect(contained.widthPx).toBe(20);
+      expect(contained.getPixel(2, 5)[3]).toBe(0);
+      expect(contained.getPixel(10, 5)).toEqual([1, 1, 1, 1]);
+
+      const covered = canvas.withPaperSize(wide, { fit: 'cover', dpi: 10 });
+      expect(covered.getPixel(0, 0)[3]).toBeCloseTo(1);
+      expect(covered.getPixel(19, 9)[3]).toBeCloseTo(1);
+
+      const landscape = canvas.withPaperSize('A6', { orientation: 'landscape', dpi: 5, fit: 'stretch' });
+      expect(landscape.widthPx).toBeGreaterThan(landscape.heightPx);
+      expect(landscape.getPixel(0, 0)[3]).toBeCloseTo(1);
+    });
+
+    it('rejects unknown fit modes', () => {
+      const canvas = new HDCanvas({ paperSize: inch, dpi: 10 });
+      expect(() => canvas.withPaperSize(inch, { fit: 'fill' as 'cover' })).toThrow(/Unknown fit mode/);
+    });
   });
 
   describe('preview', () => {
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { buildICCProfile, iccProfile, iccProfileDescription, workingICCProfile, type ICCProfileName } from '../export/ICCProfile.js';
+import { COLOR_SPACES } from '../core/ColorSpace.js';
+
+const BUNDLED: ICCProfileName[] = ['srgb', 'display-p3', 'adobe-rgb', 'rec2020'];
+
+function sig(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+/** Tag signature → [offset, size] */
+function tagTable(profile: Uint8Array): Map<string, [number, number]> {
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.length);
+  const tags = new Map<string, [number, number]>();
+  const count = view.getUint32(128);
+  for (let i = 0; i < count; i++) {
+    const o = 132 + i * 12;
+    tags.set(sig(profile, o), [view.getUint32(o + 4), view.getUint32(o + 8)]);
+  }
+  return tags;
+}
+
+function readXYZ(profile: Uint8Array, offset: number): number[] {
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.length);
+  return [0, 1, 2].map(i => view.getInt32(offset + 8 + i * 4) / 65536);
+}
+
+describe('ICC profiles', () => {
+  it('have a valid v4 display-class header', () => {
+    for (const name of BUNDLED) {
+      const profile = iccProfile(name);
+      const view = new DataView(profile.buffer, profile.byteOffset, profile.length);
+      expect(view.getUint32(0), name).toBe(profile.length);
+      expect(view.getUint8(8)).toBe(4);
+      expect(sig(profile, 12)).toBe('mntr');
+      expect(sig(profile, 16)).toBe('RGB ');
+      expect(sig(profile, 20)).toBe('XYZ ');
+      expect(sig(profile, 36)).toBe('acsp');
+    }
+  });
+
+  it('contain every tag a matrix/TRC profile needs, inside the file', () => {
+    const profile = iccProfile('display-p3');
+    const tags = tagTable(profile);
+    for (const t of ['desc', 'cprt', 'wtpt', 'chad', 'rXYZ', 'gXYZ', 'bXYZ', 'rTRC', 'gTRC', 'bTRC']) {
+      const entry = tags.get(t);
+      expect(entry, t).toBeDefined();
+      expect(entry![0] % 4, `${t} alignment`).toBe(0);
+      expect(entry![0] + entry![1]).toBeLessThanOrEqual(profile.length);
+    }
+    // The three TRCs share one curve
+    expect(tags.get('rTRC')).toEqual(tags.get('gTRC'));
+  });
+
+  it('adapt colorants to D50: R + G + B = the PCS white', () => {
+    for (const name of BUNDLED) {
+      const profile = iccProfile(name);
+      const tags = tagTable(profile);
+      const sum = [0, 0, 0];
+      for (const t of ['rXYZ', 'gXYZ', 'bXYZ']) {
+        readXYZ(profile, tags.get(t)![0]).forEach((v, i) => (sum[i] += v));
+      }
+      expect(sum[0], name).toBeCloseTo(0.9642, 3);
+      expect(sum[1], name).toBeCloseTo(1, 3);
+      expect(sum[2], name).toBeCloseTo(0.8249, 3);
+    }
+  });
+
+  it('encode the sRGB curve as a type-3 parametric curve', () => {
+    const profile = iccProfile('srgb');
+    const [offset] = tagTable(profile).get('rTRC')!;
+    const view = new DataView(profile.buffer, profile.byteOffset, profile.length);
+    expect(sig(profile, offset)).toBe('para');
+    expect(view.getUint16(offset + 8)).toBe(3);
+    expect(view.getInt32(offset + 12) / 65536).toBeCloseTo(2.4, 4);
+    expect(view.getInt32(offset + 28) / 65536).toBeCloseTo(0.04045, 4);
+  });
+
+  it('store the description as en-US text', () => {
+    const profile = iccProfile('adobe-rgb');
+    const [offset, size] = tagTable(profile).get('desc')!;
+    expect(sig(profile, offset)).toBe('mluc');
+    const text = String.fromCharCode(
+      ...Array.from({ length: (size - 28) / 2 }, (_, i) => profile[offset + 28 + i * 2 + 1]!)
+    );
+    expect(text).toBe(iccProfileDescription('adobe-rgb'));
+  });
+
+  it('are cached and reproducible', () => {
+    expect(iccProfile('srgb')).toBe(iccProfile('srgb'));
+    expect(buildICCProfile(COLOR_SPACES.srgb, 'x')).toEqual(buildICCProfile(COLOR_SPACES.srgb, 'x'));
+  });
+
+  it('describe linear working spaces with a gamma-1 curve', () => {
+    const profile = workingICCProfile('acescg');
+    const [offset] = tagTable(profile).get('rTRC')!;
+    const view = new DataView(profile.buffer, profile.byteOffset, profile.length);
+    expect(view.getUint16(offset + 8)).toBe(0);
+    expect(view.getInt32(offset + 12)).toBe(65536);
+    expect(workingICCProfile('acescg')).toBe(profile);
+    expect(() => workingICCProfile('srgb' as 'acescg')).toThrow(/not a linear working/);
+  });
+
+  it('reject unknown and linear spaces', () => {
+    expect(() => iccProfile('prophoto' as ICCProfileName)).toThrow(/Unknown color space/);
+    expect(() => iccProfile('acescg' as ICCProfileName)).toThrow(/not an output color space/);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import { LayerStack } from '../core/LayerStack.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+
+describe('LayerStack', () => {
+  describe('layer management', () => {
+    it('adds layers bottom → top by default', () => {
+      const stack = new LayerStack(4, 4);
+      stack.addLayer('a');
+      stack.addLayer('b');
+      expect(stack.layers.map(l => l.name)).toEqual(['a', 'b']);
+      expect(stack.length).toBe(2);
+    });
+
+    it('allocates layer buffers matching the stack', () => {
+      const stack = new LayerStack(4, 3, 64, { alphaMode: 'premultiplied' });
+      const layer = stack.addLayer('a');
+      expect(layer.buffer.width).toBe(4);
+      expect(layer.buffer.height).toBe(3);
+      expect(layer.buffer.depth).toBe(64);
+      expect(layer.buffer.alphaMode).toBe('premultiplied');
+    });
+
+    it('gives layers the stack color space and rejects mismatched buffers', () => {
+      const stack = new LayerStack(2, 2, 32, { colorSpace: 'linear-rec2020' });
+      expect(stack.addLayer('a').buffer.colorSpace).toBe('linear-rec2020');
+      expect(stack.composite().colorSpace).toBe('linear-rec2020');
+      expect(() => stack.addLayer('b', { buffer: new ColorBuffer(2, 2) })).toThrow(/color space/);
+    });
+
+    it('inserts at a given index', () => {
+      const stack = new LayerStack(4, 4);
+      stack.addLayer('a');
+      stack.addLayer('b');
+      stack.addLayer('c', { index: 1 });
+      expect(stack.layers.map(l => l.name)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('adopts an existing buffer', () => {
+      const stack = new LayerStack(4, 4);
+      const buf = new ColorBuffer(4, 4);
+      expect(stack.addLayer('a', { buffer: buf }).buffer).toBe(buf);
+      expect(() => stack.addLayer('b', { buffer: new ColorBuffer(2, 2) })).toThrow(RangeError);
+    });
+
+    it('rejects duplicate and unknown names', () => {
+      const stack = new LayerStack(4, 4);
+      stack.addLayer('a');
+      expect(() => stack.addLayer('a')).toThrow(/already exists/);
+      expect(() => stack.getLayer('nope')).toThrow(/Unknown layer/);
+      expect(() => stack.removeLayer('nope')).toThrow(/Unknown layer/);
+    });
+
+    it('moves and removes layers', () => {
+      const stack = new LayerStack(4, 4);
+      stack.addLayer('a');
+      stack.addLayer('b');
+      stack.addLayer('c');
+      stack.moveLayer('c', 0);
+      expect(stack.layers.map(l => l.name)).toEqual(['c', 'a', 'b']);
+      stack.removeLayer('a');
+      expect(stack.layers.map(l => l.name)).toEqual(['c', 'b']);
+      expect(() => stack.moveLayer('b', 5)).toThrow(RangeError);
+    });
+
+    it('validates opacity, masks and blend modes', () => {
+      const stack = new LayerStack(4, 4);
+      const layer = stack.addLayer('a');
+      expect(() => { layer.opacity = 1.5; }).toThrow(RangeError);
+      expect(() => { layer.mask = new ColorBuffer(2, 2); }).toThrow(RangeError);
+      expect(() => stack.addLayer('b', { blendMode: 'bogus' as any })).toThrow(/Unknown blend mode/);
+    });
+  });
+
+  describe('flatten', () => {
+    it('composites layers in order with their blend modes', () => {
+      const stack = new LayerStack(1, 1);
+      stack.addLayer('base').buffer.setPixel(0, 0, 0.5, 0.5, 0.5, 1);
+      stack.addLayer('glow', { blendMode: 'add' }).buffer.setPixel(0, 0, 2, 0, 0, 1);
+
+      const [r, g, , a] = stack.flatten().getPixel(0, 0);
+      expect(r).toBeCloseTo(2.5);
+      expect(g).toBeCloseTo(0.5);
+      expect(a).toBeCloseTo(1);
+    });
+
+    it('shows a non-normal bottom layer as-is over the transparent background', () => {
+      for (const blendMode of ['multiply', 'darken', 'subtract', 'color-burn'] as const) {
+        const stack = new LayerStack(2, 1);
+        stack.addLayer('ink', { blendMode }).buffer.setPixel(0, 0, 1, 0.5, 0.25, 1);
+        const flat = stack.flatten();
+        expect(flat.getPixel(0, 0), blendMode).toEqual([1, 0.5, 0.25, 1]);
+        expect(flat.getPixel(1, 0), blendMode).toEqual([0, 0, 0, 0]);
+      }
+    });
+
+    it('applies opacity and skips hidden layers', () => {
+      const stack = new LayerStack(1, 1);
+      stack.addLayer('base').buffer.setPixel(0, 0, 0, 0, 0, 1);
+      stack.addLayer('half', { opacity: 0.5 }).buffer.setPixel(0, 0, 1, 1, 1, 1);
+      stack.addLayer('hidden', { visible: false }).buffer.setPixel(0, 0, 0, 0, 10, 1);
+
+      const [r, , b] = stack.flatten().getPixel(0, 0);
+      expect(r).toBeCloseTo(0.5);
+      expect(b).toBeCloseTo(0.5);
+    });
+
+    it('applies alpha and luminance masks', () => {
+      const stack = new LayerStack(2, 1);
+      stack.addLayer('base').buffer.clear(0, 0, 0, 1);
+
+      const alphaMask = new ColorBuffer(2, 1);
+      alphaMask.setPixel(0, 0, 0, 0, 0, 1);
+      alphaMask.setPixel(1, 0, 0, 0, 0, 0);
+      stack.addLayer('top', { mask: alphaMask }).buffer.clear(1, 1, 1, 1);
+
+      let out = stack.flatten();
+      expect(out.getPixel(0, 0)[0]).toBeCloseTo(1);
+      expect(out.getPixel(1, 0)[0]).toBeCloseTo(0);
+
+      const lumaMask = new ColorBuffer(2, 1);
+      lumaMask.setPixel(0, 0, 0.25, 0.25, 0.25, 1);
+      lumaMask.setPixel(1, 0, 1, 1, 1, 1);
+      const top = stack.getLayer('top');
+      top.mask = lumaMask;
+      top.maskChannel = 'luminance';
+
+      out = stack.flatten();
+      expect(out.getPixel(0, 0)[0]).toBeCloseTo(0.25);
+      expect(out.getPixel(1, 0)[0]).toBeCloseTo(1);
+    });
+
+    it('handles premultiplied layers', () => {
+      const stack = new LayerStack(1, 1);
+      const straight = stack.addLayer('straight');
+      straight.buffer.setPixel(0, 0, 1, 0, 0, 1);
+      const premul = new ColorBuffer(1, 1, 32, { alphaMode: 'premultiplied' });
+      premul.setPixel(0, 0, 0, 0.5, 0, 0.5); // green at 50%
+      stack.addLayer('premul', { buffer: premul });
+
+      const [r, g, , a] = stack.flatten().getPixel(0, 0);
+      expect(r).toBeCloseTo(0.5);
+      expect(g).toBeCloseTo(0.5);
+      expect(a).toBeCloseTo(1);
+    });
+
+    it('does not modify the layers', () => {
+      const stack = new LayerStack(1, 1);
+      const base = stack.addLayer('base');
+      base.buffer.setPixel(0, 0, 0.2, 0.2, 0.2, 1);
+      stack.addLayer('top', { blendMode: 'multiply' }).buffer.setPixel(0, 0, 0.5, 0.5, 0.5, 1);
+      stack.flatten();
+      expect(base.buffer.getPixel(0, 0)[0]).toBeCloseTo(0.2);
+    });
+
+    it('writes into a supplied target', () => {
+      const stack = new LayerStack(2, 2);
+      stack.addLayer('a').buffer.clear(1, 0, 0, 1);
+      const target = new ColorBuffer(2, 2);
+      target.clear(0, 1, 0, 1);
+      expect(stack.flatten(target)).toBe(target);
+      expect(target.getPixel(1, 1)).toEqual([1, 0, 0, 1]);
+      expect(() => stack.flatten(new ColorBuffer(3, 3))).toThrow(RangeError);
+    });
+  });
+
+  describe('composite', () => {
+    it('returns a single plain layer without copying', () => {
+      const stack = new LayerStack(2, 2);
+      const layer = stack.addLayer('only');
+      expect(stack.composite()).toBe(layer.buffer);
+    });
+
+    it('reuses its cached buffer across calls', () => {
+      const stack = new LayerStack(2, 2);
+      const a = stack.addLayer('a');
+      stack.addLayer('b');
+      const first = stack.composite();
+      expect(first).not.toBe(a.buffer);
+
+      a.buffer.clear(0.3, 0.3, 0.3, 1);
+      const second = stack.composite();
+      expect(second).toBe(first);
+      expect(second.getPixel(0, 0)[0]).toBeCloseTo(0.3);
+    });
+
+    it('only re-flattens after a change', () => {
+      const stack = new LayerStack(2, 2);
+      const a = stack.addLayer('a');
+      const b = stack.addLayer('b', { blendMode: 'add' });
+      a.buffer.clear(0.25, 0.25, 0.25, 1);
+      const version = stack.composite().version;
+      expect(stack.composite().version).toBe(version);
+
+      const edits = [
+        () => b.buffer.setPixel(0, 0, 1, 0, 0, 1),
+        () => { b.opacity = 0.5; },
+        () => { b.blendMode = 'screen'; },
+        () => { b.visible = false; },
+        () => { b.mask = new ColorBuffer(2, 2); },
+        () => b.mask!.clear(0, 0, 0, 1),
+        () => stack.moveLayer('b', 0),
+        () => { a.buffer.data[0] = 2; a.buffer.markChanged(); },
+      ];
+      let last = version;
+      for (const edit of edits) {
+        edit();
+        const next = stack.composite().version;
+        expect(next).toBeGreaterThan(last);
+        last = next;
+      }
+      expect(stack.composite().getPixel(0, 0)[0]).toBeCloseTo(2);
+    });
+
+    it('snapshot() returns a copy that later edits leave alone', () => {
+      const stack = new LayerStack(1, 1);
+      const a = stack.addLayer('a');
+      stack.addLayer('b', { opacity: 0.5 });
+      a.buffer.setPixel(0, 0, 1, 1, 1, 1);
+      const snapshot = stack.snapshot();
+      expect(snapshot).not.toBe(stack.composite());
+
+      a.buffer.setPixel(0, 0, 0, 0, 0, 1);
+      expect(stack.composite().getPixel(0, 0)[0]).toBe(0);
+      expect(snapshot.getPixel(0, 0)).toEqual([1, 1, 1, 1]);
+    });
+
+    it('snapshot() hands over a current composite instead of copying it', () => {
+      const stack = new LayerStack(1, 1);
+      const a = stack.addLayer('a');
+      stack.addLayer('b', { opacity: 0.5 });
+      a.buffer.setPixel(0, 0, 1, 1, 1, 1);
+      const composite = stack.composite();
+      const snapshot = stack.snapshot();
+      expect(snapshot).toBe(composite);
+
+      // The stack flattens into a new buffer from then on
+      a.buffer.setPixel(0, 0, 0, 0, 0, 1);
+      expect(stack.composite()).not.toBe(snapshot);
+      expect(stack.composite().getPixel(0, 0)[0]).toBe(0);
+      expect(snapshot.getPixel(0, 0)[0]).toBeCloseTo(1);
+
+      // A stale composite is not handed over: the snapshot is flattened afresh
+      const current = stack.composite();
+      a.buffer.setPixel(0, 0, 0.5, 0.5, 0.5, 1);
+      const fresh = stack.snapshot();
+      expect(fresh).not.toBe(current);
+      expect(fresh.getPixel(0, 0)[0]).toBeCloseTo(0.5);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { medianFilter } from '../filters/Median.js';
+
+describe('medianFilter', () => {
+  it('removes isolated HDR fireflies', () => {
+    const buf = new ColorBuffer(5, 5, 64);
+    buf.clear(0.3, 0.3, 0.3, 1);
+    buf.setPixel(2, 2, 500, 0.3, 0.3, 1);
+    medianFilter(buf, 1);
+    expect(buf.getPixel(2, 2)[0]).toBeCloseTo(0.3);
+  });
+
+  it('preserves straight edges', () => {
+    const buf = new ColorBuffer(6, 6, 64);
+    for (let y = 0; y < 6; y++) {
+      for (let x = 0; x < 6; x++) buf.setPixel(x, y, x < 3 ? 0 : 4, 0, 0, 1);
+    }
+    medianFilter(buf, 1);
+    expect(buf.getPixel(2, 3)[0]).toBe(0);
+    expect(buf.getPixel(3, 3)[0]).toBe(4);
+  });
+
+  it('works per channel', () => {
+    const buf = new ColorBuffer(3, 3, 64);
+    buf.clear(1, 2, 3, 1);
+    buf.setPixel(1, 1, 9, -9, 3, 0);
+    medianFilter(buf, 1);
+    expect(buf.getPixel(1, 1)).toEqual([1, 2, 3, 1]);
+  });
+
+  it('treats transparent edges as zeros', () => {
+    const buf = new ColorBuffer(3, 3, 64);
+    buf.clear(1, 1, 1, 1);
+    medianFilter(buf, 1, { edge: 'transparent' });
+    // Corner window: 4 inside, 5 outside
+    expect(buf.getPixel(0, 0)).toEqual([0, 0, 0, 0]);
+    expect(buf.getPixel(1, 1)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('only touches the region', () => {
+    const buf = new ColorBuffer(4, 1, 64);
+    [0, 9, 0, 9].forEach((v, x) => buf.setPixel(x, 0, v, 0, 0, 1));
+    medianFilter(buf, 1, { region: { x: 0, y: 0, width: 2, height: 1 } });
+    expect(buf.getPixel(1, 0)[0]).toBe(9);
+    expect(buf.getPixel(3, 0)[0]).toBe(9);
+  });
+
+  it('validates the radius', () => {
+    const buf = new ColorBuffer(2, 2);
+    expect(() => medianFilter(buf, -1)).toThrow(RangeError);
+    expect(() => medianFilter(buf, 0.5)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { unzlibSync } from 'fflate';
+import { PDFExporter } from '../export/PDFExporter.js';
+import { iccProfile } from '../export/ICCProfile.js';
+
+// ─── Minimal PDF reader (uncompressed objects, Flate streams) ────────
+
+interface PDFObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]!);
+  return out;
+}
+
+/** Objects by number, located through the cross-reference table */
+function readPDF(file: Uint8Array): Map<number, PDFObject> {
+  const text = latin1(file);
+  expect(text.startsWith('%PDF-1.5\n')).toBe(true);
+  expect(text.endsWith('%%EOF\n')).toBe(true);
+  const xref = Number(/startxref\n(\d+)\n/.exec(text)![1]);
+  expect(text.startsWith('xref\n', xref)).toBe(true);
+  const count = Number(/^xref\n0 (\d+)\n/.exec(text.slice(xref))![1]);
+
+  const objects = new Map<number, PDFObject>();
+  for (let id = 1; id < count; id++) {
+    const row = text.slice(xref + 9 + String(count).length + id * 20, xref + 9 + String(count).length + (id + 1) * 20);
+    const offset = Number(row.slice(0, 10));
+    const header = `${id} 0 obj\n`;
+    expect(text.startsWith(header, offset)).toBe(true);
+    const body = text.slice(offset + header.length, text.indexOf('endobj\n', offset));
+    const streamAt = body.indexOf('\nstream\n');
+    if (streamAt === -1) {
+      objects.set(id, { dict: body.trim() });
+      continue;
+    }
+    const dict = body.slice(0, streamAt);
+    const length = Number(/\/Length (\d+)/.exec(dict)![1]);
+    const start = offset + header.length + streamAt + 8;
+    const raw = file.subarray(start, start + length);
+    objects.set(id, { dict, stream: dict.includes('/FlateDecode') ? unzlibSync(raw) : raw });
+  }
+  return objects;
+}
+
+function find(objects: Map<number, PDFObject>, pattern: RegExp): PDFObject {
+  return [...objects.values()].find((o) => pattern.test(o.dict))!;
+}
+
+function box(page: PDFObject, name: string): number[] {
+  return new RegExp(`/${name} \\[([^\\]]+)\\]`).exec(page.dict)![1]!.split(' ').map(Number);
+}
+
+function opaque(width: number, height: number): Uint8Array {
+  return new Uint8Array(width * height * 4).map((_, i) => (i % 4 === 3 ? 255 : (i * 37) & 0xff));
+}
+
+describe('PDFExporter', () => {
+  const exporter = new PDFExporter();
+
+  it('writes a valid file structure with a catalog, page and info', () => {
+    const { data, mimeType, filename } = exporter.export(opaque(2, 2), { width: 2, height: 2, dpi: 72 });
+    expect(mimeType).toBe('application/pdf');
+    expect(filename).toBe('artwork-2x2-72dpi.pdf');
+    const objects = readPDF(data);
+    expect(find(objects, /\/Type \/Catalog/)).toBeDefined();
+    expect(find(objects, /\/Producer \(hd-canvas\)/)).toBeDefined();
+    expect(latin1(data)).toMatch(/trailer\n<< \/Size \d+ \/Root \d+ 0 R \/Info \d+ 0 R >>/);
+  });
+
+  it('sizes the page from the image by default', () => {
+    const page = find(readPDF(exporter.export(opaque(150, 300), { width: 150, height: 300, dpi: 300 }).data), /\/Type \/Page\b/);
+    expect(box(page, 'MediaBox')).toEqual([0, 0, 36, 72]);
+    expect(box(page, 'TrimBox')).toEqual([0, 0, 36, 72]);
+  });
+
+  it('adds bleed around the trim box and centres the image', () => {
+    const objects = readPDF(exporter.export(opaque(2, 2), {
+      width: 2, height: 2, dpi: 72,
+      pageSize: { widthMM: 210, heightMM: 297 },
+      bleedMM: 3,
+    }).data);
+    const page = find(objects, /\/Type \/Page\b/);
+    const media = box(page, 'MediaBox');
+    expect(media[2]).toBeCloseTo(((210 + 6) / 25.4) * 72, 3);
+    expect(media[3]).toBeCloseTo(((297 + 6) / 25.4) * 72, 3);
+    expect(box(page, 'BleedBox')).toEqual(media);
+    const trim = box(page, 'TrimBox');
+    expect(trim[0]).toBeCloseTo((3 / 25.4) * 72, 3);
+    expect(trim[2]! - trim[0]!).toBeCloseTo((210 / 25.4) * 72, 3);
+
+    // 2px at 72 DPI = 2pt, centred on the page
+    const contents = latin1(objects.get(Number(/\/Contents (\d+)/.exec(page.dict)![1]))!.stream!);
+    const [w, , , h, x, y] = /q (.+) cm/.exec(contents)![1]!.split(' ').map(Number);
+    expect([w, h]).toEqual([2, 2]);
+    expect(x).toBeCloseTo((media[2]! - 2) / 2, 3);
+    expect(y).toBeCloseTo((media[3]! - 2) / 2, 3);
+  });
+
+  it('embeds 8-bit RGB without a soft mask when opaque', () => {
+    const input = opaque(3, 2);
+    const image = find(readPDF(exporter.export(input, { width: 3, height: 2, dpi: 300 }).data), /\/Subtype \/Image/);
+    expect(image.dict).toContain('/Width 3 /Height 2 /ColorSpace /DeviceRGB /BitsPerComponent 8');
+    expect(image.dict).not.toContain('/SMask');
+    expect(Array.from(image.stream!)).toEqual(Array.from(input).filter((_, i) => i % 4 !== 3));
+  });
+
+  it('writes 16-bit samples big-endian, with alpha as a soft mask', () => {
+    const input = Uint16Array.from([0x1234, 0xabcd, 0, 0x8000, 65535, 1, 2, 65535]);
+    const objects = readPDF(exporter.export(input, { width: 2, height: 1, dpi: 300 }).data);
+    const image = find(objects, /\/ColorSpace \/DeviceRGB/);
+    expect(image.dict).toContain('/BitsPerComponent 16');
+    expect(Array.from(image.stream!)).toEqual([0x12, 0x34, 0xab, 0xcd, 0, 0, 0xff, 0xff, 0, 1, 0, 2]);
+    const smask = objects.get(Number(/\/SMask (\d+) 0 R/.exec(image.dict)![1]))!;
+    expect(smask.dict).toContain('/ColorSpace /DeviceGray /BitsPerComponent 16');
+    expect(Array.from(smask.stream!)).toEqual([0x80, 0, 0xff, 0xff]);
+  });
+
+  it('tags the image with an ICC profile', () => {
+    const objects = readPDF(exporter.export(opaque(1, 1), { width: 1, height: 1, dpi: 300, iccProfile: 'display-p3' }).data);
+    const image = find(objects, /\/Subtype \/Image/);
+    const ref = Number(/\/ICCBased (\d+) 0 R/.exec(image.dict)![1]);
+    const profile = objects.get(ref)!;
+    expect(profile.dict).toContain('/N 3');
+    expect(profile.stream).toEqual(iccProfile('display-p3'));
+  });
+
+  it('writes document metadata', () => {
+    const { data } = exporter.export(opaque(1, 1), {
+      width: 1, height: 1, dpi: 300,
+      metadata: {
+        Title: 'Flow (field) #42',
+        Author: 'Zoë',
+        CreationDate: new Date(Date.UTC(2024, 2, 5, 7, 8, 9)),
+        Seed: 42,
+        'Generator Params': { n: 1 },
+        Subject: undefined,
+      },
+    });
+    const info = find(readPDF(data), /\/Producer/).dict;
+    expect(info).toContain('/Title (Flow \\(field\\) #42)');
+    expect(info).toContain('/Author <FEFF005A006F00EB>');
+    expect(info).toContain('/CreationDate (D:20240305070809Z)');
+    expect(info).toContain('/Seed (42)');
+    expect(info).toContain('/Generator#20Params ({"n":1})');
+    expect(info).not.toContain('/Subject');
+  });
+
+  it('validates options', () => {
+    expect(() => exporter.export(new Uint8Array(8), { width: 1, height: 1, dpi: 300 })).toThrow(/Data length mismatch/);
+    expect(() => exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 0 })).toThrow(/DPI must be positive/);
+    expect(() => exporter.export(new Uint8Array(0), { width: 0, height: 1, dpi: 300 })).toThrow(/Invalid dimensions/);
+    expect(() => exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 300, bleedMM: -1 })).toThrow(RangeError);
+    expect(() => exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 300, pageSize: { widthMM: 0, heightMM: 10 } }))
+      .toThrow(RangeError);
+  });
+});
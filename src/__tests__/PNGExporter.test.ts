@@ -1,10 +1,18 @@
 import { describe, it, expect } from 'vitest';
 import { decode } from 'fast-png';
+import { unzlibSync } from 'fflate';
 import {
   PNGExporter,
   dpiToPixelsPerMeter,
   injectPHYs,
+  injectChunks,
+  readChunks,
+  encodeChunk,
+  srgbChunk,
+  gamaChunk,
+  iccpChunk,
 } from '../export/PNGExporter.js';
+import { iccProfile } from '../export/ICCProfile.js';
 
 // ─── DPI conversion ──────────────────────────────────────────────────
 
@@ -24,6 +32,19 @@ describe('dpiToPixelsPerMeter', () => {
   });
 });
 
+/** Chunk types in file order, with their data */
+function chunks(png: Uint8Array): Map<string, Uint8Array> {
+  const out = new Map<string, Uint8Array>();
+  const view = new DataView(png.buffer, png.byteOffset);
+  for (let i = 8; i < png.length; ) {
+    const length = view.getUint32(i, false);
+    const type = String.fromCharCode(...png.subarray(i + 4, i + 8));
+    out.set(type, png.subarray(i + 8, i + 8 + length));
+    i += 12 + length;
+  }
+  return out;
+}
+
 // ─── PNGExporter ─────────────────────────────────────────────────────
 
 describe('PNGExporter', () => {
@@ -183,6 +204,114 @@ describe('PNGExporter', () => {
     });
   });
 
+  describe('color space tags', () => {
+    it('writes sRGB, gAMA and cHRM for sRGB output', () => {
+      const data = new Uint8Array([128, 128, 128, 255]);
+      const found = chunks(exporter.export(data, { width: 1, height: 1, dpi: 300, colorSpace: 'srgb' }).data);
+      expect(Array.from(found.get('sRGB')!)).toEqual([0]);
+      expect(new DataView(found.get('gAMA')!.buffer, found.get('gAMA')!.byteOffset).getUint32(0)).toBe(45455);
+      const order = [...found.keys()];
+      expect(order.indexOf('cHRM')).toBeLessThan(order.indexOf('IDAT'));
+    });
+
+    it('writes Display P3 primaries to cHRM', () => {
+      const data = new Uint8Array([128, 128, 128, 255]);
+      const png = exporter.export(data, { width: 1, height: 1, dpi: 300, colorSpace: 'display-p3' }).data;
+      const found = chunks(png);
+      expect(found.has('sRGB')).toBe(false);
+      expect(found.has('iCCP')).toBe(true);
+      const chrm = found.get('cHRM')!;
+      const view = new DataView(chrm.buffer, chrm.byteOffset, 32);
+      expect(view.getUint32(0)).toBe(31270); // white x
+      expect(view.getUint32(8)).toBe(68000); // red x
+      expect(view.getUint32(20)).toBe(69000); // green y
+      // Still a valid PNG
+      expect(decode(png).width).toBe(1);
+    });
+
+    it('leaves PNGs untagged by default', () => {
+      const data = new Uint8Array([128, 128, 128, 255]);
+      const found = chunks(exporter.export(data, { width: 1, height: 1, dpi: 300 }).data);
+      expect(found.has('cHRM')).toBe(false);
+      expect(found.has('sRGB')).toBe(false);
+      expect(found.has('iCCP')).toBe(false);
+    });
+
+    it('embeds the bundled profile compressed in iCCP', () => {
+      const data = new Uint8Array([128, 128, 128, 255]);
+      const png = exporter.export(data, { width: 1, height: 1, dpi: 300, iccProfile: 'adobe-rgb' }).data;
+      const iccp = chunks(png).get('iCCP')!;
+      const nul = iccp.indexOf(0);
+      expect(String.fromCharCode(...iccp.subarray(0, nul))).toBe('Adobe RGB (1998) compatible');
+      expect(iccp[nul + 1]).toBe(0); // deflate
+      expect(unzlibSync(iccp.subarray(nul + 2))).toEqual(iccProfile('adobe-rgb'));
+    });
+
+    it('embeds user-supplied ICC bytes instead of the sRGB chunk', () => {
+      const custom = iccProfile('display-p3').slice();
+      const data = new Uint8Array([128, 128, 128, 255]);
+      const png = exporter.export(data, {
+        width: 1, height: 1, dpi: 300,
+        colorSpace: 'srgb', iccProfile: custom, iccProfileName: 'My printer',
+      }).data;
+      const found = chunks(png);
+      expect(found.has('sRGB')).toBe(false);
+      expect(found.has('gAMA')).toBe(true);
+      const iccp = found.get('iCCP')!;
+      expect(String.fromCharCode(...iccp.subarray(0, 10))).toBe('My printer');
+    });
+
+    it('validates chunk builders', () => {
+      expect(Array.from(srgbChunk('absolute').data)).toEqual([3]);
+      expect(() => srgbChunk('vivid' as 'perceptual')).toThrow(/Unknown rendering intent/);
+      expect(() => gamaChunk(0)).toThrow(RangeError);
+      expect(() => iccpChunk(iccProfile('srgb'), '')).toThrow(/profile name/);
+      expect(() => iccpChunk(new Uint8Array(10))).toThrow(/too short/);
+    });
+  });
+
+  describe('chunk injection', () => {
+    const png = () => new PNGExporter().export(new Uint8Array([1, 2, 3, 255]), { width: 1, height: 1, dpi: 72 }).data;
+
+    it('inserts extra chunks before IDAT with valid CRCs', () => {
+      const custom = { type: 'prVt', data: new TextEncoder().encode('hello') };
+      const out = injectChunks(png(), [custom]);
+      const order = [...chunks(out).keys()];
+      expect(order.indexOf('prVt')).toBeLessThan(order.indexOf('IDAT'));
+      expect(Array.from(decode(out).data)).toEqual([1, 2, 3, 255]);
+
+      // CRC-32 of "IEND" is the well-known AE 42 60 82
+      expect(Array.from(encodeChunk({ type: 'IEND', data: new Uint8Array(0) }).subarray(8))).toEqual([0xae, 0x42, 0x60, 0x82]);
+    });
+
+    it('passes extra chunks through the exporter', () => {
+      const out = exporter.export(new Uint8Array([0, 0, 0, 255]), {
+        width: 1, height: 1, dpi: 300,
+        chunks: [{ type: 'prVt', data: Uint8Array.of(7) }],
+      }).data;
+      expect(Array.from(chunks(out).get('prVt')!)).toEqual([7]);
+    });
+
+    it('reads chunks back in file order and checks CRCs', () => {
+      const out = png();
+      const types = readChunks(out).map(c => c.type);
+      expect(types[0]).toBe('IHDR');
+      expect(types).toContain('pHYs');
+      expect(types[types.length - 1]).toBe('IEND');
+
+      const corrupt = out.slice();
+      corrupt[40] = corrupt[40]! ^ 0xff; // inside pHYs
+      expect(() => readChunks(corrupt)).toThrow(/bad CRC/);
+      expect(() => readChunks(out.subarray(0, 30))).toThrow(/Truncated/);
+    });
+
+    it('rejects critical and malformed chunk types', () => {
+      expect(() => injectChunks(png(), [{ type: 'IDAT', data: new Uint8Array(0) }])).toThrow(/ancillary/);
+      expect(() => injectChunks(png(), [{ type: 'ab1', data: new Uint8Array(0) }])).toThrow(/four ASCII letters/);
+      expect(() => injectChunks(new Uint8Array(40), [])).toThrow(/Not a valid PNG/);
+    });
+  });
+
   describe('performance', () => {
     it('exports a 1000x1000 8-bit PNG in < 2 seconds', () => {
       const w = 1000, h = 1000;
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { decode } from 'fast-png';
+import { PNGExporter } from '../export/PNGExporter.js';
+import { readChunks } from '../export/PNGChunks.js';
+import {
+  metadataChunks,
+  readPNGMetadata,
+  textChunk,
+  ztxtChunk,
+  itxtChunk,
+} from '../export/PNGMetadata.js';
+
+function exportWith(metadata: Parameters<typeof metadataChunks>[0]): Uint8Array {
+  return new PNGExporter().export(new Uint8Array([10, 20, 30, 255]), {
+    width: 1, height: 1, dpi: 300, metadata,
+  }).data;
+}
+
+describe('PNG text metadata', () => {
+  it('round-trips key/value pairs through an exported PNG', () => {
+    const created = new Date(Date.UTC(2025, 5, 1, 12, 0, 0));
+    const png = exportWith({
+      Title: 'Flow Field #42',
+      Author: 'Jane Doe',
+      Copyright: '© 2025 Jane Doe',
+      Software: 'hd-canvas',
+      'Creation Time': created,
+      Seed: 123456789,
+      Signed: true,
+      Params: { noiseScale: 0.002, palette: ['#fff', '#000'] },
+      Skipped: undefined,
+    });
+
+    const meta = readPNGMetadata(png);
+    expect(meta).toEqual({
+      Title: 'Flow Field #42',
+      Author: 'Jane Doe',
+      Copyright: '© 2025 Jane Doe',
+      Software: 'hd-canvas',
+      'Creation Time': '2025-06-01T12:00:00.000Z',
+      Seed: '123456789',
+      Signed: 'true',
+      Params: '{"noiseScale":0.002,"palette":["#fff","#000"]}',
+    });
+    expect(JSON.parse(meta.Params!)).toEqual({ noiseScale: 0.002, palette: ['#fff', '#000'] });
+
+    // Pixels are unaffected
+    expect(Array.from(decode(png).data)).toEqual([10, 20, 30, 255]);
+  });
+
+  it('picks tEXt, zTXt or iTXt from the value', () => {
+    const long = 'x'.repeat(5000);
+    const types = metadataChunks({
+      Short: 'Latin-1 café',
+      Long: long,
+      Unicode: 'ランダム 🎲',
+      LongUnicode: '🎲'.repeat(1000),
+    }).map(c => c.type);
+    expect(types).toEqual(['tEXt', 'zTXt', 'iTXt', 'iTXt']);
+
+    const png = exportWith({ Long: long, LongUnicode: '🎲'.repeat(1000) });
+    const zt = readChunks(png).find(c => c.type === 'zTXt')!;
+    expect(zt.data.length).toBeLessThan(200);
+    expect(readPNGMetadata(png)).toEqual({ Long: long, LongUnicode: '🎲'.repeat(1000) });
+  });
+
+  it('encodes chunks byte for byte per the PNG spec', () => {
+    expect(Array.from(textChunk('A', 'b').data)).toEqual([0x41, 0, 0x62]);
+    expect(Array.from(itxtChunk('A', 'é').data)).toEqual([0x41, 0, 0, 0, 0, 0, 0xc3, 0xa9]);
+    const z = ztxtChunk('A', 'b').data;
+    expect(Array.from(z.subarray(0, 3))).toEqual([0x41, 0, 0]);
+  });
+
+  it('validates keywords and text', () => {
+    expect(() => textChunk('', 'x')).toThrow(/keyword/);
+    expect(() => textChunk(' Title', 'x')).toThrow(/keyword/);
+    expect(() => textChunk('Two  spaces', 'x')).toThrow(/keyword/);
+    expect(() => textChunk('k'.repeat(80), 'x')).toThrow(/keyword/);
+    expect(() => textChunk('Title', 'a\0b')).toThrow(/null/);
+    expect(() => textChunk('Title', '🎲')).toThrow(/Latin-1/);
+    expect(() => exportWith({ 'Bad\nKey': 'x' })).toThrow(/keyword/);
+  });
+
+  it('ignores other chunks and lets the last duplicate win', () => {
+    const png = new PNGExporter().export(new Uint8Array(4), {
+      width: 1, height: 1, dpi: 72, colorSpace: 'display-p3',
+      chunks: [textChunk('Comment', 'first'), textChunk('Comment', 'second')],
+    }).data;
+    expect(readPNGMetadata(png)).toEqual({ Comment: 'second' });
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { decode } from 'fast-png';
+import { PNGStreamEncoder, streamPNG, writePNGStream, type NodeWritableLike } from '../export/PNGStream.js';
+import { exportBuffer, ExportAbortedError } from '../export/ExportPipeline.js';
+import { readChunks } from '../export/PNGChunks.js';
+import { readPNGMetadata } from '../export/PNGMetadata.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { LayerStack } from '../core/LayerStack.js';
+
+function makeBuffer(w: number, h: number): ColorBuffer {
+  const buf = new ColorBuffer(w, h, 32);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      buf.setPixel(x, y, (x / w) * 3, y / h, Math.sin(x * y) * 0.5 + 0.5, x === y ? 0.5 : 1);
+    }
+  }
+  return buf;
+}
+
+function collect(pieces: Iterable<Uint8Array>): Uint8Array {
+  const parts = [...pieces];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+describe('streamPNG', () => {
+  it('produces the same pixels and chunks as exportBuffer', async () => {
+    const buf = makeBuffer(37, 23);
+    for (const bitDepth of [8, 16] as const) {
+      const options = { dpi: 300, toneMap: 'aces' as const, colorSpace: 'display-p3' as const, bitDepth };
+      const streamed = collect(streamPNG(buf, { ...options, rowsPerStrip: 4 }));
+      const regular = new Uint8Array(await exportBuffer(buf, options).arrayBuffer());
+
+      const a = decode(streamed);
+      const b = decode(regular);
+      expect([a.width, a.height, a.depth, a.channels]).toEqual([37, 23, bitDepth, 4]);
+      expect(Array.from(a.data)).toEqual(Array.from(b.data));
+
+      const types = (png: Uint8Array) => readChunks(png).map((c) => c.type).filter((t) => t !== 'IDAT');
+      expect(types(streamed)).toEqual(types(regular));
+    }
+  });
+
+  it('matches exportBuffer when dithering', async () => {
+    const buf = makeBuffer(29, 17);
+    for (const dither of ['ordered', 'triangular', 'floyd-steinberg'] as const) {
+      const options = { dpi: 300, dither, ditherSeed: 9 };
+      const streamed = decode(collect(streamPNG(buf, { ...options, rowsPerStrip: 5 })));
+      const regular = decode(new Uint8Array(await exportBuffer(buf, options).arrayBuffer()));
+      expect(Array.from(streamed.data), dither).toEqual(Array.from(regular.data));
+    }
+  });
+
+  it('writes metadata and exports layer stack composites', () => {
+    const stack = new LayerStack(4, 4);
+    stack.addLayer('base').buffer.setPixel(0, 0, 1, 0, 0, 1);
+    const png = collect(streamPNG(stack, { dpi: 150, toneMap: 'clamp', metadata: { Seed: 7 } }));
+    expect(readPNGMetadata(png)).toEqual({ Seed: '7' });
+    expect(Array.from(decode(png).data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('reports progress per strip, ending at 100', () => {
+    const progress: number[] = [];
+    collect(streamPNG(makeBuffer(8, 10), { dpi: 300, rowsPerStrip: 3, onProgress: (p) => progress.push(p) }));
+    expect(progress).toEqual([0, 30, 60, 90, 100]);
+  });
+
+  it('stops at the next strip once the signal is aborted', () => {
+    const controller = new AbortController();
+    const progress: number[] = [];
+    const pieces = streamPNG(makeBuffer(8, 10), {
+      dpi: 300,
+      rowsPerStrip: 3,
+      signal: controller.signal,
+      onProgress: (p) => {
+        progress.push(p);
+        if (p >= 30) controller.abort('user cancelled');
+      },
+    });
+    expect(() => collect(pieces)).toThrow(ExportAbortedError);
+    expect(progress).toEqual([0, 30]);
+    expect(() => streamPNG(makeBuffer(2, 2), { dpi: 300, signal: controller.signal })).toThrow(ExportAbortedError);
+  });
+
+  it('checks options before streaming', () => {
+    const buf = makeBuffer(2, 2);
+    expect(() => streamPNG(buf, { dpi: 0 })).toThrow(/DPI must be positive/);
+    expect(() => streamPNG(buf, { dpi: 300, rowsPerStrip: 0 })).toThrow(RangeError);
+    expect(() => streamPNG(buf, { dpi: 300, toneMap: 'filmic' as 'aces' })).toThrow(/Unknown tone map algorithm/);
+    expect(() => streamPNG(buf, { dpi: 300, gamma: 2.2, colorSpace: 'srgb' })).toThrow(/gamma cannot be combined/);
+  });
+});
+
+describe('PNGStreamEncoder', () => {
+  it('rejects out-of-order use', () => {
+    const encoder = new PNGStreamEncoder({ width: 2, height: 2, dpi: 300 });
+    expect(() => encoder.writeRows(new Uint16Array(8))).toThrow(/8-bit depth requires Uint8Array/);
+    expect(() => encoder.writeRows(new Uint8Array(6))).toThrow(/whole rows/);
+    encoder.writeRows(new Uint8Array(8));
+    expect(() => encoder.finish()).toThrow(/1 of 2 rows/);
+    expect(() => encoder.writeRows(new Uint8Array(16))).toThrow(RangeError);
+  });
+});
+
+describe('writePNGStream', () => {
+  it('writes to a WritableStream and closes it', async () => {
+    const parts: Uint8Array[] = [];
+    let closed = false;
+    const target = new WritableStream<Uint8Array>({
+      write(chunk) { parts.push(chunk); },
+      close() { closed = true; },
+    });
+    await writePNGStream(makeBuffer(5, 5), target, { dpi: 300, rowsPerStrip: 2 });
+    expect(closed).toBe(true);
+    expect(decode(collect(parts)).width).toBe(5);
+  });
+
+  it('waits for drain on a Node-style stream', async () => {
+    const parts: Uint8Array[] = [];
+    let drain = (): void => undefined;
+    let errorListeners = 0;
+    let ended = false;
+    const target: NodeWritableLike = {
+      write(chunk) {
+        parts.push(chunk);
+        // Apply backpressure on every write, relieved on the next tick
+        setTimeout(() => drain(), 0);
+        return false;
+      },
+      once(_event, listener) { drain = listener; },
+      on() { errorListeners++; },
+      removeListener() { errorListeners--; },
+      end(callback) { ended = true; callback(); },
+    };
+    await writePNGStream(makeBuffer(5, 5), target, { dpi: 300, rowsPerStrip: 1 });
+    expect(ended).toBe(true);
+    expect(errorListeners).toBe(0);
+    expect(decode(collect(parts)).height).toBe(5);
+  });
+
+  it('rejects when a Node-style stream errors', async () => {
+    let fail = (_error: unknown): void => undefined;
+    const target: NodeWritableLike = {
+      write() {
+        setTimeout(() => fail(new Error('disk full')), 0);
+        return false;
+      },
+      once() {},
+      on(_event, listener) { fail = listener; },
+      removeListener() {},
+      end(callback) { callback(); },
+    };
+    await expect(writePNGStream(makeBuffer(2, 2), target, { dpi: 300 })).rejects.toThrow('disk full');
+  });
+
+  it('removes the drain listener when an error ends the wait', async () => {
+    let fail = (_error: unknown): void => undefined;
+    const drainListeners = new Set<() => void>();
+    const target: NodeWritableLike = {
+      write() {
+        setTimeout(() => fail(new Error('disk full')), 0);
+        return false;
+      },
+      once(_event, listener) { drainListeners.add(listener); },
+      on(_event, listener) { fail = listener; },
+      removeListener(event: string, listener: () => void) {
+        if (event === 'drain') drainListeners.delete(listener);
+      },
+      end(callback) { callback(); },
+    };
+    await expect(writePNGStream(makeBuffer(2, 2), target, { dpi: 300 })).rejects.toThrow('disk full');
+    expect(drainListeners.size).toBe(0);
+  });
+
+  it('rejects when the final flush of a Node stream fails', async () => {
+    const error = new Error('ENOSPC');
+    const viaCallback: NodeWritableLike = {
+      write: () => true,
+      once() {},
+      on() {},
+      removeListener() {},
+      end(callback) { setTimeout(() => callback(error), 0); },
+    };
+    await expect(writePNGStream(makeBuffer(2, 2), viaCallback, { dpi: 300 })).rejects.toBe(error);
+
+    // Only an 'error' event, and the end callback never called
+    let fail = (_error: unknown): void => undefined;
+    const viaEvent: NodeWritableLike = {
+      write: () => true,
+      once() {},
+      on(_event, listener) { fail = listener; },
+      removeListener() {},
+      end() { setTimeout(() => fail(error), 0); },
+    };
+    await expect(writePNGStream(makeBuffer(2, 2), viaEvent, { dpi: 300 })).rejects.toBe(error);
+  });
+
+  it('aborts the target when the signal is aborted', async () => {
+    const controller = new AbortController();
+    let aborted: unknown;
+    const target = new WritableStream<Uint8Array>({
+      write() { controller.abort('user cancelled'); },
+      abort(reason) { aborted = reason; },
+    });
+    const writing = writePNGStream(makeBuffer(4, 4), target, { dpi: 300, rowsPerStrip: 1, signal: controller.signal });
+    await expect(writing).rejects.toBeInstanceOf(ExportAbortedError);
+    expect(aborted).toBeInstanceOf(ExportAbortedError);
+
+    // A Node stream that never applies backpressure still lets an abort in
+    const stop = new AbortController();
+    const node: NodeWritableLike = {
+      write: () => true,
+      once() {},
+      on() {},
+      removeListener() {},
+      end(callback) { callback(); },
+    };
+    setTimeout(() => stop.abort(), 0);
+    await expect(writePNGStream(makeBuffer(64, 4096), node, { dpi: 300, rowsPerStrip: 1, signal: stop.signal }))
+      .rejects.toBeInstanceOf(ExportAbortedError);
+  });
+
+  it('rejects when a real Writable fails to flush', async () => {
+    const { Writable } = await import('node:stream');
+    const target = new Writable({
+      write(_chunk, _encoding, callback) { callback(); },
+      final(callback) { callback(new Error('ENOSPC: no space left on device')); },
+    });
+    await expect(writePNGStream(makeBuffer(2, 2), target, { dpi: 300 })).rejects.toThrow(/ENOSPC/);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Path } from '../draw/Path.js';
+
+describe('Path', () => {
+  it('flattens straight segments unchanged', () => {
+    const lines = new Path().moveTo(0, 0).lineTo(10, 0).lineTo(10, 5).flatten();
+    expect(lines).toEqual([{ points: [0, 0, 10, 0, 10, 5], closed: false }]);
+  });
+
+  it('starts a new polyline on each moveTo and marks closed subpaths', () => {
+    const lines = new Path()
+      .rect(0, 0, 2, 2)
+      .moveTo(5, 5).lineTo(6, 6)
+      .flatten();
+    expect(lines).toHaveLength(2);
+    expect(lines[0]!.closed).toBe(true);
+    expect(lines[1]!.closed).toBe(false);
+  });
+
+  it('keeps flattened curves within tolerance', () => {
+    const tolerance = 0.05;
+    const [line] = new Path().moveTo(0, 0).quadraticCurveTo(50, 100, 100, 0).flatten(tolerance);
+    const pts = line!.points;
+    // Midpoints of each chord must lie near the true curve y = 2x(1 - x/100)
+    for (let i = 0; i + 3 < pts.length; i += 2) {
+      const mx = (pts[i]! + pts[i + 2]!) / 2;
+      const my = (pts[i + 1]! + pts[i + 3]!) / 2;
+      expect(Math.abs(my - 2 * mx * (1 - mx / 100))).toBeLessThan(tolerance * 2);
+    }
+    expect(pts[pts.length - 2]).toBe(100);
+    expect(pts[pts.length - 1]).toBe(0);
+  });
+
+  it('ends cubic curves exactly on their end point', () => {
+    const [line] = new Path().moveTo(0, 0).bezierCurveTo(0, 50, 50, 50, 50, 0).flatten();
+    const pts = line!.points;
+    expect(pts.length).toBeGreaterThan(4);
+    expect(pts.slice(-2)).toEqual([50, 0]);
+  });
+
+  it('approximates circles to the requested tolerance', () => {
+    const [line] = new Path().circle(0, 0, 100).flatten(0.1);
+    const pts = line!.points;
+    for (let i = 0; i < pts.length; i += 2) {
+      expect(Math.hypot(pts[i]!, pts[i + 1]!)).toBeCloseTo(100, 6);
+    }
+    expect(line!.closed).toBe(true);
+  });
+
+  it('follows Canvas 2D arc direction', () => {
+    const [cw] = new Path().arc(0, 0, 10, 0, Math.PI / 2).flatten();
+    const [ccw] = new Path().arc(0, 0, 10, 0, Math.PI / 2, true).flatten();
+    // Clockwise (in y-down space) passes through +y, counterclockwise through −y
+    const midY = (pts: number[]) => pts[(pts.length >> 2) * 2 + 1]!;
+    expect(midY(cw!.points)).toBeGreaterThan(0);
+    expect(midY(ccw!.points)).toBeLessThan(0);
+  });
+
+  it('rejects invalid tolerances and radii', () => {
+    expect(() => new Path().flatten(0)).toThrow(RangeError);
+    expect(() => new Path().circle(0, 0, -1)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { HDRExporter, loadHDR, toRGBE, fromRGBE } from '../export/RadianceHDR.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, c => c.charCodeAt(0));
+}
+
+function concat(...parts: ArrayLike<number>[]): Uint8Array {
+  return Uint8Array.from(parts.flatMap(p => Array.from(p)));
+}
+
+/** Deterministic HDR test pattern with some flat stretches */
+function pattern(width: number, height: number): ColorBuffer {
+  const buf = new ColorBuffer(width, height, 32, { alphaMode: 'premultiplied' });
+  let seed = 1;
+  const rand = () => ((seed = (seed * 16807) % 2147483647) / 2147483647);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x % 50 < 20) buf.setPixel(x, y, 0.25, 0.5, 1, 1);
+      else buf.setPixel(x, y, rand() * 20, rand(), rand() * 0.01, 1);
+    }
+  }
+  return buf;
+}
+
+function expectClose(a: ColorBuffer, b: ColorBuffer): void {
+  expect(b.width).toBe(a.width);
+  expect(b.height).toBe(a.height);
+  for (let i = 0; i < a.data.length; i += 4) {
+    const max = Math.max(a.data[i]!, a.data[i + 1]!, a.data[i + 2]!);
+    for (let c = 0; c < 3; c++) {
+      expect(Math.abs(b.data[i + c]! - a.data[i + c]!)).toBeLessThanOrEqual(max / 128 + 1e-30);
+    }
+    expect(b.data[i + 3]).toBe(1);
+  }
+}
+
+const HEADER = '#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n';
+
+// ─── RGBE ────────────────────────────────────────────────────────────
+
+describe('RGBE conversion', () => {
+  it('encodes with a shared exponent', () => {
+    const out = new Uint8Array(4);
+    toRGBE(1, 0.5, 0, out, 0);
+    expect(Array.from(out)).toEqual([128, 64, 0, 129]);
+    toRGBE(0, 0, 0, out, 0);
+    expect(Array.from(out)).toEqual([0, 0, 0, 0]);
+    toRGBE(-5, 2, 0, out, 0);
+    expect(out[0]).toBe(0);
+  });
+
+  it('round-trips within the mantissa precision', () => {
+    const bytes = new Uint8Array(4);
+    const rgb = new Float64Array(3);
+    for (const v of [1e-20, 0.001, 0.37, 1, 255.5, 1e6, 3e30]) {
+      toRGBE(v, v / 3, v / 100, bytes, 0);
+      fromRGBE(bytes, 0, rgb, 0);
+      expect(Math.abs(rgb[0]! - v) / v, String(v)).toBeLessThan(1 / 128);
+    }
+  });
+
+  it('saturates values beyond the exponent range', () => {
+    const out = new Uint8Array(4);
+    toRGBE(1e39, 0, 0, out, 0);
+    expect(Array.from(out)).toEqual([255, 255, 255, 255]);
+  });
+});
+
+// ─── Export / load ───────────────────────────────────────────────────
+
+describe('HDRExporter and loadHDR', () => {
+  const exporter = new HDRExporter();
+
+  it('writes a standard header', () => {
+    const { data, mimeType, filename } = exporter.export(new ColorBuffer(10, 4, 32), { dpi: 300 });
+    const text = String.fromCharCode(...data.subarray(0, 120));
+    expect(text.startsWith('#?RADIANCE\nFORMAT=32-bit_rle_rgbe\nPRIMARIES=0.64 0.33 0.3 0.6 0.15 0.06 0.3127 0.329\n')).toBe(true);
+    expect(text).toContain('\n\n-Y 4 +X 10\n');
+    expect(mimeType).toBe('image/vnd.radiance');
+    expect(filename).toBe('artwork-10x4-300dpi.hdr');
+  });
+
+  it('round-trips RLE scanlines, including long runs and literals', () => {
+    const buf = pattern(300, 5);
+    const { data } = exporter.export(buf, { dpi: 72 });
+    expect(data.length).toBeLessThan(300 * 5 * 4);
+    expectClose(buf, loadHDR(data));
+  });
+
+  it('round-trips flat scanlines for narrow images', () => {
+    const buf = pattern(5, 3);
+    expectClose(buf, loadHDR(exporter.export(buf, { dpi: 72 }).data));
+  });
+
+  it('compresses flat images', () => {
+    const buf = new ColorBuffer(1000, 10, 32);
+    buf.clear(2, 1, 0.5, 1);
+    expect(exporter.export(buf, { dpi: 72 }).data.length).toBeLessThan(1000);
+  });
+
+  it('composites straight alpha over black', () => {
+    const buf = new ColorBuffer(1, 1, 32);
+    buf.setPixel(0, 0, 4, 2, 1, 0.5);
+    const loaded = loadHDR(exporter.export(buf, { dpi: 72 }).data);
+    const [r, g, b, a] = loaded.getPixel(0, 0);
+    expect(r).toBeCloseTo(2, 1);
+    expect(g).toBeCloseTo(1, 1);
+    expect(b).toBeCloseTo(0.5, 1);
+    expect(a).toBe(1);
+  });
+
+  it('carries the working color space in PRIMARIES', () => {
+    const buf = new ColorBuffer(2, 2, 32, { colorSpace: 'acescg' });
+    const { data } = exporter.export(buf, { dpi: 72 });
+    expect(loadHDR(data).colorSpace).toBe('acescg');
+    expect(loadHDR(data, { colorSpace: 'linear-srgb', depth: 64 }).colorSpace).toBe('linear-srgb');
+    expect(loadHDR(data, { depth: 64 }).data).toBeInstanceOf(Float64Array);
+  });
+
+  it('reads old-style RLE', () => {
+    const file = concat(
+      ascii(HEADER + '-Y 1 +X 4\n'),
+      [128, 64, 0, 129], // (1, 0.5, 0)
+      [1, 1, 1, 2], // repeat twice
+      [0, 0, 0, 0]
+    );
+    const buf = loadHDR(file);
+    expect(buf.getPixel(2, 0)[0]).toBeCloseTo(1, 2);
+    expect(buf.getPixel(3, 0)[0]).toBe(0);
+  });
+
+  it('rejects unsupported or corrupt files', () => {
+    expect(() => loadHDR(ascii('P6\n1 1\n'))).toThrow(/Not a Radiance/);
+    expect(() => loadHDR(ascii('#?RADIANCE\nFORMAT=32-bit_rle_xyze\n\n-Y 1 +X 1\n'))).toThrow(/Unsupported .hdr format/);
+    expect(() => loadHDR(ascii(HEADER + '+Y 1 +X 1\n'))).toThrow(/orientation/);
+    expect(() => loadHDR(concat(ascii(HEADER + '-Y 2 +X 1\n'), [1, 2, 3, 4]))).toThrow(/Truncated/);
+    expect(() => loadHDR(ascii('#?RADIANCE\nPRIMARIES=0 0 0 0 0 0 0 0\n\n-Y 1 +X 1\n'))).toThrow(/match no working color space/);
+  });
+});
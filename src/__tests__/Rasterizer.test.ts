@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { Path } from '../draw/Path.js';
+import {
+  fillPath,
+  strokePath,
+  drawLine,
+  fillPolygon,
+  fillCircle,
+  strokeCircle,
+} from '../draw/Rasterizer.js';
+
+/** Sum of alpha over the whole buffer — equals covered area for a = 1 fills */
+function alphaSum(buf: ColorBuffer): number {
+  let sum = 0;
+  for (let i = 3; i < buf.data.length; i += 4) sum += buf.data[i]!;
+  return sum;
+}
+
+const WHITE: [number, number, number, number] = [1, 1, 1, 1];
+
+describe('fillPath', () => {
+  it('fully covers pixels inside a pixel-aligned rectangle', () => {
+    const buf = new ColorBuffer(8, 8, 64);
+    fillPath(buf, new Path().rect(2, 2, 4, 3), WHITE);
+    expect(buf.getPixel(2, 2)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(5, 4)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(1, 2)[3]).toBe(0);
+    expect(buf.getPixel(6, 2)[3]).toBe(0);
+    expect(buf.getPixel(2, 5)[3]).toBe(0);
+    expect(alphaSum(buf)).toBeCloseTo(12, 6);
+  });
+
+  it('gives exact fractional coverage at edges', () => {
+    const buf = new ColorBuffer(8, 8, 64);
+    fillPath(buf, new Path().rect(1.5, 1.25, 3, 2), WHITE);
+    expect(buf.getPixel(1, 2)[3]).toBeCloseTo(0.5);
+    expect(buf.getPixel(2, 1)[3]).toBeCloseTo(0.75);
+    expect(buf.getPixel(1, 1)[3]).toBeCloseTo(0.375);
+    expect(buf.getPixel(2, 2)[3]).toBeCloseTo(1);
+    expect(alphaSum(buf)).toBeCloseTo(6, 6);
+  });
+
+  it('is area-exact for diagonal edges', () => {
+    const buf = new ColorBuffer(10, 10, 64);
+    fillPolygon(buf, [1, 1, 9, 1, 1, 9], WHITE);
+    expect(alphaSum(buf)).toBeCloseTo(32, 6);
+    // Pixel cut in half by the hypotenuse
+    expect(buf.getPixel(4, 5)[3]).toBeCloseTo(0.5);
+  });
+
+  it('matches circle area', () => {
+    const buf = new ColorBuffer(64, 64, 64);
+    fillCircle(buf, 32.3, 31.7, 20, WHITE, { tolerance: 0.001 });
+    expect(alphaSum(buf)).toBeCloseTo(Math.PI * 400, 0);
+    expect(buf.getPixel(32, 32)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(0, 0)[3]).toBe(0);
+  });
+
+  it('does not depend on winding direction', () => {
+    const a = new ColorBuffer(8, 8, 64);
+    const b = new ColorBuffer(8, 8, 64);
+    fillPolygon(a, [1.3, 1.1, 6.2, 2.4, 3.7, 6.8], WHITE);
+    fillPolygon(b, [3.7, 6.8, 6.2, 2.4, 1.3, 1.1], WHITE);
+    for (let i = 0; i < a.data.length; i++) {
+      expect(b.data[i]).toBeCloseTo(a.data[i]!, 9);
+    }
+  });
+
+  it('distinguishes non-zero and even-odd fill rules', () => {
+    // Two nested squares wound the same way
+    const path = new Path().rect(0, 0, 8, 8).rect(2, 2, 4, 4);
+
+    const nonzero = new ColorBuffer(8, 8);
+    fillPath(nonzero, path, WHITE);
+    expect(nonzero.getPixel(4, 4)[3]).toBeCloseTo(1);
+
+    const evenodd = new ColorBuffer(8, 8);
+    fillPath(evenodd, path, WHITE, { fillRule: 'evenodd' });
+    expect(evenodd.getPixel(4, 4)[3]).toBeCloseTo(0);
+    expect(evenodd.getPixel(0, 0)[3]).toBeCloseTo(1);
+  });
+
+  it('leaves the centre of a pentagram empty under even-odd', () => {
+    const pts: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      const t = -Math.PI / 2 + (i * 4 * Math.PI) / 5;
+      pts.push(16 + Math.cos(t) * 14, 16 + Math.sin(t) * 14);
+    }
+    const nonzero = new ColorBuffer(32, 32);
+    const evenodd = new ColorBuffer(32, 32);
+    fillPolygon(nonzero, pts, WHITE);
+    fillPolygon(evenodd, pts, WHITE, { fillRule: 'evenodd' });
+    expect(nonzero.getPixel(16, 16)[3]).toBeCloseTo(1);
+    expect(evenodd.getPixel(16, 16)[3]).toBeCloseTo(0);
+  });
+
+  it('clips shapes extending past the buffer', () => {
+    const buf = new ColorBuffer(4, 4, 64);
+    fillPath(buf, new Path().rect(-10, -10, 12.5, 30), WHITE);
+    expect(buf.getPixel(0, 0)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(1, 3)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(2, 1)[3]).toBeCloseTo(0.5);
+    expect(buf.getPixel(3, 1)[3]).toBe(0);
+    expect(alphaSum(buf)).toBeCloseTo(10, 6);
+
+    // Entirely off-canvas shapes draw nothing
+    const off = new ColorBuffer(4, 4);
+    fillCircle(off, 100, 100, 5, WHITE);
+    expect(alphaSum(off)).toBe(0);
+  });
+
+  it('handles shapes taller than one accumulation band', () => {
+    const buf = new ColorBuffer(1200, 1000);
+    fillPath(buf, new Path().rect(0.5, 0, 1199, 1000), WHITE);
+    expect(buf.getPixel(600, 0)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(600, 999)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(0, 999)[3]).toBeCloseTo(0.5);
+  });
+
+  it('writes HDR colors and honours blend modes', () => {
+    const buf = new ColorBuffer(4, 4);
+    buf.clear(0.5, 0.5, 0.5, 1);
+    fillPath(buf, new Path().rect(0, 0, 4, 4), [3, 0, 0, 1], { blendMode: 'add' });
+    const [r, g, , a] = buf.getPixel(1, 1);
+    expect(r).toBeCloseTo(3.5);
+    expect(g).toBeCloseTo(0.5);
+    expect(a).toBeCloseTo(1);
+  });
+
+  it('scales partial coverage by the color alpha', () => {
+    const buf = new ColorBuffer(4, 4);
+    fillPath(buf, new Path().rect(0.5, 0, 2, 4), [8, 8, 8, 0.5]);
+    expect(buf.getPixel(0, 0)[3]).toBeCloseTo(0.25);
+    expect(buf.getPixel(1, 0)[3]).toBeCloseTo(0.5);
+    expect(buf.getPixel(1, 0)[0]).toBeCloseTo(8);
+  });
+
+  it('rejects unknown blend modes and fill rules', () => {
+    const buf = new ColorBuffer(4, 4);
+    const path = new Path().rect(0, 0, 2, 2);
+    expect(() => fillPath(buf, path, WHITE, { blendMode: 'bogus' as any })).toThrow(/Unknown blend mode/);
+    expect(() => fillPath(buf, path, WHITE, { fillRule: 'bogus' as any })).toThrow(/Unknown fill rule/);
+  });
+});
+
+describe('strokePath', () => {
+  it('strokes a horizontal line with the requested width', () => {
+    const buf = new ColorBuffer(20, 10, 64);
+    drawLine(buf, 2, 5, 18, 5, WHITE, { width: 2 });
+    expect(buf.getPixel(10, 4)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(10, 5)[3]).toBeCloseTo(1);
+    expect(buf.getPixel(10, 3)[3]).toBe(0);
+    expect(buf.getPixel(1, 5)[3]).toBe(0);
+    expect(alphaSum(buf)).toBeCloseTo(32, 6);
+  });
+
+  it('extends square and round caps past the end points', () => {
+    const butt = new ColorBuffer(20, 10, 64);
+    const square = new ColorBuffer(20, 10, 64);
+    const round = new ColorBuffer(20, 10, 64);
+    drawLine(butt, 4, 5, 16, 5, WHITE, { width: 4 });
+    drawLine(square, 4, 5, 16, 5, WHITE, { width: 4, cap: 'square' });
+    drawLine(round, 4, 5, 16, 5, WHITE, { width: 4, cap: 'round', tolerance: 0.001 });
+
+    expect(alphaSum(butt)).toBeCloseTo(48, 6);
+    expect(alphaSum(square)).toBeCloseTo(48 + 16, 6);
+    expect(alphaSum(round)).toBeCloseTo(48 + Math.PI * 4, 1);
+  });
+
+  it('draws miter, bevel and round joins with increasing coverage order', () => {
+    const corner = new Path().moveTo(2, 18).lineTo(10, 4).lineTo(18, 18);
+    const areas: Record<string, number> = {};
+    for (const join of ['bevel', 'round', 'miter'] as const) {
+      const buf = new ColorBuffer(20, 20, 64);
+      strokePath(buf, corner, WHITE, { width: 3, join });
+      areas[join] = alphaSum(buf);
+    }
+    expect(areas.round).toBeGreaterThan(areas.bevel!);
+    expect(areas.miter).toBeGreaterThan(areas.round!);
+  });
+
+  it('falls back to bevel beyond the miter limit', () => {
+    const spike = new Path().moveTo(2, 18).lineTo(10, 2).lineTo(12, 18);
+    const bevel = new ColorBuffer(20, 20, 64);
+    const limited = new ColorBuffer(20, 20, 64);
+    strokePath(bevel, spike, WHITE, { width: 2, join: 'bevel' });
+    strokePath(limited, spike, WHITE, { width: 2, join: 'miter', miterLimit: 2 });
+    expect(alphaSum(limited)).toBeCloseTo(alphaSum(bevel), 9);
+  });
+
+  it('does not double-count overlapping stroke pieces', () => {
+    const buf = new ColorBuffer(40, 40);
+    strokeCircle(buf, 20, 20, 12, [1, 1, 1, 0.5], { width: 3 });
+    let max = 0;
+    for (let i = 3; i < buf.data.length; i += 4) max = Math.max(max, buf.data[i]!);
+    expect(max).toBeCloseTo(0.5, 5);
+  });
+
+  it('approximates a ring area for stroked circles', () => {
+    const buf = new ColorBuffer(40, 40, 64);
+    strokeCircle(buf, 20, 20, 12, WHITE, { width: 2, tolerance: 0.001 });
+    expect(alphaSum(buf)).toBeCloseTo(Math.PI * (13 * 13 - 11 * 11), 0);
+  });
+
+  it('strokes Bézier curves', () => {
+    const buf = new ColorBuffer(40, 40);
+    const path = new Path().moveTo(2, 30).bezierCurveTo(10, 0, 30, 0, 38, 30);
+    strokePath(buf, path, [2, 1, 0.5, 1], { width: 2, cap: 'round' });
+    // Apex of the symmetric curve is at y = 7.5
+    expect(buf.getPixel(20, 7)[3]).toBeGreaterThan(0.4);
+    expect(buf.getPixel(20, 7)[0]).toBeCloseTo(2);
+    expect(buf.getPixel(20, 20)[3]).toBe(0);
+  });
+
+  it('draws round and square dots for zero-length subpaths', () => {
+    const round = new ColorBuffer(10, 10, 64);
+    drawLine(round, 5, 5, 5, 5, WHITE, { width: 4, cap: 'round', tolerance: 0.001 });
+    expect(alphaSum(round)).toBeCloseTo(Math.PI * 4, 1);
+
+    const butt = new ColorBuffer(10, 10);
+    drawLine(butt, 5, 5, 5, 5, WHITE, { width: 4 });
+    expect(alphaSum(butt)).toBe(0);
+  });
+
+  it('validates width and miter limit', () => {
+    const buf = new ColorBuffer(4, 4);
+    const path = new Path().moveTo(0, 0).lineTo(3, 3);
+    expect(() => strokePath(buf, path, WHITE, { width: -1 })).toThrow(RangeError);
+    expect(() => strokePath(buf, path, WHITE, { miterLimit: 0.5 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { RESAMPLE_FILTERS, resolveResampleFilter, resample, type ResampleFilter } from '../filters/Resample.js';
+
+const FILTERS = Object.keys(RESAMPLE_FILTERS) as ResampleFilter[];
+
+function channelSum(buf: ColorBuffer, c: number): number {
+  let sum = 0;
+  for (let i = c; i < buf.data.length; i += 4) sum += buf.data[i]!;
+  return sum;
+}
+
+/** Opaque horizontal ramp, red = x */
+function ramp(width: number, height: number): ColorBuffer {
+  const buf = new ColorBuffer(width, height, 64);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) buf.setPixel(x, y, x, 0, 0, 1);
+  }
+  return buf;
+}
+
+describe('resample filters', () => {
+  it('interpolate: 1 at the centre, 0 at other integers', () => {
+    for (const name of ['bilinear', 'bicubic', 'lanczos'] as const) {
+      const { weight } = RESAMPLE_FILTERS[name];
+      expect(weight(0), name).toBeCloseTo(1);
+      expect(weight(1), name).toBeCloseTo(0);
+      expect(weight(2), name).toBeCloseTo(0);
+    }
+    // Mitchell trades exact interpolation for less ringing
+    expect(RESAMPLE_FILTERS.mitchell.weight(0)).toBeCloseTo(8 / 9);
+  });
+
+  it('vanish beyond their support', () => {
+    for (const name of FILTERS) {
+      const { support, weight } = RESAMPLE_FILTERS[name];
+      expect(weight(support + 0.01), name).toBe(0);
+    }
+  });
+
+  it('rejects unknown filters', () => {
+    expect(() => resolveResampleFilter('sinc' as ResampleFilter)).toThrow(/Unknown resample filter/);
+  });
+});
+
+describe('resample', () => {
+  it('keeps flat HDR colors exact with every filter', () => {
+    const buf = new ColorBuffer(7, 5, 64);
+    buf.clear(12.5, 0.5, 3, 1);
+    for (const filter of FILTERS) {
+      for (const [w, h] of [[17, 11], [3, 2]] as const) {
+        const out = resample(buf, w, h, { filter });
+        for (let i = 0; i < out.data.length; i += 4) {
+          expect(out.data[i], filter).toBeCloseTo(12.5, 9);
+          expect(out.data[i + 3], filter).toBeCloseTo(1, 9);
+        }
+      }
+    }
+  });
+
+  it('returns a new buffer with the same depth and alpha mode', () => {
+    const buf = new ColorBuffer(4, 4, 32, { alphaMode: 'premultiplied' });
+    const out = resample(buf, 8, 2);
+    expect(out).not.toBe(buf);
+    expect(out.width).toBe(8);
+    expect(out.height).toBe(2);
+    expect(out.depth).toBe(32);
+    expect(out.alphaMode).toBe('premultiplied');
+  });
+
+  it('reproduces linear ramps away from the edges', () => {
+    const src = ramp(16, 2);
+    // Lanczos only approximately reproduces linear functions
+    for (const filter of ['bilinear', 'bicubic'] as const) {
+      const out = resample(src, 32, 2, { filter });
+      // Output pixel x maps to source coordinate (x + 0.5) / 2 − 0.5
+      for (let x = 8; x < 24; x++) {
+        expect(out.getPixel(x, 0)[0], `${filter}@${x}`).toBeCloseTo((x + 0.5) / 2 - 0.5, 6);
+      }
+    }
+  });
+
+  it('averages when downsampling instead of skipping pixels', () => {
+    const src = new ColorBuffer(8, 1, 64);
+    for (let x = 0; x < 8; x++) src.setPixel(x, 0, x % 2 ? 1 : 0, 0, 0, 1);
+    const out = resample(src, 2, 1, { filter: 'bilinear' });
+    expect(out.getPixel(0, 0)[0]).toBeCloseTo(0.5, 1);
+    expect(out.getPixel(1, 0)[0]).toBeCloseTo(0.5, 1);
+    // Energy per area is preserved
+    expect(channelSum(out, 0) * 4).toBeCloseTo(channelSum(src, 0), 0);
+  });
+
+  it('nearest copies source pixels', () => {
+    const src = ramp(4, 1);
+    const out = resample(src, 8, 1, { filter: 'nearest' });
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(x => out.getPixel(x, 0)[0])).toEqual([0, 0, 1, 1, 2, 2, 3, 3]);
+  });
+
+  it('does not bleed color from transparent pixels and clamps alpha', () => {
+    const src = new ColorBuffer(4, 1, 64);
+    src.setPixel(0, 0, 1, 0, 0, 1);
+    src.setPixel(1, 0, 1, 0, 0, 1);
+    src.setPixel(2, 0, 0, 9, 0, 0); // invisible green
+    const out = resample(src, 12, 1, { filter: 'lanczos' });
+    for (let x = 0; x < 12; x++) {
+      const [r, g, , a] = out.getPixel(x, 0);
+      expect(a).toBeGreaterThanOrEqual(0);
+      expect(a).toBeLessThanOrEqual(1);
+      expect(g).toBeCloseTo(0);
+      if (a > 0.05) expect(r).toBeCloseTo(1, 1);
+    }
+  });
+
+  it('validates the output size', () => {
+    const buf = new ColorBuffer(4, 4);
+    expect(() => resample(buf, 0, 4)).toThrow(RangeError);
+    expect(() => resample(buf, 2.5, 4)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { splatFootprint, resolveSplatKernel, SPLAT_KERNELS } from '../core/Splat.js';
+
+/** Sum of one channel over the whole buffer */
+function channelSum(buf: ColorBuffer, c: number): number {
+  let sum = 0;
+  for (let i = c; i < buf.data.length; i += 4) sum += buf.data[i]!;
+  return sum;
+}
+
+/** Opaque black buffer — 'add' then deposits exactly rgb × a × weight */
+function black(w: number, h: number): ColorBuffer {
+  const buf = new ColorBuffer(w, h, 64);
+  buf.clear(0, 0, 0, 1);
+  return buf;
+}
+
+describe('splatFootprint', () => {
+  it('centres pixels at +0.5', () => {
+    const fp = splatFootprint(10.5, 4.5);
+    const nonZero: [number, number, number][] = [];
+    for (let j = 0; j < fp.rows; j++) {
+      for (let i = 0; i < fp.cols; i++) {
+        const w = fp.weights[j * fp.cols + i]!;
+        if (w > 0) nonZero.push([fp.x0 + i, fp.y0 + j, w]);
+      }
+    }
+    expect(nonZero).toEqual([[10, 4, 1]]);
+  });
+
+  it('normalizes weights to sum to 1 by default', () => {
+    for (const kernel of ['bilinear', 'gaussian'] as const) {
+      const fp = splatFootprint(7.3, 2.9, { kernel, radius: 2.5 });
+      let sum = 0;
+      for (let k = 0; k < fp.cols * fp.rows; k++) sum += fp.weights[k]!;
+      expect(sum).toBeCloseTo(1, 12);
+    }
+  });
+
+  it('leaves raw weights when normalize is false', () => {
+    const fp = splatFootprint(5.5, 5.5, { kernel: 'gaussian', radius: 3, normalize: false });
+    const centre = fp.weights[(5 - fp.y0) * fp.cols + (5 - fp.x0)]!;
+    expect(centre).toBe(1);
+  });
+
+  it('validates kernels and radius', () => {
+    expect(() => splatFootprint(1, 1, { kernel: 'nope' as any })).toThrow(/Unknown splat kernel/);
+    expect(() => splatFootprint(1, 1, { kernel: 'gaussian', radius: 0 })).toThrow(RangeError);
+    expect(resolveSplatKernel('gaussian')).toBe(SPLAT_KERNELS.gaussian);
+  });
+});
+
+describe('ColorBuffer.splat', () => {
+  it('bilinear splits a sample between four pixels', () => {
+    const buf = black(4, 4);
+    buf.splat(2, 2, 1, 0, 0, 1);
+    for (const [x, y] of [[1, 1], [2, 1], [1, 2], [2, 2]] as const) {
+      expect(buf.getPixel(x, y)[0]).toBeCloseTo(0.25);
+    }
+    expect(buf.getPixel(0, 0)[0]).toBe(0);
+  });
+
+  it('weights by distance to pixel centres', () => {
+    const buf = black(4, 4);
+    buf.splat(1.75, 1.5, 1, 1, 1, 1);
+    expect(buf.getPixel(1, 1)[0]).toBeCloseTo(0.75);
+    expect(buf.getPixel(2, 1)[0]).toBeCloseTo(0.25);
+    expect(buf.getPixel(1, 2)[0]).toBe(0);
+  });
+
+  it('conserves energy wherever the sample lands', () => {
+    for (const kernel of ['bilinear', 'gaussian'] as const) {
+      for (const [x, y] of [[8, 8], [8.37, 9.91], [10.5, 7.02]]) {
+        const buf = black(20, 20);
+        buf.splat(x!, y!, 3, 1.5, 0.5, 0.8, { kernel, radius: 2.5 });
+        expect(channelSum(buf, 0)).toBeCloseTo(3 * 0.8, 9);
+        expect(channelSum(buf, 2)).toBeCloseTo(0.5 * 0.8, 9);
+      }
+    }
+  });
+
+  it('accumulates HDR energy with the default add mode', () => {
+    const buf = black(4, 4);
+    for (let i = 0; i < 100; i++) buf.splat(2.5, 2.5, 0.5, 0, 0, 1);
+    expect(buf.getPixel(2, 2)[0]).toBeCloseTo(50);
+  });
+
+  it('supports any blend mode', () => {
+    const buf = new ColorBuffer(4, 4, 64);
+    buf.clear(1, 1, 1, 1);
+    buf.splat(1.5, 1.5, 0.5, 0.5, 0.5, 1, { mode: 'multiply' });
+    expect(buf.getPixel(1, 1)[0]).toBeCloseTo(0.5);
+  });
+
+  it('accepts custom kernels', () => {
+    const box = (dx: number, dy: number, r: number) => (Math.abs(dx) < r && Math.abs(dy) < r ? 1 : 0);
+    const buf = black(10, 10);
+    buf.splat(5.5, 5.5, 9, 0, 0, 1, { kernel: box, radius: 1.5 });
+    expect(buf.getPixel(4, 4)[0]).toBeCloseTo(1);
+    expect(buf.getPixel(6, 6)[0]).toBeCloseTo(1);
+    expect(buf.getPixel(7, 5)[0]).toBe(0);
+    expect(channelSum(buf, 0)).toBeCloseTo(9);
+  });
+
+  it('clips the footprint at buffer edges', () => {
+    const buf = black(4, 4);
+    buf.splat(0.2, 0.2, 1, 1, 1, 1, { kernel: 'gaussian' });
+    expect(buf.getPixel(0, 0)[0]).toBeGreaterThan(0);
+    expect(channelSum(buf, 0)).toBeLessThan(1);
+  });
+
+  it('deposits the in-buffer part of splats centred outside the buffer', () => {
+    const buf = black(4, 4);
+    buf.splat(-0.25, 1.5, 1, 1, 1, 1);
+    expect(buf.getPixel(0, 1)[0]).toBeCloseTo(0.25);
+    expect(channelSum(buf, 0)).toBeCloseTo(0.25);
+
+    buf.clear(0, 0, 0, 1);
+    buf.splat(4.5, 4.5, 1, 1, 1, 1, { kernel: 'gaussian', radius: 2 });
+    expect(buf.getPixel(3, 3)[0]).toBeGreaterThan(0);
+    expect(channelSum(buf, 0)).toBeLessThan(0.5);
+
+    buf.clear(0, 0, 0, 1);
+    buf.splat(-10, 20, 1, 1, 1, 1, { kernel: 'gaussian', radius: 2 });
+    expect(channelSum(buf, 0)).toBe(0);
+  });
+
+  it('throws for non-finite positions', () => {
+    const buf = black(4, 4);
+    expect(() => buf.splat(NaN, 1, 1, 1, 1, 1)).toThrow(RangeError);
+    expect(() => buf.splat(1, Infinity, 1, 1, 1, 1)).toThrow(RangeError);
+  });
+
+  it('splatUnchecked matches splat inside the buffer', () => {
+    for (const options of [undefined, { kernel: 'gaussian' as const, radius: 2 }]) {
+      const a = black(12, 12);
+      const b = black(12, 12);
+      a.splat(5.3, 6.8, 2, 1, 0.5, 0.7, options);
+      b.splatUnchecked(5.3, 6.8, 2, 1, 0.5, 0.7, options);
+      expect(Array.from(b.data)).toEqual(Array.from(a.data));
+    }
+  });
+
+  it('composites onto premultiplied buffers', () => {
+    const buf = new ColorBuffer(4, 4, 64, { alphaMode: 'premultiplied' });
+    buf.splat(1.5, 1.5, 1, 0, 0, 0.5, { mode: 'normal' });
+    const [r, , , a] = buf.getPixel(1, 1);
+    expect(a).toBeCloseTo(0.5);
+    expect(r).toBeCloseTo(0.5);
+  });
+});
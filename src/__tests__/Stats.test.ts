@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { LogHistogram, computeBufferStats } from '../core/Stats.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { luminanceWeights } from '../core/ColorSpace.js';
+
+/** A w×h ramp: red runs 0..4 across x, green 0..1 down y, blue constant */
+function ramp(w: number, h: number): ColorBuffer {
+  const buf = new ColorBuffer(w, h, 32);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) buf.setPixel(x, y, (x / (w - 1)) * 4, y / (h - 1), 0.25, 1);
+  }
+  return buf;
+}
+
+describe('LogHistogram', () => {
+  it('bins values by stop and counts zeros separately', () => {
+    const histogram = new LogHistogram(-2, 2, 4);
+    histogram.add(0.3); // −1.74 EV
+    histogram.add(1);   // 0 EV
+    histogram.add(1.5, 2);
+    histogram.add(0);
+    histogram.add(-1);
+    histogram.add(NaN);
+    expect(Array.from(histogram.bins)).toEqual([1, 0, 3, 0]);
+    expect(histogram.zeros).toBe(2);
+    expect(histogram.total).toBe(6);
+  });
+
+  it('clamps out-of-range values to the end bins', () => {
+    const histogram = new LogHistogram(-1, 1, 2);
+    histogram.add(1e-9);
+    histogram.add(1e9);
+    expect(Array.from(histogram.bins)).toEqual([1, 1]);
+  });
+
+  it('interpolates percentiles within a bin', () => {
+    const histogram = new LogHistogram(-4, 4, 8);
+    for (let i = 0; i < 4; i++) histogram.add(1.2); // bin [0, 1) EV
+    expect(histogram.percentile(0)).toBe(1);
+    expect(histogram.percentile(50)).toBeCloseTo(Math.SQRT2, 10);
+    expect(histogram.percentile(100)).toBe(2);
+    histogram.add(0, 4);
+    expect(histogram.percentile(25)).toBe(0);
+    expect(new LogHistogram(0, 1, 1).percentile(50)).toBeNull();
+  });
+
+  it('validates its range and bin count', () => {
+    expect(() => new LogHistogram(1, 1, 4)).toThrow(RangeError);
+    expect(() => new LogHistogram(-Infinity, 0, 4)).toThrow(RangeError);
+    expect(() => new LogHistogram(0, 1, 0)).toThrow(RangeError);
+    expect(() => new LogHistogram(0, 1, 2.5)).toThrow(RangeError);
+  });
+});
+
+describe('computeBufferStats', () => {
+  it('reports min, max, mean and over-range counts per channel', () => {
+    const stats = computeBufferStats(ramp(5, 3));
+    expect(stats.samples).toBe(15);
+    expect(stats.step).toBe(1);
+    expect(stats.region).toEqual({ x: 0, y: 0, width: 5, height: 3 });
+    expect(stats.r.min).toBe(0);
+    expect(stats.r.max).toBe(4);
+    expect(stats.r.mean).toBeCloseTo(2, 6);
+    expect(stats.r.aboveOne).toBe(9);
+    expect(stats.g.mean).toBeCloseTo(0.5, 6);
+    expect(stats.g.aboveOne).toBe(0);
+    expect(stats.b.logAverage).toBeCloseTo(0.25, 6);
+    expect(stats.a.min).toBe(1);
+    expect(stats.pixelsAboveOne).toBe(9);
+  });
+
+  it('computes luminance with the working space weights', () => {
+    for (const colorSpace of ['linear-srgb', 'linear-rec2020'] as const) {
+      const buf = new ColorBuffer(1, 1, 32, { colorSpace });
+      buf.setPixel(0, 0, 1, 2, 3, 1);
+      const [wr, wg, wb] = luminanceWeights(colorSpace);
+      expect(computeBufferStats(buf).luminance.max).toBeCloseTo(wr + 2 * wg + 3 * wb, 6);
+    }
+  });
+
+  it('reads percentiles to within 1/32 stop', () => {
+    const buf = new ColorBuffer(100, 1, 32);
+    for (let x = 0; x < 100; x++) buf.setPixel(x, 0, (x + 1) / 10, 0, 0, 1);
+    const { r } = computeBufferStats(buf, { percentiles: [0, 10, 50, 90, 100] });
+    expect(r.percentiles[0]).toBeCloseTo(0.1, 6);
+    expect(r.percentiles[4]).toBeCloseTo(10, 6);
+    for (const [i, expected] of [[1, 1], [2, 5], [3, 9]] as const) {
+      expect(Math.abs(Math.log2(r.percentiles[i]! / expected))).toBeLessThan(1 / 32 + 0.02);
+    }
+  });
+
+  it('counts NaN and Infinity without letting them into the other statistics', () => {
+    const buf = ramp(4, 4);
+    buf.setPixel(0, 0, NaN, Infinity, -Infinity, 1);
+    const stats = computeBufferStats(buf);
+    expect(stats.r.nan).toBe(1);
+    expect(stats.g.infinite).toBe(1);
+    expect(stats.b.infinite).toBe(1);
+    expect(stats.luminance.nan).toBe(1);
+    expect(Number.isFinite(stats.r.mean)).toBe(true);
+    expect(stats.g.max).toBe(1);
+    expect(stats.histogram.r.total).toBe(15);
+  });
+
+  it('measures a region and decimates with step and maxSamples', () => {
+    const buf = ramp(9, 9);
+    const region = computeBufferStats(buf, { region: { x: 8, y: 0, width: 1, height: 9 } });
+    expect(region.samples).toBe(9);
+    expect(region.r.min).toBe(4);
+
+    const stepped = computeBufferStats(buf, { step: 4 });
+    expect(stepped.samples).toBe(9); // x, y ∈ {0, 4, 8}
+    expect(stepped.r.mean).toBeCloseTo(2, 6);
+
+    const limited = computeBufferStats(buf, { maxSamples: 10 });
+    expect(limited.samples).toBeLessThanOrEqual(10);
+    expect(limited.step).toBeGreaterThan(1);
+    expect(computeBufferStats(buf, { maxSamples: 1 }).samples).toBe(1);
+  });
+
+  it('measures premultiplied buffers as straight color and can skip transparent pixels', () => {
+    const straight = ramp(3, 3);
+    straight.setPixel(1, 1, 2, 0.5, 0.25, 0.5);
+    straight.setPixel(2, 2, 0, 0, 0, 0);
+    const premultiplied = computeBufferStats(straight.toPremultiplied());
+    expect(premultiplied.r.max).toBeCloseTo(computeBufferStats(straight).r.max, 6);
+    expect(premultiplied.g.mean).toBeCloseTo(computeBufferStats(straight).g.mean, 6);
+
+    const opaque = computeBufferStats(straight, { ignoreTransparent: true });
+    expect(opaque.samples).toBe(8);
+    expect(opaque.a.min).toBe(0.5);
+  });
+
+  it('fills the display histograms over the requested range', () => {
+    const buf = new ColorBuffer(2, 1, 32);
+    buf.setPixel(0, 0, 0.5, 0.5, 0.5, 1);
+    buf.setPixel(1, 0, 2, 2, 2, 1);
+    const { histogram } = computeBufferStats(buf, { histogram: { bins: 4, minEV: -2, maxEV: 2 } });
+    expect(Array.from(histogram.r.bins)).toEqual([0, 1, 0, 1]);
+    expect(histogram.luminance.total).toBe(2);
+  });
+
+  it('returns NaN statistics when nothing is sampled', () => {
+    const stats = computeBufferStats(new ColorBuffer(2, 2, 32), { ignoreTransparent: true });
+    expect(stats.samples).toBe(0);
+    expect(stats.luminance.mean).toBeNaN();
+    expect(stats.luminance.percentiles).toEqual([NaN, NaN, NaN]);
+  });
+
+  it('validates its options', () => {
+    const buf = ramp(4, 4);
+    expect(() => computeBufferStats(buf, { step: 0 })).toThrow(RangeError);
+    expect(() => computeBufferStats(buf, { maxSamples: 0 })).toThrow(RangeError);
+    expect(() => computeBufferStats(buf, { percentiles: [101] })).toThrow(RangeError);
+    expect(() => computeBufferStats(buf, { region: { x: 3, y: 0, width: 2, height: 1 } })).toThrow(RangeError);
+    expect(() => computeBufferStats(buf, { histogram: { bins: 0 } })).toThrow(RangeError);
+  });
+});
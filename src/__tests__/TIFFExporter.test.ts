@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import { unzlibSync } from 'fflate';
+import { TIFFExporter, lzwEncode, type TIFFExportOptions } from '../export/TIFFExporter.js';
+import { iccProfile } from '../export/ICCProfile.js';
+
+// ─── Minimal TIFF reader (single IFD, chunky RGBA strips) ────────────
+
+interface DecodedTIFF {
+  tags: Map<number, number[]>;
+  /** Raw bytes of UNDEFINED/ASCII tags */
+  bytes: Map<number, Uint8Array>;
+  samples: number[];
+}
+
+function lzwDecode(input: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let dict: number[][] = [];
+  let width = 9;
+  let bitPos = 0;
+  let prev: number[] | null = null;
+  const reset = () => {
+    dict = Array.from({ length: 258 }, (_, i) => [i]);
+    width = 9;
+    prev = null;
+  };
+  reset();
+  while (bitPos + width <= input.length * 8) {
+    let code = 0;
+    for (let i = 0; i < width; i++, bitPos++) {
+      code = (code << 1) | ((input[bitPos >> 3]! >> (7 - (bitPos & 7))) & 1);
+    }
+    if (code === 256) { reset(); continue; }
+    if (code === 257) break;
+    let entry: number[];
+    if (prev === null) {
+      entry = dict[code]!;
+    } else {
+      entry = code < dict.length ? dict[code]! : [...prev, prev[0]!];
+      dict.push([...prev, entry[0]!]);
+    }
+    out.push(...entry);
+    prev = entry;
+    if (dict.length + 1 >= 1 << width && width < 12) width++;
+  }
+  return Uint8Array.from(out);
+}
+
+function readTIFF(file: Uint8Array): DecodedTIFF {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  expect(String.fromCharCode(file[0]!, file[1]!)).toBe('II');
+  expect(view.getUint16(2, true)).toBe(42);
+  const ifd = view.getUint32(4, true);
+  const count = view.getUint16(ifd, true);
+  const tags = new Map<number, number[]>();
+  const bytes = new Map<number, Uint8Array>();
+  let lastTag = 0;
+  for (let i = 0; i < count; i++) {
+    const o = ifd + 2 + i * 12;
+    const tag = view.getUint16(o, true);
+    expect(tag).toBeGreaterThan(lastTag); // tags must be sorted
+    lastTag = tag;
+    const type = view.getUint16(o + 2, true);
+    const n = view.getUint32(o + 4, true);
+    const size = { 2: 1, 3: 2, 4: 4, 5: 8, 7: 1 }[type]! * n;
+    const at = size <= 4 ? o + 8 : view.getUint32(o + 8, true);
+    if (type === 2 || type === 7) bytes.set(tag, file.subarray(at, at + size));
+    const values: number[] = [];
+    for (let k = 0; k < n && type !== 2 && type !== 7; k++) {
+      if (type === 3) values.push(view.getUint16(at + k * 2, true));
+      else if (type === 4) values.push(view.getUint32(at + k * 4, true));
+      else values.push(view.getUint32(at + k * 8, true), view.getUint32(at + k * 8 + 4, true));
+    }
+    tags.set(tag, values);
+  }
+
+  const width = tags.get(256)![0]!;
+  const bits = tags.get(258)![0]!;
+  const isFloat = tags.get(339)![0] === 3;
+  const compression = tags.get(259)![0]!;
+  const predictor = tags.get(317)?.[0] ?? 1;
+  const offsets = tags.get(273)!;
+  const counts = tags.get(279)!;
+
+  const samples: number[] = [];
+  offsets.forEach((offset, s) => {
+    let strip = file.subarray(offset, offset + counts[s]!);
+    if (compression === 5) strip = lzwDecode(strip);
+    if (compression === 8) strip = unzlibSync(strip);
+    const sv = new DataView(strip.slice().buffer);
+    const size = bits / 8;
+    const values: number[] = [];
+    for (let i = 0; i < strip.length; i += size) {
+      values.push(isFloat ? sv.getFloat32(i, true) : bits === 16 ? sv.getUint16(i, true) : sv.getUint8(i));
+    }
+    if (predictor === 2) {
+      const rowLength = width * 4;
+      const mask = bits === 16 ? 0xffff : 0xff;
+      for (let i = 0; i < values.length; i++) {
+        if (i % rowLength >= 4) values[i] = (values[i]! + values[i - 4]!) & mask;
+      }
+    }
+    samples.push(...values);
+  });
+  return { tags, bytes, samples };
+}
+
+function gradient8(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i++) data[i] = (i * 7 + (i >> 6)) & 0xff;
+  return data;
+}
+
+// ─── LZW ─────────────────────────────────────────────────────────────
+
+describe('lzwEncode', () => {
+  it('round-trips short and empty input', () => {
+    for (const input of [[], [5], [1, 1, 1, 1, 1, 1, 1], Array.from('TOBEORNOTTOBEORTOBEORNOT', c => c.charCodeAt(0))]) {
+      expect(Array.from(lzwDecode(lzwEncode(Uint8Array.from(input))))).toEqual(input);
+    }
+  });
+
+  it('round-trips through code-width changes and table resets', () => {
+    let seed = 3;
+    const input = new Uint8Array(200_000);
+    for (let i = 0; i < input.length; i++) {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      input[i] = (seed >>> 24) & 0x0f; // low entropy: long tables, several resets
+    }
+    expect(lzwDecode(lzwEncode(input))).toEqual(input);
+  });
+
+  it('compresses repetitive data', () => {
+    expect(lzwEncode(new Uint8Array(10_000)).length).toBeLessThan(300);
+  });
+});
+
+// ─── TIFFExporter ────────────────────────────────────────────────────
+
+describe('TIFFExporter', () => {
+  const exporter = new TIFFExporter();
+  const base: TIFFExportOptions = { width: 30, height: 700, dpi: 300 };
+
+  it('writes resolution and format tags', () => {
+    const { data, mimeType, filename } = exporter.export(gradient8(30, 700), base);
+    const { tags, bytes } = readTIFF(data);
+    expect(tags.get(256)).toEqual([30]);
+    expect(tags.get(257)).toEqual([700]);
+    expect(tags.get(258)).toEqual([8, 8, 8, 8]);
+    expect(tags.get(262)).toEqual([2]);
+    expect(tags.get(277)).toEqual([4]);
+    expect(tags.get(282)).toEqual([300, 1]);
+    expect(tags.get(283)).toEqual([300, 1]);
+    expect(tags.get(296)).toEqual([2]);
+    expect(tags.get(338)).toEqual([2]);
+    expect(tags.get(339)).toEqual([1, 1, 1, 1]);
+    expect(String.fromCharCode(...bytes.get(305)!)).toBe('hd-canvas\0');
+    expect(tags.get(273)!.length).toBeGreaterThan(1); // several strips
+    expect(mimeType).toBe('image/tiff');
+    expect(filename).toBe('artwork-30x700-300dpi.tif');
+  });
+
+  it('stores fractional DPI as a rational', () => {
+    const { tags } = readTIFF(exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 299.5 }).data);
+    expect(tags.get(282)).toEqual([299500, 1000]);
+  });
+
+  it('round-trips 8-bit samples with every compression', () => {
+    const input = gradient8(30, 700);
+    for (const compression of ['none', 'lzw', 'deflate'] as const) {
+      const { data } = exporter.export(input, { ...base, compression });
+      const { tags, samples } = readTIFF(data);
+      expect(tags.get(259), compression).toEqual([{ none: 1, lzw: 5, deflate: 8 }[compression]]);
+      expect(tags.get(317), compression).toEqual([compression === 'none' ? 1 : 2]);
+      expect(samples, compression).toEqual(Array.from(input));
+    }
+  });
+
+  it('round-trips 16-bit samples', () => {
+    const input = new Uint16Array(20 * 20 * 4).map((_, i) => (i * 977) & 0xffff);
+    const { data } = exporter.export(input, { width: 20, height: 20, dpi: 300, compression: 'lzw' });
+    const { tags, samples } = readTIFF(data);
+    expect(tags.get(258)).toEqual([16, 16, 16, 16]);
+    expect(samples).toEqual(Array.from(input));
+  });
+
+  it('round-trips 32-bit float samples, including HDR values', () => {
+    const input = Float32Array.from({ length: 8 * 8 * 4 }, (_, i) => i * 0.37 - 3);
+    const { data } = exporter.export(input, { width: 8, height: 8, dpi: 300, compression: 'deflate', alphaMode: 'premultiplied' });
+    const { tags, samples } = readTIFF(data);
+    expect(tags.get(258)).toEqual([32, 32, 32, 32]);
+    expect(tags.get(339)).toEqual([3, 3, 3, 3]);
+    expect(tags.get(317)).toEqual([1]);
+    expect(tags.get(338)).toEqual([1]);
+    expect(samples).toEqual(Array.from(input));
+  });
+
+  it('embeds ICC profiles', () => {
+    const named = readTIFF(exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 300, iccProfile: 'adobe-rgb' }).data);
+    expect(named.bytes.get(34675)).toEqual(iccProfile('adobe-rgb'));
+    const custom = iccProfile('srgb').slice();
+    const raw = readTIFF(exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 300, iccProfile: custom }).data);
+    expect(raw.bytes.get(34675)).toEqual(custom);
+  });
+
+  it('compresses smooth gradients with the predictor', () => {
+    const input = new Uint8Array(256 * 64 * 4).map((_, i) => (i >> 2) & 0xff);
+    const none = exporter.export(input, { width: 256, height: 64, dpi: 300, compression: 'none' }).data.length;
+    expect(exporter.export(input, { width: 256, height: 64, dpi: 300, compression: 'lzw' }).data.length).toBeLessThan(none / 10);
+  });
+
+  it('writes CMYK separations with the ink set and no extra samples', () => {
+    const input = new Uint8Array(4 * 4 * 4).map((_, i) => (i * 13) & 0xff);
+    const { data } = exporter.export(input, { width: 4, height: 4, dpi: 300, colorModel: 'cmyk' });
+    const { tags, samples } = readTIFF(data);
+    expect(tags.get(262)).toEqual([5]);
+    expect(tags.get(277)).toEqual([4]);
+    expect(tags.get(332)).toEqual([1]);
+    expect(tags.has(338)).toBe(false);
+    expect(samples).toEqual(Array.from(input));
+  });
+
+  it('accepts CMYK profile bytes but rejects RGB profiles and float data for CMYK', () => {
+    const profile = new Uint8Array([1, 2, 3, 4]);
+    const { data } = exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 300, colorModel: 'cmyk', iccProfile: profile });
+    expect(readTIFF(data).bytes.get(34675)).toEqual(profile);
+    expect(() => exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 300, colorModel: 'cmyk', iccProfile: 'srgb' }))
+      .toThrow(/is RGB and cannot tag CMYK data/);
+    expect(() => exporter.export(new Float32Array(4), { width: 1, height: 1, dpi: 300, colorModel: 'cmyk' }))
+      .toThrow(/8- or 16-bit/);
+  });
+
+  it('validates options', () => {
+    expect(() => exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 300, compression: 'jpeg' as 'lzw' }))
+      .toThrow(/Unknown TIFF compression/);
+    expect(() => exporter.export(new Uint8Array(8), { width: 1, height: 1, dpi: 300 })).toThrow(/Data length mismatch/);
+    expect(() => exporter.export(new Uint8Array(4), { width: 1, height: 1, dpi: 0 })).toThrow(/DPI must be positive/);
+  });
+});
@@ -4,9 +4,16 @@ import {
   clamp,
   reinhard,
   aces,
+  reinhardExtended,
+  hable,
+  acesFitted,
+  agx,
   type ToneMapFn,
+  type ToneMapPixelFn,
+  type ToneMapOptions,
 } from '../export/ToneMapper.js';
 import { ColorBuffer } from '../core/ColorBuffer.js';
+import { colorSpaceMatrix, type ColorSpace } from '../core/ColorSpace.js';
 
 // ─── Algorithm unit tests ────────────────────────────────────────────
 
@@ -79,6 +86,100 @@ describe('aces', () => {
   });
 });
 
+describe('reinhardExtended', () => {
+  it('maps 0 → 0 and the white point → 1', () => {
+    const fn = reinhardExtended({ whitePoint: 3 });
+    expect(fn(0)).toBe(0);
+    expect(fn(3)).toBeCloseTo(1, 12);
+    expect(fn(10)).toBe(1);
+    expect(fn(-1)).toBe(0);
+  });
+
+  it('approaches plain reinhard as the white point grows', () => {
+    expect(reinhardExtended({ whitePoint: 1e6 })(1)).toBeCloseTo(reinhard(1), 6);
+    expect(reinhardExtended()(4)).toBeCloseTo(1, 12);
+  });
+
+  it('rejects a non-positive white point', () => {
+    expect(() => reinhardExtended({ whitePoint: 0 })).toThrow(RangeError);
+  });
+});
+
+describe('hable', () => {
+  it('maps 0 → 0 and the white point → 1, monotonically', () => {
+    const fn = hable();
+    expect(fn(0)).toBeCloseTo(0, 12);
+    expect(fn(11.2)).toBeCloseTo(1, 12);
+    expect(fn(50)).toBe(1);
+    let previous = -1;
+    for (const v of [0, 0.01, 0.1, 0.5, 1, 2, 5, 11]) {
+      expect(fn(v)).toBeGreaterThan(previous);
+      previous = fn(v);
+    }
+  });
+
+  it('responds to the toe and shoulder controls', () => {
+    expect(hable({ toeStrength: 0.4 })(0.1)).toBeLessThan(hable()(0.1));
+    expect(hable({ whitePoint: 4 })(2)).toBeGreaterThan(hable()(2));
+  });
+
+  it('rejects parameters without a usable white point', () => {
+    expect(() => hable({ whitePoint: -1 })).toThrow(RangeError);
+    expect(() => hable({ shoulderStrength: 0, linearStrength: 0, toeStrength: 0 })).toThrow(RangeError);
+  });
+});
+
+function mapPixel(fn: ToneMapPixelFn, r: number, g: number, b: number): number[] {
+  const rgb = Float64Array.of(r, g, b);
+  fn(rgb);
+  return Array.from(rgb);
+}
+
+describe('acesFitted', () => {
+  it('keeps neutrals neutral, from black to clipped white', () => {
+    expect(mapPixel(acesFitted, 0, 0, 0)).toEqual([0, 0, 0]);
+    const [r, g, b] = mapPixel(acesFitted, 0.18, 0.18, 0.18);
+    expect(g).toBeCloseTo(r!, 3);
+    expect(b).toBeCloseTo(r!, 3);
+    expect(mapPixel(acesFitted, 100, 100, 100).every((v) => v > 0.99 && v <= 1)).toBe(true);
+  });
+
+  it('desaturates bright saturated colors toward white', () => {
+    const dim = mapPixel(acesFitted, 0.5, 0, 0);
+    const bright = mapPixel(acesFitted, 50, 0, 0);
+    expect(bright[1]! / bright[0]!).toBeGreaterThan(dim[1]! / dim[0]!);
+  });
+});
+
+describe('agx', () => {
+  it('maps black to black, middle grey to a mid-tone and highlights to near white', () => {
+    const fn = agx();
+    expect(mapPixel(fn, 0, 0, 0).every((v) => v < 1e-3)).toBe(true);
+    const [grey] = mapPixel(fn, 0.18, 0.18, 0.18);
+    expect(grey).toBeGreaterThan(0.1);
+    expect(grey).toBeLessThan(0.3);
+    expect(mapPixel(fn, 1000, 1000, 1000).every((v) => v > 0.95 && v <= 1)).toBe(true);
+  });
+
+  it('keeps neutrals neutral and converges bright colors to white', () => {
+    // Within the rounding of AgX's published matrices
+    const [r, g, b] = mapPixel(agx(), 2, 2, 2);
+    expect(g).toBeCloseTo(r!, 3);
+    expect(b).toBeCloseTo(r!, 3);
+    const bright = mapPixel(agx(), 1000, 0, 0);
+    expect(bright[1]).toBeGreaterThan(0.5);
+  });
+
+  it('applies looks', () => {
+    const base = mapPixel(agx({ look: 'base' }), 0.4, 0.1, 0.05);
+    const punchy = mapPixel(agx({ look: 'punchy' }), 0.4, 0.1, 0.05);
+    expect(punchy[2]! / punchy[0]!).toBeLessThan(base[2]! / base[0]!);
+    expect(mapPixel(agx({ look: { saturation: 0 } }), 0.4, 0.1, 0.05).every((v, _, a) => Math.abs(v - a[0]!) < 1e-3))
+      .toBe(true);
+    expect(() => agx({ look: 'golden' as 'base' })).toThrow(/Unknown AgX look/);
+  });
+});
+
 // ─── ToneMapper class tests ─────────────────────────────────────────
 
 describe('ToneMapper', () => {
@@ -89,6 +190,13 @@ describe('ToneMapper', () => {
       expect(() => new ToneMapper({ algorithm: 'aces' })).not.toThrow();
     });
 
+    it('accepts algorithms with parameters', () => {
+      const tm = new ToneMapper({ algorithm: { algorithm: 'reinhard-extended', whitePoint: 2 }, gamma: 1 });
+      expect(tm.mapValue(2)).toBeCloseTo(1, 12);
+      expect(new ToneMapper({ algorithm: { algorithm: 'hable', whitePoint: 2 }, gamma: 1 }).mapValue(2)).toBeCloseTo(1, 12);
+      expect(() => new ToneMapper({ algorithm: { algorithm: 'hable', whitePoint: 0 } })).toThrow(RangeError);
+    });
+
     it('accepts custom algorithm function', () => {
       const custom: ToneMapFn = (v) => Math.sqrt(v);
       expect(() => new ToneMapper({ algorithm: custom })).not.toThrow();
@@ -293,6 +401,214 @@ describe('ToneMapper', () => {
     });
   });
 
+  describe('mapRows (strips)', () => {
+    it('matches the same rows of the full mapping', () => {
+      const buf = new ColorBuffer(3, 5, 32);
+      for (let i = 0; i < buf.data.length; i++) buf.data[i] = (i % 7) * 0.4;
+      for (const outputDepth of [8, 16] as const) {
+        const tm = new ToneMapper({ algorithm: 'aces', colorSpace: 'display-p3', outputDepth });
+        const full = tm.map(buf);
+        expect(Array.from(tm.mapRows(buf, 2, 2))).toEqual(Array.from(full.slice(2 * 12, 4 * 12)));
+      }
+    });
+
+    it('rejects rows outside the buffer', () => {
+      const tm = new ToneMapper({ algorithm: 'clamp' });
+      const buf = new ColorBuffer(2, 2, 32);
+      expect(tm.mapRows(buf, 2, 0).length).toBe(0);
+      expect(() => tm.mapRows(buf, 1, 2)).toThrow(RangeError);
+      expect(() => tm.mapRows(buf, -1, 1)).toThrow(RangeError);
+    });
+  });
+
+  describe('per-pixel operators', () => {
+    it('map whole pixels at both output depths', () => {
+      const buf = new ColorBuffer(2, 1, 32);
+      buf.setPixel(0, 0, 0.5, 0.5, 0.5, 1);
+      buf.setPixel(1, 0, 8, 0.2, 0, 0.5);
+      for (const algorithm of ['agx', 'aces-fitted'] as const) {
+        const fn = algorithm === 'agx' ? agx() : acesFitted;
+        const expected = [...mapPixel(fn, 0.5, 0.5, 0.5), 1, ...mapPixel(fn, 8, 0.2, 0), 0.5];
+        const tm8 = new ToneMapper({ algorithm, gamma: 1 });
+        const tm16 = new ToneMapper({ algorithm, gamma: 1, outputDepth: 16 });
+        expect(Array.from(tm16.map(buf))).toEqual(expected.map((v) => Math.round(v * 65535)));
+        Array.from(tm8.map(buf)).forEach((v, i) => expect(Math.abs(v - expected[i]! * 255)).toBeLessThanOrEqual(1));
+        expect(tm8.mapValue(0.5)).toBeCloseTo(expected[0]!, 12);
+      }
+    });
+
+    it('run in linear Rec.709 whatever the working and output spaces', () => {
+      const transform = (from: ColorSpace, to: ColorSpace, [r, g, b]: number[]) => {
+        const m = colorSpaceMatrix(from, to);
+        return [0, 3, 6].map((i) => m[i]! * r! + m[i + 1]! * g! + m[i + 2]! * b!);
+      };
+      const color = [4, 0.6, 0.1];
+      const cases = [
+        { working: 'acescg', output: undefined },
+        { working: 'linear-srgb', output: 'display-p3' },
+        { working: 'acescg', output: 'rec2020' },
+      ] as const;
+      for (const algorithm of ['agx', 'aces-fitted'] as const) {
+        const fn = algorithm === 'agx' ? agx() : acesFitted;
+        for (const { working, output } of cases) {
+          const buf = new ColorBuffer(1, 1, 64, { colorSpace: working });
+          const [r, g, b] = transform('linear-srgb', working, color);
+          buf.setPixel(0, 0, r!, g!, b!, 1);
+          const out = new ToneMapper({ algorithm, colorSpace: output, gamma: 1, outputDepth: 16 }).map(buf);
+
+          const expected = transform('linear-srgb', output ?? working, mapPixel(fn, color[0]!, color[1]!, color[2]!));
+          expected.forEach((v, c) => {
+            expect(Math.abs(out[c]! - Math.min(1, Math.max(0, v)) * 65535), `${algorithm} ${working} → ${output}`)
+              .toBeLessThanOrEqual(1);
+          });
+        }
+      }
+    });
+  });
+
+  describe('premultiplied input', () => {
+    it('unpremultiplies before tone mapping', () => {
+      const straight = new ColorBuffer(1, 1, 32);
+      straight.setPixel(0, 0, 0.8, 0.4, 0.2, 0.5);
+      const premul = straight.toPremultiplied();
+
+      const tm = new ToneMapper({ algorithm: 'clamp', gamma: 1 });
+      expect(Array.from(tm.map(premul))).toEqual(Array.from(tm.map(straight)));
+
+      const tm16 = new ToneMapper({ algorithm: 'reinhard', outputDepth: 16 });
+      expect(Array.from(tm16.map(premul))).toEqual(Array.from(tm16.map(straight)));
+    });
+
+    it('maps fully transparent premultiplied pixels to transparent black', () => {
+      const buf = new ColorBuffer(1, 1, 32, { alphaMode: 'premultiplied' });
+      const tm = new ToneMapper({ algorithm: 'clamp', gamma: 1 });
+      expect(Array.from(tm.map(buf))).toEqual([0, 0, 0, 0]);
+    });
+  });
+
+  describe('modes and highlight desaturation', () => {
+    /** One pixel through a 16-bit, gamma-1 mapper, as floats */
+    function map16(options: Partial<ToneMapOptions>, r: number, g: number, b: number): number[] {
+      const buf = new ColorBuffer(1, 1, 32);
+      buf.setPixel(0, 0, r, g, b, 1);
+      const tm = new ToneMapper({ algorithm: 'reinhard', gamma: 1, outputDepth: 16, ...options });
+      return Array.from(tm.map(buf).slice(0, 3)).map((v) => v / 65535);
+    }
+    const luma = ([r, g, b]: number[]) => 0.2126 * r! + 0.7152 * g! + 0.0722 * b!;
+
+    it('luminance mode maps luminance and keeps channel ratios', () => {
+      const out = map16({ mode: 'luminance' }, 1, 0.25, 0.125);
+      expect(out[0]! / out[1]!).toBeCloseTo(4, 3);
+      expect(out[0]! / out[2]!).toBeCloseTo(8, 2);
+      expect(luma(out)).toBeCloseTo(reinhard(luma([1, 0.25, 0.125])), 4);
+
+      const channel = map16({}, 1, 0.25, 0.125);
+      expect(channel[0]! / channel[1]!).toBeCloseTo(2.5, 3);
+    });
+
+    it('luminance mode desaturates out-of-range colors at constant luminance', () => {
+      const out = map16({ mode: 'luminance' }, 0, 0, 20);
+      expect(out[2]).toBe(1);
+      expect(out[0]).toBeCloseTo(out[1]!, 4);
+      expect(out[0]).toBeLessThan(1);
+      expect(luma(out)).toBeCloseTo(reinhard(0.0722 * 20), 4);
+    });
+
+    it('max-rgb mode maps the brightest channel and keeps ratios', () => {
+      const out = map16({ mode: 'max-rgb' }, 10, 5, 0);
+      expect(out[0]).toBeCloseTo(reinhard(10), 4);
+      expect(out[1]).toBeCloseTo(reinhard(10) / 2, 4);
+      expect(out[2]).toBe(0);
+    });
+
+    it('uses the luminance weights of the output primaries', () => {
+      const srgb = map16({ mode: 'luminance', colorSpace: 'srgb', gamma: 1 }, 0, 1, 0);
+      const p3 = map16({ mode: 'luminance', colorSpace: 'display-p3', gamma: 1 }, 0, 1, 0);
+      expect(srgb[1]).toBeCloseTo(reinhard(0.7152) / 0.7152, 3);
+      expect(p3).not.toEqual(srgb);
+    });
+
+    it('leaves grey unchanged in every mode', () => {
+      const expected = map16({}, 0.6, 0.6, 0.6);
+      for (const mode of ['luminance', 'max-rgb'] as const) {
+        map16({ mode }, 0.6, 0.6, 0.6).forEach((v, i) => expect(v).toBeCloseTo(expected[i]!, 4));
+        expect(new ToneMapper({ algorithm: 'aces', mode }).mapValue(3)).toBe(new ToneMapper({ algorithm: 'aces' }).mapValue(3));
+      }
+    });
+
+    it('highlight desaturation rolls bright colors toward grey, keeping luminance', () => {
+      const spread = (rgb: number[]) => Math.max(...rgb) - Math.min(...rgb);
+      const none = map16({ mode: 'luminance' }, 2, 0.5, 0.2);
+      const half = map16({ mode: 'luminance', highlightDesaturation: 0.5 }, 2, 0.5, 0.2);
+      const full = map16({ mode: 'luminance', highlightDesaturation: 1 }, 2, 0.5, 0.2);
+      expect(spread(half)).toBeLessThan(spread(none));
+      expect(spread(full)).toBeLessThan(spread(half));
+      expect(luma(full)).toBeCloseTo(luma(none), 4);
+
+      // Dark colors are barely touched
+      const dark = map16({ highlightDesaturation: 1 }, 0.02, 0, 0);
+      expect(dark[1]! / dark[0]!).toBeLessThan(0.05);
+      // Works after per-pixel algorithms too
+      expect(spread(map16({ algorithm: 'agx', highlightDesaturation: 1 }, 4, 0.5, 0.2)))
+        .toBeLessThan(spread(map16({ algorithm: 'agx' }, 4, 0.5, 0.2)));
+    });
+
+    it('validates the mode and desaturation', () => {
+      expect(() => new ToneMapper({ algorithm: 'clamp', mode: 'hsv' as 'channel' })).toThrow(/Unknown tone map mode/);
+      expect(() => new ToneMapper({ algorithm: 'agx', mode: 'luminance' })).toThrow(/per-channel algorithm/);
+      expect(() => new ToneMapper({ algorithm: 'clamp', highlightDesaturation: 1.5 })).toThrow(RangeError);
+      expect(() => new ToneMapper({ algorithm: 'clamp', highlightDesaturation: -0.1 })).toThrow(RangeError);
+    });
+  });
+
+  describe('output color space', () => {
+    it('encodes with the piecewise sRGB curve instead of a power gamma', () => {
+      const tm = new ToneMapper({ algorithm: 'clamp', colorSpace: 'srgb' });
+      expect(tm.mapValue(0.5)).toBeCloseTo(0.7354, 4);
+      expect(tm.mapValue(0.001)).toBeCloseTo(0.01292, 5);
+
+      const buf = new ColorBuffer(1, 1, 32);
+      buf.setPixel(0, 0, 0.5, 0.001, 0, 1);
+      expect(Array.from(tm.map(buf))).toEqual([188, 3, 0, 255]);
+      const tm16 = new ToneMapper({ algorithm: 'clamp', colorSpace: 'srgb', outputDepth: 16 });
+      expect(tm16.map(buf)[0]).toBe(Math.round(0.7353569830524495 * 65535));
+    });
+
+    it('lets an explicit gamma override the transfer curve', () => {
+      const tm = new ToneMapper({ algorithm: 'clamp', colorSpace: 'srgb', gamma: 2.2 });
+      expect(tm.mapValue(0.5)).toBeCloseTo(Math.pow(0.5, 1 / 2.2));
+    });
+
+    it('converts from the working space to the output primaries', () => {
+      // Pure linear-sRGB red is inside P3, so it is no longer pure red there
+      const buf = new ColorBuffer(1, 1, 64);
+      buf.setPixel(0, 0, 1, 0, 0, 1);
+      const p3 = new ToneMapper({ algorithm: 'clamp', colorSpace: 'display-p3', outputDepth: 16 }).map(buf);
+      expect(p3[0]).toBeLessThan(65535);
+      expect(p3[1]).toBeGreaterThan(0);
+
+      // A buffer already in linear P3 only gets the transfer curve
+      const native = new ColorBuffer(1, 1, 64, { colorSpace: 'linear-p3' });
+      native.setPixel(0, 0, 1, 0, 0, 1);
+      const out = new ToneMapper({ algorithm: 'clamp', colorSpace: 'display-p3' }).map(native);
+      expect(Array.from(out)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('clips colors outside the output gamut', () => {
+      const buf = new ColorBuffer(1, 1, 64, { colorSpace: 'linear-rec2020' });
+      buf.setPixel(0, 0, 0, 1, 0, 1); // Rec.2020 green is far outside sRGB
+      const out = new ToneMapper({ algorithm: 'clamp', colorSpace: 'srgb' }).map(buf);
+      expect(out[0]).toBe(0);
+      expect(out[1]).toBe(255);
+    });
+
+    it('rejects linear spaces as output', () => {
+      expect(
+        () => new ToneMapper({ algorithm: 'clamp', colorSpace: 'linear-srgb' as 'srgb' })
+      ).toThrow(/not an output color space/);
+    });
+  });
+
   describe('performance', () => {
     it('handles A4 @ 300 DPI in < 2 seconds', () => {
       // A4 @ 300 DPI = 2480 × 3508 = ~8.7M pixels
@@ -326,3 +642,120 @@ describe('ToneMapper', () => {
     });
   });
 });
+
+// ─── Dithering ───────────────────────────────────────────────────────
+
+describe('ToneMapper dithering', () => {
+  const methods = ['ordered', 'blue-noise', 'triangular', 'floyd-steinberg'] as const;
+
+  /** A flat w×h field whose linear value lands on code value `code` */
+  function flat(w: number, h: number, code: number, maxVal = 255): ColorBuffer {
+    const buf = new ColorBuffer(w, h, 32);
+    buf.clear(code / maxVal, code / maxVal, code / maxVal, 1);
+    return buf;
+  }
+
+  function mean(data: Uint8Array | Uint16Array, channel = 0): number {
+    let sum = 0;
+    for (let i = channel; i < data.length; i += 4) sum += data[i]!;
+    return sum / (data.length / 4);
+  }
+
+  it('rounds to nearest by default', () => {
+    const out = new ToneMapper({ algorithm: 'clamp', gamma: 1 }).map(flat(8, 8, 100.3));
+    expect(out.every((v, i) => v === (i % 4 === 3 ? 255 : 100))).toBe(true);
+  });
+
+  it('preserves the average level of a flat field', () => {
+    const buf = flat(64, 64, 100.3);
+    for (const dither of methods) {
+      const out = new ToneMapper({ algorithm: 'clamp', gamma: 1, dither }).map(buf);
+      expect(mean(out), dither).toBeCloseTo(100.3, dither === 'triangular' ? 1 : 2);
+      for (let i = 0; i < out.length; i += 4) {
+        expect(Math.abs(out[i]! - 100.3), dither).toBeLessThan(1.5);
+        expect(out[i + 3]).toBe(255);
+      }
+    }
+  });
+
+  it('dithers 16-bit output too', () => {
+    const buf = flat(64, 64, 1000.25, 65535);
+    const out = new ToneMapper({ algorithm: 'clamp', gamma: 1, outputDepth: 16, dither: 'blue-noise' }).map(buf);
+    expect(out).toBeInstanceOf(Uint16Array);
+    expect(mean(out)).toBeCloseTo(1000.25, 2);
+  });
+
+  it('keeps greys neutral with ordered and blue-noise dithering', () => {
+    const buf = flat(16, 16, 80.5);
+    for (const dither of ['ordered', 'blue-noise'] as const) {
+      const out = new ToneMapper({ algorithm: 'clamp', gamma: 1, dither }).map(buf);
+      for (let i = 0; i < out.length; i += 4) {
+        expect(out[i + 1]).toBe(out[i]);
+        expect(out[i + 2]).toBe(out[i]);
+      }
+    }
+  });
+
+  it('spreads blue noise evenly, without clumps', () => {
+    const out = new ToneMapper({ algorithm: 'clamp', gamma: 1, dither: 'blue-noise' }).map(flat(64, 64, 100.5));
+    // Every 4×4 block of a half-way field holds close to 8 pixels rounded up
+    for (let by = 0; by < 64; by += 4) {
+      for (let bx = 0; bx < 64; bx += 4) {
+        let up = 0;
+        for (let y = by; y < by + 4; y++) {
+          for (let x = bx; x < bx + 4; x++) up += out[(y * 64 + x) * 4]! - 100;
+        }
+        expect(Math.abs(up - 8)).toBeLessThanOrEqual(3);
+      }
+    }
+  });
+
+  it('is reproducible, and seeded', () => {
+    const buf = flat(32, 32, 50.4);
+    for (const dither of methods) {
+      const run = (ditherSeed: number) => new ToneMapper({ algorithm: 'clamp', gamma: 1, dither, ditherSeed }).map(buf);
+      expect(run(7), dither).toEqual(run(7));
+      if (dither === 'floyd-steinberg') {
+        expect(run(1)).toEqual(run(2));
+      } else {
+        expect(run(1), dither).not.toEqual(run(2));
+      }
+    }
+  });
+
+  it('gives the same result strip by strip and band by band', () => {
+    const buf = new ColorBuffer(13, 20, 32);
+    for (let y = 0; y < 20; y++) {
+      for (let x = 0; x < 13; x++) buf.setPixel(x, y, (x + y) / 200, x / 400, y / 300, 1);
+    }
+    for (const dither of methods) {
+      const tm = new ToneMapper({ algorithm: 'reinhard', dither, ditherSeed: 5 });
+      const whole = tm.map(buf);
+
+      const strips = new Uint8Array(whole.length);
+      for (let y = 0; y < 20; y += 3) {
+        const rows = Math.min(3, 20 - y);
+        strips.set(tm.mapRows(buf, y, rows), y * 13 * 4);
+      }
+      expect(strips, dither).toEqual(whole);
+      if (dither === 'floyd-steinberg') continue;
+
+      // A copy of rows 8…15, mapped as its own buffer at its place in the image
+      const band = buf.getRegion(0, 8, 13, 8);
+      expect(tm.mapRows(band, 0, 8, 8), dither).toEqual(whole.subarray(8 * 13 * 4, 16 * 13 * 4));
+    }
+  });
+
+  it('restarts error diffusion for rows that do not follow on', () => {
+    const buf = flat(9, 6, 20.3);
+    const tm = new ToneMapper({ algorithm: 'clamp', gamma: 1, dither: 'floyd-steinberg' });
+    const fresh = new ToneMapper({ algorithm: 'clamp', gamma: 1, dither: 'floyd-steinberg' });
+    tm.mapRows(buf, 0, 2);
+    expect(tm.mapRows(buf, 4, 2)).toEqual(fresh.mapRows(buf, 4, 2));
+  });
+
+  it('rejects unknown methods and non-integer seeds', () => {
+    expect(() => new ToneMapper({ algorithm: 'clamp', dither: 'bogus' as any })).toThrow(/Unknown dither method/);
+    expect(() => new ToneMapper({ algorithm: 'clamp', dither: 'ordered', ditherSeed: 1.5 })).toThrow(RangeError);
+  });
+});
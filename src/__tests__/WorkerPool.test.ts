@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExportWorkerPool,
+  handleExportRequest,
+  type ExportWorkerHandle,
+  type ExportWorkerRequest,
+} from '../export/WorkerPool.js';
+import { exportBuffer, ExportAbortedError, type ExportPhase } from '../export/ExportPipeline.js';
+import { ColorBuffer } from '../core/ColorBuffer.js';
+import { LayerStack } from '../core/LayerStack.js';
+
+function makeBuffer(w: number, h: number, shared = false): ColorBuffer {
+  const buf = new ColorBuffer(w, h, 32, { shared });
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      buf.setPixel(x, y, (x / w) * 4, y / h, (x * y) % 3, 1);
+    }
+  }
+  return buf;
+}
+
+/**
+ * An in-process worker: messages are structured-cloned with their
+ * transfer lists, as postMessage does, and answered on a later tick.
+ */
+function fakeWorkers() {
+  const requests: ExportWorkerRequest[] = [];
+  const workers: { terminated: boolean }[] = [];
+  const createWorker = (): ExportWorkerHandle => {
+    const state = { terminated: false };
+    workers.push(state);
+    let respond: (response: ReturnType<typeof handleExportRequest>['response']) => void = () => undefined;
+    return {
+      postMessage(request, transfer) {
+        const received = structuredClone(request, { transfer: transfer as ArrayBuffer[] });
+        requests.push(received);
+        setTimeout(() => {
+          if (state.terminated) return;
+          const { response, transfer: back } = handleExportRequest(received);
+          respond(structuredClone(response, { transfer: back }));
+        }, 0);
+      },
+      listen(onResponse) { respond = onResponse; },
+      terminate() { state.terminated = true; },
+    };
+  };
+  return { requests, workers, createWorker };
+}
+
+async function bytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('ExportWorkerPool', () => {
+  it('produces the same file as exportBuffer', async () => {
+    const { createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 3, createWorker });
+    const buf = makeBuffer(17, 11);
+    const cases = [
+      { dpi: 300 },
+      { dpi: 300, toneMap: 'aces' as const, bitDepth: 16 as const, colorSpace: 'display-p3' as const },
+      { dpi: 150, format: 'tiff' as const, metadata: { Seed: 3 } },
+      { dpi: 72, format: 'pdf' as const },
+      { dpi: 300, format: 'exr' as const },
+      { dpi: 300, format: 'tiff' as const, bitDepth: 32 as const },
+      { dpi: 300, bloom: { threshold: 1, radius: 2 } },
+      { dpi: 300, autoExposure: { method: 'percentile' as const, percentile: 90 } },
+      { dpi: 300, dither: 'blue-noise' as const, ditherSeed: 3 },
+      { dpi: 300, dither: 'floyd-steinberg' as const, bitDepth: 16 as const },
+    ];
+    for (const options of cases) {
+      const blob = await pool.export(buf, options);
+      const expected = exportBuffer(buf, options);
+      expect(blob.type).toBe(expected.type);
+      expect(await bytes(blob)).toEqual(await bytes(expected));
+    }
+    pool.terminate();
+  });
+
+  it('splits tone mapping into one band per worker', async () => {
+    const { requests, workers, createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 4, createWorker });
+    await pool.export(makeBuffer(5, 10), { dpi: 300 });
+    const bands = requests.filter((r) => r.type === 'tone-map');
+    expect(bands.map((r) => r.type === 'tone-map' && r.band.rows)).toEqual([3, 3, 3, 1]);
+    expect(requests.filter((r) => r.type === 'encode')).toHaveLength(1);
+    expect(workers).toHaveLength(4);
+    pool.terminate();
+    expect(workers.every((w) => w.terminated)).toBe(true);
+  });
+
+  it('tone-maps error diffusion as a single band', async () => {
+    const { requests, createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 4, createWorker });
+    await pool.export(makeBuffer(5, 10), { dpi: 300, dither: 'floyd-steinberg' });
+    expect(requests.filter((r) => r.type === 'tone-map').map((r) => r.type === 'tone-map' && r.band.rows)).toEqual([10]);
+    pool.terminate();
+  });
+
+  it('shares buffers backed by a SharedArrayBuffer', async () => {
+    const { requests, createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 2, createWorker });
+    const buf = makeBuffer(6, 6, true);
+    expect(buf.data.buffer).toBeInstanceOf(SharedArrayBuffer);
+
+    const blob = await pool.export(buf, { dpi: 300 });
+    expect(await bytes(blob)).toEqual(await bytes(exportBuffer(buf, { dpi: 300 })));
+    for (const request of requests) {
+      if (request.type !== 'tone-map') continue;
+      expect(request.band.data.buffer).toBeInstanceOf(SharedArrayBuffer);
+      expect(request.band.data.length).toBe(6 * 6 * 4);
+    }
+    expect(requests.filter((r) => r.type === 'tone-map').map((r) => r.type === 'tone-map' && r.band.offset))
+      .toEqual([0, 3 * 6 * 4]);
+    pool.terminate();
+  });
+
+  it('exports layer stack composites and leaves the source intact', async () => {
+    const { createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 2, createWorker });
+    const stack = new LayerStack(4, 4);
+    stack.addLayer('base').buffer.setPixel(1, 1, 1, 0.5, 0, 1);
+    const buf = makeBuffer(4, 4);
+    const before = buf.data.slice();
+
+    expect(await bytes(await pool.export(stack, { dpi: 300 }))).toEqual(await bytes(exportBuffer(stack, { dpi: 300 })));
+    await pool.export(buf, { dpi: 300 });
+    expect(buf.data).toEqual(before);
+    pool.terminate();
+  });
+
+  it('reports tone-map progress per band, then encode and done', async () => {
+    const { createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 2, createWorker });
+    const progress: [number, ExportPhase][] = [];
+    await pool.export(makeBuffer(4, 4), { dpi: 300, onProgress: (p, phase) => progress.push([p, phase]) });
+    expect(progress).toEqual([[0, 'tone-map'], [25, 'tone-map'], [50, 'tone-map'], [50, 'encode'], [100, 'done']]);
+    pool.terminate();
+  });
+
+  it('rejects and terminates busy workers when aborted', async () => {
+    const { workers, createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 2, createWorker });
+    const controller = new AbortController();
+    const pending = pool.export(makeBuffer(8, 8), { dpi: 300, signal: controller.signal });
+    // Let the workers spawn and receive their bands
+    await new Promise<void>((resolve) => queueMicrotask(resolve));
+    await Promise.resolve();
+    controller.abort('stop');
+    await expect(pending).rejects.toBeInstanceOf(ExportAbortedError);
+    expect(workers.length).toBeGreaterThan(0);
+    expect(workers.every((w) => w.terminated)).toBe(true);
+
+    // The pool replaces them for the next export
+    const blob = await pool.export(makeBuffer(2, 2), { dpi: 300 });
+    expect(blob.type).toBe('image/png');
+    pool.terminate();
+  });
+
+  it('rejects straight away when already aborted', async () => {
+    const pool = new ExportWorkerPool({ size: 1, createWorker: fakeWorkers().createWorker });
+    await expect(pool.export(makeBuffer(2, 2), { dpi: 300, signal: AbortSignal.abort() }))
+      .rejects.toBeInstanceOf(ExportAbortedError);
+  });
+
+  it('passes worker errors through', async () => {
+    const { createWorker } = fakeWorkers();
+    const pool = new ExportWorkerPool({ size: 1, createWorker });
+    await expect(pool.export(makeBuffer(2, 2), { dpi: 0 })).rejects.toThrow(/DPI must be positive/);
+    await expect(pool.export(makeBuffer(2, 2), { dpi: 300, format: 'gif' as 'png' })).rejects.toThrow(/Unsupported export format/);
+    pool.terminate();
+  });
+
+  it('rejects pending exports when terminated and refuses new ones', async () => {
+    const pool = new ExportWorkerPool({ size: 1, createWorker: fakeWorkers().createWorker });
+    const pending = pool.export(makeBuffer(4, 4), { dpi: 300 });
+    pool.terminate();
+    await expect(pending).rejects.toThrow(/terminated/);
+    await expect(pool.export(makeBuffer(2, 2), { dpi: 300 })).rejects.toThrow(/terminated/);
+  });
+
+  it('validates the pool size', () => {
+    expect(() => new ExportWorkerPool({ size: 0 })).toThrow(RangeError);
+    expect(() => new ExportWorkerPool({ size: 1.5 })).toThrow(RangeError);
+  });
+});
+
+describe('handleExportRequest', () => {
+  it('answers failures with the error name and message', () => {
+    const { response, transfer } = handleExportRequest({
+      id: 7,
+      type: 'encode',
+      ldrData: new Uint8Array(4),
+      width: 2,
+      height: 2,
+      options: { dpi: 300 },
+    });
+    expect(response).toEqual({ id: 7, ok: false, error: { name: 'Error', message: expect.stringMatching(/whole rows/) } });
+    expect(transfer).toEqual([]);
+  });
+});
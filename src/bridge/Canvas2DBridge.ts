@@ -9,12 +9,12 @@
  * so this is for convenience shapes/text, not HDR input.
  */
 
-import { ColorBuffer, type BlendMode } from '../core/ColorBuffer.js';
+import { ColorBuffer, premultiply, type BlendMode } from '../core/ColorBuffer.js';
 
 export interface DrawWith2DOptions {
   /** How to combine with existing buffer content. Default: 'overwrite' */
   mode?: 'overwrite' | 'blend';
-  /** Blend mode when mode is 'blend'. Default: 'normal' */
+  /** Blend mode when mode is 'blend' — any key of BLEND_MODES. Default: 'normal' */
   blendMode?: BlendMode;
   /** Region to draw into (default: full canvas). */
   region?: { x: number; y: number; width: number; height: number };
@@ -124,11 +124,14 @@ function drawTile(
       for (let i = 0; i < tileW * 4; i++) {
         rowFloats[i] = pixels[rowStart + i]! * inv255;
       }
+      // ImageData is straight alpha; raw writes must match the buffer's storage
+      if (buffer.alphaMode === 'premultiplied') premultiply(rowFloats);
       // Single bulk write per row — no bounds checks, no function call overhead
       buffer.setRowUnchecked(tileY + row, tileX, tileW, rowFloats);
     }
   } else {
-    // Blend mode — alpha composite onto existing content, row at a time
+    // Blend mode — alpha composite onto existing content, row at a time.
+    // Blend sources are straight alpha regardless of the buffer's storage.
     for (let row = 0; row < tileH; row++) {
       const rowStart = row * tileW * 4;
       for (let i = 0; i < tileW * 4; i++) {
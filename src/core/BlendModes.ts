@@ -0,0 +1,180 @@
+/**
+ * BlendModes — HDR-aware per-channel blend functions
+ *
+ * Each blend function combines a source channel value with the destination
+ * channel value and returns the blended color. Alpha compositing (src over dst)
+ * is applied afterwards by ColorBuffer, so these only describe the color math.
+ *
+ * The classic formulas (W3C Compositing, Photoshop) assume values in [0, 1].
+ * Our buffers are unbounded, so every mode documents what happens above 1.0:
+ * modes that only make sense in the unit range fall back to a continuous
+ * extension instead of producing negative or inverted values.
+ */
+
+/**
+ * A blend function. Takes the source and destination channel values
+ * (unbounded floats) and returns the blended channel value.
+ */
+export type BlendFn = (src: number, dst: number) => number;
+
+/** Smallest divisor used by 'divide' and 'color-dodge' — caps the gain at 4096×. */
+const DIVIDE_EPSILON = 1 / 4096;
+
+/** Source replaces destination. */
+export function normal(src: number, _dst: number): number {
+  return src;
+}
+
+/** Linear dodge: src + dst. Unbounded — the natural HDR accumulation mode. */
+export function add(src: number, dst: number): number {
+  return dst + src;
+}
+
+/** src × dst. Unbounded — HDR sources above 1 brighten the destination. */
+export function multiply(src: number, dst: number): number {
+  return dst * src;
+}
+
+/**
+ * Screen: src + dst − src × dst when both are in [0, 1].
+ * Above 1 the classic formula folds back towards zero, so we return the
+ * brighter of the two instead. Continuous at 1 and never darkens.
+ */
+export function screen(src: number, dst: number): number {
+  if (src <= 1 && dst <= 1) {
+    return src + dst - src * dst;
+  }
+  return src > dst ? src : dst;
+}
+
+/**
+ * Hard light: multiply for src ≤ 0.5, screen for src > 0.5 (both using
+ * the doubled source). Inherits the HDR behaviour of multiply and screen.
+ */
+export function hardLight(src: number, dst: number): number {
+  if (src <= 0.5) {
+    return multiply(2 * src, dst);
+  }
+  return screen(2 * src - 1, dst);
+}
+
+/** Overlay: hard light with source and destination swapped. */
+export function overlay(src: number, dst: number): number {
+  return hardLight(dst, src);
+}
+
+/**
+ * Soft light (W3C formula). A contrast adjustment defined on [0, 1]:
+ * the source is clamped to [0, 1], and destination values outside
+ * [0, 1] pass through unchanged.
+ */
+export function softLight(src: number, dst: number): number {
+  if (dst < 0 || dst > 1) return dst;
+  const s = src < 0 ? 0 : src > 1 ? 1 : src;
+
+  if (s <= 0.5) {
+    return dst - (1 - 2 * s) * dst * (1 - dst);
+  }
+  const d = dst <= 0.25
+    ? ((16 * dst - 12) * dst + 4) * dst
+    : Math.sqrt(dst);
+  return dst + (2 * s - 1) * (d - dst);
+}
+
+/** |dst − src|. Unbounded. */
+export function difference(src: number, dst: number): number {
+  return dst > src ? dst - src : src - dst;
+}
+
+/**
+ * Exclusion: src + dst − 2 × src × dst when both are in [0, 1].
+ * Above 1 it falls back to difference, which it equals along the unit
+ * boundary, so the result never goes negative.
+ */
+export function exclusion(src: number, dst: number): number {
+  if (src <= 1 && dst <= 1) {
+    return src + dst - 2 * src * dst;
+  }
+  return difference(src, dst);
+}
+
+/** max(src, dst). Unbounded. */
+export function lighten(src: number, dst: number): number {
+  return src > dst ? src : dst;
+}
+
+/** min(src, dst). Unbounded. */
+export function darken(src: number, dst: number): number {
+  return src < dst ? src : dst;
+}
+
+/** dst − src, floored at 0. Removes energy without producing negative light. */
+export function subtract(src: number, dst: number): number {
+  const v = dst - src;
+  return v < 0 ? 0 : v;
+}
+
+/**
+ * dst / src. Not clamped to 1, so HDR destinations stay HDR.
+ * The divisor is floored at 1/4096 to keep the result finite.
+ */
+export function divide(src: number, dst: number): number {
+  return dst / (src > DIVIDE_EPSILON ? src : DIVIDE_EPSILON);
+}
+
+/**
+ * Color dodge: dst / (1 − src). Not clamped to 1 — sources at or above 1
+ * produce a large (but finite, 4096× max) gain instead of pure white.
+ */
+export function colorDodge(src: number, dst: number): number {
+  if (dst <= 0) return 0;
+  const inv = 1 - src;
+  return dst / (inv > DIVIDE_EPSILON ? inv : DIVIDE_EPSILON);
+}
+
+/**
+ * Color burn: 1 − (1 − dst) / src. Destinations at or above 1 are
+ * already "white" in the classic model and pass through unchanged.
+ */
+export function colorBurn(src: number, dst: number): number {
+  if (dst >= 1) return dst;
+  if (src <= 0) return 0;
+  const v = 1 - (1 - dst) / src;
+  return v < 0 ? 0 : v;
+}
+
+/** Built-in blend mode registry. */
+export const BLEND_MODES = {
+  normal,
+  add,
+  multiply,
+  screen,
+  overlay,
+  'soft-light': softLight,
+  'hard-light': hardLight,
+  difference,
+  exclusion,
+  lighten,
+  darken,
+  subtract,
+  divide,
+  'color-dodge': colorDodge,
+  'color-burn': colorBurn,
+} as const;
+
+export type BlendMode = keyof typeof BLEND_MODES;
+
+/**
+ * Look up a blend function by name.
+ * Throws for unknown names (e.g. untyped JS callers).
+ */
+export function resolveBlendFn(mode: BlendMode): BlendFn {
+  const fn: BlendFn | undefined = BLEND_MODES[mode];
+  if (!fn) {
+    throw new Error(
+      `Unknown blend mode: "${mode}". ` +
+      `Available: ${Object.keys(BLEND_MODES).join(', ')}`
+    );
+  }
+  return fn;
+}
@@ -4,11 +4,43 @@
  * The foundation of the HD Canvas framework. Stores pixel data as
  * unbounded floats (0.0–1.0 is "standard" range, >1.0 is HDR).
  * Row-major layout, 4 floats per pixel (R, G, B, A).
+ *
+ * Alpha storage is either straight (default) or premultiplied (RGB already
+ * multiplied by A). setPixel/getPixel/clear/setRowUnchecked read and write
+ * the stored values as-is; the blend methods always take straight-alpha
+ * source colors and composite them according to the storage convention.
+ *
+ * Every buffer also declares the linear working color space its RGB values
+ * are in (linear sRGB by default) — see ColorSpace.ts.
  */
 
+import { normal, resolveBlendFn, type BlendFn, type BlendMode } from './BlendModes.js';
+import { splatFootprint, type SplatOptions } from './Splat.js';
+import {
+  applyColorMatrix,
+  colorSpaceMatrix,
+  resolveWorkingColorSpace,
+  IDENTITY_MATRIX,
+  type WorkingColorSpace,
+} from './ColorSpace.js';
+
+export type { BlendMode } from './BlendModes.js';
 export type ColorDepth = 32 | 64;
-export type BlendMode = 'normal' | 'add' | 'multiply';
 export type RGBA = [r: number, g: number, b: number, a: number];
+export type AlphaMode = 'straight' | 'premultiplied';
+
+export interface ColorBufferOptions {
+  /** How alpha is stored — default 'straight' */
+  alphaMode?: AlphaMode;
+  /** Linear color space of the RGB values — default 'linear-srgb' */
+  colorSpace?: WorkingColorSpace;
+  /**
+   * Allocate the pixels on a SharedArrayBuffer, so export workers can read
+   * them without a copy — default false. Browsers only provide
+   * SharedArrayBuffer on cross-origin isolated pages.
+   */
+  shared?: boolean;
+}
 
 /** Minimal interface for reading pixel data — used by the export pipeline. */
 export interface IColorBuffer {
@@ -16,6 +48,12 @@ export interface IColorBuffer {
   readonly height: number;
   readonly depth: ColorDepth;
   readonly data: Float32Array | Float64Array;
+  /** Alpha storage convention. Omitted means 'straight'. */
+  readonly alphaMode?: AlphaMode;
+  /** Working color space. Omitted means 'linear-srgb'. */
+  readonly colorSpace?: WorkingColorSpace;
+  /** Record a write to `data` made outside the buffer's own methods (see ColorBuffer.markChanged) */
+  markChanged?(): void;
 }
 
 export class ColorBuffer implements IColorBuffer {
@@ -23,8 +61,17 @@ export class ColorBuffer implements IColorBuffer {
   readonly height: number;
   readonly depth: ColorDepth;
   readonly data: Float32Array | Float64Array;
+  readonly alphaMode: AlphaMode;
+  readonly colorSpace: WorkingColorSpace;
+
+  private changes = 0;
 
-  constructor(width: number, height: number, depth: ColorDepth = 32) {
+  constructor(
+    width: number,
+    height: number,
+    depth: ColorDepth = 32,
+    options: ColorBufferOptions = {}
+  ) {
     if (!Number.isInteger(width) || width <= 0) {
       throw new RangeError(`width must be a positive integer, got ${width}`);
     }
@@ -35,9 +82,40 @@ export class ColorBuffer implements IColorBuffer {
     this.width = width;
     this.height = height;
     this.depth = depth;
+    this.alphaMode = options.alphaMode ?? 'straight';
+    if (this.alphaMode !== 'straight' && this.alphaMode !== 'premultiplied') {
+      throw new Error(`Unknown alpha mode: "${this.alphaMode}". Available: straight, premultiplied`);
+    }
+    this.colorSpace = options.colorSpace ?? 'linear-srgb';
+    resolveWorkingColorSpace(this.colorSpace);
 
     const length = width * height * 4;
-    this.data = depth === 64 ? new Float64Array(length) : new Float32Array(length);
+    const bytesPerSample = depth === 64 ? 8 : 4;
+    const storage = options.shared
+      ? new SharedArrayBuffer(length * bytesPerSample)
+      : new ArrayBuffer(length * bytesPerSample);
+    this.data = depth === 64 ? new Float64Array(storage) : new Float32Array(storage);
+  }
+
+  /** Compositing routine matching the storage convention */
+  private get compositeFn(): typeof compositeStraight {
+    return this.alphaMode === 'premultiplied' ? compositePremultiplied : compositeStraight;
+  }
+
+  /**
+   * Change counter, bumped by every method that writes pixels. Caches such
+   * as LayerStack.composite() compare it to skip unchanged buffers.
+   */
+  get version(): number {
+    return this.changes;
+  }
+
+  /**
+   * Record a direct write to `data`. Call it after filling the array
+   * yourself, so cached composites of this buffer are rebuilt.
+   */
+  markChanged(): void {
+    this.changes++;
   }
 
   /** Byte size of the underlying typed array */
@@ -56,6 +134,7 @@ export class ColorBuffer implements IColorBuffer {
 
   setPixel(x: number, y: number, r: number, g: number, b: number, a: number = 1.0): void {
     const i = this.offset(x, y);
+    this.changes++;
     this.data[i] = r;
     this.data[i + 1] = g;
     this.data[i + 2] = b;
@@ -74,6 +153,7 @@ export class ColorBuffer implements IColorBuffer {
 
   /**
    * Blend a color onto the existing pixel using the specified blend mode.
+   * See BLEND_MODES for the available modes and their HDR semantics.
    * All modes use standard alpha compositing for the alpha channel.
    */
   blendPixel(
@@ -85,55 +165,35 @@ export class ColorBuffer implements IColorBuffer {
     a: number,
     mode: BlendMode = 'normal'
   ): void {
-    const i = this.offset(x, y);
-    const dstR = this.data[i]!;
-    const dstG = this.data[i + 1]!;
-    const dstB = this.data[i + 2]!;
-    const dstA = this.data[i + 3]!;
-
-    let blendedR: number;
-    let blendedG: number;
-    let blendedB: number;
-
-    switch (mode) {
-      case 'normal':
-        blendedR = r;
-        blendedG = g;
-        blendedB = b;
-        break;
-      case 'add':
-        blendedR = dstR + r;
-        blendedG = dstG + g;
-        blendedB = dstB + b;
-        break;
-      case 'multiply':
-        blendedR = dstR * r;
-        blendedG = dstG * g;
-        blendedB = dstB * b;
-        break;
-      default: {
-        const _exhaustive: never = mode;
-        throw new Error(`Unknown blend mode: ${_exhaustive}`);
-      }
-    }
+    this.compositeFn(this.data, this.offset(x, y), r, g, b, a, resolveBlendFn(mode));
+    this.changes++;
+  }
 
-    // Alpha compositing: src over dst
-    const outA = a + dstA * (1 - a);
-    if (outA === 0) {
-      this.data[i] = 0;
-      this.data[i + 1] = 0;
-      this.data[i + 2] = 0;
-      this.data[i + 3] = 0;
-    } else {
-      this.data[i] = (blendedR * a + dstR * dstA * (1 - a)) / outA;
-      this.data[i + 1] = (blendedG * a + dstG * dstA * (1 - a)) / outA;
-      this.data[i + 2] = (blendedB * a + dstB * dstA * (1 - a)) / outA;
-      this.data[i + 3] = outA;
+  /**
+   * Deposit a straight-alpha color at fractional coordinates (x, y),
+   * spread over neighbouring pixels by a kernel (see Splat.ts). Kernel
+   * weights scale the source alpha; the parts of the footprint that fall
+   * outside the buffer are dropped, so particles may sit on or past the
+   * edges. The position must be finite.
+   */
+  splat(
+    x: number,
+    y: number,
+    r: number,
+    g: number,
+    b: number,
+    a: number,
+    options: SplatOptions = {}
+  ): void {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      throw new RangeError(`Splat position must be finite, got (${x}, ${y})`);
     }
+    this.depositSplat(x, y, r, g, b, a, options, true);
   }
 
   /** Fill the entire buffer with a single color (default: transparent black) */
   clear(r: number = 0, g: number = 0, b: number = 0, a: number = 0): void {
+    this.changes++;
     for (let i = 0; i < this.data.length; i += 4) {
       this.data[i] = r;
       this.data[i + 1] = g;
@@ -153,7 +213,10 @@ export class ColorBuffer implements IColorBuffer {
       throw new RangeError(`Region dimensions must be positive, got ${w}×${h}`);
     }
 
-    const region = new ColorBuffer(w, h, this.depth);
+    const region = new ColorBuffer(w, h, this.depth, {
+      alphaMode: this.alphaMode,
+      colorSpace: this.colorSpace,
+    });
     for (let row = 0; row < h; row++) {
       const srcStart = ((y + row) * this.width + x) * 4;
       const dstStart = row * w * 4;
@@ -162,19 +225,74 @@ export class ColorBuffer implements IColorBuffer {
     return region;
   }
 
-  /** Write a ColorBuffer region into this buffer at the given position */
+  /**
+   * Write a ColorBuffer region into this buffer at the given position.
+   * A region stored with a different alpha mode or color space is converted
+   * while copying.
+   */
   putRegion(x: number, y: number, region: ColorBuffer): void {
     if (x < 0 || y < 0 || x + region.width > this.width || y + region.height > this.height) {
       throw new RangeError(
         `Region (${x},${y} ${region.width}×${region.height}) exceeds buffer bounds ${this.width}×${this.height}`
       );
     }
+    this.changes++;
 
     for (let row = 0; row < region.height; row++) {
       const srcStart = row * region.width * 4;
       const dstStart = ((y + row) * this.width + x) * 4;
       this.data.set(region.data.subarray(srcStart, srcStart + region.width * 4), dstStart);
     }
+
+    if (region.alphaMode !== this.alphaMode) {
+      const convert = this.alphaMode === 'premultiplied' ? premultiply : unpremultiply;
+      for (let row = 0; row < region.height; row++) {
+        const dstStart = ((y + row) * this.width + x) * 4;
+        convert(this.data.subarray(dstStart, dstStart + region.width * 4));
+      }
+    }
+
+    const matrix = colorSpaceMatrix(region.colorSpace, this.colorSpace);
+    if (matrix !== IDENTITY_MATRIX) {
+      for (let row = 0; row < region.height; row++) {
+        const dstStart = ((y + row) * this.width + x) * 4;
+        applyColorMatrix(this.data.subarray(dstStart, dstStart + region.width * 4), matrix);
+      }
+    }
+  }
+
+  /** Copy of this buffer with premultiplied alpha storage */
+  toPremultiplied(): ColorBuffer {
+    const out = new ColorBuffer(this.width, this.height, this.depth, {
+      alphaMode: 'premultiplied',
+      colorSpace: this.colorSpace,
+    });
+    out.data.set(this.data);
+    if (this.alphaMode === 'straight') premultiply(out.data);
+    return out;
+  }
+
+  /** Copy of this buffer with straight alpha storage */
+  toStraight(): ColorBuffer {
+    const out = new ColorBuffer(this.width, this.height, this.depth, {
+      alphaMode: 'straight',
+      colorSpace: this.colorSpace,
+    });
+    out.data.set(this.data);
+    if (this.alphaMode === 'premultiplied') unpremultiply(out.data);
+    return out;
+  }
+
+  /** Copy of this buffer with its RGB converted to another working color space */
+  toColorSpace(colorSpace: WorkingColorSpace): ColorBuffer {
+    const out = new ColorBuffer(this.width, this.height, this.depth, {
+      alphaMode: this.alphaMode,
+      colorSpace,
+    });
+    out.data.set(this.data);
+    const matrix = colorSpaceMatrix(this.colorSpace, colorSpace);
+    if (matrix !== IDENTITY_MATRIX) applyColorMatrix(out.data, matrix);
+    return out;
   }
 
   /**
@@ -184,6 +302,7 @@ export class ColorBuffer implements IColorBuffer {
    */
   setPixelUnchecked(x: number, y: number, r: number, g: number, b: number, a: number = 1.0): void {
     const i = (y * this.width + x) * 4;
+    this.changes++;
     this.data[i] = r;
     this.data[i + 1] = g;
     this.data[i + 2] = b;
@@ -204,50 +323,25 @@ export class ColorBuffer implements IColorBuffer {
     a: number,
     mode: BlendMode = 'normal'
   ): void {
-    const i = (y * this.width + x) * 4;
-    const dstR = this.data[i]!;
-    const dstG = this.data[i + 1]!;
-    const dstB = this.data[i + 2]!;
-    const dstA = this.data[i + 3]!;
-
-    let blendedR: number;
-    let blendedG: number;
-    let blendedB: number;
-
-    switch (mode) {
-      case 'normal':
-        blendedR = r;
-        blendedG = g;
-        blendedB = b;
-        break;
-      case 'add':
-        blendedR = dstR + r;
-        blendedG = dstG + g;
-        blendedB = dstB + b;
-        break;
-      case 'multiply':
-        blendedR = dstR * r;
-        blendedG = dstG * g;
-        blendedB = dstB * b;
-        break;
-      default: {
-        const _exhaustive: never = mode;
-        throw new Error(`Unknown blend mode: ${_exhaustive}`);
-      }
-    }
+    this.compositeFn(this.data, (y * this.width + x) * 4, r, g, b, a, resolveBlendFn(mode));
+    this.changes++;
+  }
 
-    const outA = a + dstA * (1 - a);
-    if (outA === 0) {
-      this.data[i] = 0;
-      this.data[i + 1] = 0;
-      this.data[i + 2] = 0;
-      this.data[i + 3] = 0;
-    } else {
-      this.data[i] = (blendedR * a + dstR * dstA * (1 - a)) / outA;
-      this.data[i + 1] = (blendedG * a + dstG * dstA * (1 - a)) / outA;
-      this.data[i + 2] = (blendedB * a + dstB * dstA * (1 - a)) / outA;
-      this.data[i + 3] = outA;
-    }
+  /**
+   * Splat without bounds checking — the fast path for particle systems.
+   * Caller must ensure the whole kernel footprint lies inside the buffer,
+   * e.g. keep 1 + radius pixels away from the edges.
+   */
+  splatUnchecked(
+    x: number,
+    y: number,
+    r: number,
+    g: number,
+    b: number,
+    a: number,
+    options: SplatOptions = {}
+  ): void {
+    this.depositSplat(x, y, r, g, b, a, options, false);
   }
 
   /**
@@ -263,10 +357,11 @@ export class ColorBuffer implements IColorBuffer {
     const dstOffset = (y * this.width + startX) * 4;
     // Use subarray + set for a single memcpy-like operation per row
     this.data.set(floats.subarray(0, pixelCount * 4), dstOffset);
+    this.changes++;
   }
 
   /**
-   * Blend a row of RGBA float data onto the buffer using normal alpha compositing.
+   * Blend a row of RGBA float data onto the buffer using the given blend mode.
    * Same safety contract as setRowUnchecked — no bounds checks.
    *
    * Skips fully transparent pixels (a === 0) for performance.
@@ -279,67 +374,181 @@ export class ColorBuffer implements IColorBuffer {
     mode: BlendMode = 'normal'
   ): void {
     const data = this.data;
+    const blendFn = resolveBlendFn(mode);
+    const composite = this.compositeFn;
     let dstIdx = (y * this.width + startX) * 4;
+    this.changes++;
 
     for (let p = 0; p < pixelCount; p++) {
       const srcIdx = p * 4;
       const a = floats[srcIdx + 3]!;
 
       // Skip fully transparent pixels
-      if (a === 0) {
-        dstIdx += 4;
-        continue;
+      if (a !== 0) {
+        composite(data, dstIdx, floats[srcIdx]!, floats[srcIdx + 1]!, floats[srcIdx + 2]!, a, blendFn);
       }
 
-      const r = floats[srcIdx]!;
-      const g = floats[srcIdx + 1]!;
-      const b = floats[srcIdx + 2]!;
-
-      const dstR = data[dstIdx]!;
-      const dstG = data[dstIdx + 1]!;
-      const dstB = data[dstIdx + 2]!;
-      const dstA = data[dstIdx + 3]!;
-
-      let blendedR: number;
-      let blendedG: number;
-      let blendedB: number;
-
-      switch (mode) {
-        case 'normal':
-          blendedR = r;
-          blendedG = g;
-          blendedB = b;
-          break;
-        case 'add':
-          blendedR = dstR + r;
-          blendedG = dstG + g;
-          blendedB = dstB + b;
-          break;
-        case 'multiply':
-          blendedR = dstR * r;
-          blendedG = dstG * g;
-          blendedB = dstB * b;
-          break;
-        default: {
-          const _exhaustive: never = mode;
-          throw new Error(`Unknown blend mode: ${_exhaustive}`);
+      dstIdx += 4;
+    }
+  }
+
+  private depositSplat(
+    x: number,
+    y: number,
+    r: number,
+    g: number,
+    b: number,
+    a: number,
+    options: SplatOptions,
+    clip: boolean
+  ): void {
+    const data = this.data;
+    const width = this.width;
+    const height = this.height;
+    const blendFn = resolveBlendFn(options.mode ?? 'add');
+    const composite = this.compositeFn;
+    this.changes++;
+
+    // Fast path: default bilinear splat onto the 2×2 neighbourhood.
+    // Weights always sum to 1, so normalization is a no-op.
+    if ((options.kernel ?? 'bilinear') === 'bilinear' && (options.radius ?? 1) === 1) {
+      const fx = x - 0.5;
+      const fy = y - 0.5;
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const tx = fx - x0;
+      const ty = fy - y0;
+
+      for (let j = 0; j < 2; j++) {
+        const py = y0 + j;
+        if (clip && (py < 0 || py >= height)) continue;
+        const wy = j === 0 ? 1 - ty : ty;
+        for (let i = 0; i < 2; i++) {
+          const px = x0 + i;
+          if (clip && (px < 0 || px >= width)) continue;
+          const w = (i === 0 ? 1 - tx : tx) * wy;
+          if (w > 0) composite(data, (py * width + px) * 4, r, g, b, a * w, blendFn);
         }
       }
+      return;
+    }
 
-      const outA = a + dstA * (1 - a);
-      if (outA === 0) {
-        data[dstIdx] = 0;
-        data[dstIdx + 1] = 0;
-        data[dstIdx + 2] = 0;
-        data[dstIdx + 3] = 0;
-      } else {
-        data[dstIdx] = (blendedR * a + dstR * dstA * (1 - a)) / outA;
-        data[dstIdx + 1] = (blendedG * a + dstG * dstA * (1 - a)) / outA;
-        data[dstIdx + 2] = (blendedB * a + dstB * dstA * (1 - a)) / outA;
-        data[dstIdx + 3] = outA;
+    const { x0, y0, cols, rows, weights } = splatFootprint(x, y, options);
+    for (let j = 0; j < rows; j++) {
+      const py = y0 + j;
+      if (clip && (py < 0 || py >= height)) continue;
+      for (let i = 0; i < cols; i++) {
+        const px = x0 + i;
+        if (clip && (px < 0 || px >= width)) continue;
+        const w = weights[j * cols + i]!;
+        if (w <= 0) continue;
+        // Compositing needs alpha ≤ 1 — only un-normalized custom kernels exceed it
+        const wa = a * w;
+        composite(data, (py * width + px) * 4, r, g, b, wa > 1 ? 1 : wa, blendFn);
       }
-
-      dstIdx += 4;
     }
   }
 }
+
+/**
+ * Multiply RGB by alpha in place (straight → premultiplied).
+ * Works on any RGBA float array, e.g. ColorBuffer.data or a row.
+ */
+export function premultiply(data: Float32Array | Float64Array): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3]!;
+    data[i] = data[i]! * a;
+    data[i + 1] = data[i + 1]! * a;
+    data[i + 2] = data[i + 2]! * a;
+  }
+}
+
+/**
+ * Divide RGB by alpha in place (premultiplied → straight).
+ * Fully transparent pixels become transparent black.
+ */
+export function unpremultiply(data: Float32Array | Float64Array): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3]!;
+    const inv = a === 0 ? 0 : 1 / a;
+    data[i] = data[i]! * inv;
+    data[i + 1] = data[i + 1]! * inv;
+    data[i + 2] = data[i + 2]! * inv;
+  }
+}
+
+/**
+ * Composite a straight-alpha source color onto the straight-alpha pixel at
+ * index `i`. Shared by every blend path so the modes behave identically.
+ *
+ * W3C separable blending: the source color is first mixed with the blend
+ * result by the destination's coverage, Cs' = (1 − dstA)·Cs + dstA·B(Cs, Cd),
+ * then composited src over dst. Where the destination is transparent the
+ * source shows unchanged, whatever the mode.
+ */
+function compositeStraight(
+  data: Float32Array | Float64Array,
+  i: number,
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+  blendFn: BlendFn
+): void {
+  const dstR = data[i]!;
+  const dstG = data[i + 1]!;
+  const dstB = data[i + 2]!;
+  const dstA = data[i + 3]!;
+
+  const outA = a + dstA * (1 - a);
+  if (outA === 0) {
+    data[i] = 0;
+    data[i + 1] = 0;
+    data[i + 2] = 0;
+    data[i + 3] = 0;
+    return;
+  }
+
+  const dstWeight = dstA * (1 - a);
+  data[i] = ((r + (blendFn(r, dstR) - r) * dstA) * a + dstR * dstWeight) / outA;
+  data[i + 1] = ((g + (blendFn(g, dstG) - g) * dstA) * a + dstG * dstWeight) / outA;
+  data[i + 2] = ((b + (blendFn(b, dstB) - b) * dstA) * a + dstB * dstWeight) / outA;
+  data[i + 3] = outA;
+}
+
+/**
+ * Composite a straight-alpha source color onto the premultiplied pixel at
+ * index `i`. Same result as compositeStraight, but 'normal' never divides
+ * by alpha, so repeated soft compositing keeps color at near-zero alpha.
+ */
+function compositePremultiplied(
+  data: Float32Array | Float64Array,
+  i: number,
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+  blendFn: BlendFn
+): void {
+  const dstR = data[i]!;
+  const dstG = data[i + 1]!;
+  const dstB = data[i + 2]!;
+  const dstA = data[i + 3]!;
+  const keep = 1 - a;
+
+  data[i + 3] = a + dstA * keep;
+
+  if (blendFn === normal) {
+    data[i] = r * a + dstR * keep;
+    data[i + 1] = g * a + dstG * keep;
+    data[i + 2] = b * a + dstB * keep;
+    return;
+  }
+
+  // Other modes blend against the straight destination color, weighted by
+  // its coverage (see compositeStraight)
+  const inv = dstA === 0 ? 0 : 1 / dstA;
+  data[i] = (r + (blendFn(r, dstR * inv) - r) * dstA) * a + dstR * keep;
+  data[i + 1] = (g + (blendFn(g, dstG * inv) - g) * dstA) * a + dstG * keep;
+  data[i + 2] = (b + (blendFn(b, dstB * inv) - b) * dstA) * a + dstB * keep;
+}
@@ -0,0 +1,300 @@
+/**
+ * ColorSpace — RGB color space definitions, transfer functions and conversions
+ *
+ * Buffers hold linear light in a declared *working* space (linear sRGB by
+ * default; wide-gamut linear P3, linear Rec.2020 or ACEScg for print work).
+ * On export, colors are converted by matrix to the primaries of an *output*
+ * space and encoded with its transfer function (sRGB, Display P3, Rec.2020,
+ * Adobe RGB).
+ *
+ * Conversions go through CIE XYZ. When white points differ (ACEScg uses a
+ * D60-like white), a Bradford chromatic adaptation is applied so neutral
+ * greys stay neutral.
+ */
+
+/** Row-major 3×3 matrix */
+export type Matrix3 = readonly [number, number, number, number, number, number, number, number, number];
+
+/** CIE xy chromaticity */
+export interface Chromaticity {
+  readonly x: number;
+  readonly y: number;
+}
+
+export interface Primaries {
+  readonly red: Chromaticity;
+  readonly green: Chromaticity;
+  readonly blue: Chromaticity;
+}
+
+export interface ColorSpaceDef {
+  readonly primaries: Primaries;
+  readonly white: Chromaticity;
+  readonly transfer: TransferFunctionName;
+}
+
+// ─── Transfer functions ──────────────────────────────────────────────
+
+export interface TransferFunction {
+  /** Linear light → encoded signal */
+  encode(v: number): number;
+  /** Encoded signal → linear light */
+  decode(v: number): number;
+}
+
+/** IEC 61966-2-1 piecewise sRGB curve (also used by Display P3) */
+export function srgbEncode(v: number): number {
+  return v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
+
+export function srgbDecode(v: number): number {
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+// ITU-R BT.2020 constants (the 12-bit precision values)
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/** ITU-R BT.2020 piecewise OETF */
+export function rec2020Encode(v: number): number {
+  return v < REC2020_BETA ? 4.5 * v : REC2020_ALPHA * Math.pow(v, 0.45) - (REC2020_ALPHA - 1);
+}
+
+export function rec2020Decode(v: number): number {
+  return v < 4.5 * REC2020_BETA
+    ? v / 4.5
+    : Math.pow((v + (REC2020_ALPHA - 1)) / REC2020_ALPHA, 1 / 0.45);
+}
+
+/** Adobe RGB (1998) pure power curve, γ = 563/256 */
+export const ADOBE_RGB_GAMMA = 563 / 256;
+
+export const TRANSFER_FUNCTIONS = {
+  linear: { encode: (v: number) => v, decode: (v: number) => v },
+  srgb: { encode: srgbEncode, decode: srgbDecode },
+  rec2020: { encode: rec2020Encode, decode: rec2020Decode },
+  'adobe-rgb': {
+    encode: (v: number) => (v <= 0 ? 0 : Math.pow(v, 1 / ADOBE_RGB_GAMMA)),
+    decode: (v: number) => (v <= 0 ? 0 : Math.pow(v, ADOBE_RGB_GAMMA)),
+  },
+} as const;
+
+export type TransferFunctionName = keyof typeof TRANSFER_FUNCTIONS;
+
+// ─── Color space registry ────────────────────────────────────────────
+
+const D65: Chromaticity = { x: 0.3127, y: 0.329 };
+/** ACES white point (≈ D60) */
+const ACES_WHITE: Chromaticity = { x: 0.32168, y: 0.33767 };
+
+const SRGB_PRIMARIES: Primaries = {
+  red: { x: 0.64, y: 0.33 },
+  green: { x: 0.3, y: 0.6 },
+  blue: { x: 0.15, y: 0.06 },
+};
+
+const P3_PRIMARIES: Primaries = {
+  red: { x: 0.68, y: 0.32 },
+  green: { x: 0.265, y: 0.69 },
+  blue: { x: 0.15, y: 0.06 },
+};
+
+const REC2020_PRIMARIES: Primaries = {
+  red: { x: 0.708, y: 0.292 },
+  green: { x: 0.17, y: 0.797 },
+  blue: { x: 0.131, y: 0.046 },
+};
+
+const ADOBE_RGB_PRIMARIES: Primaries = {
+  red: { x: 0.64, y: 0.33 },
+  green: { x: 0.21, y: 0.71 },
+  blue: { x: 0.15, y: 0.06 },
+};
+
+/** ACES AP1 primaries (ACEScg) */
+const AP1_PRIMARIES: Primaries = {
+  red: { x: 0.713, y: 0.293 },
+  green: { x: 0.165, y: 0.83 },
+  blue: { x: 0.128, y: 0.044 },
+};
+
+export const COLOR_SPACES = {
+  // Linear working spaces
+  'linear-srgb': { primaries: SRGB_PRIMARIES, white: D65, transfer: 'linear' },
+  'linear-p3': { primaries: P3_PRIMARIES, white: D65, transfer: 'linear' },
+  'linear-rec2020': { primaries: REC2020_PRIMARIES, white: D65, transfer: 'linear' },
+  'acescg': { primaries: AP1_PRIMARIES, white: ACES_WHITE, transfer: 'linear' },
+  // Encoded output spaces
+  'srgb': { primaries: SRGB_PRIMARIES, white: D65, transfer: 'srgb' },
+  'display-p3': { primaries: P3_PRIMARIES, white: D65, transfer: 'srgb' },
+  'rec2020': { primaries: REC2020_PRIMARIES, white: D65, transfer: 'rec2020' },
+  'adobe-rgb': { primaries: ADOBE_RGB_PRIMARIES, white: D65, transfer: 'adobe-rgb' },
+} as const;
+
+export type ColorSpace = keyof typeof COLOR_SPACES;
+
+/** Linear spaces a buffer can be stored in */
+export type WorkingColorSpace = 'linear-srgb' | 'linear-p3' | 'linear-rec2020' | 'acescg';
+
+/** Encoded spaces an export can target */
+export type OutputColorSpace = 'srgb' | 'display-p3' | 'rec2020' | 'adobe-rgb';
+
+export function resolveColorSpace(space: ColorSpace): ColorSpaceDef {
+  const def = COLOR_SPACES[space];
+  if (!def) {
+    throw new Error(
+      `Unknown color space: "${space}". Available: ${Object.keys(COLOR_SPACES).join(', ')}`
+    );
+  }
+  return def;
+}
+
+/** Resolve a space that buffers may be stored in — rejects encoded spaces. */
+export function resolveWorkingColorSpace(space: WorkingColorSpace): ColorSpaceDef {
+  const def = resolveColorSpace(space);
+  if (def.transfer !== 'linear') {
+    throw new Error(
+      `"${space}" is not a linear working color space. Available: linear-srgb, linear-p3, linear-rec2020, acescg`
+    );
+  }
+  return def;
+}
+
+/** Resolve a space exports can be encoded in — rejects linear spaces. */
+export function resolveOutputColorSpace(space: OutputColorSpace): ColorSpaceDef {
+  const def = resolveColorSpace(space);
+  if (def.transfer === 'linear') {
+    throw new Error(
+      `"${space}" is not an output color space. Available: srgb, display-p3, rec2020, adobe-rgb`
+    );
+  }
+  return def;
+}
+
+// ─── Matrices ────────────────────────────────────────────────────────
+
+export const IDENTITY_MATRIX: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+/** Bradford cone response matrix */
+const BRADFORD: Matrix3 = [
+  0.8951, 0.2664, -0.1614,
+  -0.7502, 1.7135, 0.0367,
+  0.0389, -0.0685, 1.0296,
+];
+
+export function multiplyMatrix(a: Matrix3, b: Matrix3): Matrix3 {
+  const at = (r: number, c: number) => a[r * 3]! * b[c]! + a[r * 3 + 1]! * b[3 + c]! + a[r * 3 + 2]! * b[6 + c]!;
+  return [
+    at(0, 0), at(0, 1), at(0, 2),
+    at(1, 0), at(1, 1), at(1, 2),
+    at(2, 0), at(2, 1), at(2, 2),
+  ];
+}
+
+export function invertMatrix(m: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (det === 0) {
+    throw new RangeError('Matrix is singular');
+  }
+  const k = 1 / det;
+  return [
+    A * k, (c * h - b * i) * k, (b * f - c * e) * k,
+    B * k, (a * i - c * g) * k, (c * d - a * f) * k,
+    C * k, (b * g - a * h) * k, (a * e - b * d) * k,
+  ];
+}
+
+function applyMatrix(m: Matrix3, v: readonly [number, number, number]): [number, number, number] {
+  return [
+    m[0]! * v[0] + m[1]! * v[1] + m[2]! * v[2],
+    m[3]! * v[0] + m[4]! * v[1] + m[5]! * v[2],
+    m[6]! * v[0] + m[7]! * v[1] + m[8]! * v[2],
+  ];
+}
+
+/** XYZ of a chromaticity at Y = 1 */
+function xyToXYZ({ x, y }: Chromaticity): [number, number, number] {
+  return [x / y, 1, (1 - x - y) / y];
+}
+
+/** Linear RGB → CIE XYZ for the given primaries and white point */
+export function rgbToXyzMatrix(primaries: Primaries, white: Chromaticity): Matrix3 {
+  const r = xyToXYZ(primaries.red);
+  const g = xyToXYZ(primaries.green);
+  const b = xyToXYZ(primaries.blue);
+  // Columns are the primaries' XYZ, scaled so RGB (1,1,1) maps to the white point
+  const p: Matrix3 = [r[0], g[0], b[0], r[1], g[1], b[1], r[2], g[2], b[2]];
+  const [sr, sg, sb] = applyMatrix(invertMatrix(p), xyToXYZ(white));
+  return [
+    p[0]! * sr, p[1]! * sg, p[2]! * sb,
+    p[3]! * sr, p[4]! * sg, p[5]! * sb,
+    p[6]! * sr, p[7]! * sg, p[8]! * sb,
+  ];
+}
+
+/** Bradford adaptation of XYZ from one white point to another */
+export function chromaticAdaptationMatrix(from: Chromaticity, to: Chromaticity): Matrix3 {
+  const [rs, gs, bs] = applyMatrix(BRADFORD, xyToXYZ(from));
+  const [rd, gd, bd] = applyMatrix(BRADFORD, xyToXYZ(to));
+  const scale: Matrix3 = [rd / rs, 0, 0, 0, gd / gs, 0, 0, 0, bd / bs];
+  return multiplyMatrix(invertMatrix(BRADFORD), multiplyMatrix(scale, BRADFORD));
+}
+
+const matrixCache = new Map<string, Matrix3>();
+
+/**
+ * Matrix taking linear RGB in `from` to linear RGB in `to`. Transfer
+ * functions are ignored — only primaries and white points matter.
+ * Returns `IDENTITY_MATRIX` itself when no conversion is needed.
+ */
+export function colorSpaceMatrix(from: ColorSpace, to: ColorSpace): Matrix3 {
+  const key = `${from}>${to}`;
+  const cached = matrixCache.get(key);
+  if (cached) return cached;
+
+  const src = resolveColorSpace(from);
+  const dst = resolveColorSpace(to);
+  let m: Matrix3;
+  if (src.primaries === dst.primaries && src.white === dst.white) {
+    m = IDENTITY_MATRIX;
+  } else {
+    let toXyz = rgbToXyzMatrix(src.primaries, src.white);
+    if (src.white !== dst.white) {
+      toXyz = multiplyMatrix(chromaticAdaptationMatrix(src.white, dst.white), toXyz);
+    }
+    m = multiplyMatrix(invertMatrix(rgbToXyzMatrix(dst.primaries, dst.white)), toXyz);
+  }
+  matrixCache.set(key, m);
+  return m;
+}
+
+/**
+ * Weights giving relative luminance (CIE Y) from linear RGB in `space` —
+ * the Y row of its RGB → XYZ matrix. For the sRGB primaries these are
+ * the Rec. 709 weights 0.2126, 0.7152, 0.0722.
+ */
+export function luminanceWeights(space: ColorSpace): readonly [number, number, number] {
+  const { primaries, white } = resolveColorSpace(space);
+  const m = rgbToXyzMatrix(primaries, white);
+  return [m[3]!, m[4]!, m[5]!];
+}
+
+/**
+ * Multiply the RGB of every pixel by `m`, in place. Alpha is untouched;
+ * works on straight and premultiplied data alike since the map is linear.
+ */
+export function applyColorMatrix(data: Float32Array | Float64Array, m: Matrix3): void {
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = m;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i]!;
+    const g = data[i + 1]!;
+    const b = data[i + 2]!;
+    data[i] = m0 * r + m1 * g + m2 * b;
+    data[i + 1] = m3 * r + m4 * g + m5 * b;
+    data[i + 2] = m6 * r + m7 * g + m8 * b;
+  }
+}
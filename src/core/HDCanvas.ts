@@ -5,7 +5,13 @@
  * Construct with paper size + DPI, draw with float colors, preview on screen, export.
  */
 
-import { ColorBuffer, type ColorDepth, type BlendMode, type RGBA } from './ColorBuffer.js';
+import {
+  ColorBuffer,
+  type AlphaMode,
+  type ColorDepth,
+  type BlendMode,
+  type RGBA,
+} from './ColorBuffer.js';
 import {
   type PaperSizeKey,
   type PaperDimensions,
@@ -13,7 +19,15 @@ import {
   resolvePaperSize,
   sizeToPx,
 } from './PaperSize.js';
+import { type SplatOptions } from './Splat.js';
+import { type WorkingColorSpace } from './ColorSpace.js';
+import { LayerStack, type Layer, type LayerOptions } from './LayerStack.js';
 import { drawWith2D, type DrawWith2DOptions } from '../bridge/Canvas2DBridge.js';
+import { type Path } from '../draw/Path.js';
+import { type ExportOptions as PipelineExportOptions } from '../export/ExportPipeline.js';
+import { resample, type ResampleFilter } from '../filters/Resample.js';
+import { calculateFit, type FitMode } from '../preview/FitStrategy.js';
+import { fillPath, strokePath, type FillOptions, type StrokeOptions } from '../draw/Rasterizer.js';
 
 export interface HDCanvasOptions {
   /** Predefined paper size key or custom dimensions in mm */
@@ -24,25 +38,49 @@ export interface HDCanvasOptions {
   colorDepth?: ColorDepth;
   /** Portrait or landscape — default portrait */
   orientation?: Orientation;
+  /** Straight or premultiplied alpha storage — default straight */
+  alphaMode?: AlphaMode;
+  /** Linear working color space of every layer — default 'linear-srgb' */
+  colorSpace?: WorkingColorSpace;
+  /**
+   * Allocate the layers and export snapshots on SharedArrayBuffers, so an
+   * ExportWorkerPool reads them without a copy — default false
+   */
+  shared?: boolean;
 }
 
-export interface ExportOptions {
-  /** Tone mapping algorithm */
-  toneMap?: 'reinhard' | 'aces' | 'clamp';
-  /** Exposure adjustment (stops) */
-  exposure?: number;
-  /** Gamma correction */
-  gamma?: number;
-  /** Output format */
-  format?: 'png';
+export interface RescaleOptions {
+  /** Resampling filter for the artwork — default 'lanczos' */
+  filter?: ResampleFilter;
+}
+
+export interface PaperRescaleOptions extends RescaleOptions {
+  /** Orientation of the new paper size — default portrait */
+  orientation?: Orientation;
+  /** DPI of the new canvas — default: this canvas's DPI */
+  dpi?: number;
+  /**
+   * How the artwork is placed when the aspect ratio changes — default 'contain'.
+   * `contain` letterboxes with transparency, `cover` crops, `stretch` distorts.
+   */
+  fit?: FitMode | 'stretch';
 }
 
+/** Options of export() — the export pipeline's options, see ExportPipeline.ts */
+export type ExportOptions = PipelineExportOptions;
+
 export class HDCanvas {
   readonly widthPx: number;
   readonly heightPx: number;
   readonly dpi: number;
   readonly colorDepth: ColorDepth;
+  readonly alphaMode: AlphaMode;
+  readonly colorSpace: WorkingColorSpace;
+  readonly shared: boolean;
+  /** The background layer — the target of the pixel drawing API */
   readonly buffer: ColorBuffer;
+  /** All layers, bottom → top. The background layer is always present. */
+  readonly layers: LayerStack;
   readonly paperMM: PaperDimensions;
 
   private previewRenderer: { refresh(): void; destroy(): void } | null = null;
@@ -52,6 +90,9 @@ export class HDCanvas {
     const dpi = options.dpi ?? 300;
     const colorDepth = options.colorDepth ?? 32;
     const orientation = options.orientation ?? 'portrait';
+    const alphaMode = options.alphaMode ?? 'straight';
+    const colorSpace = options.colorSpace ?? 'linear-srgb';
+    const shared = options.shared ?? false;
 
     if (dpi <= 0) {
       throw new RangeError(`DPI must be positive, got ${dpi}`);
@@ -59,15 +100,23 @@ export class HDCanvas {
 
     this.dpi = dpi;
     this.colorDepth = colorDepth;
+    this.alphaMode = alphaMode;
+    this.colorSpace = colorSpace;
+    this.shared = shared;
     this.paperMM = resolvePaperSize(options.paperSize, orientation);
 
     const px = sizeToPx(this.paperMM, dpi);
     this.widthPx = px.width;
     this.heightPx = px.height;
 
-    this.buffer = new ColorBuffer(this.widthPx, this.heightPx, colorDepth);
+    this.buffer = new ColorBuffer(this.widthPx, this.heightPx, colorDepth, { alphaMode, colorSpace, shared });
+    this.layers = new LayerStack(this.widthPx, this.heightPx, colorDepth, { alphaMode, colorSpace, shared });
+    this.layers.addLayer(HDCanvas.BACKGROUND_LAYER, { buffer: this.buffer });
   }
 
+  /** Name of the layer backing `buffer` */
+  static readonly BACKGROUND_LAYER = 'background';
+
   // --- Drawing API (delegates to ColorBuffer) ---
 
   setPixel(x: number, y: number, r: number, g: number, b: number, a?: number): void {
@@ -82,6 +131,16 @@ export class HDCanvas {
     this.buffer.blendPixel(x, y, r, g, b, a, mode);
   }
 
+  /** Deposit a color at fractional coordinates — see ColorBuffer.splat */
+  splat(x: number, y: number, r: number, g: number, b: number, a: number, options?: SplatOptions): void {
+    this.buffer.splat(x, y, r, g, b, a, options);
+  }
+
+  /** Unchecked splat for hot loops — see ColorBuffer.splatUnchecked */
+  splatUnchecked(x: number, y: number, r: number, g: number, b: number, a: number, options?: SplatOptions): void {
+    this.buffer.splatUnchecked(x, y, r, g, b, a, options);
+  }
+
   clear(r?: number, g?: number, b?: number, a?: number): void {
     this.buffer.clear(r, g, b, a);
   }
@@ -94,6 +153,46 @@ export class HDCanvas {
     this.buffer.putRegion(x, y, region);
   }
 
+  // --- Layers (delegates to LayerStack) ---
+
+  /** Add a named layer on top of the stack (or at `options.index`). */
+  addLayer(name: string, options?: LayerOptions): Layer {
+    return this.layers.addLayer(name, options);
+  }
+
+  getLayer(name: string): Layer {
+    return this.layers.getLayer(name);
+  }
+
+  /** Remove a layer. The background layer cannot be removed. */
+  removeLayer(name: string): Layer {
+    if (name === HDCanvas.BACKGROUND_LAYER) {
+      throw new Error('The background layer cannot be removed');
+    }
+    return this.layers.removeLayer(name);
+  }
+
+  moveLayer(name: string, index: number): void {
+    this.layers.moveLayer(name, index);
+  }
+
+  /** Composite all visible layers into a new ColorBuffer. Layers are left untouched. */
+  flatten(): ColorBuffer {
+    return this.layers.flatten();
+  }
+
+  // --- Vector drawing (delegates to Rasterizer) ---
+
+  /** Fill a path with an anti-aliased HDR color. */
+  fillPath(path: Path, color: RGBA, options?: FillOptions): void {
+    fillPath(this.buffer, path, color, options);
+  }
+
+  /** Stroke a path with an anti-aliased HDR color. */
+  strokePath(path: Path, color: RGBA, options?: StrokeOptions): void {
+    strokePath(this.buffer, path, color, options);
+  }
+
   // --- Canvas 2D Bridge ---
 
   /**
@@ -101,7 +200,7 @@ export class HDCanvas {
    * passes the 2D context to your callback, and reads pixels back into the float buffer.
    *
    * Note: Canvas 2D is 8-bit, so this is for convenience shapes/text, not HDR input.
-   * For HDR drawing, use the pixel API directly.
+   * For HDR drawing, use fillPath/strokePath or the pixel API directly.
    *
    * Automatically tiles for large canvases (A0+) to stay within browser limits.
    */
@@ -171,19 +270,114 @@ export class HDCanvas {
     this.exportFn = fn;
   }
 
-  /** Export the canvas to a Blob. Requires an export function to be registered. */
+  /**
+   * Export the canvas to a Blob. Requires an export function to be registered.
+   * Exports a snapshot of the composite of all visible layers, so edits
+   * and preview frames during an async export don't change the output.
+   * The snapshot (the cached composite when current, else a flatten) is
+   * taken in one go, before the export starts working in strips.
+   */
   async export(options: ExportOptions = {}): Promise<Blob> {
     if (!this.exportFn) {
       throw new Error(
         'No export function registered. Call setExportFn() or use the export pipeline module.'
       );
     }
-    return this.exportFn(this.buffer, options);
+    return this.exportFn(this.layers.snapshot(), options);
+  }
+
+  // --- Rescaling ---
+
+  /**
+   * Create a new canvas with the same paper size at a different DPI, with every
+   * layer (and mask) resampled to the new resolution. Iterate at 72 DPI, then
+   * upscale — or re-render — at print resolution.
+   *
+   * The new canvas has no preview renderer or export function attached.
+   */
+  withDpi(dpi: number, options: RescaleOptions = {}): HDCanvas {
+    return this.rescaled({ widthMM: this.paperMM.widthMM, heightMM: this.paperMM.heightMM }, dpi, 'stretch', options);
+  }
+
+  /**
+   * Create a new canvas on a different paper size, with the artwork placed
+   * according to `options.fit`. Layers, blend modes, opacity and masks carry over.
+   */
+  withPaperSize(paperSize: HDCanvasOptions['paperSize'], options: PaperRescaleOptions = {}): HDCanvas {
+    const paper = resolvePaperSize(paperSize, options.orientation ?? 'portrait');
+    return this.rescaled(paper, options.dpi ?? this.dpi, options.fit ?? 'contain', options);
+  }
+
+  private rescaled(
+    paper: PaperDimensions,
+    dpi: number,
+    fit: FitMode | 'stretch',
+    options: RescaleOptions
+  ): HDCanvas {
+    if (fit !== 'contain' && fit !== 'cover' && fit !== 'stretch') {
+      throw new Error(`Unknown fit mode: "${fit as string}". Available: contain, cover, stretch`);
+    }
+    const canvas = new HDCanvas({
+      paperSize: paper,
+      dpi,
+      colorDepth: this.colorDepth,
+      alphaMode: this.alphaMode,
+      colorSpace: this.colorSpace,
+      shared: this.shared,
+    });
+
+    const { widthPx: w, heightPx: h } = canvas;
+    const placement = fit === 'stretch'
+      ? { displayWidth: w, displayHeight: h, offsetX: 0, offsetY: 0 }
+      : calculateFit(this.widthPx, this.heightPx, w, h, fit);
+    const place = (src: ColorBuffer, dst: ColorBuffer): void => {
+      const scaled = resample(src, placement.displayWidth, placement.displayHeight, options);
+      copyClipped(scaled, dst, placement.offsetX, placement.offsetY);
+    };
+
+    for (const layer of this.layers.layers) {
+      let mask: ColorBuffer | null = null;
+      if (layer.mask) {
+        mask = new ColorBuffer(w, h, layer.mask.depth, {
+          alphaMode: layer.mask.alphaMode,
+          colorSpace: layer.mask.colorSpace,
+        });
+        place(layer.mask, mask);
+      }
+      const props = {
+        blendMode: layer.blendMode,
+        opacity: layer.opacity,
+        visible: layer.visible,
+        maskChannel: layer.maskChannel,
+        mask,
+      };
+
+      if (layer.buffer === this.buffer) {
+        place(this.buffer, canvas.buffer);
+        const background = canvas.getLayer(HDCanvas.BACKGROUND_LAYER);
+        background.blendMode = props.blendMode;
+        background.opacity = props.opacity;
+        background.visible = props.visible;
+        background.maskChannel = props.maskChannel;
+        background.mask = props.mask;
+        // Layers are re-added bottom → top; keep the background in its original slot
+        canvas.moveLayer(HDCanvas.BACKGROUND_LAYER, canvas.layers.length - 1);
+      } else {
+        const buffer = new ColorBuffer(w, h, layer.buffer.depth, {
+          alphaMode: layer.buffer.alphaMode,
+          colorSpace: layer.buffer.colorSpace,
+          shared: this.shared,
+        });
+        place(layer.buffer, buffer);
+        canvas.addLayer(layer.name, { ...props, buffer });
+      }
+    }
+    return canvas;
   }
 
-  /** Estimated memory usage of the buffer in bytes */
+  /** Estimated memory usage of all layer buffers in bytes */
   get memoryBytes(): number {
-    return this.buffer.byteLength;
+    return this.layers.byteLength;
   }
 
   /** Clean up resources */
@@ -193,3 +387,20 @@ export class HDCanvas {
     this.exportFn = null;
   }
 }
+
+/**
+ * Copy `src` into `dst` with its top-left corner at (x, y), skipping
+ * whatever falls outside `dst`. Both buffers share an alpha mode.
+ */
+function copyClipped(src: ColorBuffer, dst: ColorBuffer, x: number, y: number): void {
+  const x0 = Math.max(0, x);
+  const y0 = Math.max(0, y);
+  const x1 = Math.min(dst.width, x + src.width);
+  const y1 = Math.min(dst.height, y + src.height);
+  if (x1 <= x0 || y1 <= y0) return;
+  for (let row = y0; row < y1; row++) {
+    const from = ((row - y) * src.width + (x0 - x)) * 4;
+    dst.data.set(src.data.subarray(from, from + (x1 - x0) * 4), (row * dst.width + x0) * 4);
+  }
+  dst.markChanged();
+}
@@ -0,0 +1,354 @@
+/**
+ * LayerStack — Named ColorBuffer layers composited in float
+ *
+ * Each layer owns a full-size ColorBuffer plus compositing properties
+ * (blend mode, opacity, visibility, optional mask). Layers are ordered
+ * bottom → top and flattened non-destructively into a separate buffer,
+ * so preview and export can work on the composite while every layer
+ * stays editable.
+ */
+
+import { ColorBuffer, type AlphaMode, type ColorBufferOptions, type ColorDepth } from './ColorBuffer.js';
+import { type WorkingColorSpace } from './ColorSpace.js';
+import { resolveBlendFn, type BlendMode } from './BlendModes.js';
+
+/** Which mask channel controls layer coverage. */
+export type MaskChannel = 'alpha' | 'luminance';
+
+export interface LayerOptions {
+  /** Blend mode used when compositing onto the layers below — default 'normal' */
+  blendMode?: BlendMode;
+  /** Layer opacity in [0, 1] — default 1 */
+  opacity?: number;
+  /** Hidden layers are skipped when flattening — default true */
+  visible?: boolean;
+  /** Optional mask buffer (same size as the stack). 0 hides, 1 shows. */
+  mask?: ColorBuffer | null;
+  /** Mask channel to read — default 'alpha' */
+  maskChannel?: MaskChannel;
+  /** Insert position, 0 = bottom. Default: top of the stack */
+  index?: number;
+  /** Use an existing buffer instead of allocating a new one (must match the stack size) */
+  buffer?: ColorBuffer;
+}
+
+/**
+ * Anything that can produce a flattened ColorBuffer on demand.
+ * Preview and export accept this in place of a plain buffer.
+ */
+export interface ICompositeSource {
+  readonly width: number;
+  readonly height: number;
+  composite(): ColorBuffer;
+}
+
+// Rec. 709 luminance weights, used for 'luminance' masks
+const LUMA_R = 0.2126;
+const LUMA_G = 0.7152;
+const LUMA_B = 0.0722;
+
+export class Layer {
+  readonly name: string;
+  readonly buffer: ColorBuffer;
+  blendMode: BlendMode;
+  visible: boolean;
+  maskChannel: MaskChannel;
+
+  private _opacity = 1;
+  private _mask: ColorBuffer | null = null;
+
+  constructor(name: string, buffer: ColorBuffer, options: LayerOptions = {}) {
+    this.name = name;
+    this.buffer = buffer;
+    this.blendMode = options.blendMode ?? 'normal';
+    // Fail early on unknown modes rather than at flatten time
+    resolveBlendFn(this.blendMode);
+    this.visible = options.visible ?? true;
+    this.maskChannel = options.maskChannel ?? 'alpha';
+    this.opacity = options.opacity ?? 1;
+    this.mask = options.mask ?? null;
+  }
+
+  get opacity(): number {
+    return this._opacity;
+  }
+
+  set opacity(value: number) {
+    if (!(value >= 0 && value <= 1)) {
+      throw new RangeError(`Layer opacity must be in [0, 1], got ${value}`);
+    }
+    this._opacity = value;
+  }
+
+  get mask(): ColorBuffer | null {
+    return this._mask;
+  }
+
+  set mask(value: ColorBuffer | null) {
+    if (value && (value.width !== this.buffer.width || value.height !== this.buffer.height)) {
+      throw new RangeError(
+        `Mask ${value.width}×${value.height} does not match layer ${this.buffer.width}×${this.buffer.height}`
+      );
+    }
+    this._mask = value;
+  }
+}
+
+export class LayerStack implements ICompositeSource {
+  readonly width: number;
+  readonly height: number;
+  readonly depth: ColorDepth;
+  readonly alphaMode: AlphaMode;
+  readonly colorSpace: WorkingColorSpace;
+  /** Whether the buffers the stack allocates (layers, composite, snapshots) are shared */
+  readonly shared: boolean;
+
+  private readonly stack: Layer[] = [];
+  /** Reused target for composite() — allocated on first non-trivial flatten */
+  private compositeBuffer: ColorBuffer | null = null;
+  /** Layer state the composite buffer was flattened from (see compositeState) */
+  private compositeKey: unknown[] | null = null;
+  /** The composite buffer's own version right after that flatten */
+  private compositeVersion = -1;
+
+  constructor(width: number, height: number, depth: ColorDepth = 32, options: ColorBufferOptions = {}) {
+    if (!Number.isInteger(width) || width <= 0) {
+      throw new RangeError(`width must be a positive integer, got ${width}`);
+    }
+    if (!Number.isInteger(height) || height <= 0) {
+      throw new RangeError(`height must be a positive integer, got ${height}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.depth = depth;
+    this.alphaMode = options.alphaMode ?? 'straight';
+    this.colorSpace = options.colorSpace ?? 'linear-srgb';
+    this.shared = options.shared ?? false;
+  }
+
+  /** Layers in compositing order, bottom → top */
+  get layers(): readonly Layer[] {
+    return this.stack;
+  }
+
+  get length(): number {
+    return this.stack.length;
+  }
+
+  /** Total bytes held by layer buffers, masks and the composite cache */
+  get byteLength(): number {
+    let bytes = this.compositeBuffer?.byteLength ?? 0;
+    for (const layer of this.stack) {
+      bytes += layer.buffer.byteLength + (layer.mask?.byteLength ?? 0);
+    }
+    return bytes;
+  }
+
+  /**
+   * Add a named layer. Allocates a transparent buffer matching the stack
+   * unless `options.buffer` supplies one.
+   */
+  addLayer(name: string, options: LayerOptions = {}): Layer {
+    if (this.hasLayer(name)) {
+      throw new Error(`Layer "${name}" already exists`);
+    }
+
+    const buffer = options.buffer
+      ?? new ColorBuffer(this.width, this.height, this.depth, this.bufferOptions);
+    if (buffer.width !== this.width || buffer.height !== this.height) {
+      throw new RangeError(
+        `Layer buffer ${buffer.width}×${buffer.height} does not match stack ${this.width}×${this.height}`
+      );
+    }
+    if (buffer.colorSpace !== this.colorSpace) {
+      throw new Error(
+        `Layer buffer color space "${buffer.colorSpace}" does not match stack "${this.colorSpace}"`
+      );
+    }
+
+    const index = options.index ?? this.stack.length;
+    this.checkIndex(index, this.stack.length);
+
+    const layer = new Layer(name, buffer, options);
+    this.stack.splice(index, 0, layer);
+    return layer;
+  }
+
+  hasLayer(name: string): boolean {
+    return this.stack.some(l => l.name === name);
+  }
+
+  /** Look up a layer by name. Throws if it does not exist. */
+  getLayer(name: string): Layer {
+    return this.stack[this.indexOf(name)]!;
+  }
+
+  /** Remove a layer by name and return it. */
+  removeLayer(name: string): Layer {
+    return this.stack.splice(this.indexOf(name), 1)[0]!;
+  }
+
+  /** Move a layer to a new position (0 = bottom). */
+  moveLayer(name: string, index: number): void {
+    this.checkIndex(index, this.stack.length - 1);
+    const [layer] = this.stack.splice(this.indexOf(name), 1);
+    this.stack.splice(index, 0, layer!);
+  }
+
+  /**
+   * Composite all visible layers, bottom → top, into `target`
+   * (or a new transparent buffer). Each layer is blended with its own
+   * mode, scaled by opacity and mask. Layers are never modified.
+   */
+  flatten(target?: ColorBuffer): ColorBuffer {
+    const out = target
+      ?? new ColorBuffer(this.width, this.height, this.depth, this.bufferOptions);
+    if (out.width !== this.width || out.height !== this.height) {
+      throw new RangeError(
+        `Flatten target ${out.width}×${out.height} does not match stack ${this.width}×${this.height}`
+      );
+    }
+
+    out.clear();
+
+    const w = this.width;
+    const row = new Float64Array(w * 4);
+
+    for (const layer of this.stack) {
+      if (!layer.visible || layer.opacity === 0) continue;
+
+      const src = layer.buffer.data;
+      const premultiplied = layer.buffer.alphaMode === 'premultiplied';
+      const mask = layer.mask?.data ?? null;
+      const maskLuma = layer.maskChannel === 'luminance';
+      const opacity = layer.opacity;
+
+      for (let y = 0; y < this.height; y++) {
+        const base = y * w * 4;
+        for (let i = 0; i < w * 4; i += 4) {
+          const s = base + i;
+          const a = src[s + 3]!;
+          // Blend rows take straight alpha
+          const inv = premultiplied ? (a === 0 ? 0 : 1 / a) : 1;
+
+          let coverage = opacity;
+          if (mask) {
+            const m = maskLuma
+              ? LUMA_R * mask[s]! + LUMA_G * mask[s + 1]! + LUMA_B * mask[s + 2]!
+              : mask[s + 3]!;
+            coverage *= m < 0 ? 0 : m > 1 ? 1 : m;
+          }
+
+          row[i] = src[s]! * inv;
+          row[i + 1] = src[s + 1]! * inv;
+          row[i + 2] = src[s + 2]! * inv;
+          row[i + 3] = a * coverage;
+        }
+        out.blendRowUnchecked(y, 0, w, row, layer.blendMode);
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * Flattened view of the stack for preview/export.
+   *
+   * A single plain layer (visible, normal, opaque, unmasked) is returned
+   * as-is with no copy. Otherwise the stack is flattened into a cached
+   * buffer that is reused across calls, and only re-flattened when a
+   * layer, its pixels (ColorBuffer.version) or its mask changed since.
+   * Callers must not hold on to it across edits — use snapshot() for that.
+   */
+  composite(): ColorBuffer {
+    const plain = this.plainLayer();
+    if (plain) return plain.buffer;
+
+    const key = this.compositeState();
+    const cached = this.currentComposite(key);
+    if (cached) return cached;
+
+    this.compositeBuffer ??= new ColorBuffer(this.width, this.height, this.depth, this.bufferOptions);
+    this.flatten(this.compositeBuffer);
+    this.compositeKey = key;
+    this.compositeVersion = this.compositeBuffer.version;
+    return this.compositeBuffer;
+  }
+
+  /**
+   * A private copy of the composite, unaffected by later edits — for work
+   * that outlives the current frame, such as an async export. It costs one
+   * buffer: a cached composite that is still current is handed over
+   * instead of copied (the next composite() flattens into a new one), and
+   * otherwise the stack is flattened straight into the snapshot.
+   */
+  snapshot(): ColorBuffer {
+    const plain = this.plainLayer();
+    if (plain) {
+      const copy = new ColorBuffer(this.width, this.height, plain.buffer.depth, this.bufferOptions);
+      copy.data.set(plain.buffer.data);
+      return copy;
+    }
+
+    const cached = this.currentComposite(this.compositeState());
+    if (cached) {
+      this.compositeBuffer = null;
+      this.compositeKey = null;
+      return cached;
+    }
+    const snapshot = new ColorBuffer(this.width, this.height, this.depth, this.bufferOptions);
+    this.flatten(snapshot);
+    return snapshot;
+  }
+
+  /** The only layer, when it is plain (visible, normal, opaque, unmasked) and so is its own composite */
+  private plainLayer(): Layer | null {
+    if (this.stack.length !== 1) return null;
+    const only = this.stack[0]!;
+    return only.visible && only.opacity === 1 && !only.mask &&
+      only.blendMode === 'normal' && only.buffer.alphaMode === this.alphaMode
+      ? only
+      : null;
+  }
+
+  /** The cached composite, if nothing it was flattened from has changed since */
+  private currentComposite(key: unknown[]): ColorBuffer | null {
+    const cached = this.compositeBuffer;
+    return cached && cached.version === this.compositeVersion && sameState(key, this.compositeKey) ? cached : null;
+  }
+
+  /** Everything a flatten depends on, per layer bottom → top */
+  private compositeState(): unknown[] {
+    const key: unknown[] = [];
+    for (const layer of this.stack) {
+      const { buffer, mask } = layer;
+      key.push(
+        layer, buffer.version, layer.visible, layer.opacity, layer.blendMode,
+        mask, mask?.version, layer.maskChannel
+      );
+    }
+    return key;
+  }
+
+  private get bufferOptions(): ColorBufferOptions {
+    return { alphaMode: this.alphaMode, colorSpace: this.colorSpace, shared: this.shared };
+  }
+
+  private indexOf(name: string): number {
+    const index = this.stack.findIndex(l => l.name === name);
+    if (index === -1) {
+      throw new Error(`Unknown layer: "${name}"`);
+    }
+    return index;
+  }
+
+  private checkIndex(index: number, max: number): void {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new RangeError(`Layer index must be an integer in [0, ${max}], got ${index}`);
+    }
+  }
+}
+
+function sameState(a: unknown[], b: unknown[] | null): boolean {
+  return b !== null && a.length === b.length && a.every((value, i) => value === b[i]);
+}
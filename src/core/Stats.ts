@@ -0,0 +1,293 @@
+/**
+ * Stats — Buffer statistics and log-scaled histograms
+ *
+ * Inspects the HDR range of a render: per-channel and luminance min, max,
+ * mean, log-average and percentiles, NaN and Infinity counts, how many
+ * values exceed 1.0, and histograms over a range of stops for a UI.
+ *
+ * Every statistic can be taken over a region and on a decimated sample
+ * (every `step`-th pixel in x and y), which keeps a full readout under a
+ * millisecond or two per frame:
+ *
+ *   const stats = computeBufferStats(canvas.buffer, { maxSamples: 65536 });
+ *   stats.luminance.percentiles; // [p1, p50, p99]
+ *   stats.histogram.luminance.bins; // counts per 1/8 stop
+ *
+ * Percentiles come from a 1/32-stop histogram, so they are exact to within
+ * 1/32 stop (about 2%) without sorting the samples.
+ */
+
+import { luminanceWeights } from './ColorSpace.js';
+import type { IColorBuffer } from './ColorBuffer.js';
+import { resolveRegion, type FilterRegion } from '../filters/EdgeModes.js';
+
+// ─── Log histogram ───────────────────────────────────────────────────
+
+/**
+ * Histogram over log2(value), from `minEV` to `maxEV` stops in equal bins.
+ * Positive values outside the range land in the first or last bin; values
+ * ≤ 0 are counted in `zeros`. Counts may be weighted.
+ */
+export class LogHistogram {
+  readonly minEV: number;
+  readonly maxEV: number;
+  /** Weighted count per bin; bin i covers [minEV + i·w, minEV + (i+1)·w) stops */
+  readonly bins: Float64Array;
+  /** Weighted count of values ≤ 0 */
+  zeros = 0;
+  /** Weighted count of all values */
+  total = 0;
+  private readonly binsPerEV: number;
+
+  constructor(minEV: number, maxEV: number, bins: number) {
+    if (!Number.isFinite(minEV) || !Number.isFinite(maxEV) || minEV >= maxEV) {
+      throw new RangeError(`Histogram range must satisfy minEV < maxEV, got ${minEV}..${maxEV}`);
+    }
+    if (!Number.isInteger(bins) || bins <= 0) {
+      throw new RangeError(`Histogram bins must be a positive integer, got ${bins}`);
+    }
+    this.minEV = minEV;
+    this.maxEV = maxEV;
+    this.bins = new Float64Array(bins);
+    this.binsPerEV = bins / (maxEV - minEV);
+  }
+
+  /** Count a value. NaN is ignored. */
+  add(value: number, weight = 1): void {
+    if (!(value > 0)) {
+      if (value <= 0) {
+        this.zeros += weight;
+        this.total += weight;
+      }
+      return;
+    }
+    const bins = this.bins.length;
+    const bin = Math.floor((Math.log2(value) - this.minEV) * this.binsPerEV);
+    this.bins[bin < 0 ? 0 : bin >= bins ? bins - 1 : bin]! += weight;
+    this.total += weight;
+  }
+
+  /**
+   * The value below which `percentile` % of the counted values fall,
+   * interpolated within its bin. 0 when it falls among the zeros; null
+   * when nothing has been counted.
+   */
+  percentile(percentile: number): number | null {
+    if (this.total === 0) return null;
+    const target = (Math.min(100, Math.max(0, percentile)) / 100) * this.total;
+    if (this.zeros > 0 && target <= this.zeros) return 0;
+
+    let cumulative = this.zeros;
+    for (let bin = 0; bin < this.bins.length; bin++) {
+      const count = this.bins[bin]!;
+      if (count > 0 && cumulative + count >= target) {
+        return Math.pow(2, this.minEV + (bin + (target - cumulative) / count) / this.binsPerEV);
+      }
+      cumulative += count;
+    }
+    return Math.pow(2, this.maxEV);
+  }
+}
+
+// ─── Options and results ─────────────────────────────────────────────
+
+export interface BufferStatsOptions {
+  /** Measure only this rectangle — default: the whole buffer */
+  region?: FilterRegion;
+  /** Read every `step`-th pixel in x and y — default 1 (all pixels) */
+  step?: number;
+  /** Raise `step` as needed so at most this many pixels are read — default: no limit */
+  maxSamples?: number;
+  /** Percentiles (0–100) to report for every channel — default [1, 50, 99] */
+  percentiles?: readonly number[];
+  /** Skip pixels with alpha 0 — default false */
+  ignoreTransparent?: boolean;
+  /** Display histogram range and resolution — default 128 bins over −12 to +4 stops */
+  histogram?: { bins?: number; minEV?: number; maxEV?: number };
+}
+
+export interface ChannelStats {
+  /** Smallest finite value (NaN when there is none) */
+  min: number;
+  /** Largest finite value (NaN when there is none) */
+  max: number;
+  /** Mean of the finite values (NaN when there is none) */
+  mean: number;
+  /** Geometric mean of the finite values, with values below 1e-6 counted as 1e-6 */
+  logAverage: number;
+  /** The requested percentiles, in order (values ≤ 0 count as 0) */
+  percentiles: number[];
+  /** Number of NaN values */
+  nan: number;
+  /** Number of ±Infinity values */
+  infinite: number;
+  /** Number of finite values above 1.0 */
+  aboveOne: number;
+}
+
+export interface BufferStats {
+  /** The measured rectangle */
+  region: FilterRegion;
+  /** Sampling step actually used */
+  step: number;
+  /** Number of pixels measured */
+  samples: number;
+  r: ChannelStats;
+  g: ChannelStats;
+  b: ChannelStats;
+  a: ChannelStats;
+  /** Relative luminance, with the weights of the buffer's working space */
+  luminance: ChannelStats;
+  /** Pixels with any of R, G or B above 1.0 */
+  pixelsAboveOne: number;
+  /** Log-scaled histograms of R, G, B and luminance */
+  histogram: {
+    r: LogHistogram;
+    g: LogHistogram;
+    b: LogHistogram;
+    luminance: LogHistogram;
+  };
+}
+
+// Percentile histogram: 1/32-stop bins over ±32 stops
+const PERCENTILE_MIN_EV = -32;
+const PERCENTILE_MAX_EV = 32;
+const PERCENTILE_BINS = 64 * 32;
+
+// Floor for the log-average, so black pixels don't send it to zero
+const MIN_LOG_VALUE = 1e-6;
+
+// ─── Channel accumulator ─────────────────────────────────────────────
+
+class ChannelAccumulator {
+  min = Infinity;
+  max = -Infinity;
+  sum = 0;
+  logSum = 0;
+  count = 0;
+  nan = 0;
+  infinite = 0;
+  aboveOne = 0;
+  readonly fine = new LogHistogram(PERCENTILE_MIN_EV, PERCENTILE_MAX_EV, PERCENTILE_BINS);
+
+  constructor(readonly display: LogHistogram | null) {}
+
+  add(v: number): void {
+    if (v !== v) {
+      this.nan++;
+      return;
+    }
+    if (v === Infinity || v === -Infinity) {
+      this.infinite++;
+      return;
+    }
+    if (v < this.min) this.min = v;
+    if (v > this.max) this.max = v;
+    if (v > 1) this.aboveOne++;
+    this.sum += v;
+    this.logSum += Math.log(v > MIN_LOG_VALUE ? v : MIN_LOG_VALUE);
+    this.count++;
+    this.fine.add(v);
+    this.display?.add(v);
+  }
+
+  result(percentiles: readonly number[]): ChannelStats {
+    const empty = this.count === 0;
+    return {
+      min: empty ? NaN : this.min,
+      max: empty ? NaN : this.max,
+      mean: empty ? NaN : this.sum / this.count,
+      logAverage: empty ? NaN : Math.exp(this.logSum / this.count),
+      // Clamped to the exact extremes, which the binned estimate only approximates
+      percentiles: percentiles.map((p) =>
+        empty ? NaN : Math.min(this.max, Math.max(this.min, this.fine.percentile(p)!))
+      ),
+      nan: this.nan,
+      infinite: this.infinite,
+      aboveOne: this.aboveOne,
+    };
+  }
+}
+
+// ─── Statistics ──────────────────────────────────────────────────────
+
+/**
+ * Statistics of a buffer (or a region of it), optionally on a decimated
+ * sample. Premultiplied buffers are measured as straight color.
+ */
+export function computeBufferStats(buffer: IColorBuffer, options: BufferStatsOptions = {}): BufferStats {
+  const region = resolveRegion(buffer, options.region);
+  const { percentiles = [1, 50, 99], ignoreTransparent = false } = options;
+  const { bins = 128, minEV = -12, maxEV = 4 } = options.histogram ?? {};
+
+  let step = options.step ?? 1;
+  if (!Number.isInteger(step) || step < 1) {
+    throw new RangeError(`Sample step must be a positive integer, got ${step}`);
+  }
+  if (options.maxSamples !== undefined) {
+    if (!(options.maxSamples >= 1)) {
+      throw new RangeError(`maxSamples must be at least 1, got ${options.maxSamples}`);
+    }
+    const total = region.width * region.height;
+    while (Math.ceil(region.width / step) * Math.ceil(region.height / step) > options.maxSamples) {
+      step = Math.max(step + 1, Math.floor(Math.sqrt(total / options.maxSamples)));
+    }
+  }
+  for (const p of percentiles) {
+    if (!(p >= 0 && p <= 100)) {
+      throw new RangeError(`Percentile must be between 0 and 100, got ${p}`);
+    }
+  }
+
+  const histogram = () => new LogHistogram(minEV, maxEV, bins);
+  const r = new ChannelAccumulator(histogram());
+  const g = new ChannelAccumulator(histogram());
+  const b = new ChannelAccumulator(histogram());
+  const a = new ChannelAccumulator(null);
+  const luminance = new ChannelAccumulator(histogram());
+
+  const [wr, wg, wb] = luminanceWeights(buffer.colorSpace ?? 'linear-srgb');
+  const premultiplied = buffer.alphaMode === 'premultiplied';
+  const data = buffer.data;
+  let samples = 0;
+  let pixelsAboveOne = 0;
+
+  for (let y = region.y; y < region.y + region.height; y += step) {
+    const row = y * buffer.width;
+    for (let x = region.x; x < region.x + region.width; x += step) {
+      const i = (row + x) * 4;
+      const alpha = data[i + 3]!;
+      if (ignoreTransparent && alpha === 0) continue;
+      const inv = premultiplied ? (alpha === 0 ? 0 : 1 / alpha) : 1;
+      const red = data[i]! * inv;
+      const green = data[i + 1]! * inv;
+      const blue = data[i + 2]! * inv;
+
+      r.add(red);
+      g.add(green);
+      b.add(blue);
+      a.add(alpha);
+      luminance.add(wr * red + wg * green + wb * blue);
+      if (red > 1 || green > 1 || blue > 1) pixelsAboveOne++;
+      samples++;
+    }
+  }
+
+  return {
+    region,
+    step,
+    samples,
+    r: r.result(percentiles),
+    g: g.result(percentiles),
+    b: b.result(percentiles),
+    a: a.result(percentiles),
+    luminance: luminance.result(percentiles),
+    pixelsAboveOne,
+    histogram: {
+      r: r.display!,
+      g: g.display!,
+      b: b.display!,
+      luminance: luminance.display!,
+    },
+  };
+}
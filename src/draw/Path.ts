@@ -0,0 +1,296 @@
+/**
+ * Path — Vector path builder with curve flattening
+ *
+ * Mirrors the Canvas 2D / Path2D vocabulary (moveTo, lineTo, bezierCurveTo…)
+ * in buffer pixel coordinates. Curves are kept as commands and flattened to
+ * polylines on demand, with a tolerance in pixels, by the rasterizer.
+ */
+
+/** A flattened subpath: x/y pairs plus whether it was explicitly closed. */
+export interface Polyline {
+  points: number[];
+  closed: boolean;
+}
+
+type PathCommand =
+  | { op: 'M'; x: number; y: number }
+  | { op: 'L'; x: number; y: number }
+  | { op: 'Q'; cx: number; cy: number; x: number; y: number }
+  | { op: 'C'; c1x: number; c1y: number; c2x: number; c2y: number; x: number; y: number }
+  | { op: 'A'; cx: number; cy: number; rx: number; ry: number; rotation: number; start: number; end: number }
+  | { op: 'Z' };
+
+/** Default flattening tolerance: max distance (px) between curve and polyline */
+export const DEFAULT_TOLERANCE = 0.1;
+
+export class Path {
+  private readonly commands: PathCommand[] = [];
+
+  /** Start a new subpath at (x, y). */
+  moveTo(x: number, y: number): this {
+    this.commands.push({ op: 'M', x, y });
+    return this;
+  }
+
+  /** Straight line to (x, y). Starts a subpath if there is none. */
+  lineTo(x: number, y: number): this {
+    this.commands.push({ op: 'L', x, y });
+    return this;
+  }
+
+  /** Quadratic Bézier with control point (cx, cy) ending at (x, y). */
+  quadraticCurveTo(cx: number, cy: number, x: number, y: number): this {
+    this.commands.push({ op: 'Q', cx, cy, x, y });
+    return this;
+  }
+
+  /** Cubic Bézier with control points (c1x, c1y), (c2x, c2y) ending at (x, y). */
+  bezierCurveTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number): this {
+    this.commands.push({ op: 'C', c1x, c1y, c2x, c2y, x, y });
+    return this;
+  }
+
+  /**
+   * Circular arc around (cx, cy), angles in radians. Connects to the current
+   * point with a straight line, like CanvasRenderingContext2D.arc().
+   */
+  arc(cx: number, cy: number, r: number, start: number, end: number, counterclockwise = false): this {
+    return this.ellipticalArc(cx, cy, r, r, 0, start, end, counterclockwise);
+  }
+
+  /** Close the current subpath back to its start point. */
+  closePath(): this {
+    this.commands.push({ op: 'Z' });
+    return this;
+  }
+
+  /** Closed axis-aligned rectangle subpath. */
+  rect(x: number, y: number, w: number, h: number): this {
+    return this.moveTo(x, y).lineTo(x + w, y).lineTo(x + w, y + h).lineTo(x, y + h).closePath();
+  }
+
+  /** Closed polygon subpath from x/y pairs. */
+  polygon(points: ArrayLike<number>): this {
+    if (points.length < 2) return this;
+    this.moveTo(points[0]!, points[1]!);
+    for (let i = 2; i + 1 < points.length; i += 2) {
+      this.lineTo(points[i]!, points[i + 1]!);
+    }
+    return this.closePath();
+  }
+
+  /** Closed circle subpath. */
+  circle(cx: number, cy: number, r: number): this {
+    return this.ellipse(cx, cy, r, r);
+  }
+
+  /** Closed ellipse subpath, optionally rotated (radians). */
+  ellipse(cx: number, cy: number, rx: number, ry: number, rotation = 0): this {
+    if (rx < 0 || ry < 0) {
+      throw new RangeError(`Ellipse radii must be non-negative, got ${rx}×${ry}`);
+    }
+    this.moveTo(
+      cx + rx * Math.cos(rotation),
+      cy + rx * Math.sin(rotation)
+    );
+    this.commands.push({ op: 'A', cx, cy, rx, ry, rotation, start: 0, end: Math.PI * 2 });
+    return this.closePath();
+  }
+
+  /** True if no commands have been added. */
+  get isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  /**
+   * Flatten to polylines. Every curve is subdivided so the polyline stays
+   * within `tolerance` pixels of the true curve.
+   */
+  flatten(tolerance: number = DEFAULT_TOLERANCE): Polyline[] {
+    if (!(tolerance > 0)) {
+      throw new RangeError(`Tolerance must be positive, got ${tolerance}`);
+    }
+
+    const out: Polyline[] = [];
+    let current: Polyline | null = null;
+    let startX = 0;
+    let startY = 0;
+    let lastX = 0;
+    let lastY = 0;
+
+    const ensure = (): Polyline => {
+      if (!current) {
+        current = { points: [lastX, lastY], closed: false };
+        out.push(current);
+      }
+      return current;
+    };
+
+    for (const cmd of this.commands) {
+      switch (cmd.op) {
+        case 'M':
+          current = { points: [cmd.x, cmd.y], closed: false };
+          out.push(current);
+          startX = lastX = cmd.x;
+          startY = lastY = cmd.y;
+          break;
+        case 'L':
+          if (!current) {
+            startX = lastX = cmd.x;
+            startY = lastY = cmd.y;
+          }
+          ensure().points.push(cmd.x, cmd.y);
+          lastX = cmd.x;
+          lastY = cmd.y;
+          break;
+        case 'Q': {
+          const pts = ensure().points;
+          flattenQuadratic(pts, lastX, lastY, cmd.cx, cmd.cy, cmd.x, cmd.y, tolerance);
+          lastX = cmd.x;
+          lastY = cmd.y;
+          break;
+        }
+        case 'C': {
+          const pts = ensure().points;
+          flattenCubic(pts, lastX, lastY, cmd.c1x, cmd.c1y, cmd.c2x, cmd.c2y, cmd.x, cmd.y, tolerance);
+          lastX = cmd.x;
+          lastY = cmd.y;
+          break;
+        }
+        case 'A': {
+          const pts = ensure().points;
+          const end = flattenArc(pts, cmd, tolerance);
+          lastX = end[0];
+          lastY = end[1];
+          break;
+        }
+        case 'Z':
+          if (current) {
+            current.closed = true;
+            current = null;
+            lastX = startX;
+            lastY = startY;
+          }
+          break;
+        default: {
+          const _exhaustive: never = cmd;
+          throw new Error(`Unknown path command: ${JSON.stringify(_exhaustive)}`);
+        }
+      }
+    }
+
+    return out;
+  }
+
+  private ellipticalArc(
+    cx: number, cy: number, rx: number, ry: number, rotation: number,
+    start: number, end: number, counterclockwise: boolean
+  ): this {
+    if (rx < 0 || ry < 0) {
+      throw new RangeError(`Arc radii must be non-negative, got ${rx}×${ry}`);
+    }
+
+    // Normalise the sweep like Canvas 2D: clockwise sweeps are positive
+    const TAU = Math.PI * 2;
+    let sweep = end - start;
+    if (!counterclockwise && sweep < 0) {
+      sweep = sweep <= -TAU ? TAU : (sweep % TAU) + TAU;
+    } else if (counterclockwise && sweep > 0) {
+      sweep = sweep >= TAU ? -TAU : (sweep % TAU) - TAU;
+    }
+    if (sweep > TAU) sweep = TAU;
+    if (sweep < -TAU) sweep = -TAU;
+
+    const cosR = Math.cos(rotation);
+    const sinR = Math.sin(rotation);
+    const ex = rx * Math.cos(start);
+    const ey = ry * Math.sin(start);
+    this.lineTo(cx + ex * cosR - ey * sinR, cy + ex * sinR + ey * cosR);
+    this.commands.push({ op: 'A', cx, cy, rx, ry, rotation, start, end: start + sweep });
+    return this;
+  }
+}
+
+// ─── Flattening ──────────────────────────────────────────────────────
+
+/**
+ * Quadratic Bézier → line segments. Segment count from Wang's formula:
+ * n = ceil(sqrt(|p0 − 2p1 + p2| / (4 · tol))).
+ */
+function flattenQuadratic(
+  out: number[],
+  x0: number, y0: number, cx: number, cy: number, x1: number, y1: number,
+  tolerance: number
+): void {
+  const ddx = x0 - 2 * cx + x1;
+  const ddy = y0 - 2 * cy + y1;
+  const n = Math.max(1, Math.ceil(Math.sqrt(Math.hypot(ddx, ddy) / (4 * tolerance))));
+
+  for (let i = 1; i <= n; i++) {
+    const t = i / n;
+    const mt = 1 - t;
+    out.push(
+      mt * mt * x0 + 2 * mt * t * cx + t * t * x1,
+      mt * mt * y0 + 2 * mt * t * cy + t * t * y1
+    );
+  }
+}
+
+/**
+ * Cubic Bézier → line segments. Segment count from Wang's formula:
+ * n = ceil(sqrt(3/4 · max|second difference| / tol)).
+ */
+function flattenCubic(
+  out: number[],
+  x0: number, y0: number, c1x: number, c1y: number,
+  c2x: number, c2y: number, x1: number, y1: number,
+  tolerance: number
+): void {
+  const d1 = Math.hypot(x0 - 2 * c1x + c2x, y0 - 2 * c1y + c2y);
+  const d2 = Math.hypot(c1x - 2 * c2x + x1, c1y - 2 * c2y + y1);
+  const n = Math.max(1, Math.ceil(Math.sqrt((0.75 * Math.max(d1, d2)) / tolerance)));
+
+  for (let i = 1; i <= n; i++) {
+    const t = i / n;
+    const mt = 1 - t;
+    const a = mt * mt * mt;
+    const b = 3 * mt * mt * t;
+    const c = 3 * mt * t * t;
+    const d = t * t * t;
+    out.push(
+      a * x0 + b * c1x + c * c2x + d * x1,
+      a * y0 + b * c1y + c * c2y + d * y1
+    );
+  }
+}
+
+/** Number of segments so a circle of radius r deviates at most `tolerance`. */
+export function arcSegments(radius: number, sweep: number, tolerance: number): number {
+  if (radius <= tolerance) return Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+  const step = 2 * Math.acos(1 - tolerance / radius);
+  return Math.max(1, Math.ceil(Math.abs(sweep) / step));
+}
+
+function flattenArc(
+  out: number[],
+  cmd: { cx: number; cy: number; rx: number; ry: number; rotation: number; start: number; end: number },
+  tolerance: number
+): [number, number] {
+  const { cx, cy, rx, ry, rotation, start, end } = cmd;
+  const sweep = end - start;
+  const n = arcSegments(Math.max(rx, ry), sweep, tolerance);
+  const cosR = Math.cos(rotation);
+  const sinR = Math.sin(rotation);
+
+  let x = 0;
+  let y = 0;
+  for (let i = 1; i <= n; i++) {
+    const t = start + (sweep * i) / n;
+    const ex = rx * Math.cos(t);
+    const ey = ry * Math.sin(t);
+    x = cx + ex * cosR - ey * sinR;
+    y = cy + ex * sinR + ey * cosR;
+    out.push(x, y);
+  }
+  return [x, y];
+}
@@ -0,0 +1,358 @@
+/**
+ * Rasterizer — Anti-aliased vector drawing straight into a ColorBuffer
+ *
+ * Paths are flattened to line segments and scan-converted with exact
+ * signed-area coverage (the accumulation technique used by font-rs and
+ * AGG): every edge deposits its area contribution into a float
+ * accumulation buffer, and a running sum along each row gives the winding
+ * value per pixel. Coverage is then blended row by row with any BlendMode,
+ * so colors keep their full float range — no 8-bit round trip.
+ *
+ * Strokes are converted to polygons by the Stroker and filled with the
+ * non-zero rule.
+ */
+
+import { type ColorBuffer, type RGBA } from '../core/ColorBuffer.js';
+import { resolveBlendFn, type BlendMode } from '../core/BlendModes.js';
+import { Path, DEFAULT_TOLERANCE, type Polyline } from './Path.js';
+import { strokePolylines, type LineCap, type LineJoin } from './Stroker.js';
+
+export type FillRule = 'nonzero' | 'evenodd';
+
+export interface FillOptions {
+  /** Winding rule for overlapping or self-intersecting shapes — default 'nonzero' */
+  fillRule?: FillRule;
+  /** Blend mode used to composite coverage onto the buffer — default 'normal' */
+  blendMode?: BlendMode;
+  /** Curve flattening tolerance in pixels — default 0.1 */
+  tolerance?: number;
+}
+
+export interface StrokeOptions {
+  /** Stroke width in pixels — default 1 */
+  width?: number;
+  /** End cap for open subpaths — default 'butt' */
+  cap?: LineCap;
+  /** Corner style — default 'miter' */
+  join?: LineJoin;
+  /** Miters longer than miterLimit × width fall back to bevel — default 10 */
+  miterLimit?: number;
+  /** Blend mode used to composite coverage onto the buffer — default 'normal' */
+  blendMode?: BlendMode;
+  /** Curve flattening tolerance in pixels — default 0.1 */
+  tolerance?: number;
+}
+
+/** Upper bound on accumulation cells per band, keeps memory flat on large canvases */
+const BAND_CELLS = 1 << 20;
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Fill a path. Open subpaths are closed implicitly.
+ * Colors are straight alpha and may exceed 1.0.
+ */
+export function fillPath(buffer: ColorBuffer, path: Path, color: RGBA, options: FillOptions = {}): void {
+  const polylines = path.flatten(options.tolerance ?? DEFAULT_TOLERANCE);
+  fillPolylines(buffer, polylines, color, options.fillRule ?? 'nonzero', options.blendMode ?? 'normal');
+}
+
+/** Stroke a path with the given width, caps and joins. */
+export function strokePath(buffer: ColorBuffer, path: Path, color: RGBA, options: StrokeOptions = {}): void {
+  const width = options.width ?? 1;
+  const miterLimit = options.miterLimit ?? 10;
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  if (!(width >= 0) || !Number.isFinite(width)) {
+    throw new RangeError(`Stroke width must be a non-negative number, got ${width}`);
+  }
+  if (!(miterLimit >= 1)) {
+    throw new RangeError(`Miter limit must be >= 1, got ${miterLimit}`);
+  }
+
+  const polygons = strokePolylines(path.flatten(tolerance), {
+    width,
+    cap: options.cap ?? 'butt',
+    join: options.join ?? 'miter',
+    miterLimit,
+    tolerance,
+  });
+  const polylines = polygons.map(points => ({ points, closed: true }));
+  fillPolylines(buffer, polylines, color, 'nonzero', options.blendMode ?? 'normal');
+}
+
+/** Stroke a single line segment. */
+export function drawLine(
+  buffer: ColorBuffer,
+  x0: number, y0: number, x1: number, y1: number,
+  color: RGBA, options?: StrokeOptions
+): void {
+  strokePath(buffer, new Path().moveTo(x0, y0).lineTo(x1, y1), color, options);
+}
+
+/** Stroke an open polyline through x/y pairs. */
+export function drawPolyline(buffer: ColorBuffer, points: ArrayLike<number>, color: RGBA, options?: StrokeOptions): void {
+  const path = new Path();
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    if (i === 0) path.moveTo(points[0]!, points[1]!);
+    else path.lineTo(points[i]!, points[i + 1]!);
+  }
+  strokePath(buffer, path, color, options);
+}
+
+/** Fill a polygon given as x/y pairs. */
+export function fillPolygon(buffer: ColorBuffer, points: ArrayLike<number>, color: RGBA, options?: FillOptions): void {
+  fillPath(buffer, new Path().polygon(points), color, options);
+}
+
+export function fillCircle(buffer: ColorBuffer, cx: number, cy: number, r: number, color: RGBA, options?: FillOptions): void {
+  fillPath(buffer, new Path().circle(cx, cy, r), color, options);
+}
+
+export function strokeCircle(buffer: ColorBuffer, cx: number, cy: number, r: number, color: RGBA, options?: StrokeOptions): void {
+  strokePath(buffer, new Path().circle(cx, cy, r), color, options);
+}
+
+export function fillEllipse(
+  buffer: ColorBuffer,
+  cx: number, cy: number, rx: number, ry: number,
+  color: RGBA, options?: FillOptions
+): void {
+  fillPath(buffer, new Path().ellipse(cx, cy, rx, ry), color, options);
+}
+
+export function strokeEllipse(
+  buffer: ColorBuffer,
+  cx: number, cy: number, rx: number, ry: number,
+  color: RGBA, options?: StrokeOptions
+): void {
+  strokePath(buffer, new Path().ellipse(cx, cy, rx, ry), color, options);
+}
+
+// ─── Scan conversion ─────────────────────────────────────────────────
+
+/**
+ * Scan-convert closed polylines and blend the coverage into the buffer.
+ * Work is limited to the shape's bounding box clipped to the buffer, and
+ * done in horizontal bands so the accumulation buffer stays small.
+ */
+function fillPolylines(
+  buffer: ColorBuffer,
+  polylines: Polyline[],
+  color: RGBA,
+  fillRule: FillRule,
+  blendMode: BlendMode
+): void {
+  // Fail early on unknown modes, even when nothing would be drawn
+  resolveBlendFn(blendMode);
+  if (fillRule !== 'nonzero' && fillRule !== 'evenodd') {
+    throw new Error(`Unknown fill rule: "${fillRule}". Available: nonzero, evenodd`);
+  }
+
+  const [r, g, b, a] = color;
+  if (a === 0) return;
+
+  // Bounding box of all points
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const line of polylines) {
+    const pts = line.points;
+    for (let i = 0; i + 1 < pts.length; i += 2) {
+      const x = pts[i]!;
+      const y = pts[i + 1]!;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (!(minX <= maxX && minY <= maxY)) return;
+
+  const x0 = Math.max(0, Math.floor(minX));
+  const y0 = Math.max(0, Math.floor(minY));
+  const x1 = Math.min(buffer.width, Math.ceil(maxX));
+  const y1 = Math.min(buffer.height, Math.ceil(maxY));
+  const bw = x1 - x0;
+  const bh = y1 - y0;
+  if (bw <= 0 || bh <= 0) return;
+
+  const edges = collectEdges(polylines, x0, y0, bw);
+  if (edges.length === 0) return;
+
+  // One spare cell per row: edges on the right boundary write just past it
+  const stride = bw + 2;
+  const bandRows = Math.max(1, Math.min(bh, Math.floor(BAND_CELLS / stride)));
+  const acc = new Float64Array(stride * bandRows);
+  const row = new Float64Array(bw * 4);
+  const evenOdd = fillRule === 'evenodd';
+
+  for (let bandY = 0; bandY < bh; bandY += bandRows) {
+    const rows = Math.min(bandRows, bh - bandY);
+    acc.fill(0);
+
+    for (let e = 0; e < edges.length; e += 4) {
+      accumulateEdge(
+        acc, stride, bandY, rows,
+        edges[e]!, edges[e + 1]!, edges[e + 2]!, edges[e + 3]!
+      );
+    }
+
+    for (let y = 0; y < rows; y++) {
+      const base = y * stride;
+      let sum = 0;
+      let any = false;
+      for (let x = 0; x < bw; x++) {
+        sum += acc[base + x]!;
+        let cov = Math.abs(sum);
+        if (evenOdd) {
+          cov %= 2;
+          if (cov > 1) cov = 2 - cov;
+        } else if (cov > 1) {
+          cov = 1;
+        }
+        // Drop float noise from the running sum
+        if (cov < 1e-9) cov = 0;
+
+        const i = x * 4;
+        row[i] = r;
+        row[i + 1] = g;
+        row[i + 2] = b;
+        row[i + 3] = a * cov;
+        if (cov !== 0) any = true;
+      }
+      if (any) buffer.blendRowUnchecked(y0 + bandY + y, x0, bw, row, blendMode);
+    }
+  }
+}
+
+/**
+ * Flatten polylines into edges (x0, y0, x1, y1) in bounding-box-local
+ * coordinates, clipped horizontally to [0, bw]. Parts left of the box are
+ * clamped onto x = 0 (they still cover everything to their right), parts
+ * right of it onto x = bw (they cover nothing visible).
+ */
+function collectEdges(polylines: Polyline[], ox: number, oy: number, bw: number): number[] {
+  const edges: number[] = [];
+
+  const pushClamped = (ax: number, ay: number, bx: number, by: number): void => {
+    if (ay === by) return;
+    ax = ax < 0 ? 0 : ax > bw ? bw : ax;
+    bx = bx < 0 ? 0 : bx > bw ? bw : bx;
+    edges.push(ax, ay, bx, by);
+  };
+
+  const pushEdge = (ax: number, ay: number, bx: number, by: number): void => {
+    if (ay === by) return;
+    // Split at the clip boundaries so each piece is either inside or fully clamped
+    const cuts: number[] = [];
+    for (const bound of [0, bw]) {
+      if ((ax < bound && bx > bound) || (ax > bound && bx < bound)) {
+        cuts.push((bound - ax) / (bx - ax));
+      }
+    }
+    if (cuts.length === 0) {
+      pushClamped(ax, ay, bx, by);
+      return;
+    }
+    cuts.sort((p, q) => p - q);
+    let px = ax;
+    let py = ay;
+    for (const t of cuts) {
+      const cx = ax + (bx - ax) * t;
+      const cy = ay + (by - ay) * t;
+      pushClamped(px, py, cx, cy);
+      px = cx;
+      py = cy;
+    }
+    pushClamped(px, py, bx, by);
+  };
+
+  for (const line of polylines) {
+    const pts = line.points;
+    const n = pts.length >> 1;
+    if (n < 2) continue;
+    // Every subpath is closed for filling
+    for (let i = 0; i < n; i++) {
+      const j = (i + 1) % n;
+      pushEdge(
+        pts[i * 2]! - ox, pts[i * 2 + 1]! - oy,
+        pts[j * 2]! - ox, pts[j * 2 + 1]! - oy
+      );
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Deposit the signed area of one edge into the accumulation buffer for
+ * rows [bandY, bandY + rows). Downward edges add, upward edges subtract.
+ */
+function accumulateEdge(
+  acc: Float64Array,
+  stride: number,
+  bandY: number,
+  rows: number,
+  ax: number, ay: number, bx: number, by: number
+): void {
+  let dir = 1;
+  if (ay > by) {
+    dir = -1;
+    let t = ax; ax = bx; bx = t;
+    t = ay; ay = by; by = t;
+  }
+
+  const top = bandY;
+  const bottom = bandY + rows;
+  if (by <= top || ay >= bottom) return;
+
+  const dxdy = (bx - ax) / (by - ay);
+  let x = ax;
+  if (ay < top) x += (top - ay) * dxdy;
+
+  const yStart = Math.max(top, Math.floor(ay));
+  const yEnd = Math.min(bottom, Math.ceil(by));
+
+  for (let y = yStart; y < yEnd; y++) {
+    const line = (y - bandY) * stride;
+    const dy = Math.min(y + 1, by) - Math.max(y, ay);
+    const xNext = x + dxdy * dy;
+    const d = dy * dir;
+
+    const left = x < xNext ? x : xNext;
+    const right = x < xNext ? xNext : x;
+    const leftFloor = Math.floor(left);
+    const li = leftFloor;
+    const ri = Math.ceil(right);
+
+    if (ri <= li + 1) {
+      // Edge stays within one pixel column in this row
+      const xm = 0.5 * (x + xNext) - leftFloor;
+      acc[line + li] = acc[line + li]! + d - d * xm;
+      acc[line + li + 1] = acc[line + li + 1]! + d * xm;
+    } else {
+      // Edge crosses several columns: trapezoid areas per column
+      const s = 1 / (right - left);
+      const lf = left - leftFloor;
+      const a0 = 0.5 * s * (1 - lf) * (1 - lf);
+      const rf = right - ri + 1;
+      const am = 0.5 * s * rf * rf;
+      acc[line + li] = acc[line + li]! + d * a0;
+      if (ri === li + 2) {
+        acc[line + li + 1] = acc[line + li + 1]! + d * (1 - a0 - am);
+      } else {
+        const a1 = s * (1.5 - lf);
+        acc[line + li + 1] = acc[line + li + 1]! + d * (a1 - a0);
+        for (let xi = li + 2; xi < ri - 1; xi++) {
+          acc[line + xi] = acc[line + xi]! + d * s;
+        }
+        const a2 = a1 + (ri - li - 3) * s;
+        acc[line + ri - 1] = acc[line + ri - 1]! + d * (1 - a2 - am);
+      }
+      acc[line + ri] = acc[line + ri]! + d * am;
+    }
+
+    x = xNext;
+  }
+}
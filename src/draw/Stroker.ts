@@ -0,0 +1,313 @@
+/**
+ * Stroker — Converts polylines into fillable stroke geometry
+ *
+ * Each stroke is emitted as a set of closed polygons, all wound the same
+ * way, and filled with the non-zero rule:
+ *   - one body per segment, ending at the inner corner of each join
+ *   - a join piece on the outer side of every corner (miter, bevel or round wedge)
+ *   - a cap piece at each open end (square box or round half-disc)
+ *
+ * The rasterizer sums signed area, so overlapping pieces would over-cover
+ * anti-aliased edge pixels. Pieces therefore meet edge-to-edge wherever the
+ * geometry allows; only very sharp turns fall back to overlapping bodies.
+ */
+
+import { arcSegments, type Polyline } from './Path.js';
+
+export type LineCap = 'butt' | 'round' | 'square';
+export type LineJoin = 'miter' | 'round' | 'bevel';
+
+export interface StrokeGeometryOptions {
+  /** Stroke width in pixels. */
+  width: number;
+  cap: LineCap;
+  join: LineJoin;
+  /** Miter length / width ratio above which miters fall back to bevel. */
+  miterLimit: number;
+  /** Flattening tolerance for round joins and caps (px). */
+  tolerance: number;
+}
+
+/** Points closer than this are treated as coincident. */
+const EPSILON = 1e-9;
+
+/**
+ * Build stroke polygons for a set of polylines.
+ * Returns closed polygons as flat x/y arrays.
+ */
+export function strokePolylines(lines: Polyline[], options: StrokeGeometryOptions): number[][] {
+  const out: number[][] = [];
+  const hw = options.width / 2;
+  if (!(hw > 0)) return out;
+
+  for (const line of lines) {
+    const pts = dedupe(line.points, line.closed);
+    const count = pts.length / 2;
+    if (count === 0) continue;
+
+    if (count === 1) {
+      // Zero-length subpath: only caps make it visible
+      strokeDot(out, pts[0]!, pts[1]!, hw, options);
+      continue;
+    }
+
+    // Inner corner of each join, shared by the two segments meeting there
+    const cuts: (InnerCut | null)[] = new Array(count).fill(null);
+    const firstJoin = line.closed ? 0 : 1;
+    const lastJoin = line.closed ? count - 1 : count - 2;
+    for (let v = firstJoin; v <= lastJoin; v++) {
+      const p = ((v - 1 + count) % count) * 2;
+      const c = v * 2;
+      const n = ((v + 1) % count) * 2;
+      cuts[v] = innerCut(pts[p]!, pts[p + 1]!, pts[c]!, pts[c + 1]!, pts[n]!, pts[n + 1]!, hw);
+      pushJoin(
+        out,
+        pts[p]!, pts[p + 1]!, pts[c]!, pts[c + 1]!, pts[n]!, pts[n + 1]!,
+        hw, options
+      );
+    }
+
+    const segments = line.closed ? count : count - 1;
+    for (let s = 0; s < segments; s++) {
+      const i = s * 2;
+      const next = (s + 1) % count;
+      const j = next * 2;
+      pushSegment(out, pts[i]!, pts[i + 1]!, pts[j]!, pts[j + 1]!, hw, cuts[s]!, cuts[next]!);
+    }
+
+    if (!line.closed && options.cap !== 'butt') {
+      const last = (count - 1) * 2;
+      pushCap(out, pts[0]!, pts[1]!, pts[2]!, pts[3]!, hw, options);
+      pushCap(out, pts[last]!, pts[last + 1]!, pts[last - 2]!, pts[last - 1]!, hw, options);
+    }
+  }
+
+  return out;
+}
+
+/** Remove consecutive duplicate points (and a closing duplicate for closed lines). */
+function dedupe(points: number[], closed: boolean): number[] {
+  const out: number[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const x = points[i]!;
+    const y = points[i + 1]!;
+    const n = out.length;
+    if (n >= 2 && Math.abs(out[n - 2]! - x) < EPSILON && Math.abs(out[n - 1]! - y) < EPSILON) continue;
+    out.push(x, y);
+  }
+  if (closed && out.length > 2 &&
+      Math.abs(out[0]! - out[out.length - 2]!) < EPSILON &&
+      Math.abs(out[1]! - out[out.length - 1]!) < EPSILON) {
+    out.length -= 2;
+  }
+  return out;
+}
+
+/** Append a polygon, reversing it if needed so every piece winds the same way. */
+function pushPolygon(out: number[][], poly: number[]): void {
+  let area = 0;
+  const n = poly.length;
+  for (let i = 0; i < n; i += 2) {
+    const j = (i + 2) % n;
+    area += poly[i]! * poly[j + 1]! - poly[j]! * poly[i + 1]!;
+  }
+  if (Math.abs(area) < EPSILON) return;
+  if (area < 0) {
+    const reversed: number[] = [];
+    for (let i = n - 2; i >= 0; i -= 2) reversed.push(poly[i]!, poly[i + 1]!);
+    out.push(reversed);
+  } else {
+    out.push(poly);
+  }
+}
+
+/**
+ * Where the inner offset edges of two segments meet at a join, and on which
+ * side of the incoming segment (+1 = left normal, −1 = right) that is.
+ */
+interface InnerCut {
+  side: 1 | -1;
+  x: number;
+  y: number;
+}
+
+/**
+ * Inner corner at (cx, cy), or null when the segments should simply
+ * overlap: straight continuations, and turns so sharp that the inner offset
+ * edges meet past the middle of either segment.
+ */
+function innerCut(
+  px: number, py: number, cx: number, cy: number, nx: number, ny: number,
+  hw: number
+): InnerCut | null {
+  const len0 = Math.hypot(cx - px, cy - py);
+  const len1 = Math.hypot(nx - cx, ny - cy);
+  const d0x = (cx - px) / len0;
+  const d0y = (cy - py) / len0;
+  const d1x = (nx - cx) / len1;
+  const d1y = (ny - cy) / len1;
+
+  const cross = d0x * d1y - d0y * d1x;
+  const dot = d0x * d1x + d0y * d1y;
+  if (Math.abs(cross) < EPSILON || 1 + dot < EPSILON) return null;
+
+  // Distance from the vertex back along each segment to the inner corner: hw · tan(θ/2)
+  const setback = (hw * Math.abs(cross)) / (1 + dot);
+  if (setback > Math.min(len0, len1) / 2) return null;
+
+  const side = cross > 0 ? 1 : -1;
+  const m0x = -d0y * side;
+  const m0y = d0x * side;
+  const m1x = -d1y * side;
+  const m1y = d1x * side;
+  const k = hw / (1 + m0x * m1x + m0y * m1y);
+  return { side, x: cx + (m0x + m1x) * k, y: cy + (m0y + m1y) * k };
+}
+
+/**
+ * Segment body. Ends at a join with an inner cut run through the vertex to
+ * the shared inner corner, so neighbouring segments tile without overlap.
+ */
+function pushSegment(
+  out: number[][],
+  x0: number, y0: number, x1: number, y1: number,
+  hw: number, startCut: InnerCut | null, endCut: InnerCut | null
+): void {
+  const len = Math.hypot(x1 - x0, y1 - y0);
+  const nx = (-(y1 - y0) / len) * hw;
+  const ny = ((x1 - x0) / len) * hw;
+
+  // Walk +n side forward, then −n side back
+  const poly: number[] = [];
+  if (endCut?.side === 1) {
+    poly.push(endCut.x, endCut.y, x1, y1, x1 - nx, y1 - ny);
+  } else if (endCut) {
+    poly.push(x1 + nx, y1 + ny, x1, y1, endCut.x, endCut.y);
+  } else {
+    poly.push(x1 + nx, y1 + ny, x1 - nx, y1 - ny);
+  }
+  if (startCut?.side === 1) {
+    poly.push(x0 - nx, y0 - ny, x0, y0, startCut.x, startCut.y);
+  } else if (startCut) {
+    poly.push(startCut.x, startCut.y, x0, y0, x0 + nx, y0 + ny);
+  } else {
+    poly.push(x0 - nx, y0 - ny, x0 + nx, y0 + ny);
+  }
+  pushPolygon(out, poly);
+}
+
+function pushJoin(
+  out: number[][],
+  px: number, py: number, cx: number, cy: number, nx: number, ny: number,
+  hw: number, options: StrokeGeometryOptions
+): void {
+  // Unit directions of the incoming and outgoing segments
+  let d0x = cx - px;
+  let d0y = cy - py;
+  let len = Math.hypot(d0x, d0y);
+  d0x /= len;
+  d0y /= len;
+  let d1x = nx - cx;
+  let d1y = ny - cy;
+  len = Math.hypot(d1x, d1y);
+  d1x /= len;
+  d1y /= len;
+
+  const cross = d0x * d1y - d0y * d1x;
+  const dot = d0x * d1x + d0y * d1y;
+  // Straight continuation — the quads already meet exactly
+  if (Math.abs(cross) < EPSILON && dot > 0) return;
+
+  // Normals pointing to the outer side of the turn
+  const side = cross > 0 ? -1 : 1;
+  const n0x = -d0y * side;
+  const n0y = d0x * side;
+  const n1x = -d1y * side;
+  const n1y = d1x * side;
+
+  const ax = cx + n0x * hw;
+  const ay = cy + n0y * hw;
+  const bx = cx + n1x * hw;
+  const by = cy + n1y * hw;
+
+  if (options.join === 'round') {
+    pushWedge(out, cx, cy, hw, Math.atan2(n0y, n0x), Math.atan2(n1y, n1x), options.tolerance);
+    return;
+  }
+
+  if (options.join === 'miter') {
+    const nDot = n0x * n1x + n0y * n1y;
+    // Miter ratio = 1 / cos(θ/2) = 2 / |n0 + n1|
+    const sumLen = Math.hypot(n0x + n1x, n0y + n1y);
+    if (sumLen > EPSILON && 2 / sumLen <= options.miterLimit) {
+      const k = hw / (1 + nDot);
+      pushPolygon(out, [cx, cy, ax, ay, cx + (n0x + n1x) * k, cy + (n0y + n1y) * k, bx, by]);
+      return;
+    }
+  }
+
+  // Bevel (also the miter-limit fallback)
+  pushPolygon(out, [cx, cy, ax, ay, bx, by]);
+}
+
+/**
+ * Cap at the end (x, y) of a line whose neighbouring point is (ox, oy).
+ */
+function pushCap(
+  out: number[][],
+  x: number, y: number, ox: number, oy: number,
+  hw: number, options: StrokeGeometryOptions
+): void {
+  const len = Math.hypot(x - ox, y - oy);
+  const dx = (x - ox) / len;
+  const dy = (y - oy) / len;
+  const nx = -dy * hw;
+  const ny = dx * hw;
+
+  if (options.cap === 'square') {
+    const ex = dx * hw;
+    const ey = dy * hw;
+    pushPolygon(out, [x + nx, y + ny, x + nx + ex, y + ny + ey, x - nx + ex, y - ny + ey, x - nx, y - ny]);
+  } else if (options.cap === 'round') {
+    // Half-disc from +n to −n, sweeping through the outward direction
+    const a = Math.atan2(ny, nx);
+    pushWedge(out, x, y, hw, a, a - Math.PI, options.tolerance);
+  }
+}
+
+/** Dot for zero-length subpaths: round → disc, square → box, butt → nothing. */
+function strokeDot(out: number[][], x: number, y: number, hw: number, options: StrokeGeometryOptions): void {
+  if (options.cap === 'round') {
+    const n = arcSegments(hw, Math.PI * 2, options.tolerance);
+    const poly: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const t = (i / n) * Math.PI * 2;
+      poly.push(x + Math.cos(t) * hw, y + Math.sin(t) * hw);
+    }
+    pushPolygon(out, poly);
+  } else if (options.cap === 'square') {
+    pushPolygon(out, [x - hw, y - hw, x + hw, y - hw, x + hw, y + hw, x - hw, y + hw]);
+  }
+}
+
+/**
+ * Pie wedge around (cx, cy) from angle a0 to a1, taking the short way round.
+ * A sweep of exactly −π (half-disc caps) is kept as-is.
+ */
+function pushWedge(
+  out: number[][],
+  cx: number, cy: number, r: number, a0: number, a1: number,
+  tolerance: number
+): void {
+  let sweep = a1 - a0;
+  while (sweep > Math.PI) sweep -= Math.PI * 2;
+  while (sweep < -Math.PI) sweep += Math.PI * 2;
+
+  const n = arcSegments(r, sweep, tolerance);
+  const poly: number[] = [cx, cy];
+  for (let i = 0; i <= n; i++) {
+    const t = a0 + (sweep * i) / n;
+    poly.push(cx + Math.cos(t) * r, cy + Math.sin(t) * r);
+  }
+  pushPolygon(out, poly);
+}
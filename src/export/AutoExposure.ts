@@ -0,0 +1,158 @@
+/**
+ * AutoExposure — Pick an exposure from buffer statistics
+ *
+ * Measures a key luminance of the image and returns the exposure (in
+ * stops) that maps it to middle grey:
+ *
+ *   exposure = log2(middleGrey / key)
+ *
+ * The key is either the log-average luminance (Reinhard's scene key,
+ * robust to a few very bright pixels) or a luminance percentile (the
+ * median by default; e.g. the 99th to place the highlights).
+ *
+ * Pass the result as `exposure` to the preview and to every export, so
+ * what you see is what you print:
+ *
+ *   const exposure = computeAutoExposure(canvas.layers);
+ *   preview.setExposure(exposure);
+ *   await canvas.export({ exposure });
+ */
+
+import { luminanceWeights } from '../core/ColorSpace.js';
+import type { IColorBuffer } from '../core/ColorBuffer.js';
+import { LogHistogram } from '../core/Stats.js';
+import type { ICompositeSource } from '../core/LayerStack.js';
+
+// ─── Options ─────────────────────────────────────────────────────────
+
+/**
+ * How the key luminance is measured:
+ *   log-average — exp(mean(ln(L))), the geometric mean
+ *   percentile  — the luminance below which `percentile` % of pixels fall
+ */
+export const AUTO_EXPOSURE_METHODS = ['log-average', 'percentile'] as const;
+
+export type AutoExposureMethod = (typeof AUTO_EXPOSURE_METHODS)[number];
+
+export interface AutoExposureOptions {
+  /** How the key luminance is measured. Default: 'log-average'. */
+  method?: AutoExposureMethod;
+  /** Linear value the key luminance is mapped to. Default: 0.18. */
+  middleGrey?: number;
+  /** Percentile (0–100) used by the 'percentile' method. Default: 50. */
+  percentile?: number;
+  /**
+   * Weight pixels by alpha, so transparent areas don't pull the exposure
+   * up. Default: true.
+   */
+  ignoreTransparent?: boolean;
+  /** Lower and upper limit of the result, in stops. Default: [-16, 16]. */
+  range?: readonly [min: number, max: number];
+}
+
+// Smallest luminance taken into account — black pixels count as this
+const MIN_LUMINANCE = 1e-6;
+
+// Log-luminance histogram for percentiles: 1/32-stop bins over ±32 stops
+const HISTOGRAM_MIN_EV = -32;
+const HISTOGRAM_MAX_EV = 32;
+const HISTOGRAM_BINS = 64 * 32;
+
+// ─── Auto exposure ───────────────────────────────────────────────────
+
+/**
+ * The exposure (stops) that brings the image's key luminance to middle
+ * grey. Luminance uses the weights of the buffer's working space, on
+ * straight-alpha color. Returns 0 for an empty or fully transparent image.
+ */
+export function computeAutoExposure(
+  source: IColorBuffer | ICompositeSource,
+  options: AutoExposureOptions = {}
+): number {
+  const {
+    method = 'log-average',
+    middleGrey = 0.18,
+    percentile = 50,
+    ignoreTransparent = true,
+    range = [-16, 16],
+  } = options;
+
+  if (!AUTO_EXPOSURE_METHODS.includes(method)) {
+    throw new Error(`Unknown auto exposure method: "${method}". Available: ${AUTO_EXPOSURE_METHODS.join(', ')}`);
+  }
+  if (!(middleGrey > 0)) {
+    throw new RangeError(`Middle grey must be positive, got ${middleGrey}`);
+  }
+  if (!(percentile >= 0 && percentile <= 100)) {
+    throw new RangeError(`Percentile must be between 0 and 100, got ${percentile}`);
+  }
+  if (!(range[0] <= range[1])) {
+    throw new RangeError(`Exposure range must be [min, max], got [${range[0]}, ${range[1]}]`);
+  }
+
+  const buffer = 'composite' in source ? source.composite() : source;
+  const key = method === 'log-average'
+    ? logAverageLuminance(buffer, ignoreTransparent)
+    : luminancePercentile(buffer, percentile, ignoreTransparent);
+  if (key === null) return 0;
+
+  const exposure = Math.log2(middleGrey / key);
+  return Math.min(range[1], Math.max(range[0], exposure));
+}
+
+/**
+ * The exposure an export uses: `exposure` (default 0), plus the auto
+ * exposure of `buffer` when `autoExposure` is set.
+ */
+export function resolveExposure(
+  buffer: IColorBuffer,
+  options: { exposure?: number; autoExposure?: boolean | AutoExposureOptions }
+): number {
+  const { exposure = 0, autoExposure } = options;
+  if (!autoExposure) return exposure;
+  return exposure + computeAutoExposure(buffer, autoExposure === true ? {} : autoExposure);
+}
+
+/**
+ * Geometric mean of the pixel luminances, exp(Σ w·ln L / Σ w), with w
+ * the pixel's alpha (or 1). Null when no pixel has weight.
+ */
+export function logAverageLuminance(buffer: IColorBuffer, ignoreTransparent = true): number | null {
+  let sum = 0;
+  let weight = 0;
+  forEachLuminance(buffer, ignoreTransparent, (luminance, w) => {
+    sum += w * Math.log(luminance);
+    weight += w;
+  });
+  return weight > 0 ? Math.exp(sum / weight) : null;
+}
+
+/**
+ * The luminance below which `percentile` % of the (alpha-weighted)
+ * pixels fall, to 1/32 stop. Null when no pixel has weight.
+ */
+export function luminancePercentile(buffer: IColorBuffer, percentile: number, ignoreTransparent = true): number | null {
+  const histogram = new LogHistogram(HISTOGRAM_MIN_EV, HISTOGRAM_MAX_EV, HISTOGRAM_BINS);
+  forEachLuminance(buffer, ignoreTransparent, (luminance, w) => histogram.add(luminance, w));
+  return histogram.percentile(percentile);
+}
+
+/** Call `fn` with each pixel's luminance (at least MIN_LUMINANCE) and weight */
+function forEachLuminance(
+  buffer: IColorBuffer,
+  ignoreTransparent: boolean,
+  fn: (luminance: number, weight: number) => void
+): void {
+  const [wr, wg, wb] = luminanceWeights(buffer.colorSpace ?? 'linear-srgb');
+  const premultiplied = buffer.alphaMode === 'premultiplied';
+  const data = buffer.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3]!;
+    const alpha = a < 0 ? 0 : a > 1 ? 1 : a;
+    const weight = ignoreTransparent ? alpha : 1;
+    if (weight === 0) continue;
+    const inv = premultiplied ? (a === 0 ? 0 : 1 / a) : 1;
+    const luminance = (wr * data[i]! + wg * data[i + 1]! + wb * data[i + 2]!) * inv;
+    fn(luminance > MIN_LUMINANCE ? luminance : MIN_LUMINANCE, weight);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * CMYK — Separation of tone-mapped RGB into press inks
+ *
+ * Runs after tone mapping, on encoded RGB. Alpha is composited over paper
+ * white first, since presses have no alpha. Two conversion models:
+ *
+ *   - Built-in: the naive complement (C = 1 - R …) with black generation.
+ *     The grey component min(C, M, Y) is replaced by K — everywhere (GCR)
+ *     or only in near-neutral colors (UCR) — and CMY are reduced so that
+ *     (1 - C')(1 - K) = 1 - C, keeping the color the same on paper.
+ *   - LUT: a supplied RGB → CMYK grid (e.g. sampled from a press ICC
+ *     profile), trilinearly interpolated.
+ *
+ * Both finish with the total ink limit: CMY are scaled down where the sum
+ * of all four inks exceeds it, keeping K.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export const BLACK_GENERATION_MODES = ['gcr', 'ucr'] as const;
+
+export type BlackGenerationMode = (typeof BLACK_GENERATION_MODES)[number];
+
+/**
+ * RGB → CMYK lookup table: a size × size × size grid over encoded RGB in
+ * [0, 1], red varying slowest, each entry C, M, Y, K in [0, 1].
+ */
+export interface CMYKLut {
+  /** Grid points per axis (≥ 2) */
+  size: number;
+  /** size³ × 4 values */
+  data: ArrayLike<number>;
+}
+
+export interface CMYKSeparationOptions {
+  /**
+   * Black generation: 'gcr' (gray component replacement, for every color)
+   * or 'ucr' (under-color removal, neutrals only). Default: 'gcr'.
+   */
+  blackGeneration?: BlackGenerationMode;
+  /** Fraction of the gray component moved into black, 0–1. Default: 1. */
+  blackAmount?: number;
+  /** Gray level (0–1) below which no black is generated. Default: 0.1. */
+  blackStart?: number;
+  /** Maximum total ink coverage in percent, 0–400. Default: 300. */
+  totalInkLimit?: number;
+  /** Use this RGB → CMYK table instead of the built-in conversion. */
+  lut?: CMYKLut;
+}
+
+// ─── Separation ──────────────────────────────────────────────────────
+
+/**
+ * Convert tone-mapped straight-alpha RGBA to CMYK (4 samples per pixel,
+ * same bit depth as the input). Returns a new array.
+ */
+export function separateCMYK<T extends Uint8Array | Uint16Array>(rgba: T, options: CMYKSeparationOptions = {}): T {
+  const mode = options.blackGeneration ?? 'gcr';
+  const amount = options.blackAmount ?? 1;
+  const start = options.blackStart ?? 0.1;
+  const inkLimit = options.totalInkLimit ?? 300;
+  const lut = options.lut;
+
+  if (!BLACK_GENERATION_MODES.includes(mode)) {
+    throw new Error(
+      `Unknown black generation mode: "${mode}". Available: ${BLACK_GENERATION_MODES.join(', ')}`
+    );
+  }
+  if (!(amount >= 0 && amount <= 1)) {
+    throw new RangeError(`blackAmount must be in [0, 1], got ${amount}`);
+  }
+  if (!(start >= 0 && start < 1)) {
+    throw new RangeError(`blackStart must be in [0, 1), got ${start}`);
+  }
+  if (!(inkLimit >= 0 && inkLimit <= 400)) {
+    throw new RangeError(`totalInkLimit must be in [0, 400] percent, got ${inkLimit}`);
+  }
+  if (lut) validateLut(lut);
+  if (rgba.length % 4 !== 0) {
+    throw new RangeError(`RGBA data length must be a multiple of 4, got ${rgba.length}`);
+  }
+
+  const max = rgba instanceof Uint16Array ? 65535 : 255;
+  const inv = 1 / max;
+  const limit = inkLimit / 100;
+  const out = (rgba instanceof Uint16Array ? new Uint16Array(rgba.length) : new Uint8Array(rgba.length)) as T;
+  const cmyk = new Float64Array(4);
+
+  for (let i = 0; i < rgba.length; i += 4) {
+    // Composite over paper white
+    const a = rgba[i + 3]! * inv;
+    const r = rgba[i]! * inv * a + 1 - a;
+    const g = rgba[i + 1]! * inv * a + 1 - a;
+    const b = rgba[i + 2]! * inv * a + 1 - a;
+
+    if (lut) sampleLut(lut, r, g, b, cmyk);
+    else builtInSeparation(r, g, b, mode, amount, start, cmyk);
+
+    let c = cmyk[0]!;
+    let m = cmyk[1]!;
+    let y = cmyk[2]!;
+    const k = Math.min(cmyk[3]!, limit);
+    const cmy = c + m + y;
+    if (cmy + k > limit && cmy > 0) {
+      const scale = (limit - k) / cmy;
+      c *= scale;
+      m *= scale;
+      y *= scale;
+    }
+
+    out[i] = Math.round(clamp01(c) * max);
+    out[i + 1] = Math.round(clamp01(m) * max);
+    out[i + 2] = Math.round(clamp01(y) * max);
+    out[i + 3] = Math.round(clamp01(k) * max);
+  }
+  return out;
+}
+
+function builtInSeparation(
+  r: number,
+  g: number,
+  b: number,
+  mode: BlackGenerationMode,
+  amount: number,
+  start: number,
+  out: Float64Array
+): void {
+  const c = 1 - r;
+  const m = 1 - g;
+  const y = 1 - b;
+  const gray = Math.min(c, m, y);
+
+  // Linear ramp from blackStart to full gray; never above gray, so CMY stay ≥ 0
+  let k = gray <= start ? 0 : (amount * (gray - start)) / (1 - start);
+  if (mode === 'ucr') {
+    // Fade black out as the color gets more saturated
+    const chroma = Math.max(c, m, y) - gray;
+    k *= 1 - chroma;
+  }
+
+  if (k >= 1) {
+    out[0] = out[1] = out[2] = 0;
+  } else {
+    const s = 1 / (1 - k);
+    out[0] = (c - k) * s;
+    out[1] = (m - k) * s;
+    out[2] = (y - k) * s;
+  }
+  out[3] = k;
+}
+
+// ─── LUTs ────────────────────────────────────────────────────────────
+
+/**
+ * Build a CMYK LUT by sampling a conversion function on a size³ grid —
+ * e.g. from a color-management library and a press profile.
+ */
+export function createCMYKLut(
+  size: number,
+  convert: (r: number, g: number, b: number) => readonly [number, number, number, number]
+): CMYKLut {
+  if (!Number.isInteger(size) || size < 2) {
+    throw new RangeError(`CMYK LUT size must be an integer ≥ 2, got ${size}`);
+  }
+  const data = new Float32Array(size ** 3 * 4);
+  let o = 0;
+  for (let ri = 0; ri < size; ri++) {
+    for (let gi = 0; gi < size; gi++) {
+      for (let bi = 0; bi < size; bi++) {
+        const cmyk = convert(ri / (size - 1), gi / (size - 1), bi / (size - 1));
+        data.set(cmyk, o);
+        o += 4;
+      }
+    }
+  }
+  return { size, data };
+}
+
+function validateLut(lut: CMYKLut): void {
+  if (!Number.isInteger(lut.size) || lut.size < 2) {
+    throw new RangeError(`CMYK LUT size must be an integer ≥ 2, got ${lut.size}`);
+  }
+  if (lut.data.length !== lut.size ** 3 * 4) {
+    throw new RangeError(
+      `CMYK LUT of size ${lut.size} needs ${lut.size ** 3 * 4} values, got ${lut.data.length}`
+    );
+  }
+}
+
+/** Trilinear interpolation of the LUT at (r, g, b) */
+function sampleLut(lut: CMYKLut, r: number, g: number, b: number, out: Float64Array): void {
+  const { size, data } = lut;
+  const n = size - 1;
+  const fr = clamp01(r) * n;
+  const fg = clamp01(g) * n;
+  const fb = clamp01(b) * n;
+  const r0 = Math.min(Math.floor(fr), n - 1);
+  const g0 = Math.min(Math.floor(fg), n - 1);
+  const b0 = Math.min(Math.floor(fb), n - 1);
+  const tr = fr - r0;
+  const tg = fg - g0;
+  const tb = fb - b0;
+
+  out.fill(0);
+  for (let corner = 0; corner < 8; corner++) {
+    const dr = corner >> 2;
+    const dg = (corner >> 1) & 1;
+    const db = corner & 1;
+    const w = (dr ? tr : 1 - tr) * (dg ? tg : 1 - tg) * (db ? tb : 1 - tb);
+    if (w === 0) continue;
+    const base = (((r0 + dr) * size + g0 + dg) * size + b0 + db) * 4;
+    for (let c = 0; c < 4; c++) out[c] = out[c]! + data[base + c]! * w;
+  }
+}
+
+function clamp01(v: number): number {
+  return v < 0 ? 0 : v > 1 ? 1 : v;
+}
@@ -0,0 +1,364 @@
+/**
+ * EXRExporter — OpenEXR export of the raw float buffer
+ *
+ * Writes the linear HDR values as they are — no tone mapping, no clamping —
+ * so masters can be graded or re-exported later. Pure TypeScript, single-part
+ * scanline files, RGBA in half (16-bit) or full (32-bit) float.
+ *
+ * Compression: none, ZIPS (one scanline per block) or ZIP (16 scanlines
+ * per block), both zlib with the OpenEXR byte-split + delta predictor.
+ *
+ * OpenEXR stores premultiplied alpha, so straight-alpha buffers are
+ * premultiplied on write. The buffer's working color space is recorded in
+ * the `chromaticities` attribute and the DPI in `xDensity`.
+ */
+
+import { zlibSync } from 'fflate';
+import type { IColorBuffer } from '../core/ColorBuffer.js';
+import { resolveColorSpace } from '../core/ColorSpace.js';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export const EXR_PIXEL_TYPES = {
+  /** 16-bit float — 11 bits of precision, range ±65504; the usual choice */
+  half: { id: 1, bytes: 2 },
+  /** 32-bit float — lossless copy of a Float32 buffer */
+  float: { id: 2, bytes: 4 },
+} as const;
+
+export type EXRPixelType = keyof typeof EXR_PIXEL_TYPES;
+
+export const EXR_COMPRESSIONS = {
+  none: { id: 0, linesPerBlock: 1 },
+  /** zlib, one scanline per block */
+  zips: { id: 2, linesPerBlock: 1 },
+  /** zlib, 16 scanlines per block — smaller files */
+  zip: { id: 3, linesPerBlock: 16 },
+} as const;
+
+export type EXRCompression = keyof typeof EXR_COMPRESSIONS;
+
+export interface EXRExportOptions {
+  /** DPI, stored in the xDensity attribute. */
+  dpi: number;
+  /** Channel pixel type. Default: 'half'. */
+  pixelType?: EXRPixelType;
+  /** Compression. Default: 'zip'. */
+  compression?: EXRCompression;
+}
+
+export interface EXRExportResult {
+  /** Raw EXR file bytes. */
+  data: Uint8Array;
+  /** MIME type. */
+  mimeType: 'image/x-exr';
+  /** Suggested filename. */
+  filename: string;
+}
+
+export function resolveEXRPixelType(type: EXRPixelType): (typeof EXR_PIXEL_TYPES)[EXRPixelType] {
+  const def = EXR_PIXEL_TYPES[type];
+  if (!def) {
+    throw new Error(
+      `Unknown EXR pixel type: "${type}". Available: ${Object.keys(EXR_PIXEL_TYPES).join(', ')}`
+    );
+  }
+  return def;
+}
+
+export function resolveEXRCompression(compression: EXRCompression): (typeof EXR_COMPRESSIONS)[EXRCompression] {
+  const def = EXR_COMPRESSIONS[compression];
+  if (!def) {
+    throw new Error(
+      `Unknown EXR compression: "${compression}". Available: ${Object.keys(EXR_COMPRESSIONS).join(', ')}`
+    );
+  }
+  return def;
+}
+
+// ─── Half floats ─────────────────────────────────────────────────────
+
+const f32 = new Float32Array(1);
+const u32 = new Uint32Array(f32.buffer);
+
+/**
+ * IEEE 754 binary16 bits of a number, rounded to nearest even.
+ * Overflow becomes ±Infinity; NaN stays NaN.
+ */
+export function toHalf(v: number): number {
+  f32[0] = v;
+  const x = u32[0]!;
+  const sign = (x >>> 16) & 0x8000;
+  const exp = (x >>> 23) & 0xff;
+  let mant = x & 0x7fffff;
+
+  if (exp === 0xff) return sign | 0x7c00 | (mant ? 0x200 : 0);
+  const e = exp - 127 + 15;
+  if (e >= 0x1f) return sign | 0x7c00;
+
+  if (e <= 0) {
+    // Subnormal half (or zero)
+    if (e < -10) return sign;
+    mant |= 0x800000;
+    const shift = 14 - e;
+    let half = mant >>> shift;
+    const rem = mant & ((1 << shift) - 1);
+    const mid = 1 << (shift - 1);
+    if (rem > mid || (rem === mid && half & 1)) half++;
+    return sign | half;
+  }
+
+  // A rounding carry may ripple into the exponent — up to Infinity, as it should
+  let half = (e << 10) | (mant >>> 13);
+  const rem = mant & 0x1fff;
+  if (rem > 0x1000 || (rem === 0x1000 && half & 1)) half++;
+  return sign | half;
+}
+
+/** Number value of IEEE 754 binary16 bits */
+export function fromHalf(h: number): number {
+  const sign = h & 0x8000 ? -1 : 1;
+  const exp = (h >>> 10) & 0x1f;
+  const mant = h & 0x3ff;
+  if (exp === 0) return sign * mant * 2 ** -24;
+  if (exp === 0x1f) return mant ? NaN : sign * Infinity;
+  return sign * (1 + mant / 1024) * 2 ** (exp - 15);
+}
+
+// ─── EXRExporter class ───────────────────────────────────────────────
+
+/** Channels in the order OpenEXR stores them (alphabetical) */
+const CHANNELS = [
+  { name: 'A', offset: 3 },
+  { name: 'B', offset: 2 },
+  { name: 'G', offset: 1 },
+  { name: 'R', offset: 0 },
+] as const;
+
+export class EXRExporter {
+  /**
+   * Encode a float buffer as an OpenEXR file.
+   *
+   * @param buffer - Linear HDR pixels; straight alpha is premultiplied on write
+   * @param options - DPI, pixel type and compression
+   */
+  export(buffer: IColorBuffer, options: EXRExportOptions): EXRExportResult {
+    const steps = this.exportSteps(buffer, options);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  }
+
+  /**
+   * export() one block of scanlines at a time: yields the fraction of rows
+   * encoded (0–1) after each block.
+   */
+  *exportSteps(buffer: IColorBuffer, options: EXRExportOptions): Generator<number, EXRExportResult> {
+    const { width, height } = buffer;
+    const { dpi } = options;
+    const pixelType = resolveEXRPixelType(options.pixelType ?? 'half');
+    const compression = resolveEXRCompression(options.compression ?? 'zip');
+
+    if (width <= 0 || height <= 0) {
+      throw new Error(`Invalid dimensions: ${width}x${height}`);
+    }
+    if (dpi <= 0) {
+      throw new Error(`DPI must be positive, got: ${dpi}`);
+    }
+
+    const header = writeHeader(buffer, dpi, pixelType.id, compression.id);
+    const { linesPerBlock } = compression;
+    const blockCount = Math.ceil(height / linesPerBlock);
+    const lineBytes = width * 4 * pixelType.bytes;
+    const straight = (buffer.alphaMode ?? 'straight') === 'straight';
+
+    const blocks: Uint8Array[] = [];
+    const raw = new Uint8Array(lineBytes * linesPerBlock);
+    const view = new DataView(raw.buffer);
+    for (let b = 0; b < blockCount; b++) {
+      const y0 = b * linesPerBlock;
+      const lines = Math.min(linesPerBlock, height - y0);
+      for (let l = 0; l < lines; l++) {
+        writeScanline(buffer, y0 + l, view, l * lineBytes, pixelType.bytes, straight);
+      }
+      const data = raw.subarray(0, lines * lineBytes);
+      const packed = compression.id === 0 ? data.slice() : zipCompress(data);
+
+      const block = new Uint8Array(8 + packed.length);
+      const bview = new DataView(block.buffer);
+      bview.setInt32(0, y0, true);
+      bview.setInt32(4, packed.length, true);
+      block.set(packed, 8);
+      blocks.push(block);
+      yield (y0 + lines) / height;
+    }
+
+    // Offset table: absolute file position of every block
+    const tableStart = header.length;
+    const out = new Uint8Array(tableStart + blockCount * 8 + blocks.reduce((n, b) => n + b.length, 0));
+    const oview = new DataView(out.buffer);
+    out.set(header, 0);
+    let offset = tableStart + blockCount * 8;
+    blocks.forEach((block, i) => {
+      oview.setBigUint64(tableStart + i * 8, BigInt(offset), true);
+      out.set(block, offset);
+      offset += block.length;
+    });
+
+    return {
+      data: out,
+      mimeType: 'image/x-exr',
+      filename: `artwork-${width}x${height}-${dpi}dpi.exr`,
+    };
+  }
+
+  /**
+   * Export and return as a Blob (browser convenience).
+   */
+  exportBlob(buffer: IColorBuffer, options: EXRExportOptions): Blob {
+    const result = this.export(buffer, options);
+    return new Blob([result.data.buffer as ArrayBuffer], { type: result.mimeType });
+  }
+}
+
+// ─── Encoding ────────────────────────────────────────────────────────
+
+/** One scanline, channel-planar: all A values, then B, G, R. */
+function writeScanline(
+  buffer: IColorBuffer,
+  y: number,
+  view: DataView,
+  offset: number,
+  bytes: number,
+  premultiply: boolean
+): void {
+  const { width, data } = buffer;
+  const row = y * width * 4;
+  for (const { offset: c } of CHANNELS) {
+    for (let x = 0; x < width; x++) {
+      const i = row + x * 4;
+      const v = c !== 3 && premultiply ? data[i + c]! * data[i + 3]! : data[i + c]!;
+      if (bytes === 2) view.setUint16(offset, toHalf(v), true);
+      else view.setFloat32(offset, v, true);
+      offset += bytes;
+    }
+  }
+}
+
+/**
+ * OpenEXR ZIP: split even and odd bytes into two halves, delta-encode,
+ * then zlib. If that does not shrink the block, the raw bytes are stored —
+ * readers detect this from the size.
+ */
+function zipCompress(data: Uint8Array): Uint8Array {
+  const n = data.length;
+  const tmp = new Uint8Array(n);
+  const half = (n + 1) >> 1;
+  for (let i = 0, a = 0, b = half; i < n; i += 2) {
+    tmp[a++] = data[i]!;
+    if (i + 1 < n) tmp[b++] = data[i + 1]!;
+  }
+  let prev = tmp[0]!;
+  for (let i = 1; i < n; i++) {
+    const cur = tmp[i]!;
+    tmp[i] = (cur - prev + 128 + 256) & 0xff;
+    prev = cur;
+  }
+  const compressed = zlibSync(tmp);
+  return compressed.length < n ? compressed : data.slice();
+}
+
+// ─── Header ──────────────────────────────────────────────────────────
+
+function writeHeader(buffer: IColorBuffer, dpi: number, pixelTypeId: number, compressionId: number): Uint8Array {
+  const { width, height } = buffer;
+  const space = resolveColorSpace(buffer.colorSpace ?? 'linear-srgb');
+  const w = new ByteWriter();
+
+  w.u32(20000630); // magic
+  w.u32(2); // version 2, single-part scanline
+
+  // Attributes, alphabetical like OpenEXR's own writer
+  w.attribute('channels', 'chlist', a => {
+    for (const { name } of CHANNELS) {
+      a.str(name);
+      a.i32(pixelTypeId);
+      a.u8(0); // pLinear
+      a.u8(0, 0, 0); // reserved
+      a.i32(1); // x sampling
+      a.i32(1); // y sampling
+    }
+    a.u8(0);
+  });
+  w.attribute('chromaticities', 'chromaticities', a => {
+    const { red, green, blue } = space.primaries;
+    for (const c of [red, green, blue, space.white]) a.f32(c.x, c.y);
+  });
+  w.attribute('compression', 'compression', a => a.u8(compressionId));
+  w.attribute('dataWindow', 'box2i', a => a.i32(0, 0, width - 1, height - 1));
+  w.attribute('displayWindow', 'box2i', a => a.i32(0, 0, width - 1, height - 1));
+  w.attribute('lineOrder', 'lineOrder', a => a.u8(0)); // increasing Y
+  w.attribute('pixelAspectRatio', 'float', a => a.f32(1));
+  w.attribute('screenWindowCenter', 'v2f', a => a.f32(0, 0));
+  w.attribute('screenWindowWidth', 'float', a => a.f32(1));
+  w.attribute('xDensity', 'float', a => a.f32(dpi));
+  w.u8(0); // end of header
+
+  return w.bytes();
+}
+
+/** Little-endian byte writer for the header */
+class ByteWriter {
+  private readonly parts: number[] = [];
+  private readonly scratch = new DataView(new ArrayBuffer(4));
+
+  u8(...values: number[]): void {
+    for (const v of values) this.parts.push(v & 0xff);
+  }
+
+  u32(...values: number[]): void {
+    for (const v of values) {
+      this.scratch.setUint32(0, v, true);
+      this.pushScratch();
+    }
+  }
+
+  i32(...values: number[]): void {
+    for (const v of values) {
+      this.scratch.setInt32(0, v, true);
+      this.pushScratch();
+    }
+  }
+
+  f32(...values: number[]): void {
+    for (const v of values) {
+      this.scratch.setFloat32(0, v, true);
+      this.pushScratch();
+    }
+  }
+
+  /** Null-terminated ASCII string */
+  str(s: string): void {
+    for (let i = 0; i < s.length; i++) this.parts.push(s.charCodeAt(i));
+    this.parts.push(0);
+  }
+
+  /** name, type, size, value — the value is written by `body` */
+  attribute(name: string, type: string, body: (w: ByteWriter) => void): void {
+    const value = new ByteWriter();
+    body(value);
+    const bytes = value.bytes();
+    this.str(name);
+    this.str(type);
+    this.i32(bytes.length);
+    for (const b of bytes) this.parts.push(b);
+  }
+
+  bytes(): Uint8Array {
+    return Uint8Array.from(this.parts);
+  }
+
+  private pushScratch(): void {
+    for (let i = 0; i < 4; i++) this.parts.push(this.scratch.getUint8(i));
+  }
+}
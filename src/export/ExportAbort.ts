@@ -0,0 +1,22 @@
+/**
+ * ExportAbort — Stopping an export through an AbortSignal
+ *
+ * Shared by the export pipeline, the worker pool and the PNG stream,
+ * which each check the signal between units of work.
+ */
+
+/**
+ * Thrown (or rejected with) when an export is stopped through its
+ * AbortSignal. `cause` holds the signal's reason.
+ */
+export class ExportAbortedError extends Error {
+  override readonly name = 'AbortError';
+
+  constructor(reason?: unknown) {
+    super('Export aborted', { cause: reason });
+  }
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new ExportAbortedError(signal.reason);
+}
@@ -1,5 +1,5 @@
 /**
- * ExportPipeline — Wires ToneMapper + PNGExporter into HDCanvas.export()
+ * ExportPipeline — Wires ToneMapper + the encoders into HDCanvas.export()
  *
  * This is the integration layer. It creates the export function that
  * HDCanvas.setExportFn() expects, connecting the float buffer to the
@@ -16,32 +16,150 @@
  *   const blob = await canvas.export({ toneMap: 'aces', exposure: 1.2 });
  */
 
-import { ToneMapper, type ToneMapAlgorithm } from './ToneMapper.js';
-import { PNGExporter } from './PNGExporter.js';
+import {
+  ToneMapper,
+  type ToneMapAlgorithm,
+  type ToneMapSettings,
+  type ToneMapMode,
+  type DitherMethod,
+  type OutputDepth,
+} from './ToneMapper.js';
+import { PNGStreamEncoder } from './PNGStream.js';
+import { EXRExporter, type EXRExportOptions } from './EXRExporter.js';
+import { HDRExporter } from './RadianceHDR.js';
+import { TIFFExporter, type TIFFCompression } from './TIFFExporter.js';
+import { workingICCProfile, type ICCProfileName } from './ICCProfile.js';
+import { separateCMYK, type CMYKSeparationOptions } from './CMYK.js';
+import { PDFExporter } from './PDFExporter.js';
+import { resolveExposure, type AutoExposureOptions } from './AutoExposure.js';
+import { throwIfAborted } from './ExportAbort.js';
+import type { PNGMetadata } from './PNGMetadata.js';
+import type { ExportWorkerPool } from './WorkerPool.js';
 import type { IColorBuffer } from '../core/ColorBuffer.js';
+import type { OutputColorSpace } from '../core/ColorSpace.js';
+import type { ICompositeSource } from '../core/LayerStack.js';
+import type { PaperDimensions } from '../core/PaperSize.js';
+import { bloomSteps, type BloomOptions } from '../filters/Bloom.js';
+
+export { ExportAbortedError, throwIfAborted } from './ExportAbort.js';
 
 // ─── Types ───────────────────────────────────────────────────────────
 
 /**
- * Export options — matches the ExportOptions interface from HDCanvas.
- * We re-declare here to avoid importing from canvas-dev's code directly,
- * keeping the export pipeline decoupled.
+ * Export options — also the options of HDCanvas.export(), which uses this
+ * type rather than a copy. Only the canvas imports it; the pipeline stays
+ * independent of the canvas.
  */
 export interface ExportOptions {
-  /** Tone mapping algorithm. Default: 'reinhard'. */
-  toneMap?: 'reinhard' | 'aces' | 'clamp';
-  /** Exposure adjustment in stops. Default: 0. */
+  /**
+   * Tone mapping algorithm, by name or with parameters
+   * ({ algorithm: 'agx', look: 'punchy' }). Default: 'reinhard'.
+   */
+  toneMap?: ToneMapAlgorithm | ToneMapSettings;
+  /**
+   * Apply the tone curve per channel, or to each pixel's luminance or
+   * max(R, G, B) and rescale RGB, keeping the hue of saturated highlights.
+   * Default: 'channel'.
+   */
+  toneMapMode?: ToneMapMode;
+  /** Roll the brightest colors off toward white, 0–1. Default: 0. */
+  highlightDesaturation?: number;
+  /**
+   * Dither the 8- or 16-bit quantization to avoid banding in smooth
+   * gradients (see DITHER_METHODS). Default: 'none'.
+   */
+  dither?: DitherMethod;
+  /** Seed of the dither pattern, for reproducible exports. Default: 0. */
+  ditherSeed?: number;
+  /**
+   * Exposure adjustment in stops. With `autoExposure` it is added to the
+   * computed exposure, as compensation. Default: 0.
+   */
   exposure?: number;
-  /** Gamma correction. Default: 2.2 (sRGB). */
+  /**
+   * Pick the exposure from the buffer's luminance (see
+   * computeAutoExposure). `true` uses the defaults. Ignored by the
+   * outputs that skip tone mapping. Default: off.
+   */
+  autoExposure?: boolean | AutoExposureOptions;
+  /**
+   * Gamma correction with a plain power curve, for untagged output. Cannot
+   * be combined with `colorSpace`, whose files are tagged with the space's
+   * own transfer curve. Default: 2.2.
+   */
   gamma?: number;
-  /** Output format. Default: 'png'. */
-  format?: 'png';
+  /**
+   * Output color space. Converts from the buffer's working space, encodes with
+   * the space's transfer curve and tags the PNG. Default: none (untagged).
+   */
+  colorSpace?: OutputColorSpace;
+  /**
+   * ICC profile to embed: a bundled name or raw ICC bytes. Default: the
+   * profile of `colorSpace` (sRGB is tagged with an sRGB chunk instead).
+   */
+  iccProfile?: ICCProfileName | Uint8Array;
+  /**
+   * Text metadata written to the PNG (or the PDF information dictionary)
+   * — e.g. Title, Author, Software, a seed or a parameter object (stored
+   * as JSON). Default: none.
+   */
+  metadata?: PNGMetadata;
+  /**
+   * Bits per channel of the PNG or TIFF. 16 removes banding in smooth
+   * gradients on large prints, at roughly twice the file size. 32 (TIFF
+   * only) writes the linear float buffer untouched. Default: 8.
+   */
+  bitDepth?: OutputDepth | 32;
+  /**
+   * Output format. Default: 'png'. 'tiff' is tone-mapped like PNG, or
+   * float with bitDepth 32. 'pdf' places the tone-mapped image on a page
+   * at its physical size. 'exr' (OpenEXR) and 'hdr' (Radiance RGBE)
+   * write the float buffer untouched (after bloom) as an HDR master; the
+   * tone mapping, color space, bit depth and metadata options do not
+   * apply to them.
+   */
+  format?: ExportFormat;
+  /** OpenEXR pixel type and compression, for format 'exr'. */
+  exr?: Omit<EXRExportOptions, 'dpi'>;
+  /**
+   * Page geometry, for format 'pdf': the trim size (default: the canvas
+   * paper size, or the image's physical size) and bleed in mm (default: 0).
+   */
+  pdf?: { pageSize?: PaperDimensions; bleedMM?: number };
+  /** TIFF strip compression, for format 'tiff'. Default: 'lzw'. */
+  tiff?: { compression?: TIFFCompression };
+  /**
+   * Separate the tone-mapped image into CMYK for press, written as a CMYK
+   * TIFF (format 'tiff', 8 or 16 bits). `iccProfile` may then only be
+   * CMYK profile bytes. Default: none (RGB).
+   */
+  cmyk?: CMYKSeparationOptions;
+  /** HDR bloom applied before tone mapping, to a copy of the buffer. Default: none. */
+  bloom?: BloomOptions;
+  /** Stops the export, which then rejects with an ExportAbortedError. */
+  signal?: AbortSignal;
 }
 
+/** File formats exportBuffer can write */
+export const EXPORT_FORMATS = ['png', 'tiff', 'pdf', 'exr', 'hdr'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Export phases, in order, as reported to the progress callback */
+export const EXPORT_PHASES = ['bloom', 'tone-map', 'encode', 'metadata', 'done'] as const;
+
+export type ExportPhase = (typeof EXPORT_PHASES)[number];
+
 /**
- * Progress callback for large exports.
+ * Progress callback for large exports: overall percent (0–100, never
+ * decreasing) and the phase now running. Bloom covers 0–20, tone mapping
+ * up to 50, encoding 50–90 and metadata 90–100; the HDR formats bloom
+ * from 0–50 and encode up to 90 (see progressSpans).
  */
-export type ExportProgressFn = (percent: number) => void;
+export type ExportProgressFn = (percent: number, phase: ExportPhase) => void;
+
+/** The [from, to] percent range of one phase */
+export type ProgressSpan = readonly [from: number, to: number];
 
 /**
  * Extended export options with progress tracking.
@@ -55,59 +173,395 @@ export interface ExportPipelineOptions extends ExportOptions {
 
 // ─── Core export function ────────────────────────────────────────────
 
+/** Rows of pixels tone-mapped or encoded between yields, about 256K pixels */
+const STRIP_PIXELS = 256 * 1024;
+
+/** How long the async export may run before yielding to the event loop */
+const YIELD_INTERVAL_MS = 16;
+
+/** An encoded file, as the parts of its Blob */
+export interface EncodedExport {
+  parts: Uint8Array[];
+  mimeType: string;
+}
+
 /**
- * Execute the full export pipeline: tone map → encode PNG → return Blob.
+ * Execute the full export pipeline: tone map → encode PNG → return Blob
+ * (or TIFF or PDF; or bloom → encode EXR/HDR/float TIFF → return Blob for
+ * the HDR formats).
  *
  * This is the pure function that does the work. It takes a ColorBuffer
- * and options, returns a Blob. No side effects, no DOM dependency.
+ * (or a layer stack, which is flattened first) and options, returns a Blob.
+ * No side effects, no DOM dependency. It runs synchronously — use
+ * exportBufferAsync to keep a UI responsive during large exports.
  */
 export function exportBuffer(
-  buffer: IColorBuffer,
+  source: IColorBuffer | ICompositeSource,
   options: ExportPipelineOptions
 ): Blob {
+  return toBlob(encodeExport(source, options));
+}
+
+/**
+ * Same as exportBuffer, but yields to the event loop between strips so
+ * the page stays responsive, and stops as soon as `options.signal` is
+ * aborted, rejecting with an ExportAbortedError. Every phase works in
+ * strips — bloom, tone mapping and the encoders of every format — except
+ * flattening a layer stack, which runs in one go so the export sees a
+ * single state of the layers.
+ */
+export async function exportBufferAsync(
+  source: IColorBuffer | ICompositeSource,
+  options: ExportPipelineOptions
+): Promise<Blob> {
+  throwIfAborted(options.signal);
+  return toBlob(await runStepsAsync(exportSteps(source, options), options.signal));
+}
+
+/** exportBuffer without the final Blob — what export workers send back. */
+export function encodeExport(
+  source: IColorBuffer | ICompositeSource,
+  options: ExportPipelineOptions
+): EncodedExport {
+  return runSteps(exportSteps(source, options), options.signal);
+}
+
+/**
+ * Encode samples that were tone-mapped with `options` exactly as
+ * exportBuffer would — the second half of the pipeline, for workers.
+ */
+export function encodeToneMapped(
+  ldrData: Uint8Array | Uint16Array,
+  width: number,
+  height: number,
+  options: ExportPipelineOptions
+): EncodedExport {
+  return runSteps(encodeSteps(ldrData, width, height, options), options.signal);
+}
+
+/**
+ * Check the format options and build the tone mapper, so bad options fail
+ * before any work. Returns null for the outputs that skip tone mapping
+ * (EXR, HDR and float TIFF).
+ */
+export function prepareExport(options: ExportOptions): ToneMapper | null {
   const {
     toneMap = 'reinhard',
+    toneMapMode,
+    highlightDesaturation,
+    dither,
+    ditherSeed,
     exposure = 0,
-    gamma = 2.2,
+    gamma,
+    colorSpace,
+    bitDepth = 8,
     format = 'png',
-    dpi,
-    onProgress,
+    cmyk,
   } = options;
 
-  if (format !== 'png') {
-    throw new Error(`Unsupported export format: "${format}". Currently supported: png`);
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(
+      `Unsupported export format: "${format}". Currently supported: ${EXPORT_FORMATS.join(', ')}`
+    );
+  }
+  if (bitDepth === 32 && format !== 'tiff') {
+    throw new Error(`32-bit float output is only supported for format 'tiff', got "${format}"`);
+  }
+  if (cmyk && (format !== 'tiff' || bitDepth === 32)) {
+    throw new Error(`CMYK output requires format 'tiff' with bitDepth 8 or 16`);
+  }
+  if (format === 'exr' || format === 'hdr' || bitDepth === 32) return null;
+  if (gamma !== undefined && colorSpace) {
+    throw new Error(`gamma cannot be combined with colorSpace "${colorSpace}", which is tagged with its own transfer curve`);
   }
 
-  // Step 1: Tone map (HDR float → 8-bit LDR)
-  onProgress?.(0);
-
-  const toneMapper = new ToneMapper({
-    algorithm: toneMap as ToneMapAlgorithm,
+  return new ToneMapper({
+    algorithm: toneMap,
+    mode: toneMapMode,
+    highlightDesaturation,
+    dither,
+    ditherSeed,
     exposure,
     gamma,
-    outputDepth: 8,
+    colorSpace,
+    outputDepth: bitDepth,
   });
+}
+
+/**
+ * Where each phase falls on the 0–100 progress bar. Tone-mapped exports:
+ * bloom 0–20 (when set), tone mapping up to 50, encoding 50–90. The HDR
+ * formats: bloom 0–50 (when set), encoding up to 90. Metadata — the
+ * header, tags, ICC profile and text written after the pixel data — takes
+ * the last 90–100.
+ */
+export function progressSpans(
+  bloom: boolean,
+  toneMapped: boolean
+): Record<'bloom' | 'tone-map' | 'encode' | 'metadata', ProgressSpan> {
+  const bloomEnd = !bloom ? 0 : toneMapped ? 20 : 50;
+  const encodeStart = toneMapped ? 50 : bloomEnd;
+  return { bloom: [0, bloomEnd], 'tone-map': [bloomEnd, 50], encode: [encodeStart, 90], metadata: [90, 100] };
+}
+
+/** Rows per strip for a buffer of this width */
+function stripRows(width: number): number {
+  return Math.max(1, Math.floor(STRIP_PIXELS / width));
+}
+
+/**
+ * The pipeline as a generator that yields between units of work (strips
+ * and phases), shared by the sync and async exports.
+ */
+function* exportSteps(
+  source: IColorBuffer | ICompositeSource,
+  options: ExportPipelineOptions
+): Generator<void, EncodedExport> {
+  const { bloom, onProgress } = options;
+  let toneMapper = prepareExport(options);
+  const spans = progressSpans(!!bloom, toneMapper !== null);
+
+  let buffer = 'composite' in source ? source.composite() : source;
+
+  // Optional bloom — on a copy, so exporting never modifies the canvas
+  if (bloom) {
+    onProgress?.(0, 'bloom');
+    yield;
+    buffer = copyBuffer(buffer);
+    yield* trackProgress(bloomSteps(buffer, bloom), 'bloom', spans.bloom, onProgress);
+  }
 
-  const ldrData = toneMapper.map(buffer);
-  onProgress?.(50);
+  // Auto exposure measures the image as it will be tone-mapped
+  if (toneMapper && options.autoExposure) {
+    onProgress?.(spans['tone-map'][0], 'tone-map');
+    yield;
+    toneMapper = prepareExport({ ...options, exposure: resolveExposure(buffer, options) });
+  }
+
+  if (!toneMapper) {
+    onProgress?.(spans.encode[0], 'encode');
+    yield;
+    const result = yield* trackEncoder(encodeHDR(buffer, options), spans.encode, onProgress);
+    onProgress?.(100, 'done');
+    return { parts: [result.data], mimeType: result.mimeType };
+  }
+
+  // Step 1: Tone map (HDR float → 8- or 16-bit LDR), strip by strip
+  const { width, height } = buffer;
+  const [from, to] = spans['tone-map'];
+  const rowsPerStrip = stripRows(width);
+  const ldrData = options.bitDepth === 16 ? new Uint16Array(width * height * 4) : new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y += rowsPerStrip) {
+    onProgress?.(from + Math.round((y / height) * (to - from)), 'tone-map');
+    yield;
+    const rows = Math.min(rowsPerStrip, height - y);
+    ldrData.set(toneMapper.mapRows(buffer, y, rows), y * width * 4);
+  }
+
+  // Step 2: Encode with DPI metadata
+  return yield* encodeSteps(ldrData, width, height, options);
+}
 
-  // Step 2: Encode PNG with DPI metadata
-  const pngExporter = new PNGExporter();
-  const result = pngExporter.export(ldrData as Uint8Array, {
+/** EXR, Radiance HDR or float TIFF of the untouched float buffer, in steps */
+function encodeHDR(
+  buffer: IColorBuffer,
+  options: ExportPipelineOptions
+): Generator<number, { data: Uint8Array; mimeType: string }> {
+  const { dpi, exr, tiff, iccProfile } = options;
+  if (options.format === 'exr') {
+    // HDR master: the float buffer as-is, no tone mapping
+    return new EXRExporter().exportSteps(buffer, { dpi, ...exr });
+  }
+  if (options.format === 'hdr') {
+    return new HDRExporter().exportSteps(buffer, { dpi });
+  }
+  // Float TIFF: the linear buffer, tagged with a profile of its working space
+  return new TIFFExporter().exportSteps(Float32Array.from(buffer.data), {
     width: buffer.width,
     height: buffer.height,
     dpi,
-    depth: 8,
+    compression: tiff?.compression,
+    alphaMode: buffer.alphaMode,
+    iccProfile: iccProfile ?? workingICCProfile(buffer.colorSpace ?? 'linear-srgb'),
   });
+}
+
+/** Encode tone-mapped samples (50–100% of the progress, metadata from 90) */
+function* encodeSteps(
+  ldrData: Uint8Array | Uint16Array,
+  width: number,
+  height: number,
+  options: ExportPipelineOptions
+): Generator<void, EncodedExport> {
+  const { colorSpace, iccProfile, metadata, format = 'png', tiff, pdf, cmyk, dpi, onProgress } = options;
+  onProgress?.(50, 'encode');
+  yield;
+
+  let encoder: Generator<number, { data: Uint8Array; mimeType: string }>;
+  if (format === 'png') {
+    // Strip by strip, so large PNGs can be interrupted too
+    const depth = ldrData instanceof Uint16Array ? 16 : 8;
+    const png = new PNGStreamEncoder({ width, height, dpi, depth, colorSpace, iccProfile, metadata });
+    const parts: Uint8Array[] = [];
+    const rowLength = width * 4;
+    const rowsPerStrip = stripRows(width);
+    for (let y = 0; y < height; y += rowsPerStrip) {
+      const rows = Math.min(rowsPerStrip, height - y);
+      parts.push(...png.writeRows(ldrData.subarray(y * rowLength, (y + rows) * rowLength)));
+      onProgress?.(50 + Math.round(((y + rows) / height) * 40), 'encode');
+      yield;
+    }
+    parts.push(...png.finish());
+    onProgress?.(90, 'metadata');
+    yield;
+    parts.unshift(png.header());
+    onProgress?.(100, 'done');
+    return { parts, mimeType: 'image/png' };
+  } else if (cmyk) {
+    // Separate into press inks, then write them
+    const inks = yield* trackProgress(separateSteps(ldrData, width, cmyk), 'encode', [50, 70], onProgress);
+    encoder = new TIFFExporter().exportSteps(inks, {
+      width,
+      height,
+      dpi,
+      compression: tiff?.compression,
+      colorModel: 'cmyk',
+      iccProfile,
+    });
+  } else if (format === 'tiff') {
+    // TIFF has no sRGB chunk, so sRGB output embeds the sRGB profile too
+    encoder = new TIFFExporter().exportSteps(ldrData, {
+      width,
+      height,
+      dpi,
+      compression: tiff?.compression,
+      iccProfile: iccProfile ?? colorSpace,
+    });
+  } else {
+    encoder = new PDFExporter().exportSteps(ldrData, {
+      width,
+      height,
+      dpi,
+      pageSize: pdf?.pageSize,
+      bleedMM: pdf?.bleedMM,
+      iccProfile: iccProfile ?? colorSpace,
+      metadata,
+    });
+  }
+
+  const result = yield* trackEncoder(encoder, [cmyk ? 70 : 50, 90], onProgress);
+  onProgress?.(100, 'done');
+  return { parts: [result.data], mimeType: result.mimeType };
+}
+
+/** CMYK separation strip by strip, yielding the fraction done */
+function* separateSteps<T extends Uint8Array | Uint16Array>(
+  rgba: T,
+  width: number,
+  options: CMYKSeparationOptions
+): Generator<number, T> {
+  const out = (rgba instanceof Uint16Array ? new Uint16Array(rgba.length) : new Uint8Array(rgba.length)) as T;
+  const stripLength = stripRows(width) * width * 4;
+  for (let i = 0; i < rgba.length; i += stripLength) {
+    const end = Math.min(rgba.length, i + stripLength);
+    out.set(separateCMYK(rgba.subarray(i, end), options), i);
+    yield end / rgba.length;
+  }
+  return out;
+}
 
-  onProgress?.(90);
+/**
+ * Pass on the steps of an encoder or filter as pipeline steps, reporting
+ * its fraction done (0–1) as a percent within `span` whenever that
+ * percent changes.
+ */
+export function* trackProgress<T>(
+  steps: Generator<number, T>,
+  phase: ExportPhase,
+  [from, to]: ProgressSpan,
+  onProgress: ExportProgressFn | undefined
+): Generator<void, T> {
+  let reported = from;
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    const percent = from + Math.round(step.value * (to - from));
+    if (percent !== reported) {
+      onProgress?.(percent, phase);
+      reported = percent;
+    }
+    yield;
+  }
+}
 
-  // Step 3: Create Blob
-  const blob = new Blob([result.data.buffer as ArrayBuffer], { type: 'image/png' });
+/**
+ * trackProgress for an encoder: its steps over the pixel data are the
+ * 'encode' phase, and the work left after the last one (fraction 1) —
+ * the header, tags, ICC profile and text — is the 'metadata' phase.
+ */
+function* trackEncoder<T>(
+  steps: Generator<number, T>,
+  [from, to]: ProgressSpan,
+  onProgress: ExportProgressFn | undefined
+): Generator<void, T> {
+  let reported = from;
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    if (step.value >= 1) {
+      onProgress?.(to, 'metadata');
+    } else {
+      const percent = from + Math.round(step.value * (to - from));
+      if (percent !== reported) {
+        onProgress?.(percent, 'encode');
+        reported = percent;
+      }
+    }
+    yield;
+  }
+}
 
-  onProgress?.(100);
+/** Run a step generator to completion, checking the signal between steps */
+function runSteps<T>(steps: Generator<unknown, T>, signal: AbortSignal | undefined): T {
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    // A progress callback may abort the signal
+    throwIfAborted(signal);
+  }
+}
 
-  return blob;
+/**
+ * runSteps for async callers: also yields to the event loop every
+ * YIELD_INTERVAL_MS, so the page stays responsive.
+ */
+export async function runStepsAsync<T>(steps: Generator<unknown, T>, signal: AbortSignal | undefined): Promise<T> {
+  let lastYield = Date.now();
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    if (Date.now() - lastYield >= YIELD_INTERVAL_MS) {
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      lastYield = Date.now();
+    }
+    throwIfAborted(signal);
+  }
+}
+
+export function toBlob({ parts, mimeType }: EncodedExport): Blob {
+  // Cast needed: Node.js types have SharedArrayBuffer in ArrayBufferLike
+  return new Blob(parts as BlobPart[], { type: mimeType });
+}
+
+export function copyBuffer(buffer: IColorBuffer): IColorBuffer {
+  return {
+    width: buffer.width,
+    height: buffer.height,
+    depth: buffer.depth,
+    data: buffer.data.slice(),
+    alphaMode: buffer.alphaMode,
+    colorSpace: buffer.colorSpace,
+  };
 }
 
 // ─── HDCanvas integration ────────────────────────────────────────────
@@ -118,7 +572,11 @@ export function exportBuffer(
  */
 export interface ExportableCanvas {
   readonly buffer: IColorBuffer;
+  /** Layer stack — when present, exports use its composite instead of `buffer`. */
+  readonly layers?: ICompositeSource;
   readonly dpi: number;
+  /** Paper size — the default PDF page size. */
+  readonly paperMM?: PaperDimensions;
   setExportFn(fn: (buffer: IColorBuffer, options: ExportOptions) => Promise<Blob>): void;
 }
 
@@ -128,22 +586,35 @@ export interface ExportableCanvas {
  * After calling this, `canvas.export()` will work:
  *   const blob = await canvas.export({ toneMap: 'aces', exposure: 1.2 });
  *
+ * Exports run through exportBufferAsync: they yield to the event loop
+ * while working and can be cancelled with `options.signal`. Pass a worker
+ * pool to run them off the main thread instead.
+ *
  * @param canvas - An HDCanvas instance (or anything matching ExportableCanvas)
  * @param onProgress - Optional progress callback for all exports
+ * @param pool - Optional ExportWorkerPool to export with
  */
 export function attachExportPipeline(
   canvas: ExportableCanvas,
-  onProgress?: ExportProgressFn
+  onProgress?: ExportProgressFn,
+  pool?: ExportWorkerPool
 ): void {
   canvas.setExportFn(async (buffer: IColorBuffer, options: ExportOptions): Promise<Blob> => {
-    return exportBuffer(buffer, {
+    const pipelineOptions = {
       ...options,
+      pdf: withPaperSize(canvas, options.pdf),
       dpi: canvas.dpi,
       onProgress,
-    });
+    };
+    return pool ? pool.export(buffer, pipelineOptions) : exportBufferAsync(buffer, pipelineOptions);
   });
 }
 
+/** PDF options with the page size defaulting to the canvas paper size */
+function withPaperSize(canvas: ExportableCanvas, pdf: ExportOptions['pdf']): ExportOptions['pdf'] {
+  return { ...pdf, pageSize: pdf?.pageSize ?? canvas.paperMM };
+}
+
 // ─── Download helper ─────────────────────────────────────────────────
 
 /**
@@ -181,9 +652,10 @@ export function generateFilename(
   width: number,
   height: number,
   dpi: number,
-  prefix: string = 'artwork'
+  prefix: string = 'artwork',
+  extension: string = 'png'
 ): string {
-  return `${prefix}-${width}x${height}-${dpi}dpi.png`;
+  return `${prefix}-${width}x${height}-${dpi}dpi.${extension}`;
 }
 
 /**
@@ -198,15 +670,18 @@ export async function exportAndDownload(
   options: ExportOptions = {},
   filename?: string
 ): Promise<void> {
-  const blob = await exportBuffer(canvas.buffer, {
+  const blob = await exportBufferAsync(canvas.layers ?? canvas.buffer, {
     ...options,
+    pdf: withPaperSize(canvas, options.pdf),
     dpi: canvas.dpi,
   });
 
   const name = filename ?? generateFilename(
     canvas.buffer.width,
     canvas.buffer.height,
-    canvas.dpi
+    canvas.dpi,
+    'artwork',
+    options.format ?? 'png'
   );
 
   downloadBlob(blob, name);
@@ -0,0 +1,40 @@
+/**
+ * ExportWorker — Worker entry point for ExportWorkerPool
+ *
+ * Runs as a module Web Worker in browsers and as a worker_threads worker
+ * in Node.js. Each message is an ExportWorkerRequest; the reply carries
+ * the same id, with its buffers transferred back.
+ *
+ * Bundlers that rewrite worker URLs can import this file as
+ * '@palmerama/hd-canvas/worker' and pass the resulting worker to the pool
+ * through `createWorker`.
+ */
+
+import { handleExportRequest, type ExportWorkerRequest, type ExportWorkerResponse } from './WorkerPool.js';
+
+interface WorkerScope {
+  postMessage(message: ExportWorkerResponse, transfer: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<ExportWorkerRequest>) => void): void;
+}
+
+const scope = globalThis as unknown as Partial<WorkerScope> & { window?: unknown };
+
+if (typeof scope.window === 'undefined' && typeof scope.postMessage === 'function' && typeof scope.addEventListener === 'function') {
+  // Web Worker
+  const worker = scope as WorkerScope;
+  worker.addEventListener('message', (event) => {
+    const { response, transfer } = handleExportRequest(event.data);
+    worker.postMessage(response, transfer);
+  });
+} else {
+  // Node.js worker_threads
+  const { parentPort } = await import('node:worker_threads');
+  if (!parentPort) {
+    throw new Error('ExportWorker must be started as a worker');
+  }
+  const port = parentPort;
+  port.on('message', (request: ExportWorkerRequest) => {
+    const { response, transfer } = handleExportRequest(request);
+    port.postMessage(response, transfer);
+  });
+}
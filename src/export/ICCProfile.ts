@@ -0,0 +1,227 @@
+/**
+ * ICCProfile — Minimal ICC v4 display profiles for the output color spaces
+ *
+ * Generates matrix/TRC RGB profiles (the kind every color-managed app
+ * understands) straight from the primaries, white point and transfer curve
+ * in ColorSpace.ts, so the bundled sRGB, Display P3, Adobe RGB and
+ * Rec.2020 profiles always agree with the pixels the exporter writes.
+ *
+ * Layout: 128-byte header, tag table, then tag data. Colorants are
+ * Bradford-adapted to the D50 profile connection space, and the
+ * adaptation is recorded in a `chad` tag, as ICC v4 requires.
+ */
+
+import {
+  chromaticAdaptationMatrix,
+  multiplyMatrix,
+  resolveOutputColorSpace,
+  resolveWorkingColorSpace,
+  rgbToXyzMatrix,
+  ADOBE_RGB_GAMMA,
+  type Chromaticity,
+  type ColorSpaceDef,
+  type Matrix3,
+  type OutputColorSpace,
+  type TransferFunctionName,
+  type WorkingColorSpace,
+} from '../core/ColorSpace.js';
+
+/** Names of the bundled profiles — one per output color space */
+export type ICCProfileName = OutputColorSpace;
+
+const PROFILE_DESCRIPTIONS: Record<ICCProfileName, string> = {
+  'srgb': 'sRGB IEC61966-2.1',
+  'display-p3': 'Display P3',
+  'rec2020': 'ITU-R BT.2020',
+  'adobe-rgb': 'Adobe RGB (1998) compatible',
+};
+
+const WORKING_PROFILE_DESCRIPTIONS: Record<WorkingColorSpace, string> = {
+  'linear-srgb': 'Linear sRGB',
+  'linear-p3': 'Linear Display P3',
+  'linear-rec2020': 'Linear Rec.2020',
+  'acescg': 'ACEScg',
+};
+
+/** ICC D50 profile connection space illuminant (XYZ) */
+const PCS_D50 = [0.9642, 1, 0.8249] as const;
+const PCS_D50_XY: Chromaticity = {
+  x: PCS_D50[0] / (PCS_D50[0] + PCS_D50[1] + PCS_D50[2]),
+  y: PCS_D50[1] / (PCS_D50[0] + PCS_D50[1] + PCS_D50[2]),
+};
+
+/**
+ * ICC parametric curve (`para`) for each transfer function, decoding
+ * direction. Type 0: Y = X^g. Type 3: Y = (aX + b)^g for X ≥ d, else cX.
+ */
+const PARAMETRIC_CURVES: Record<TransferFunctionName, { type: 0 | 3; params: number[] }> = {
+  'linear': { type: 0, params: [1] },
+  'srgb': { type: 3, params: [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045] },
+  'rec2020': {
+    type: 3,
+    params: [1 / 0.45, 1 / 1.09929682680944, 0.09929682680944 / 1.09929682680944, 1 / 4.5, 4.5 * 0.018053968510807],
+  },
+  'adobe-rgb': { type: 0, params: [ADOBE_RGB_GAMMA] },
+};
+
+const cache = new Map<ICCProfileName, Uint8Array>();
+
+/**
+ * ICC profile bytes for a bundled output color space. Profiles are built
+ * on first use and cached; callers must not modify the returned array.
+ */
+export function iccProfile(name: ICCProfileName): Uint8Array {
+  let profile = cache.get(name);
+  if (!profile) {
+    const def = resolveOutputColorSpace(name);
+    profile = buildICCProfile(def, PROFILE_DESCRIPTIONS[name]);
+    cache.set(name, profile);
+  }
+  return profile;
+}
+
+const workingCache = new Map<WorkingColorSpace, Uint8Array>();
+
+/**
+ * ICC profile for linear data in a working color space — for formats that
+ * store the float buffer itself, such as 32-bit float TIFF. Cached like
+ * `iccProfile`.
+ */
+export function workingICCProfile(space: WorkingColorSpace): Uint8Array {
+  let profile = workingCache.get(space);
+  if (!profile) {
+    const def = resolveWorkingColorSpace(space);
+    profile = buildICCProfile(def, WORKING_PROFILE_DESCRIPTIONS[space]);
+    workingCache.set(space, profile);
+  }
+  return profile;
+}
+
+/** Description stored in a bundled profile (also used as the PNG iCCP name) */
+export function iccProfileDescription(name: ICCProfileName): string {
+  resolveOutputColorSpace(name);
+  return PROFILE_DESCRIPTIONS[name];
+}
+
+/** Build an RGB display profile for any color space definition. */
+export function buildICCProfile(space: ColorSpaceDef, description: string): Uint8Array {
+  // RGB → XYZ, adapted from the space's white to the D50 PCS
+  const chad = chromaticAdaptationMatrix(space.white, PCS_D50_XY);
+  const toPcs = multiplyMatrix(chad, rgbToXyzMatrix(space.primaries, space.white));
+  const column = (c: number): number[] => [toPcs[c]!, toPcs[3 + c]!, toPcs[6 + c]!];
+  const curve = PARAMETRIC_CURVES[space.transfer];
+
+  const trc = paraType(curve.type, curve.params);
+  const tags: Array<[string, Uint8Array]> = [
+    ['desc', mlucType(description)],
+    ['cprt', mlucType('No copyright, use freely')],
+    ['wtpt', xyzType([...PCS_D50])],
+    ['chad', sf32Type(chad)],
+    ['rXYZ', xyzType(column(0))],
+    ['gXYZ', xyzType(column(1))],
+    ['bXYZ', xyzType(column(2))],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+  ];
+
+  // Lay out tag data after the table; identical data (the TRCs) is shared
+  const tableSize = 4 + tags.length * 12;
+  let offset = 128 + tableSize;
+  const placed = new Map<Uint8Array, number>();
+  const entries: Array<[string, number, number]> = [];
+  const blocks: Array<[Uint8Array, number]> = [];
+  for (const [sig, data] of tags) {
+    let at = placed.get(data);
+    if (at === undefined) {
+      at = offset;
+      placed.set(data, at);
+      blocks.push([data, at]);
+      offset = align4(offset + data.length);
+    }
+    entries.push([sig, at, data.length]);
+  }
+
+  const size = offset;
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+
+  // Header
+  view.setUint32(0, size);
+  view.setUint32(8, 0x04300000); // version 4.3
+  writeSig(out, 12, 'mntr'); // display device class
+  writeSig(out, 16, 'RGB ');
+  writeSig(out, 20, 'XYZ ');
+  // Creation date fixed, so profiles are byte-for-byte reproducible
+  [2024, 1, 1, 0, 0, 0].forEach((v, i) => view.setUint16(24 + i * 2, v));
+  writeSig(out, 36, 'acsp');
+  view.setUint32(64, 0); // rendering intent: perceptual
+  PCS_D50.forEach((v, i) => view.setInt32(68 + i * 4, s15Fixed16(v)));
+
+  // Tag table
+  view.setUint32(128, entries.length);
+  entries.forEach(([sig, at, length], i) => {
+    const o = 132 + i * 12;
+    writeSig(out, o, sig);
+    view.setUint32(o + 4, at);
+    view.setUint32(o + 8, length);
+  });
+  for (const [data, at] of blocks) out.set(data, at);
+
+  return out;
+}
+
+// ─── Tag types ───────────────────────────────────────────────────────
+
+function xyzType(xyz: number[]): Uint8Array {
+  const out = new Uint8Array(20);
+  const view = new DataView(out.buffer);
+  writeSig(out, 0, 'XYZ ');
+  xyz.forEach((v, i) => view.setInt32(8 + i * 4, s15Fixed16(v)));
+  return out;
+}
+
+function sf32Type(m: Matrix3): Uint8Array {
+  const out = new Uint8Array(8 + 9 * 4);
+  const view = new DataView(out.buffer);
+  writeSig(out, 0, 'sf32');
+  m.forEach((v, i) => view.setInt32(8 + i * 4, s15Fixed16(v)));
+  return out;
+}
+
+function paraType(type: 0 | 3, params: number[]): Uint8Array {
+  const out = new Uint8Array(12 + params.length * 4);
+  const view = new DataView(out.buffer);
+  writeSig(out, 0, 'para');
+  view.setUint16(8, type);
+  params.forEach((v, i) => view.setInt32(12 + i * 4, s15Fixed16(v)));
+  return out;
+}
+
+/** Multi-localized Unicode text with a single en-US record */
+function mlucType(text: string): Uint8Array {
+  const out = new Uint8Array(28 + text.length * 2);
+  const view = new DataView(out.buffer);
+  writeSig(out, 0, 'mluc');
+  view.setUint32(8, 1); // record count
+  view.setUint32(12, 12); // record size
+  writeSig(out, 16, 'enUS');
+  view.setUint32(20, text.length * 2);
+  view.setUint32(24, 28);
+  for (let i = 0; i < text.length; i++) view.setUint16(28 + i * 2, text.charCodeAt(i));
+  return out;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function s15Fixed16(v: number): number {
+  return Math.round(v * 65536);
+}
+
+function writeSig(out: Uint8Array, offset: number, sig: string): void {
+  for (let i = 0; i < 4; i++) out[offset + i] = sig.charCodeAt(i);
+}
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
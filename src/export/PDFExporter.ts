@@ -0,0 +1,373 @@
+/**
+ * PDFExporter — Single-page print PDF around the tone-mapped raster
+ *
+ * Print shops often ask for a PDF rather than a bare image. This writes a
+ * minimal PDF 1.5 file:
+ *   - one page whose TrimBox is the paper size, with optional bleed on
+ *     every side (MediaBox = BleedBox = trim + bleed)
+ *   - the image as a Flate-compressed 8- or 16-bit RGB XObject, drawn at
+ *     its physical size (pixels / DPI) and centred on the page
+ *   - alpha as a soft mask, omitted when the image is fully opaque
+ *   - an ICCBased color space when a profile is given, else DeviceRGB
+ *   - the document information dictionary (Title, Author, …)
+ *
+ * A canvas sized to the paper fills the trim box exactly; one sized to
+ * paper + bleed fills the bleed box.
+ */
+
+import { Zlib, zlibSync } from 'fflate';
+import { iccProfile, type ICCProfileName } from './ICCProfile.js';
+import type { PNGMetadata, PNGMetadataValue } from './PNGMetadata.js';
+import type { PaperDimensions } from '../core/PaperSize.js';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/**
+ * Document information entries. 'Title', 'Author', 'Subject', 'Keywords',
+ * 'Creator', 'CreationDate' and 'ModDate' are the standard keys; any
+ * other key is written as a custom entry. Dates become PDF dates, other
+ * values are written as text like PNG metadata (objects as JSON).
+ */
+export type PDFMetadata = PNGMetadata;
+
+export interface PDFExportOptions {
+  /** Pixel width of the image. */
+  width: number;
+  /** Pixel height of the image. */
+  height: number;
+  /** DPI — sets the physical size the image is drawn at. */
+  dpi: number;
+  /** Trim size of the page. Default: the physical size of the image. */
+  pageSize?: PaperDimensions;
+  /** Bleed added around the trim box on every side, in mm. Default: 0. */
+  bleedMM?: number;
+  /** ICC profile of the RGB samples: a bundled profile name or raw ICC bytes. Default: none (DeviceRGB). */
+  iccProfile?: ICCProfileName | Uint8Array;
+  /** Document information dictionary entries. Producer is always 'hd-canvas'. */
+  metadata?: PDFMetadata;
+}
+
+export interface PDFExportResult {
+  /** Raw PDF file bytes. */
+  data: Uint8Array;
+  /** MIME type. */
+  mimeType: 'application/pdf';
+  /** Suggested filename. */
+  filename: string;
+}
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+/** Pixels split into planes and compressed per step */
+const STRIP_PIXELS = 64 * 1024;
+
+// ─── PDFExporter class ───────────────────────────────────────────────
+
+export class PDFExporter {
+  /**
+   * Encode straight-alpha RGBA pixel data as a one-page PDF. Uint8Array
+   * samples are written as 8-bit, Uint16Array as 16-bit.
+   *
+   * @param data - Interleaved RGBA samples, width × height × 4
+   * @param options - Size, DPI, page geometry, ICC profile and metadata
+   */
+  export(data: Uint8Array | Uint16Array, options: PDFExportOptions): PDFExportResult {
+    const steps = this.exportSteps(data, options);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  }
+
+  /**
+   * export() with the image compressed one strip at a time: yields the
+   * fraction of rows compressed (0–1) after each strip.
+   */
+  *exportSteps(data: Uint8Array | Uint16Array, options: PDFExportOptions): Generator<number, PDFExportResult> {
+    const { width, height, dpi, bleedMM = 0, metadata = {} } = options;
+
+    if (width <= 0 || height <= 0) {
+      throw new Error(`Invalid dimensions: ${width}x${height}`);
+    }
+    if (dpi <= 0) {
+      throw new Error(`DPI must be positive, got: ${dpi}`);
+    }
+    const expectedLength = width * height * 4;
+    if (data.length !== expectedLength) {
+      throw new Error(
+        `Data length mismatch: expected ${expectedLength} (${width}x${height}x4), got ${data.length}`
+      );
+    }
+    if (!(bleedMM >= 0)) {
+      throw new RangeError(`Bleed must be non-negative, got ${bleedMM}mm`);
+    }
+    const page = options.pageSize ?? {
+      widthMM: (width / dpi) * MM_PER_INCH,
+      heightMM: (height / dpi) * MM_PER_INCH,
+    };
+    if (!(page.widthMM > 0 && page.heightMM > 0)) {
+      throw new RangeError(`Page size must be positive, got ${page.widthMM}×${page.heightMM}mm`);
+    }
+
+    // Geometry in points
+    const bleed = mmToPt(bleedMM);
+    const trimW = mmToPt(page.widthMM);
+    const trimH = mmToPt(page.heightMM);
+    const mediaW = trimW + 2 * bleed;
+    const mediaH = trimH + 2 * bleed;
+    const imageW = (width / dpi) * POINTS_PER_INCH;
+    const imageH = (height / dpi) * POINTS_PER_INCH;
+    const imageX = (mediaW - imageW) / 2;
+    const imageY = (mediaH - imageH) / 2;
+
+    const bits = data.BYTES_PER_ELEMENT * 8;
+    const profile = typeof options.iccProfile === 'string' ? iccProfile(options.iccProfile) : options.iccProfile;
+
+    // Color and alpha planes, deflated as they are split
+    const color: Uint8Array[] = [];
+    const alpha: Uint8Array[] = [];
+    const colorZlib = new Zlib({ level: 6 }, (chunk) => color.push(chunk));
+    const alphaZlib = new Zlib({ level: 6 }, (chunk) => alpha.push(chunk));
+    const rowsPerStrip = Math.max(1, Math.floor(STRIP_PIXELS / width));
+    let opaque = true;
+    for (let y = 0; y < height; y += rowsPerStrip) {
+      const rows = Math.min(rowsPerStrip, height - y);
+      const strip = splitChannels(data.subarray(y * width * 4, (y + rows) * width * 4));
+      if (!strip.opaque) opaque = false;
+      const last = y + rows === height;
+      colorZlib.push(strip.color, last);
+      alphaZlib.push(strip.alpha, last);
+      yield (y + rows) / height;
+    }
+
+    const writer = new PDFWriter();
+    const catalog = writer.reserve();
+    const pages = writer.reserve();
+    const pageRef = writer.reserve();
+
+    const colorSpace = profile
+      ? `[/ICCBased ${writer.stream(`/N 3 /Alternate /DeviceRGB`, profile)} 0 R]`
+      : '/DeviceRGB';
+    const smask = opaque
+      ? null
+      : writer.deflatedStream(imageDict(width, height, bits, '/DeviceGray'), concat(...alpha));
+    const image = writer.deflatedStream(
+      imageDict(width, height, bits, colorSpace) + (smask !== null ? ` /SMask ${smask} 0 R` : ''),
+      concat(...color)
+    );
+    const contents = writer.stream(
+      '',
+      ascii(`q ${num(imageW)} 0 0 ${num(imageH)} ${num(imageX)} ${num(imageY)} cm /Im0 Do Q\n`),
+      false
+    );
+
+    const mediaBox = `[0 0 ${num(mediaW)} ${num(mediaH)}]`;
+    writer.set(pageRef,
+      `<< /Type /Page /Parent ${pages} 0 R /MediaBox ${mediaBox} /BleedBox ${mediaBox}` +
+      ` /TrimBox [${num(bleed)} ${num(bleed)} ${num(bleed + trimW)} ${num(bleed + trimH)}]` +
+      ` /Resources << /XObject << /Im0 ${image} 0 R >> >> /Contents ${contents} 0 R >>`
+    );
+    writer.set(pages, `<< /Type /Pages /Kids [${pageRef} 0 R] /Count 1 >>`);
+    writer.set(catalog, `<< /Type /Catalog /Pages ${pages} 0 R >>`);
+    const info = writer.object(infoDict(metadata));
+
+    return {
+      data: writer.finish(catalog, info),
+      mimeType: 'application/pdf',
+      filename: `artwork-${width}x${height}-${dpi}dpi.pdf`,
+    };
+  }
+
+  /**
+   * Export and return as a Blob (browser convenience).
+   */
+  exportBlob(data: Uint8Array | Uint16Array, options: PDFExportOptions): Blob {
+    const result = this.export(data, options);
+    return new Blob([result.data.buffer as ArrayBuffer], { type: result.mimeType });
+  }
+}
+
+// ─── File structure ──────────────────────────────────────────────────
+
+/** Appends numbered objects and writes the cross-reference table. */
+class PDFWriter {
+  private readonly parts: Uint8Array[] = [];
+  private length = 0;
+  private readonly offsets: number[] = [];
+  private readonly pending = new Map<number, string>();
+
+  constructor() {
+    // The comment of high bytes marks the file as binary for transfer tools
+    this.push(ascii('%PDF-1.5\n'));
+    this.push(Uint8Array.from([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  }
+
+  /** Reserve an object number, to be written later with set() */
+  reserve(): number {
+    this.offsets.push(-1);
+    return this.offsets.length;
+  }
+
+  set(id: number, body: string): void {
+    this.pending.set(id, body);
+  }
+
+  object(body: string): number {
+    const id = this.reserve();
+    this.write(id, ascii(`${body}\n`));
+    return id;
+  }
+
+  /** A stream object, Flate-compressed unless `compress` is false */
+  stream(dict: string, data: Uint8Array, compress = true): number {
+    return compress ? this.deflatedStream(dict, zlibSync(data)) : this.streamObject(dict, data, '');
+  }
+
+  /** A stream object of bytes that are already zlib-compressed */
+  deflatedStream(dict: string, bytes: Uint8Array): number {
+    return this.streamObject(dict, bytes, ' /Filter /FlateDecode');
+  }
+
+  finish(root: number, info: number): Uint8Array {
+    for (const [id, body] of this.pending) this.write(id, ascii(`${body}\n`));
+
+    const xref = this.length;
+    const rows = this.offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`);
+    this.push(ascii(
+      `xref\n0 ${this.offsets.length + 1}\n0000000000 65535 f \n${rows.join('')}` +
+      `trailer\n<< /Size ${this.offsets.length + 1} /Root ${root} 0 R /Info ${info} 0 R >>\n` +
+      `startxref\n${xref}\n%%EOF\n`
+    ));
+    return concat(...this.parts);
+  }
+
+  private streamObject(dict: string, bytes: Uint8Array, filter: string): number {
+    const head = `<< ${dict}${dict ? ' ' : ''}/Length ${bytes.length}${filter} >>\nstream\n`;
+    const id = this.reserve();
+    this.write(id, concat(ascii(head), bytes, ascii('\nendstream\n')));
+    return id;
+  }
+
+  private write(id: number, body: Uint8Array): void {
+    this.offsets[id - 1] = this.length;
+    this.push(concat(ascii(`${id} 0 obj\n`), body, ascii('endobj\n')));
+  }
+
+  private push(bytes: Uint8Array): void {
+    this.parts.push(bytes);
+    this.length += bytes.length;
+  }
+}
+
+function imageDict(width: number, height: number, bits: number, colorSpace: string): string {
+  return `/Type /XObject /Subtype /Image /Width ${width} /Height ${height}` +
+    ` /ColorSpace ${colorSpace} /BitsPerComponent ${bits}`;
+}
+
+/**
+ * Big-endian RGB and alpha planes of RGBA samples, and whether every
+ * pixel is opaque (then no soft mask is needed).
+ */
+function splitChannels(data: Uint8Array | Uint16Array): { color: Uint8Array; alpha: Uint8Array; opaque: boolean } {
+  const size = data.BYTES_PER_ELEMENT;
+  const max = size === 2 ? 0xffff : 0xff;
+  const pixels = data.length / 4;
+  const color = new Uint8Array(pixels * 3 * size);
+  const alpha = new Uint8Array(pixels * size);
+  let opaque = true;
+
+  for (let p = 0; p < pixels; p++) {
+    const a = data[p * 4 + 3]!;
+    if (a !== max) opaque = false;
+    for (let c = 0; c < 4; c++) {
+      const v = data[p * 4 + c]!;
+      const plane = c === 3 ? alpha : color;
+      const o = (c === 3 ? p : p * 3 + c) * size;
+      if (size === 2) {
+        plane[o] = v >> 8;
+        plane[o + 1] = v & 0xff;
+      } else {
+        plane[o] = v;
+      }
+    }
+  }
+  return { color, alpha, opaque };
+}
+
+// ─── Document information ────────────────────────────────────────────
+
+function infoDict(metadata: PDFMetadata): string {
+  const entries = [`/Producer ${pdfString('hd-canvas')}`];
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value === undefined || key === 'Producer') continue;
+    entries.push(`/${pdfName(key)} ${infoValue(value)}`);
+  }
+  return `<< ${entries.join(' ')} >>`;
+}
+
+function infoValue(value: PNGMetadataValue): string {
+  if (value instanceof Date) return pdfString(pdfDate(value));
+  if (typeof value === 'string') return pdfString(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return pdfString(String(value));
+  return pdfString(JSON.stringify(value));
+}
+
+/** PDF date in UTC: D:YYYYMMDDHHmmSSZ */
+function pdfDate(date: Date): string {
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${p(date.getUTCMonth() + 1)}${p(date.getUTCDate())}` +
+    `${p(date.getUTCHours())}${p(date.getUTCMinutes())}${p(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * A text string: literal (escaped) when printable ASCII, otherwise a hex
+ * string of UTF-16BE with a byte-order mark.
+ */
+function pdfString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/[\\()]/g, '\\$&')})`;
+  }
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+/** A name object: regular characters as-is, everything else as #XX (UTF-8) */
+function pdfName(key: string): string {
+  if (key.length === 0) {
+    throw new Error('PDF metadata keys must not be empty');
+  }
+  let out = '';
+  for (const byte of new TextEncoder().encode(key)) {
+    const regular = byte > 0x20 && byte < 0x7f && !'#()<>[]{}/%'.includes(String.fromCharCode(byte));
+    out += regular ? String.fromCharCode(byte) : `#${byte.toString(16).padStart(2, '0').toUpperCase()}`;
+  }
+  return out;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function mmToPt(mm: number): number {
+  return (mm / MM_PER_INCH) * POINTS_PER_INCH;
+}
+
+/** Number with at most 4 decimals and no exponent or trailing zeros */
+function num(v: number): string {
+  return String(Number(v.toFixed(4)));
+}
+
+function ascii(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i);
+  return out;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
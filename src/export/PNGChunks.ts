@@ -0,0 +1,126 @@
+/**
+ * PNGChunks — Reading and writing the chunks of a PNG file
+ *
+ * Every PNG chunk is its data length, a four-letter type, the data and a
+ * CRC32 of type + data. The exporter, the streaming encoder and the
+ * metadata reader all build on these helpers.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** A PNG chunk before encoding — the length and CRC are added when written. */
+export interface PNGChunk {
+  /** Four-letter chunk type, e.g. 'tEXt' */
+  type: string;
+  data: Uint8Array;
+}
+
+// ─── Chunk encoding ──────────────────────────────────────────────────
+
+/**
+ * CRC32 lookup table for PNG chunk checksums.
+ */
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  CRC_TABLE[n] = c;
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Serialize a chunk: 4 bytes length + 4 bytes type + data + 4 bytes CRC.
+ * The CRC covers type + data.
+ */
+export function encodeChunk(chunk: PNGChunk): Uint8Array {
+  const { type, data } = chunk;
+  if (!/^[A-Za-z]{4}$/.test(type)) {
+    throw new Error(`PNG chunk type must be four ASCII letters, got "${type}"`);
+  }
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length, false);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)), false);
+  return out;
+}
+
+/**
+ * Insert ancillary chunks into an existing PNG, right after IHDR (which is
+ * always the first chunk). That places them before PLTE and IDAT, where
+ * every metadata chunk is allowed.
+ *
+ * PNG structure: signature (8 bytes) → IHDR chunk → ... → IDAT → IEND
+ */
+export function injectChunks(png: Uint8Array, chunks: PNGChunk[]): Uint8Array {
+  // PNG signature is 8 bytes
+  // IHDR chunk: 4 (length) + 4 (type) + 13 (data) + 4 (crc) = 25 bytes
+  // So IHDR ends at byte 33
+  const IHDR_END = 8 + 25;
+
+  assertPNG(png);
+
+  const encoded = chunks.map(chunk => {
+    // Critical chunks (uppercase first letter) define the image itself
+    if (chunk.type.charCodeAt(0) < 0x61) {
+      throw new Error(`Only ancillary chunks can be injected, got "${chunk.type}"`);
+    }
+    return encodeChunk(chunk);
+  });
+
+  const extra = encoded.reduce((n, c) => n + c.length, 0);
+  const result = new Uint8Array(png.length + extra);
+  result.set(png.subarray(0, IHDR_END), 0);
+  let offset = IHDR_END;
+  for (const chunk of encoded) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  result.set(png.subarray(IHDR_END), offset);
+  return result;
+}
+
+/**
+ * Split a PNG into its chunks, in file order, up to and including IEND.
+ * Chunk data are views into `png`. Throws on truncated data or a bad CRC.
+ */
+export function readChunks(png: Uint8Array): PNGChunk[] {
+  assertPNG(png);
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PNGChunk[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    if (offset + 12 > png.length) {
+      throw new Error(`Truncated PNG: chunk header at byte ${offset}`);
+    }
+    const length = view.getUint32(offset, false);
+    const end = offset + 8 + length;
+    if (end + 4 > png.length) {
+      throw new Error(`Truncated PNG: chunk at byte ${offset} runs past the end of the file`);
+    }
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (crc32(png.subarray(offset + 4, end)) !== view.getUint32(end, false)) {
+      throw new Error(`PNG chunk "${type}" at byte ${offset} has a bad CRC`);
+    }
+    chunks.push({ type, data: png.subarray(offset + 8, end) });
+    offset = end + 4;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function assertPNG(png: Uint8Array): void {
+  if (png[0] !== 0x89 || png[1] !== 0x50 || png[2] !== 0x4e || png[3] !== 0x47) {
+    throw new Error('Not a valid PNG file');
+  }
+}
@@ -9,9 +9,26 @@
  *
  * The pHYs chunk tells image viewers/print software the physical pixel
  * density, so an A3@300DPI image opens at the correct physical size.
+ * Color management chunks (iCCP, sRGB, gAMA, cHRM) tell them how to
+ * interpret the pixel values, so print shops don't have to guess. Text
+ * chunks carry provenance (seed, parameters, author) with the file.
  */
 
 import { encode } from 'fast-png';
+import { zlibSync } from 'fflate';
+import {
+  resolveOutputColorSpace,
+  type Chromaticity,
+  type OutputColorSpace,
+  type Primaries,
+  type TransferFunctionName,
+} from '../core/ColorSpace.js';
+import { iccProfile, iccProfileDescription, type ICCProfileName } from './ICCProfile.js';
+import { injectChunks, type PNGChunk } from './PNGChunks.js';
+import { metadataChunks, type PNGMetadata } from './PNGMetadata.js';
+
+// The chunk utilities live in PNGChunks.ts, which PNGMetadata builds on too
+export { encodeChunk, injectChunks, readChunks, type PNGChunk } from './PNGChunks.js';
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -28,8 +45,34 @@ export interface PNGExportOptions {
    * Default: 8.
    */
   depth?: 8 | 16;
+  /**
+   * Color space the data is encoded in. Tagged with gAMA + cHRM, plus an
+   * sRGB chunk for 'srgb' or the bundled ICC profile for other spaces.
+   * Default: none (untagged).
+   */
+  colorSpace?: OutputColorSpace;
+  /**
+   * ICC profile to embed as iCCP: a bundled profile name or raw ICC bytes.
+   * Overrides the profile implied by `colorSpace` and suppresses the sRGB
+   * chunk (PNG forbids both). Must describe how the data is encoded.
+   */
+  iccProfile?: ICCProfileName | Uint8Array;
+  /** Profile name stored in the iCCP chunk. Default: the bundled description, or 'ICC profile'. */
+  iccProfileName?: string;
+  /**
+   * Text metadata (Title, Author, Software, generation parameters…),
+   * written as tEXt, zTXt or iTXt chunks. See PNGMetadata.ts.
+   */
+  metadata?: PNGMetadata;
+  /** Extra ancillary chunks, inserted before the image data. */
+  chunks?: PNGChunk[];
 }
 
+/** sRGB chunk rendering intents, in PNG byte order */
+export const RENDERING_INTENTS = ['perceptual', 'relative', 'saturation', 'absolute'] as const;
+
+export type RenderingIntent = (typeof RENDERING_INTENTS)[number];
+
 export interface PNGExportResult {
   /** Raw PNG file bytes. */
   data: Uint8Array;
@@ -49,90 +92,123 @@ export function dpiToPixelsPerMeter(dpi: number): number {
   return Math.round(dpi / 0.0254);
 }
 
-// ─── PNG pHYs chunk injection ────────────────────────────────────────
+// ─── pHYs ────────────────────────────────────────────────────────────
 
 /**
- * CRC32 lookup table for PNG chunk checksums.
+ * Build a PNG pHYs chunk.
+ *
+ * Data: 4 bytes X ppm (big-endian) + 4 bytes Y ppm + 1 byte unit (1=meter)
  */
-const CRC_TABLE = new Uint32Array(256);
-for (let n = 0; n < 256; n++) {
-  let c = n;
-  for (let k = 0; k < 8; k++) {
-    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
-  }
-  CRC_TABLE[n] = c;
+export function physChunk(dpi: number): PNGChunk {
+  const ppm = dpiToPixelsPerMeter(dpi);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, ppm, false);
+  view.setUint32(4, ppm, false);
+  data[8] = 1; // unit: meter
+  return { type: 'pHYs', data };
+}
+
+/**
+ * Inject a pHYs chunk into an existing PNG buffer.
+ * pHYs must appear before the first IDAT chunk, so it goes right after IHDR.
+ */
+export function injectPHYs(png: Uint8Array, dpi: number): Uint8Array {
+  return injectChunks(png, [physChunk(dpi)]);
 }
 
-function crc32(data: Uint8Array): number {
-  let crc = 0xffffffff;
-  for (let i = 0; i < data.length; i++) {
-    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+// ─── Color management chunks ─────────────────────────────────────────
+
+/** sRGB chunk — the data is exactly sRGB, with the given rendering intent. */
+export function srgbChunk(intent: RenderingIntent = 'perceptual'): PNGChunk {
+  const index = RENDERING_INTENTS.indexOf(intent);
+  if (index === -1) {
+    throw new Error(
+      `Unknown rendering intent: "${intent}". Available: ${RENDERING_INTENTS.join(', ')}`
+    );
   }
-  return (crc ^ 0xffffffff) >>> 0;
+  return { type: 'sRGB', data: Uint8Array.of(index) };
 }
 
 /**
- * Build a PNG pHYs chunk.
- *
- * Format: 4 bytes length + 4 bytes "pHYs" + 9 bytes data + 4 bytes CRC
- * Data: 4 bytes X ppm (big-endian) + 4 bytes Y ppm + 1 byte unit (1=meter)
+ * gAMA chunk. `gamma` is the encoding exponent (file gamma), e.g. 1/2.2
+ * for sRGB-like data — not the display gamma.
  */
-function buildPHYsChunk(dpi: number): Uint8Array {
-  const ppm = dpiToPixelsPerMeter(dpi);
-  const chunk = new Uint8Array(21); // 4 + 4 + 9 + 4
-  const view = new DataView(chunk.buffer);
-
-  // Length of data section (9 bytes)
-  view.setUint32(0, 9, false);
-
-  // Chunk type: "pHYs"
-  chunk[4] = 0x70; // p
-  chunk[5] = 0x48; // H
-  chunk[6] = 0x59; // Y
-  chunk[7] = 0x73; // s
-
-  // X pixels per unit (big-endian)
-  view.setUint32(8, ppm, false);
-  // Y pixels per unit (big-endian)
-  view.setUint32(12, ppm, false);
-  // Unit: 1 = meter
-  chunk[16] = 1;
-
-  // CRC over type + data (bytes 4..16 inclusive)
-  const crcData = chunk.slice(4, 17);
-  const crcVal = crc32(crcData);
-  view.setUint32(17, crcVal, false);
-
-  return chunk;
+export function gamaChunk(gamma: number): PNGChunk {
+  if (!(gamma > 0) || !Number.isFinite(gamma)) {
+    throw new RangeError(`gAMA gamma must be a positive number, got ${gamma}`);
+  }
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, Math.round(gamma * 100000), false);
+  return { type: 'gAMA', data };
+}
+
+/** cHRM chunk: white x/y, red x/y, green x/y, blue x/y — each × 100000. */
+export function chrmChunk(white: Chromaticity, primaries: Primaries): PNGChunk {
+  const data = new Uint8Array(32);
+  const view = new DataView(data.buffer);
+  [white, primaries.red, primaries.green, primaries.blue].forEach((c, i) => {
+    view.setUint32(i * 8, Math.round(c.x * 100000), false);
+    view.setUint32(i * 8 + 4, Math.round(c.y * 100000), false);
+  });
+  return { type: 'cHRM', data };
 }
 
 /**
- * Inject a pHYs chunk into an existing PNG buffer.
- *
- * PNG structure: signature (8 bytes) → IHDR chunk → ... → IDAT → IEND
- * pHYs must appear before the first IDAT chunk.
- * We insert it right after IHDR (which is always the first chunk).
+ * iCCP chunk: profile name (1–79 Latin-1 characters), a null separator,
+ * compression method 0, then the zlib-compressed ICC profile.
  */
-export function injectPHYs(png: Uint8Array, dpi: number): Uint8Array {
-  // PNG signature is 8 bytes
-  // IHDR chunk: 4 (length) + 4 (type) + 13 (data) + 4 (crc) = 25 bytes
-  // So IHDR ends at byte 33
-  const IHDR_END = 8 + 25;
-
-  // Verify this is a PNG
-  if (png[0] !== 0x89 || png[1] !== 0x50 || png[2] !== 0x4e || png[3] !== 0x47) {
-    throw new Error('Not a valid PNG file');
+export function iccpChunk(profile: Uint8Array, name = 'ICC profile'): PNGChunk {
+  if (name.length < 1 || name.length > 79 || !/^[\x20-\x7e\xa1-\xff]+$/.test(name)) {
+    throw new Error(`iCCP profile name must be 1–79 printable Latin-1 characters, got "${name}"`);
+  }
+  if (profile.length < 132) {
+    throw new Error(`ICC profile is too short (${profile.length} bytes)`);
   }
+  const compressed = zlibSync(profile);
+  const data = new Uint8Array(name.length + 2 + compressed.length);
+  for (let i = 0; i < name.length; i++) data[i] = name.charCodeAt(i);
+  // data[name.length] = 0 (separator), data[name.length + 1] = 0 (deflate)
+  data.set(compressed, name.length + 2);
+  return { type: 'iCCP', data };
+}
 
-  const phys = buildPHYsChunk(dpi);
+/** Approximate encoding exponent of each transfer curve, for gAMA */
+const TRANSFER_GAMMA: Record<TransferFunctionName, number> = {
+  'linear': 1,
+  'srgb': 1 / 2.2,
+  // BT.2020 OETF power segment
+  'rec2020': 0.45,
+  'adobe-rgb': 256 / 563,
+};
 
-  // Concatenate: [signature + IHDR] + [pHYs] + [rest of PNG]
-  const result = new Uint8Array(png.length + phys.length);
-  result.set(png.subarray(0, IHDR_END), 0);
-  result.set(phys, IHDR_END);
-  result.set(png.subarray(IHDR_END), IHDR_END + phys.length);
+/**
+ * Chunks that tag data encoded in `colorSpace` and/or carrying an ICC
+ * profile. gAMA + cHRM are always written for a color space as a fallback
+ * for simple decoders; color-managed apps use iCCP or sRGB, which are
+ * mutually exclusive.
+ */
+export function colorChunks(
+  colorSpace?: OutputColorSpace,
+  profile?: ICCProfileName | Uint8Array,
+  profileName?: string
+): PNGChunk[] {
+  const chunks: PNGChunk[] = [];
+  if (colorSpace) {
+    const def = resolveOutputColorSpace(colorSpace);
+    chunks.push(gamaChunk(TRANSFER_GAMMA[def.transfer]), chrmChunk(def.white, def.primaries));
+  }
 
-  return result;
+  // sRGB is fully described by its own chunk; other spaces need a profile
+  const embedded = profile ?? (colorSpace && colorSpace !== 'srgb' ? colorSpace : undefined);
+  if (embedded === undefined) {
+    if (colorSpace === 'srgb') chunks.push(srgbChunk());
+  } else if (typeof embedded === 'string') {
+    chunks.push(iccpChunk(iccProfile(embedded), profileName ?? iccProfileDescription(embedded)));
+  } else {
+    chunks.push(iccpChunk(embedded, profileName));
+  }
+  return chunks;
 }
 
 // ─── PNGExporter class ───────────────────────────────────────────────
@@ -146,7 +222,7 @@ export class PNGExporter {
    * @returns PNG file data with pHYs chunk embedded
    */
   export(data: Uint8Array | Uint16Array, options: PNGExportOptions): PNGExportResult {
-    const { width, height, dpi, depth = 8 } = options;
+    const { width, height, dpi, depth = 8, colorSpace, iccProfile: profile, iccProfileName } = options;
 
     if (width <= 0 || height <= 0) {
       throw new Error(`Invalid dimensions: ${width}x${height}`);
@@ -169,6 +245,14 @@ export class PNGExporter {
       throw new Error('8-bit depth requires Uint8Array input');
     }
 
+    // Metadata chunks — built first so bad options fail before encoding
+    const chunks = [
+      physChunk(dpi),
+      ...colorChunks(colorSpace, profile, iccProfileName),
+      ...(options.metadata ? metadataChunks(options.metadata) : []),
+      ...(options.chunks ?? []),
+    ];
+
     // Encode PNG using fast-png
     const pngBytes = encode({
       width,
@@ -178,8 +262,8 @@ export class PNGExporter {
       channels: 4,
     });
 
-    // Inject pHYs chunk for DPI metadata
-    const pngWithDpi = injectPHYs(pngBytes, dpi);
+    // Inject pHYs chunk for DPI metadata, plus color tags and extras
+    const pngWithDpi = injectChunks(pngBytes, chunks);
 
     return {
       data: pngWithDpi,
@@ -0,0 +1,189 @@
+/**
+ * PNGMetadata — Text metadata chunks (tEXt, zTXt, iTXt)
+ *
+ * Lets a print carry its provenance: title, author, copyright, the
+ * software and seed that produced it, and a JSON blob of generation
+ * parameters. Each key/value pair becomes one text chunk:
+ *   - tEXt — Latin-1 text (the most widely read)
+ *   - zTXt — Latin-1 text, deflate-compressed, for long values
+ *   - iTXt — UTF-8 text, compressed when long, for everything else
+ *
+ * The PNG spec registers keywords such as 'Title', 'Author', 'Description',
+ * 'Copyright', 'Creation Time', 'Software', 'Source' and 'Comment'; any
+ * other keyword is allowed too.
+ */
+
+import { zlibSync, unzlibSync } from 'fflate';
+import { readChunks, type PNGChunk } from './PNGChunks.js';
+
+/**
+ * Values are written as text: strings as-is, numbers and booleans with
+ * String(), Dates as ISO 8601, other objects and arrays as JSON.
+ * `undefined` entries are skipped.
+ */
+export type PNGMetadataValue = string | number | boolean | Date | object;
+
+export type PNGMetadata = Record<string, PNGMetadataValue | undefined>;
+
+/** Text longer than this (in bytes) is compressed */
+const COMPRESSION_THRESHOLD = 1024;
+
+const LATIN1 = /^[\x00-\xff]*$/;
+
+// ─── Writing ─────────────────────────────────────────────────────────
+
+/** Text chunks for every entry of `metadata`, in key order. */
+export function metadataChunks(metadata: PNGMetadata): PNGChunk[] {
+  const chunks: PNGChunk[] = [];
+  for (const [keyword, value] of Object.entries(metadata)) {
+    if (value === undefined) continue;
+    const text = metadataText(value);
+    if (!LATIN1.test(text)) {
+      chunks.push(itxtChunk(keyword, text, utf8(text).length > COMPRESSION_THRESHOLD));
+    } else if (text.length > COMPRESSION_THRESHOLD) {
+      chunks.push(ztxtChunk(keyword, text));
+    } else {
+      chunks.push(textChunk(keyword, text));
+    }
+  }
+  return chunks;
+}
+
+/** tEXt chunk: keyword, null separator, Latin-1 text. */
+export function textChunk(keyword: string, text: string): PNGChunk {
+  validateKeyword(keyword);
+  validateText(keyword, text, true);
+  return { type: 'tEXt', data: concat(latin1(keyword), [0], latin1(text)) };
+}
+
+/** zTXt chunk: keyword, null separator, compression method 0, compressed Latin-1 text. */
+export function ztxtChunk(keyword: string, text: string): PNGChunk {
+  validateKeyword(keyword);
+  validateText(keyword, text, true);
+  return { type: 'zTXt', data: concat(latin1(keyword), [0, 0], zlibSync(latin1(text))) };
+}
+
+/**
+ * iTXt chunk: keyword, null, compression flag, compression method 0,
+ * empty language tag and translated keyword (each null-terminated),
+ * then UTF-8 text — deflate-compressed when `compress` is set.
+ */
+export function itxtChunk(keyword: string, text: string, compress = false): PNGChunk {
+  validateKeyword(keyword);
+  validateText(keyword, text, false);
+  const bytes = utf8(text);
+  return {
+    type: 'iTXt',
+    data: concat(latin1(keyword), [0, compress ? 1 : 0, 0, 0, 0], compress ? zlibSync(bytes) : bytes),
+  };
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────
+
+/**
+ * Read the text metadata of a PNG: every tEXt, zTXt and iTXt chunk as a
+ * keyword → text record. If a keyword appears more than once, the last
+ * chunk wins. JSON values come back as strings — parse them yourself.
+ */
+export function readPNGMetadata(png: Uint8Array): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const chunk of readChunks(png)) {
+    const entry = decodeTextChunk(chunk);
+    if (entry) metadata[entry[0]] = entry[1];
+  }
+  return metadata;
+}
+
+/** [keyword, text] of a text chunk, or null for any other chunk type. */
+function decodeTextChunk({ type, data }: PNGChunk): [string, string] | null {
+  if (type !== 'tEXt' && type !== 'zTXt' && type !== 'iTXt') return null;
+
+  const sep = data.indexOf(0);
+  if (sep < 1) {
+    throw new Error(`Malformed ${type} chunk: missing keyword`);
+  }
+  const keyword = fromLatin1(data.subarray(0, sep));
+
+  if (type === 'tEXt') {
+    return [keyword, fromLatin1(data.subarray(sep + 1))];
+  }
+  if (type === 'zTXt') {
+    checkCompressionMethod(type, data[sep + 1]);
+    return [keyword, fromLatin1(unzlibSync(data.subarray(sep + 2)))];
+  }
+
+  // iTXt: skip the language tag and translated keyword
+  const compressed = data[sep + 1] === 1;
+  if (compressed) checkCompressionMethod(type, data[sep + 2]);
+  const langEnd = data.indexOf(0, sep + 3);
+  const transEnd = langEnd === -1 ? -1 : data.indexOf(0, langEnd + 1);
+  if (transEnd === -1) {
+    throw new Error(`Malformed iTXt chunk "${keyword}"`);
+  }
+  const text = data.subarray(transEnd + 1);
+  return [keyword, new TextDecoder().decode(compressed ? unzlibSync(text) : text)];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function metadataText(value: PNGMetadataValue): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+}
+
+/** PNG keywords: 1–79 printable Latin-1 characters, no leading, trailing or double spaces. */
+function validateKeyword(keyword: string): void {
+  if (
+    keyword.length < 1 ||
+    keyword.length > 79 ||
+    !/^[\x20-\x7e\xa1-\xff]+$/.test(keyword) ||
+    /^ | $| {2}/.test(keyword)
+  ) {
+    throw new Error(
+      `PNG text keyword must be 1–79 printable Latin-1 characters without leading, trailing or double spaces, got "${keyword}"`
+    );
+  }
+}
+
+function validateText(keyword: string, text: string, latin1Only: boolean): void {
+  if (text.includes('\0')) {
+    throw new Error(`PNG text "${keyword}" must not contain null characters`);
+  }
+  if (latin1Only && !LATIN1.test(text)) {
+    throw new Error(`PNG text "${keyword}" is not Latin-1 — use an iTXt chunk`);
+  }
+}
+
+function checkCompressionMethod(type: string, method: number | undefined): void {
+  if (method !== 0) {
+    throw new Error(`Unsupported ${type} compression method: ${method}`);
+  }
+}
+
+function latin1(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i);
+  return out;
+}
+
+function fromLatin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]!);
+  return out;
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function concat(...parts: ArrayLike<number>[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
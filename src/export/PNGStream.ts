@@ -0,0 +1,391 @@
+/**
+ * PNGStream — Strip-by-strip PNG export for buffers too large to copy
+ *
+ * exportBuffer() holds the whole tone-mapped image, its encoded PNG and a
+ * Blob copy at once — several gigabytes for A0 at 300 DPI. This path
+ * tone-maps a few rows at a time, filters and deflates them into IDAT
+ * chunks and hands each chunk on as soon as it is ready, so peak memory
+ * beyond the float buffer is a small multiple of one strip:
+ *
+ *   streamPNG(buffer, opts)        → Iterable of PNG file pieces
+ *   writePNGStream(buffer, target) → pipes them into a WritableStream or
+ *                                    Node stream, honouring backpressure
+ *
+ * The file is the same PNG the regular exporter writes: same header and
+ * ancillary chunks (pHYs, color tags, metadata), adaptive row filters.
+ */
+
+import { Zlib } from 'fflate';
+import { ToneMapper, type OutputDepth } from './ToneMapper.js';
+import { encodeChunk, type PNGChunk } from './PNGChunks.js';
+import { colorChunks, physChunk, type PNGExportOptions } from './PNGExporter.js';
+import { metadataChunks } from './PNGMetadata.js';
+import { resolveExposure } from './AutoExposure.js';
+import { throwIfAborted } from './ExportAbort.js';
+import type { ExportOptions, ExportProgressFn } from './ExportPipeline.js';
+import type { IColorBuffer } from '../core/ColorBuffer.js';
+import type { ICompositeSource } from '../core/LayerStack.js';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface PNGStreamOptions
+  extends Pick<
+    ExportOptions,
+    | 'toneMap'
+    | 'toneMapMode'
+    | 'highlightDesaturation'
+    | 'dither'
+    | 'ditherSeed'
+    | 'exposure'
+    | 'autoExposure'
+    | 'gamma'
+    | 'colorSpace'
+    | 'iccProfile'
+    | 'metadata'
+    | 'signal'
+  > {
+  /** DPI for the pHYs chunk. */
+  dpi: number;
+  /** Bits per channel. Default: 8. */
+  bitDepth?: OutputDepth;
+  /** Rows tone-mapped and compressed at a time. Default: about 256 KB of output. */
+  rowsPerStrip?: number;
+  /** Progress callback, called after every strip. */
+  onProgress?: ExportProgressFn;
+}
+
+/** The subset of a Node.js Writable that writePNGStream needs */
+export interface NodeWritableLike {
+  write(chunk: Uint8Array): boolean;
+  /** Node calls the callback with an error when the final flush fails */
+  end(callback: (error?: unknown) => void): unknown;
+  once(event: 'drain', listener: () => void): unknown;
+  on(event: 'error', listener: (error: unknown) => void): unknown;
+  removeListener(event: 'error', listener: (error: unknown) => void): unknown;
+  removeListener(event: 'drain', listener: () => void): unknown;
+}
+
+/** Output bytes per strip to aim for */
+const STRIP_BYTES = 256 * 1024;
+
+/** How long writing to a Node stream may run before yielding to the event loop */
+const YIELD_INTERVAL_MS = 16;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// ─── Encoder ─────────────────────────────────────────────────────────
+
+/**
+ * Incremental PNG encoder: write the header, then pass rows of RGBA
+ * samples in order, then finish. Every method returns complete PNG chunks
+ * ready to be written out.
+ */
+export class PNGStreamEncoder {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly depth: 8 | 16;
+  private readonly chunks: PNGChunk[];
+  /** Bytes per pixel and per filtered row (without the filter byte) */
+  private readonly bpp: number;
+  private readonly rowBytes: number;
+  private readonly zlib: Zlib;
+  private readonly compressed: Uint8Array[] = [];
+  private previous: Uint8Array;
+  private rowsWritten = 0;
+
+  constructor(options: PNGExportOptions) {
+    const { width, height, dpi, depth = 8 } = options;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error(`Invalid dimensions: ${width}x${height}`);
+    }
+    if (dpi <= 0) {
+      throw new Error(`DPI must be positive, got: ${dpi}`);
+    }
+    if (depth !== 8 && depth !== 16) {
+      throw new Error(`Output depth must be 8 or 16, got: ${depth}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.depth = depth;
+    // Built up front so bad options fail before anything is written
+    this.chunks = [
+      physChunk(dpi),
+      ...colorChunks(options.colorSpace, options.iccProfile, options.iccProfileName),
+      ...(options.metadata ? metadataChunks(options.metadata) : []),
+      ...(options.chunks ?? []),
+    ];
+    this.bpp = depth === 16 ? 8 : 4;
+    this.rowBytes = width * this.bpp;
+    this.previous = new Uint8Array(this.rowBytes);
+    this.zlib = new Zlib({ level: 6 }, (data) => this.compressed.push(data));
+  }
+
+  /** Signature, IHDR and the ancillary chunks */
+  header(): Uint8Array {
+    const ihdr = new Uint8Array(13);
+    const view = new DataView(ihdr.buffer);
+    view.setUint32(0, this.width);
+    view.setUint32(4, this.height);
+    ihdr[8] = this.depth;
+    ihdr[9] = 6; // truecolor with alpha
+    // compression, filter and interlace methods: all 0
+    return concat([
+      Uint8Array.from(PNG_SIGNATURE),
+      encodeChunk({ type: 'IHDR', data: ihdr }),
+      ...this.chunks.map(encodeChunk),
+    ]);
+  }
+
+  /**
+   * Filter and compress whole rows of RGBA samples (Uint8Array for 8-bit,
+   * Uint16Array for 16-bit). Returns the IDAT chunks completed so far —
+   * possibly none, as the compressor buffers.
+   */
+  writeRows(data: Uint8Array | Uint16Array): Uint8Array[] {
+    if ((this.depth === 16) !== data instanceof Uint16Array) {
+      throw new Error(`${this.depth}-bit depth requires ${this.depth === 16 ? 'Uint16Array' : 'Uint8Array'} input`);
+    }
+    const rowLength = this.width * 4;
+    if (data.length % rowLength !== 0) {
+      throw new Error(`Row data must hold whole rows of ${rowLength} samples, got ${data.length}`);
+    }
+    const rows = data.length / rowLength;
+    if (this.rowsWritten + rows > this.height) {
+      throw new RangeError(`Too many rows: ${this.rowsWritten + rows} written, image height is ${this.height}`);
+    }
+
+    const filtered = new Uint8Array(rows * (this.rowBytes + 1));
+    for (let r = 0; r < rows; r++) {
+      const row = rowBytes(data, r * rowLength, rowLength);
+      filterRow(row, this.previous, this.bpp, filtered, r * (this.rowBytes + 1));
+      this.previous = row;
+    }
+    this.rowsWritten += rows;
+    this.zlib.push(filtered, this.rowsWritten === this.height);
+    return this.drain();
+  }
+
+  /** The last IDAT chunks and IEND. Throws if rows are missing. */
+  finish(): Uint8Array[] {
+    if (this.rowsWritten !== this.height) {
+      throw new Error(`PNG stream incomplete: ${this.rowsWritten} of ${this.height} rows written`);
+    }
+    return [...this.drain(), encodeChunk({ type: 'IEND', data: new Uint8Array(0) })];
+  }
+
+  private drain(): Uint8Array[] {
+    const out = this.compressed.filter((c) => c.length > 0).map((data) => encodeChunk({ type: 'IDAT', data }));
+    this.compressed.length = 0;
+    return out;
+  }
+}
+
+// ─── Pipeline ────────────────────────────────────────────────────────
+
+/**
+ * Tone map and encode a buffer (or the composite of a layer stack) as a
+ * PNG, one strip at a time. Options are checked immediately; the work
+ * happens as the result is iterated, and stops with an ExportAbortedError
+ * at the next strip once `options.signal` is aborted. Bloom is not
+ * supported here — it needs a full copy of the buffer.
+ */
+export function streamPNG(source: IColorBuffer | ICompositeSource, options: PNGStreamOptions): Iterable<Uint8Array> {
+  const buffer = 'composite' in source ? source.composite() : source;
+  const {
+    toneMap = 'reinhard',
+    toneMapMode,
+    highlightDesaturation,
+    dither,
+    ditherSeed,
+    gamma,
+    colorSpace,
+    bitDepth = 8,
+    signal,
+    onProgress,
+  } = options;
+  throwIfAborted(signal);
+  if (gamma !== undefined && colorSpace) {
+    throw new Error(`gamma cannot be combined with colorSpace "${colorSpace}", which is tagged with its own transfer curve`);
+  }
+
+  const toneMapper = new ToneMapper({
+    algorithm: toneMap,
+    mode: toneMapMode,
+    highlightDesaturation,
+    dither,
+    ditherSeed,
+    exposure: resolveExposure(buffer, options),
+    gamma,
+    colorSpace,
+    outputDepth: bitDepth,
+  });
+  const encoder = new PNGStreamEncoder({
+    width: buffer.width,
+    height: buffer.height,
+    dpi: options.dpi,
+    depth: bitDepth,
+    colorSpace,
+    iccProfile: options.iccProfile,
+    metadata: options.metadata,
+  });
+  const rowsPerStrip = options.rowsPerStrip ??
+    Math.max(1, Math.floor(STRIP_BYTES / (buffer.width * 4 * (bitDepth / 8))));
+  if (!Number.isInteger(rowsPerStrip) || rowsPerStrip < 1) {
+    throw new RangeError(`rowsPerStrip must be a positive integer, got ${rowsPerStrip}`);
+  }
+
+  function* pieces(): Generator<Uint8Array> {
+    onProgress?.(0, 'encode');
+    yield encoder.header();
+    for (let y = 0; y < buffer.height; y += rowsPerStrip) {
+      // A progress callback or the stream consumer may abort the signal
+      throwIfAborted(signal);
+      const rows = Math.min(rowsPerStrip, buffer.height - y);
+      yield* encoder.writeRows(toneMapper.mapRows(buffer, y, rows));
+      // The last strip reports 100 once the file is complete
+      if (y + rows < buffer.height) onProgress?.(Math.round(((y + rows) / buffer.height) * 100), 'encode');
+    }
+    yield* encoder.finish();
+    onProgress?.(100, 'done');
+  }
+  return pieces();
+}
+
+/**
+ * Stream a PNG into a WritableStream (browser: e.g. from the File System
+ * Access API) or a Node.js Writable (e.g. fs.createWriteStream), waiting
+ * whenever the target applies backpressure. The target is closed when
+ * the file is complete. Aborting `options.signal` rejects with an
+ * ExportAbortedError at the next strip (a WritableStream is aborted too).
+ */
+export async function writePNGStream(
+  source: IColorBuffer | ICompositeSource,
+  target: WritableStream<Uint8Array> | NodeWritableLike,
+  options: PNGStreamOptions
+): Promise<void> {
+  const pieces = streamPNG(source, options);
+
+  if ('getWriter' in target) {
+    const writer = target.getWriter();
+    try {
+      for (const piece of pieces) {
+        await writer.ready;
+        await writer.write(piece);
+      }
+      await writer.close();
+    } catch (error) {
+      await writer.abort(error).catch(() => undefined);
+      throw error;
+    }
+    return;
+  }
+
+  // One error listener for the whole write, so a failure also ends a wait
+  // for 'drain' or for the final flush
+  let failed = false;
+  let failure: unknown;
+  let wake = (): void => undefined;
+  const onError = (error: unknown): void => {
+    failed = true;
+    failure = error;
+    wake();
+  };
+  target.on('error', onError);
+  let lastYield = Date.now();
+  try {
+    for (const piece of pieces) {
+      if (!target.write(piece) && !failed) {
+        await new Promise<void>((resolve) => {
+          const onDrain = (): void => resolve();
+          wake = () => {
+            target.removeListener('drain', onDrain);
+            resolve();
+          };
+          target.once('drain', onDrain);
+        });
+        wake = () => undefined;
+        lastYield = Date.now();
+      } else if (Date.now() - lastYield >= YIELD_INTERVAL_MS) {
+        // A stream without backpressure would otherwise never let an abort in
+        await new Promise<void>((resolve) => setTimeout(resolve, 0));
+        lastYield = Date.now();
+      }
+      if (failed) throw failure;
+    }
+    await new Promise<void>((resolve, reject) => {
+      wake = () => reject(failure);
+      target.end((error) => (error ? reject(error) : resolve()));
+    });
+    if (failed) throw failure;
+  } finally {
+    target.removeListener('error', onError);
+  }
+}
+
+// ─── Filtering ───────────────────────────────────────────────────────
+
+/** Big-endian bytes of one row of samples */
+function rowBytes(data: Uint8Array | Uint16Array, start: number, length: number): Uint8Array {
+  if (data instanceof Uint8Array) return data.slice(start, start + length);
+  const out = new Uint8Array(length * 2);
+  for (let i = 0; i < length; i++) {
+    const v = data[start + i]!;
+    out[i * 2] = v >> 8;
+    out[i * 2 + 1] = v & 0xff;
+  }
+  return out;
+}
+
+/**
+ * Write the filter byte and filtered row at `offset`, choosing the filter
+ * with the smallest sum of absolute (signed) residuals — the heuristic
+ * libpng uses.
+ */
+function filterRow(row: Uint8Array, prev: Uint8Array, bpp: number, out: Uint8Array, offset: number): void {
+  const n = row.length;
+  let best = 0;
+  let bestScore = Infinity;
+  for (let type = 0; type <= 4; type++) {
+    let score = 0;
+    for (let i = 0; i < n && score < bestScore; i++) {
+      const v = residual(type, row, prev, i, bpp);
+      score += v < 128 ? v : 256 - v;
+    }
+    if (score < bestScore) {
+      bestScore = score;
+      best = type;
+    }
+  }
+  out[offset] = best;
+  for (let i = 0; i < n; i++) out[offset + 1 + i] = residual(best, row, prev, i, bpp);
+}
+
+function residual(type: number, row: Uint8Array, prev: Uint8Array, i: number, bpp: number): number {
+  const x = row[i]!;
+  const a = i >= bpp ? row[i - bpp]! : 0;
+  const b = prev[i]!;
+  switch (type) {
+    case 0: return x;
+    case 1: return (x - a) & 0xff;
+    case 2: return (x - b) & 0xff;
+    case 3: return (x - ((a + b) >> 1)) & 0xff;
+    default: {
+      const c = i >= bpp ? prev[i - bpp]! : 0;
+      const p = a + b - c;
+      const pa = Math.abs(p - a);
+      const pb = Math.abs(p - b);
+      const pc = Math.abs(p - c);
+      return (x - (pa <= pb && pa <= pc ? a : pb <= pc ? b : c)) & 0xff;
+    }
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,368 @@
+/**
+ * RadianceHDR — Radiance .hdr (RGBE) encoding and decoding
+ *
+ * A light HDR interchange format: each pixel is three 8-bit mantissas
+ * sharing one 8-bit exponent, so values keep ~1% precision over a range
+ * of 10^±38 in 4 bytes. Scanlines are written with the "new" adaptive RLE
+ * (each component run-length encoded separately); the loader also reads
+ * flat and old-style RLE files.
+ *
+ * RGBE has no alpha: pixels are written composited over black (i.e. the
+ * premultiplied color) and load with alpha 1. Negative values clamp to 0.
+ * The working color space travels in the standard PRIMARIES header line.
+ */
+
+import { ColorBuffer, type AlphaMode, type ColorDepth, type IColorBuffer } from '../core/ColorBuffer.js';
+import {
+  COLOR_SPACES,
+  resolveColorSpace,
+  type ColorSpaceDef,
+  type WorkingColorSpace,
+} from '../core/ColorSpace.js';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface HDRExportOptions {
+  /** DPI — .hdr has no resolution field, so this only names the file. */
+  dpi: number;
+}
+
+export interface HDRExportResult {
+  /** Raw .hdr file bytes. */
+  data: Uint8Array;
+  /** MIME type. */
+  mimeType: 'image/vnd.radiance';
+  /** Suggested filename. */
+  filename: string;
+}
+
+export interface HDRLoadOptions {
+  /** Float precision of the returned buffer. Default: 32. */
+  depth?: ColorDepth;
+  /** Alpha storage of the returned buffer. Default: 'straight'. */
+  alphaMode?: AlphaMode;
+  /**
+   * Working color space of the pixels. Default: read from the PRIMARIES
+   * header, or linear sRGB when the file has none.
+   */
+  colorSpace?: WorkingColorSpace;
+}
+
+/** Scanline widths the new-style RLE can describe */
+const RLE_MIN_WIDTH = 8;
+const RLE_MAX_WIDTH = 0x7fff;
+/** Longest run or literal in one RLE packet */
+const MAX_RUN = 127;
+const MAX_LITERAL = 128;
+
+// ─── RGBE conversion ─────────────────────────────────────────────────
+
+/** Write the RGBE bytes of a linear color into out[o … o+3]. */
+export function toRGBE(r: number, g: number, b: number, out: Uint8Array, o: number): void {
+  r = r > 0 ? r : 0;
+  g = g > 0 ? g : 0;
+  b = b > 0 ? b : 0;
+  const v = Math.max(r, g, b);
+  if (v < 1e-32) {
+    out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 0;
+    return;
+  }
+  // frexp: v = m · 2^e with m in [0.5, 1)
+  let e = Math.floor(Math.log2(v)) + 1;
+  let m = v / 2 ** e;
+  if (m >= 1) {
+    e++;
+    m /= 2;
+  } else if (m < 0.5) {
+    e--;
+    m *= 2;
+  }
+  if (e > 127) {
+    // Beyond the format's range — saturate
+    out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 255;
+    return;
+  }
+  const scale = (m * 256) / v;
+  out[o] = Math.min(255, Math.floor(r * scale));
+  out[o + 1] = Math.min(255, Math.floor(g * scale));
+  out[o + 2] = Math.min(255, Math.floor(b * scale));
+  out[o + 3] = e + 128;
+}
+
+/**
+ * Linear color of RGBE bytes in[i … i+3], written to out[o … o+2].
+ * Mantissas are centred in their bucket (+0.5), as Radiance does.
+ */
+export function fromRGBE(rgbe: ArrayLike<number>, i: number, out: Float32Array | Float64Array, o: number): void {
+  const e = rgbe[i + 3]!;
+  if (e === 0) {
+    out[o] = out[o + 1] = out[o + 2] = 0;
+    return;
+  }
+  const f = 2 ** (e - 136);
+  out[o] = (rgbe[i]! + 0.5) * f;
+  out[o + 1] = (rgbe[i + 1]! + 0.5) * f;
+  out[o + 2] = (rgbe[i + 2]! + 0.5) * f;
+}
+
+// ─── HDRExporter class ───────────────────────────────────────────────
+
+export class HDRExporter {
+  /**
+   * Encode a float buffer as a Radiance .hdr file.
+   *
+   * @param buffer - Linear HDR pixels; alpha is composited over black
+   * @param options - DPI (used for the filename)
+   */
+  export(buffer: IColorBuffer, options: HDRExportOptions): HDRExportResult {
+    const steps = this.exportSteps(buffer, options);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  }
+
+  /**
+   * export() one scanline at a time: yields the fraction of rows encoded
+   * (0–1) after each.
+   */
+  *exportSteps(buffer: IColorBuffer, options: HDRExportOptions): Generator<number, HDRExportResult> {
+    const { width, height, data } = buffer;
+    const { dpi } = options;
+
+    if (width <= 0 || height <= 0) {
+      throw new Error(`Invalid dimensions: ${width}x${height}`);
+    }
+    if (dpi <= 0) {
+      throw new Error(`DPI must be positive, got: ${dpi}`);
+    }
+
+    const space = resolveColorSpace(buffer.colorSpace ?? 'linear-srgb');
+    const { red, green, blue } = space.primaries;
+    const primaries = [red, green, blue, space.white].map(c => `${c.x} ${c.y}`).join(' ');
+    const header = ascii(
+      '#?RADIANCE\n' +
+      'FORMAT=32-bit_rle_rgbe\n' +
+      `PRIMARIES=${primaries}\n` +
+      'SOFTWARE=hd-canvas\n' +
+      '\n' +
+      `-Y ${height} +X ${width}\n`
+    );
+
+    const straight = (buffer.alphaMode ?? 'straight') === 'straight';
+    const rle = width >= RLE_MIN_WIDTH && width <= RLE_MAX_WIDTH;
+    const line = new Uint8Array(width * 4);
+    const parts: Uint8Array[] = [header];
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width * 4;
+      for (let x = 0; x < width; x++) {
+        const i = row + x * 4;
+        const m = straight ? data[i + 3]! : 1;
+        toRGBE(data[i]! * m, data[i + 1]! * m, data[i + 2]! * m, line, x * 4);
+      }
+      parts.push(rle ? encodeScanline(line, width) : line.slice());
+      yield (y + 1) / height;
+    }
+
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+
+    return {
+      data: out,
+      mimeType: 'image/vnd.radiance',
+      filename: `artwork-${width}x${height}-${dpi}dpi.hdr`,
+    };
+  }
+
+  /**
+   * Export and return as a Blob (browser convenience).
+   */
+  exportBlob(buffer: IColorBuffer, options: HDRExportOptions): Blob {
+    const result = this.export(buffer, options);
+    return new Blob([result.data.buffer as ArrayBuffer], { type: result.mimeType });
+  }
+}
+
+/**
+ * New-style RLE scanline: marker 2 2 + width, then each component
+ * separately as packets — a run (count + 128, value) or a literal
+ * (count, values…).
+ */
+function encodeScanline(line: Uint8Array, width: number): Uint8Array {
+  const out: number[] = [2, 2, width >> 8, width & 0xff];
+  for (let c = 0; c < 4; c++) {
+    let x = 0;
+    while (x < width) {
+      // Find the next run of at least 3 equal values
+      let runStart = x;
+      let runLength = 0;
+      while (runStart < width) {
+        const v = line[runStart * 4 + c]!;
+        runLength = 1;
+        while (runStart + runLength < width && runLength < MAX_RUN && line[(runStart + runLength) * 4 + c] === v) {
+          runLength++;
+        }
+        if (runLength >= 3) break;
+        runStart += runLength;
+      }
+      if (runStart >= width) runLength = 0;
+
+      // Literals up to the run
+      while (x < runStart) {
+        const n = Math.min(MAX_LITERAL, runStart - x);
+        out.push(n);
+        for (let k = 0; k < n; k++) out.push(line[(x + k) * 4 + c]!);
+        x += n;
+      }
+      if (runLength >= 3) {
+        out.push(128 + runLength, line[runStart * 4 + c]!);
+        x += runLength;
+      }
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────
+
+/**
+ * Decode a Radiance .hdr file into a new ColorBuffer with alpha 1.
+ * Supports the standard "-Y height +X width" orientation with flat,
+ * old-style RLE or new-style RLE scanlines.
+ */
+export function loadHDR(file: Uint8Array, options: HDRLoadOptions = {}): ColorBuffer {
+  // Header: lines up to a blank line, then the resolution line
+  let p = 0;
+  const readLine = (): string => {
+    const end = file.indexOf(0x0a, p);
+    if (end === -1) {
+      throw new Error('Truncated .hdr header');
+    }
+    const s = String.fromCharCode(...file.subarray(p, end));
+    p = end + 1;
+    return s;
+  };
+
+  const magic = readLine();
+  if (!magic.startsWith('#?')) {
+    throw new Error('Not a Radiance .hdr file');
+  }
+  let primaries: number[] | undefined;
+  for (let line = readLine(); line !== ''; line = readLine()) {
+    if (line.startsWith('FORMAT=') && line !== 'FORMAT=32-bit_rle_rgbe') {
+      throw new Error(`Unsupported .hdr format: "${line.slice(7)}". Supported: 32-bit_rle_rgbe`);
+    }
+    if (line.startsWith('PRIMARIES=')) {
+      primaries = line.slice(10).trim().split(/\s+/).map(Number);
+    }
+  }
+
+  const resolution = /^-Y (\d+) \+X (\d+)$/.exec(readLine().trim());
+  if (!resolution) {
+    throw new Error('Unsupported .hdr orientation — only "-Y height +X width" is supported');
+  }
+  const height = Number(resolution[1]);
+  const width = Number(resolution[2]);
+
+  const colorSpace = options.colorSpace ?? (primaries ? matchPrimaries(primaries) : 'linear-srgb');
+  const buffer = new ColorBuffer(width, height, options.depth ?? 32, {
+    alphaMode: options.alphaMode,
+    colorSpace,
+  });
+
+  const line = new Uint8Array(width * 4);
+  for (let y = 0; y < height; y++) {
+    p = decodeScanline(file, p, line, width);
+    const row = y * width * 4;
+    for (let x = 0; x < width; x++) {
+      fromRGBE(line, x * 4, buffer.data, row + x * 4);
+      buffer.data[row + x * 4 + 3] = 1;
+    }
+  }
+  return buffer;
+}
+
+/** Decode one scanline starting at `p` into `line`; returns the next offset. */
+function decodeScanline(file: Uint8Array, p: number, line: Uint8Array, width: number): number {
+  const need = (n: number): void => {
+    if (p + n > file.length) {
+      throw new Error('Truncated .hdr pixel data');
+    }
+  };
+
+  need(4);
+  const isNewRLE =
+    width >= RLE_MIN_WIDTH && width <= RLE_MAX_WIDTH &&
+    file[p] === 2 && file[p + 1] === 2 && (file[p + 2]! & 0x80) === 0;
+
+  if (isNewRLE) {
+    if (((file[p + 2]! << 8) | file[p + 3]!) !== width) {
+      throw new Error('Corrupt .hdr scanline: width mismatch');
+    }
+    p += 4;
+    for (let c = 0; c < 4; c++) {
+      let x = 0;
+      while (x < width) {
+        need(1);
+        let n = file[p++]!;
+        if (n > 128) {
+          n -= 128;
+          need(1);
+          const v = file[p++]!;
+          if (x + n > width) throw new Error('Corrupt .hdr scanline: run overflows');
+          for (let k = 0; k < n; k++) line[(x++) * 4 + c] = v;
+        } else {
+          if (n === 0 || x + n > width) throw new Error('Corrupt .hdr scanline: bad literal');
+          need(n);
+          for (let k = 0; k < n; k++) line[(x++) * 4 + c] = file[p++]!;
+        }
+      }
+    }
+    return p;
+  }
+
+  // Flat pixels, where (1, 1, 1, n) repeats the previous pixel (old-style RLE)
+  let shift = 0;
+  for (let x = 0; x < width; ) {
+    need(4);
+    if (file[p] === 1 && file[p + 1] === 1 && file[p + 2] === 1 && x > 0) {
+      const count = file[p + 3]! << shift;
+      if (x + count > width) throw new Error('Corrupt .hdr scanline: run overflows');
+      for (let k = 0; k < count; k++, x++) line.copyWithin(x * 4, (x - 1) * 4, x * 4);
+      shift += 8;
+    } else {
+      line.set(file.subarray(p, p + 4), x * 4);
+      x++;
+      shift = 0;
+    }
+    p += 4;
+  }
+  return p;
+}
+
+/** Working space whose primaries and white match a PRIMARIES header line */
+function matchPrimaries(values: number[]): WorkingColorSpace {
+  const working: WorkingColorSpace[] = ['linear-srgb', 'linear-p3', 'linear-rec2020', 'acescg'];
+  const matches = (def: ColorSpaceDef): boolean => {
+    const { red, green, blue } = def.primaries;
+    const expected = [red, green, blue, def.white].flatMap(c => [c.x, c.y]);
+    return values.length === 8 && expected.every((v, i) => Math.abs(v - values[i]!) < 1e-3);
+  };
+  const space = working.find(name => matches(COLOR_SPACES[name]));
+  if (!space) {
+    throw new Error(
+      `.hdr PRIMARIES "${values.join(' ')}" match no working color space — pass the colorSpace option`
+    );
+  }
+  return space;
+}
+
+function ascii(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i);
+  return out;
+}
@@ -0,0 +1,411 @@
+/**
+ * TIFFExporter — Baseline RGBA TIFF export for print labs
+ *
+ * Writes single-image, little-endian, chunky (RGBARGBA…) TIFFs in strips:
+ *   - 8- or 16-bit unsigned integer samples (tone-mapped output)
+ *   - 32-bit IEEE float samples (the linear HDR buffer itself)
+ *   - 8- or 16-bit CMYK separations for press (see CMYK.ts)
+ *
+ * XResolution/YResolution/ResolutionUnit carry the DPI, so the file opens
+ * at the right physical size. Strips may be LZW or Deflate compressed;
+ * integer samples then use horizontal differencing (Predictor 2), which
+ * shrinks smooth gradients considerably. An ICC profile can be embedded
+ * in the InterColorProfile tag.
+ */
+
+import { zlibSync } from 'fflate';
+import type { AlphaMode } from '../core/ColorBuffer.js';
+import { iccProfile, type ICCProfileName } from './ICCProfile.js';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export const TIFF_COMPRESSIONS = {
+  none: 1,
+  /** LZW — readable by every TIFF reader */
+  lzw: 5,
+  /** Deflate (zlib) — usually smaller than LZW */
+  deflate: 8,
+} as const;
+
+export type TIFFCompression = keyof typeof TIFF_COMPRESSIONS;
+
+export interface TIFFExportOptions {
+  /** Pixel width of the image. */
+  width: number;
+  /** Pixel height of the image. */
+  height: number;
+  /** DPI for the resolution tags. */
+  dpi: number;
+  /** Strip compression. Default: 'lzw'. */
+  compression?: TIFFCompression;
+  /** ICC profile to embed: a bundled profile name or raw ICC bytes. Default: none. */
+  iccProfile?: ICCProfileName | Uint8Array;
+  /** Whether the color samples are premultiplied by alpha. Default: 'straight'. */
+  alphaMode?: AlphaMode;
+  /**
+   * 'rgba' (default), or 'cmyk' for separated C, M, Y, K samples from
+   * separateCMYK — integer only, no alpha. A CMYK file can only embed
+   * user-supplied (CMYK) profile bytes.
+   */
+  colorModel?: TIFFColorModel;
+}
+
+export type TIFFColorModel = 'rgba' | 'cmyk';
+
+export interface TIFFExportResult {
+  /** Raw TIFF file bytes. */
+  data: Uint8Array;
+  /** MIME type. */
+  mimeType: 'image/tiff';
+  /** Suggested filename. */
+  filename: string;
+}
+
+export function resolveTIFFCompression(compression: TIFFCompression): number {
+  const id = TIFF_COMPRESSIONS[compression];
+  if (!id) {
+    throw new Error(
+      `Unknown TIFF compression: "${compression}". Available: ${Object.keys(TIFF_COMPRESSIONS).join(', ')}`
+    );
+  }
+  return id;
+}
+
+// ─── Tags ────────────────────────────────────────────────────────────
+
+const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  PhotometricInterpretation: 262,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  XResolution: 282,
+  YResolution: 283,
+  PlanarConfiguration: 284,
+  ResolutionUnit: 296,
+  Software: 305,
+  Predictor: 317,
+  InkSet: 332,
+  ExtraSamples: 338,
+  SampleFormat: 339,
+  InterColorProfile: 34675,
+} as const;
+
+/** TIFF field types and their sizes in bytes */
+const TYPE = { ASCII: 2, SHORT: 3, LONG: 4, RATIONAL: 5, UNDEFINED: 7 } as const;
+const TYPE_SIZE: Record<number, number> = { 2: 1, 3: 2, 4: 4, 5: 8, 7: 1 };
+
+interface IFDEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Encoded value, little-endian */
+  value: Uint8Array;
+}
+
+/** Uncompressed bytes per strip to aim for */
+const STRIP_BYTES = 64 * 1024;
+
+// ─── TIFFExporter class ──────────────────────────────────────────────
+
+export class TIFFExporter {
+  /**
+   * Encode RGBA pixel data as a TIFF. The sample type follows the array:
+   * Uint8Array → 8-bit, Uint16Array → 16-bit, Float32Array → 32-bit float.
+   *
+   * @param data - Interleaved RGBA (or CMYK) samples, width × height × 4
+   * @param options - Size, DPI, compression, ICC profile and alpha convention
+   */
+  export(data: Uint8Array | Uint16Array | Float32Array, options: TIFFExportOptions): TIFFExportResult {
+    const steps = this.exportSteps(data, options);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  }
+
+  /**
+   * export() one strip at a time: yields the fraction of strips encoded
+   * (0–1) after each, so a caller can report progress or stop between them.
+   */
+  *exportSteps(
+    data: Uint8Array | Uint16Array | Float32Array,
+    options: TIFFExportOptions
+  ): Generator<number, TIFFExportResult> {
+    const { width, height, dpi, alphaMode = 'straight', colorModel = 'rgba' } = options;
+    const compression = resolveTIFFCompression(options.compression ?? 'lzw');
+
+    if (width <= 0 || height <= 0) {
+      throw new Error(`Invalid dimensions: ${width}x${height}`);
+    }
+    if (dpi <= 0) {
+      throw new Error(`DPI must be positive, got: ${dpi}`);
+    }
+    const expectedLength = width * height * 4;
+    if (data.length !== expectedLength) {
+      throw new Error(
+        `Data length mismatch: expected ${expectedLength} (${width}x${height}x4), got ${data.length}`
+      );
+    }
+    if (alphaMode !== 'straight' && alphaMode !== 'premultiplied') {
+      throw new Error(`Unknown alpha mode: "${alphaMode}". Available: straight, premultiplied`);
+    }
+    if (colorModel !== 'rgba' && colorModel !== 'cmyk') {
+      throw new Error(`Unknown TIFF color model: "${colorModel}". Available: rgba, cmyk`);
+    }
+    const cmyk = colorModel === 'cmyk';
+    if (cmyk && data instanceof Float32Array) {
+      throw new Error('CMYK TIFF requires 8- or 16-bit integer samples');
+    }
+    if (cmyk && typeof options.iccProfile === 'string') {
+      throw new Error(
+        `Bundled profile "${options.iccProfile}" is RGB and cannot tag CMYK data — pass CMYK profile bytes`
+      );
+    }
+
+    const isFloat = data instanceof Float32Array;
+    const bits = data.BYTES_PER_ELEMENT * 8;
+    // Differencing float bit patterns does not help, so only integers are predicted
+    const predictor = compression !== 1 && !isFloat ? 2 : 1;
+    const profile = typeof options.iccProfile === 'string' ? iccProfile(options.iccProfile) : options.iccProfile;
+
+    // Strips, each encoded independently
+    const rowBytes = width * 4 * data.BYTES_PER_ELEMENT;
+    const rowsPerStrip = Math.max(1, Math.min(height, Math.floor(STRIP_BYTES / rowBytes)));
+    const strips: Uint8Array[] = [];
+    for (let y = 0; y < height; y += rowsPerStrip) {
+      const rows = Math.min(rowsPerStrip, height - y);
+      const raw = stripBytes(data, width, y, rows, predictor === 2);
+      strips.push(compression === 5 ? lzwEncode(raw) : compression === 8 ? zlibSync(raw) : raw);
+      yield (y + rows) / height;
+    }
+
+    const [xNum, xDen] = toRational(dpi);
+    const entries: IFDEntry[] = [
+      entry(TAG.ImageWidth, TYPE.LONG, [width]),
+      entry(TAG.ImageLength, TYPE.LONG, [height]),
+      entry(TAG.BitsPerSample, TYPE.SHORT, [bits, bits, bits, bits]),
+      entry(TAG.Compression, TYPE.SHORT, [compression]),
+      entry(TAG.PhotometricInterpretation, TYPE.SHORT, [cmyk ? 5 : 2]), // separated or RGB
+      entry(TAG.StripOffsets, TYPE.LONG, strips.map(() => 0)), // filled in below
+      entry(TAG.SamplesPerPixel, TYPE.SHORT, [4]),
+      entry(TAG.RowsPerStrip, TYPE.LONG, [rowsPerStrip]),
+      entry(TAG.StripByteCounts, TYPE.LONG, strips.map(s => s.length)),
+      entry(TAG.XResolution, TYPE.RATIONAL, [xNum, xDen]),
+      entry(TAG.YResolution, TYPE.RATIONAL, [xNum, xDen]),
+      entry(TAG.PlanarConfiguration, TYPE.SHORT, [1]), // chunky
+      entry(TAG.ResolutionUnit, TYPE.SHORT, [2]), // inch
+      asciiEntry(TAG.Software, 'hd-canvas'),
+      entry(TAG.Predictor, TYPE.SHORT, [predictor]),
+      entry(TAG.SampleFormat, TYPE.SHORT, Array(4).fill(isFloat ? 3 : 1)),
+    ];
+    if (cmyk) {
+      entries.push(entry(TAG.InkSet, TYPE.SHORT, [1])); // CMYK
+    } else {
+      // 1 = associated (premultiplied) alpha, 2 = unassociated (straight)
+      entries.push(entry(TAG.ExtraSamples, TYPE.SHORT, [alphaMode === 'premultiplied' ? 1 : 2]));
+    }
+    if (profile) {
+      entries.push({ tag: TAG.InterColorProfile, type: TYPE.UNDEFINED, count: profile.length, value: profile });
+    }
+    // IFD entries must be in ascending tag order
+    entries.sort((a, b) => a.tag - b.tag);
+
+    // Layout: header, IFD, out-of-line values, strip data
+    const ifdSize = 2 + entries.length * 12 + 4;
+    let offset = 8 + ifdSize;
+    const valueOffsets = entries.map(e => {
+      if (e.value.length <= 4) return -1;
+      const at = offset;
+      offset = align2(offset + e.value.length);
+      return at;
+    });
+    const stripOffsets = strips.map(s => {
+      const at = offset;
+      offset = align2(offset + s.length);
+      return at;
+    });
+    const stripEntry = entries.find(e => e.tag === TAG.StripOffsets)!;
+    stripEntry.value = entry(TAG.StripOffsets, TYPE.LONG, stripOffsets).value;
+
+    const out = new Uint8Array(offset);
+    const view = new DataView(out.buffer);
+    out.set([0x49, 0x49]); // 'II' — little-endian
+    view.setUint16(2, 42, true);
+    view.setUint32(4, 8, true);
+
+    view.setUint16(8, entries.length, true);
+    entries.forEach((e, i) => {
+      const o = 10 + i * 12;
+      view.setUint16(o, e.tag, true);
+      view.setUint16(o + 2, e.type, true);
+      view.setUint32(o + 4, e.count, true);
+      const at = valueOffsets[i]!;
+      if (at === -1) {
+        out.set(e.value, o + 8);
+      } else {
+        view.setUint32(o + 8, at, true);
+        out.set(e.value, at);
+      }
+    });
+    view.setUint32(10 + entries.length * 12, 0, true); // no next IFD
+    strips.forEach((s, i) => out.set(s, stripOffsets[i]!));
+
+    return {
+      data: out,
+      mimeType: 'image/tiff',
+      filename: `artwork-${width}x${height}-${dpi}dpi.tif`,
+    };
+  }
+
+  /**
+   * Export and return as a Blob (browser convenience).
+   */
+  exportBlob(data: Uint8Array | Uint16Array | Float32Array, options: TIFFExportOptions): Blob {
+    const result = this.export(data, options);
+    return new Blob([result.data.buffer as ArrayBuffer], { type: result.mimeType });
+  }
+}
+
+// ─── Encoding ────────────────────────────────────────────────────────
+
+/**
+ * Little-endian bytes of `rows` rows starting at `y`, optionally with
+ * horizontal differencing: each sample minus the same channel of the
+ * pixel to its left, wrapping at the sample size.
+ */
+function stripBytes(
+  data: Uint8Array | Uint16Array | Float32Array,
+  width: number,
+  y: number,
+  rows: number,
+  difference: boolean
+): Uint8Array {
+  const rowLength = width * 4;
+  const start = y * rowLength;
+  const samples = data.slice(start, start + rows * rowLength);
+
+  if (difference && !(samples instanceof Float32Array)) {
+    const mask = samples instanceof Uint16Array ? 0xffff : 0xff;
+    for (let r = 0; r < rows; r++) {
+      const row = r * rowLength;
+      // Right to left, so every difference uses the original left neighbour
+      for (let i = rowLength - 1; i >= 4; i--) {
+        samples[row + i] = (samples[row + i]! - samples[row + i - 4]!) & mask;
+      }
+    }
+  }
+
+  if (samples instanceof Uint8Array) return samples;
+  const out = new Uint8Array(samples.byteLength);
+  const view = new DataView(out.buffer);
+  if (samples instanceof Uint16Array) {
+    for (let i = 0; i < samples.length; i++) view.setUint16(i * 2, samples[i]!, true);
+  } else {
+    for (let i = 0; i < samples.length; i++) view.setFloat32(i * 4, samples[i]!, true);
+  }
+  return out;
+}
+
+const LZW_CLEAR = 256;
+const LZW_EOI = 257;
+const LZW_FIRST = 258;
+/** Codes are at most 12 bits; the table is reset one short of full */
+const LZW_MAX_BITS = 12;
+const LZW_RESET_AT = (1 << LZW_MAX_BITS) - 2;
+
+/**
+ * TIFF LZW: MSB-first variable-width codes starting at 9 bits, with the
+ * width bumped as soon as the next code would not fit ("early change",
+ * as libtiff writes it). Starts with Clear and ends with EOI.
+ */
+export function lzwEncode(input: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let nbits = 9;
+  let maxCode = (1 << nbits) - 1;
+  let next = LZW_FIRST;
+  const table = new Map<number, number>();
+
+  const put = (code: number): void => {
+    bitBuffer = (bitBuffer << nbits) | code;
+    bitCount += nbits;
+    while (bitCount >= 8) {
+      bitCount -= 8;
+      out.push((bitBuffer >>> bitCount) & 0xff);
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+
+  /** Account for a new table entry, widening or resetting as needed */
+  const grow = (): void => {
+    next++;
+    if (next === LZW_RESET_AT) {
+      put(LZW_CLEAR);
+      table.clear();
+      next = LZW_FIRST;
+      nbits = 9;
+      maxCode = (1 << nbits) - 1;
+    } else if (next > maxCode) {
+      nbits++;
+      maxCode = (1 << nbits) - 1;
+    }
+  };
+
+  put(LZW_CLEAR);
+  if (input.length > 0) {
+    let prefix = input[0]!;
+    for (let i = 1; i < input.length; i++) {
+      const byte = input[i]!;
+      const key = (prefix << 8) | byte;
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+      put(prefix);
+      table.set(key, next);
+      grow();
+      prefix = byte;
+    }
+    put(prefix);
+    grow();
+  }
+  put(LZW_EOI);
+  if (bitCount > 0) out.push((bitBuffer << (8 - bitCount)) & 0xff);
+  return Uint8Array.from(out);
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function entry(tag: number, type: number, values: number[]): IFDEntry {
+  const size = TYPE_SIZE[type]!;
+  const count = type === TYPE.RATIONAL ? values.length / 2 : values.length;
+  const value = new Uint8Array(values.length * (type === TYPE.RATIONAL ? 4 : size));
+  const view = new DataView(value.buffer);
+  values.forEach((v, i) => {
+    if (type === TYPE.SHORT) view.setUint16(i * 2, v, true);
+    else view.setUint32(i * 4, v, true);
+  });
+  return { tag, type, count, value };
+}
+
+function asciiEntry(tag: number, text: string): IFDEntry {
+  const value = new Uint8Array(text.length + 1); // null-terminated
+  for (let i = 0; i < text.length; i++) value[i] = text.charCodeAt(i) & 0x7f;
+  return { tag, type: TYPE.ASCII, count: value.length, value };
+}
+
+/** DPI as a RATIONAL — exact for integers, to 1/1000 otherwise */
+function toRational(v: number): [number, number] {
+  return Number.isInteger(v) ? [v, 1] : [Math.round(v * 1000), 1000];
+}
+
+/** TIFF offsets must be word-aligned */
+function align2(n: number): number {
+  return (n + 1) & ~1;
+}
@@ -6,14 +6,30 @@
  *
  * Pipeline per-pixel:
  *   1. Exposure: multiply RGB by 2^exposure
- *   2. Tone map: compress HDR range → [0, 1] using selected algorithm
- *   3. Gamma: apply gamma correction (output = value^(1/gamma))
- *   4. Quantize: float [0,1] → uint8 [0,255] or uint16 [0,65535]
+ *   2. Color space: convert from the buffer's working space to the
+ *      output space's primaries (only when an output space is set)
+ *   3. Tone map: compress HDR range → [0, 1] using selected algorithm,
+ *      per channel or on each pixel's luminance or max(R, G, B)
+ *   4. Encode: the output space's transfer curve (e.g. piecewise sRGB),
+ *      or plain gamma correction (output = value^(1/gamma))
+ *   5. Quantize: float [0,1] → uint8 [0,255] or uint16 [0,65535],
+ *      rounded or dithered
  *
  * Alpha is passed through without tone mapping (clamped to [0,1]).
+ * Premultiplied buffers are unpremultiplied per pixel before step 1,
+ * so the output is always straight alpha (as PNG expects).
  */
 
 import type { IColorBuffer } from '../core/ColorBuffer.js';
+import {
+  colorSpaceMatrix,
+  luminanceWeights,
+  resolveOutputColorSpace,
+  IDENTITY_MATRIX,
+  TRANSFER_FUNCTIONS,
+  type OutputColorSpace,
+  type WorkingColorSpace,
+} from '../core/ColorSpace.js';
 
 // ─── Algorithm definitions ───────────────────────────────────────────
 
@@ -56,22 +72,441 @@ export function aces(v: number): number {
   return mapped < 0 ? 0 : mapped > 1 ? 1 : mapped;
 }
 
+/** Parameters of the extended Reinhard curve. */
+export interface ReinhardExtendedParams {
+  /** Smallest input mapped to pure white. Default: 4. */
+  whitePoint?: number;
+}
+
+/**
+ * Extended Reinhard with a white point: v(1 + v/w²) / (1 + v).
+ * Like reinhard, but reaches 1 at v = whitePoint, so the brightest
+ * values burn out to white instead of stopping just short of it.
+ */
+export function reinhardExtended(params: ReinhardExtendedParams = {}): ToneMapFn {
+  const whitePoint = params.whitePoint ?? 4;
+  if (!(whitePoint > 0)) {
+    throw new RangeError(`Tone map white point must be positive, got ${whitePoint}`);
+  }
+  const invWhite2 = 1 / (whitePoint * whitePoint);
+  return (v) => {
+    if (v < 0) return 0;
+    const mapped = (v * (1 + v * invWhite2)) / (1 + v);
+    return mapped > 1 ? 1 : mapped;
+  };
+}
+
+/** Parameters of Hable's filmic curve, named after its constants A–F and W. */
+export interface HableParams {
+  /** A — how hard the highlights roll off. Default: 0.15. */
+  shoulderStrength?: number;
+  /** B — strength of the linear mid section. Default: 0.5. */
+  linearStrength?: number;
+  /** C — angle of the linear mid section. Default: 0.1. */
+  linearAngle?: number;
+  /** D — how deep the shadows are crushed. Default: 0.2. */
+  toeStrength?: number;
+  /** E — toe numerator. Default: 0.02. */
+  toeNumerator?: number;
+  /** F — toe denominator. Default: 0.3. */
+  toeDenominator?: number;
+  /** W — input mapped to pure white. Default: 11.2. */
+  whitePoint?: number;
+}
+
+/**
+ * John Hable's filmic curve from Uncharted 2:
+ *
+ *   f(x) = (x(Ax + CB) + DE) / (x(Ax + B) + DF) − E/F,  output f(x) / f(W)
+ *
+ * The defaults are Hable's published constants.
+ */
+export function hable(params: HableParams = {}): ToneMapFn {
+  const {
+    shoulderStrength: A = 0.15,
+    linearStrength: B = 0.5,
+    linearAngle: C = 0.1,
+    toeStrength: D = 0.2,
+    toeNumerator: E = 0.02,
+    toeDenominator: F = 0.3,
+    whitePoint: W = 11.2,
+  } = params;
+  if (!(W > 0)) {
+    throw new RangeError(`Tone map white point must be positive, got ${W}`);
+  }
+  const curve = (x: number) => (x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F) - E / F;
+  const white = curve(W);
+  if (!(white > 0) || !Number.isFinite(white)) {
+    throw new RangeError('Hable parameters must map the white point to a positive value');
+  }
+  const invWhite = 1 / white;
+  return (v) => {
+    if (v < 0) return 0;
+    const mapped = curve(v) * invWhite;
+    return mapped < 0 ? 0 : mapped > 1 ? 1 : mapped;
+  };
+}
+
+// ─── Per-pixel operators ─────────────────────────────────────────────
+
+/**
+ * A tone mapping operator that mixes channels. Maps one pixel in place:
+ * unbounded linear RGB in, linear RGB in [0, 1] out.
+ */
+export type ToneMapPixelFn = (rgb: Float64Array) => void;
+
+/**
+ * ACES filmic tone mapping, Stephen Hill's fit of the full Reference
+ * Rendering Transform + sRGB Output Device Transform. Converts to the RRT's
+ * working primaries, applies the fitted RRT+ODT curve per channel, and
+ * converts back — so bright saturated colors desaturate toward white as
+ * they do on film. The matrices assume linear Rec.709 (sRGB) primaries;
+ * ToneMapper converts other spaces around the call (see inRec709).
+ */
+export function acesFitted(rgb: Float64Array): void {
+  const r = rgb[0]!;
+  const g = rgb[1]!;
+  const b = rgb[2]!;
+  const r1 = rrtAndODTFit(0.59719 * r + 0.35458 * g + 0.04823 * b);
+  const g1 = rrtAndODTFit(0.076 * r + 0.90834 * g + 0.01566 * b);
+  const b1 = rrtAndODTFit(0.0284 * r + 0.13383 * g + 0.83777 * b);
+  rgb[0] = clamp(1.60475 * r1 - 0.53108 * g1 - 0.07367 * b1);
+  rgb[1] = clamp(-0.10208 * r1 + 1.10813 * g1 - 0.00605 * b1);
+  rgb[2] = clamp(-0.00327 * r1 - 0.07276 * g1 + 1.07602 * b1);
+}
+
+function rrtAndODTFit(v: number): number {
+  return (v * (v + 0.0245786) - 0.000090537) / (v * (0.983729 * v + 0.432951) + 0.238081);
+}
+
+/** An AgX look: an ASC CDL-style grade applied to the AgX base image. */
+export interface AgXLookParams {
+  /** Multiplier per channel or for all. Default: 1. */
+  slope?: number | readonly [number, number, number];
+  /** Added after slope. Default: 0. */
+  offset?: number | readonly [number, number, number];
+  /** Contrast power. Default: 1. */
+  power?: number | readonly [number, number, number];
+  /** Saturation around Rec.709 luma. Default: 1. */
+  saturation?: number;
+}
+
+/** Built-in AgX looks. */
+export const AGX_LOOKS = {
+  /** The plain AgX base image */
+  base: {},
+  /** More contrast and saturation */
+  punchy: { power: 1.35, saturation: 1.4 },
+} as const;
+
+export type AgXLook = keyof typeof AGX_LOOKS;
+
+/** Parameters of the AgX view transform. */
+export interface AgXParams {
+  /** Look applied to the base image — a built-in name or a custom grade. Default: 'base'. */
+  look?: AgXLook | AgXLookParams;
+}
+
+// AgX log encoding range, in stops around middle grey
+const AGX_MIN_EV = -12.47393;
+const AGX_MAX_EV = 4.026069;
+
+/**
+ * AgX (Troy Sobotka's view transform, as in Blender 4): insets the
+ * primaries, log-encodes 16.5 stops, applies a sigmoid contrast curve
+ * and outsets the primaries again. Highlights of any hue converge
+ * smoothly to white without the hue skews of per-channel curves. The
+ * matrices assume linear Rec.709 (sRGB) primaries; ToneMapper converts
+ * other spaces around the call (see inRec709).
+ */
+export function agx(params: AgXParams = {}): ToneMapPixelFn {
+  const lookParams: AgXLookParams =
+    typeof params.look === 'object' ? params.look : resolveAgXLook(params.look ?? 'base');
+  const channel = (v: number | readonly [number, number, number] | undefined, fallback: number) =>
+    v === undefined ? [fallback, fallback, fallback] : typeof v === 'number' ? [v, v, v] : v;
+  const [sr, sg, sb] = channel(lookParams.slope, 1) as [number, number, number];
+  const [or, og, ob] = channel(lookParams.offset, 0) as [number, number, number];
+  const [pr, pg, pb] = channel(lookParams.power, 1) as [number, number, number];
+  const saturation = lookParams.saturation ?? 1;
+  const hasLook = sr !== 1 || sg !== 1 || sb !== 1 || or !== 0 || og !== 0 || ob !== 0 ||
+    pr !== 1 || pg !== 1 || pb !== 1 || saturation !== 1;
+
+  return (rgb) => {
+    const r = rgb[0]!;
+    const g = rgb[1]!;
+    const b = rgb[2]!;
+    // Inset
+    let r1 = agxContrast(0.842479062253094 * r + 0.0784335999999992 * g + 0.0792237451477643 * b);
+    let g1 = agxContrast(0.0423282422610123 * r + 0.878468636469772 * g + 0.0791661274605434 * b);
+    let b1 = agxContrast(0.0423756549057051 * r + 0.0784336 * g + 0.879142973793104 * b);
+
+    if (hasLook) {
+      r1 = Math.pow(Math.max(0, r1 * sr + or), pr);
+      g1 = Math.pow(Math.max(0, g1 * sg + og), pg);
+      b1 = Math.pow(Math.max(0, b1 * sb + ob), pb);
+      const luma = 0.2126 * r1 + 0.7152 * g1 + 0.0722 * b1;
+      r1 = luma + saturation * (r1 - luma);
+      g1 = luma + saturation * (g1 - luma);
+      b1 = luma + saturation * (b1 - luma);
+    }
+
+    // Outset, then undo the curve's built-in 2.2 display encoding
+    rgb[0] = Math.pow(clamp(1.19687900512017 * r1 - 0.0980208811401368 * g1 - 0.0990297440797205 * b1), 2.2);
+    rgb[1] = Math.pow(clamp(-0.0528968517574562 * r1 + 1.15190312990417 * g1 - 0.0989611768448433 * b1), 2.2);
+    rgb[2] = Math.pow(clamp(-0.0529716355144438 * r1 - 0.0980434501171241 * g1 + 1.15107367264116 * b1), 2.2);
+  };
+}
+
+export function resolveAgXLook(look: AgXLook): AgXLookParams {
+  const params = AGX_LOOKS[look];
+  if (!params) {
+    throw new Error(`Unknown AgX look: "${look}". Available: ${Object.keys(AGX_LOOKS).join(', ')}`);
+  }
+  return params;
+}
+
+/** Log-encode one inset channel and apply the AgX sigmoid (a 6th-order fit) */
+function agxContrast(v: number): number {
+  const ev = v > 0 ? Math.log2(v) : AGX_MIN_EV;
+  const x = (Math.min(AGX_MAX_EV, Math.max(AGX_MIN_EV, ev)) - AGX_MIN_EV) / (AGX_MAX_EV - AGX_MIN_EV);
+  const x2 = x * x;
+  const x4 = x2 * x2;
+  return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4 - 6.868 * x2 * x + 0.4298 * x2 + 0.1191 * x - 0.00232;
+}
+
+/**
+ * A per-pixel operator (built for linear Rec.709 primaries) for RGB in
+ * `space`: converts to linear sRGB, maps, and converts back. Returns the
+ * operator itself when `space` already has the Rec.709 primaries.
+ */
+function inRec709(operator: ToneMapPixelFn, space: WorkingColorSpace | OutputColorSpace): ToneMapPixelFn {
+  const toRec709 = colorSpaceMatrix(space, 'linear-srgb');
+  if (toRec709 === IDENTITY_MATRIX) return operator;
+  const [a0, a1, a2, a3, a4, a5, a6, a7, a8] = toRec709;
+  const [b0, b1, b2, b3, b4, b5, b6, b7, b8] = colorSpaceMatrix('linear-srgb', space);
+
+  return (rgb) => {
+    let r = rgb[0]!;
+    let g = rgb[1]!;
+    let b = rgb[2]!;
+    rgb[0] = a0 * r + a1 * g + a2 * b;
+    rgb[1] = a3 * r + a4 * g + a5 * b;
+    rgb[2] = a6 * r + a7 * g + a8 * b;
+    operator(rgb);
+    r = rgb[0]!;
+    g = rgb[1]!;
+    b = rgb[2]!;
+    rgb[0] = b0 * r + b1 * g + b2 * b;
+    rgb[1] = b3 * r + b4 * g + b5 * b;
+    rgb[2] = b6 * r + b7 * g + b8 * b;
+  };
+}
+
+// ─── Algorithm registry ──────────────────────────────────────────────
+
+/** Parameters of every configurable algorithm */
+export type ToneMapParams = ReinhardExtendedParams & HableParams & AgXParams;
+
+/**
+ * A built-in algorithm: builds a per-channel curve or a per-pixel
+ * operator from its parameters.
+ */
+export type ToneMapAlgorithmDef =
+  | { channel(params: ToneMapParams): ToneMapFn }
+  | { pixel(params: ToneMapParams): ToneMapPixelFn };
+
 /** Built-in algorithm registry. */
 export const TONE_MAP_ALGORITHMS = {
-  clamp,
-  reinhard,
-  aces,
+  clamp: { channel: () => clamp },
+  reinhard: { channel: () => reinhard },
+  'reinhard-extended': { channel: (params: ToneMapParams) => reinhardExtended(params) },
+  aces: { channel: () => aces },
+  'aces-fitted': { pixel: () => acesFitted },
+  hable: { channel: (params: ToneMapParams) => hable(params) },
+  agx: { pixel: (params: ToneMapParams) => agx(params) },
 } as const;
 
 export type ToneMapAlgorithm = keyof typeof TONE_MAP_ALGORITHMS;
 
+/** An algorithm by name with its parameters, e.g. { algorithm: 'hable', toeStrength: 0.3 } */
+export type ToneMapSettings =
+  | { algorithm: 'clamp' | 'reinhard' | 'aces' | 'aces-fitted' }
+  | ({ algorithm: 'reinhard-extended' } & ReinhardExtendedParams)
+  | ({ algorithm: 'hable' } & HableParams)
+  | ({ algorithm: 'agx' } & AgXParams);
+
+export function resolveToneMapAlgorithm(algorithm: ToneMapAlgorithm): ToneMapAlgorithmDef {
+  const def = TONE_MAP_ALGORITHMS[algorithm];
+  if (!def) {
+    throw new Error(
+      `Unknown tone map algorithm: "${algorithm}". ` +
+      `Available: ${Object.keys(TONE_MAP_ALGORITHMS).join(', ')}`
+    );
+  }
+  return def;
+}
+
+// ─── Dithering ───────────────────────────────────────────────────────
+
+/**
+ * How encoded values are quantized to integers:
+ *   none            — round to nearest (smooth gradients may band)
+ *   ordered         — 8×8 Bayer threshold matrix
+ *   blue-noise      — 64×64 void-and-cluster threshold tile: no visible
+ *                     pattern, noise pushed to high frequencies
+ *   triangular      — triangular-PDF random noise of ±1 code value,
+ *                     independent per channel
+ *   floyd-steinberg — error diffusion, left to right and top to bottom
+ *
+ * Ordered and blue-noise use the same threshold for R, G and B, so greys
+ * stay neutral. Every pattern depends only on the pixel's position and the
+ * seed, so exports are reproducible and strips match the whole image.
+ */
+export const DITHER_METHODS = ['none', 'ordered', 'blue-noise', 'triangular', 'floyd-steinberg'] as const;
+
+export type DitherMethod = (typeof DITHER_METHODS)[number];
+
+/** Dithers one code value (0..maxVal, unrounded) of channel `c` at (x, y) */
+type DitherFn = (code: number, x: number, y: number, c: number) => number;
+
+/** Floyd–Steinberg errors of row `row` (being quantized) and the row after it */
+interface DiffusionState {
+  width: number;
+  row: number;
+  current: Float32Array;
+  next: Float32Array;
+}
+
+/** 32-bit integer hash of a position, channel and seed (murmur3 finalizer) */
+function hashPosition(x: number, y: number, c: number, seed: number): number {
+  let h = Math.imul(x, 0x9e3779b1) ^ Math.imul(y, 0x85ebca77) ^ Math.imul(c + 1, 0xc2b2ae3d) ^ seed;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/** 8×8 Bayer matrix as thresholds in (−0.5, 0.5) */
+const BAYER_8 = (() => {
+  const thresholds = new Float32Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      // Interleave the bits of x ^ y and y, most significant first
+      const xy = x ^ y;
+      const rank =
+        ((xy & 1) << 5) | ((y & 1) << 4) | ((xy & 2) << 2) | ((y & 2) << 1) | ((xy & 4) >> 1) | ((y & 4) >> 2);
+      thresholds[y * 8 + x] = (rank + 0.5) / 64 - 0.5;
+    }
+  }
+  return thresholds;
+})();
+
+const BLUE_NOISE_SIZE = 64;
+let blueNoiseTile: Float32Array | null = null;
+
+/**
+ * 64×64 blue-noise thresholds in (−0.5, 0.5), tiling seamlessly. Built
+ * once with Ulichney's void-and-cluster method: each pixel's rank is the
+ * order in which it fills the largest remaining void.
+ */
+function blueNoise(): Float32Array {
+  if (blueNoiseTile) return blueNoiseTile;
+
+  const size = BLUE_NOISE_SIZE;
+  const n = size * size;
+  const sigma = 1.5;
+  const radius = 6;
+
+  // Toroidal Gaussian energy of the set pixels around each pixel
+  const kernel: number[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) kernel.push(Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma)));
+  }
+  const toggle = (pattern: Uint8Array, energy: Float64Array, i: number, on: boolean) => {
+    pattern[i] = on ? 1 : 0;
+    const x = i % size;
+    const y = (i / size) | 0;
+    let k = 0;
+    for (let dy = -radius; dy <= radius; dy++) {
+      const row = ((y + dy + size) % size) * size;
+      for (let dx = -radius; dx <= radius; dx++) {
+        energy[row + ((x + dx + size) % size)]! += on ? kernel[k++]! : -kernel[k++]!;
+      }
+    }
+  };
+  // Tightest cluster: the set pixel with most energy; largest void: the empty one with least
+  const extreme = (pattern: Uint8Array, energy: Float64Array, set: 0 | 1) => {
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (pattern[i] !== set) continue;
+      if (best < 0 || (set ? energy[i]! > energy[best]! : energy[i]! < energy[best]!)) best = i;
+    }
+    return best;
+  };
+
+  // Initial pattern: 10% of the pixels, then swap clusters into voids until stable
+  const pattern = new Uint8Array(n);
+  const energy = new Float64Array(n);
+  let ones = 0;
+  for (let i = 0; ones < n / 10; i++) {
+    const p = hashPosition(i, 0, 0, 0x5eed) % n;
+    if (!pattern[p]) {
+      toggle(pattern, energy, p, true);
+      ones++;
+    }
+  }
+  for (let iteration = 0; iteration < n; iteration++) {
+    const cluster = extreme(pattern, energy, 1);
+    toggle(pattern, energy, cluster, false);
+    const gap = extreme(pattern, energy, 0);
+    toggle(pattern, energy, gap, true);
+    if (gap === cluster) break;
+  }
+
+  const ranks = new Uint32Array(n);
+  // Rank the initial pixels by removing clusters…
+  const removing = pattern.slice();
+  const removingEnergy = energy.slice();
+  for (let rank = ones - 1; rank >= 0; rank--) {
+    const cluster = extreme(removing, removingEnergy, 1);
+    toggle(removing, removingEnergy, cluster, false);
+    ranks[cluster] = rank;
+  }
+  // …and the rest by filling voids
+  for (let rank = ones; rank < n; rank++) {
+    const gap = extreme(pattern, energy, 0);
+    toggle(pattern, energy, gap, true);
+    ranks[gap] = rank;
+  }
+
+  blueNoiseTile = new Float32Array(n);
+  for (let i = 0; i < n; i++) blueNoiseTile[i] = (ranks[i]! + 0.5) / n - 0.5;
+  return blueNoiseTile;
+}
+
 // ─── Options ─────────────────────────────────────────────────────────
 
 export type OutputDepth = 8 | 16;
 
+/**
+ * What a per-channel curve is applied to:
+ *   channel   — R, G and B independently (saturated highlights shift
+ *               toward the primaries' secondaries and white)
+ *   luminance — the pixel's luminance; RGB is rescaled to match, keeping
+ *               hue and saturation. Colors pushed out of range are
+ *               desaturated at constant luminance until they fit.
+ *   max-rgb   — the brightest channel; RGB is rescaled to match, so
+ *               nothing clips and hue is kept
+ */
+export const TONE_MAP_MODES = ['channel', 'luminance', 'max-rgb'] as const;
+
+export type ToneMapMode = (typeof TONE_MAP_MODES)[number];
+
 export interface ToneMapOptions {
-  /** Tone mapping algorithm name or custom function. */
-  algorithm: ToneMapAlgorithm | ToneMapFn;
+  /**
+   * Tone mapping algorithm: a name, a name with parameters
+   * ({ algorithm: 'hable', toeStrength: 0.3 }) or a custom function.
+   */
+  algorithm: ToneMapAlgorithm | ToneMapSettings | ToneMapFn;
 
   /**
    * Exposure adjustment in stops. RGB values are multiplied by 2^exposure
@@ -81,72 +516,278 @@ export interface ToneMapOptions {
 
   /**
    * Gamma correction value. Applied after tone mapping as v^(1/gamma).
-   * Default: 2.2 (standard sRGB).
+   * When set, replaces the transfer curve of `colorSpace`.
+   * Default: 2.2 when no `colorSpace` is given.
    */
   gamma?: number;
 
+  /**
+   * Output color space. RGB is converted from the input buffer's working
+   * space to these primaries, and encoded with the space's transfer curve.
+   * Default: none — values are encoded as-is with `gamma`.
+   */
+  colorSpace?: OutputColorSpace;
+
   /**
    * Output bit depth. 8 → Uint8Array [0,255], 16 → Uint16Array [0,65535].
    * Default: 8.
    */
   outputDepth?: OutputDepth;
+
+  /**
+   * Apply the curve per channel, to luminance or to max(R, G, B) — see
+   * TONE_MAP_MODES. Per-pixel algorithms ('agx', 'aces-fitted') only
+   * support 'channel'. Default: 'channel'.
+   */
+  mode?: ToneMapMode;
+
+  /**
+   * Highlight desaturation, 0–1: after tone mapping, each pixel is blended
+   * toward grey of its own luminance by this amount × that luminance, so
+   * the brightest colors roll off to white. Default: 0.
+   */
+  highlightDesaturation?: number;
+
+  /**
+   * Dithering applied when quantizing R, G and B in `map`/`mapRows` — see
+   * DITHER_METHODS. Alpha is always rounded. Default: 'none'.
+   */
+  dither?: DitherMethod;
+
+  /**
+   * Integer seed for the dither pattern: shifts the ordered and blue-noise
+   * tiles and seeds the triangular noise. Floyd–Steinberg ignores it.
+   * Default: 0.
+   */
+  ditherSeed?: number;
 }
 
 // ─── ToneMapper class ────────────────────────────────────────────────
 
 export class ToneMapper {
-  private readonly mapFn: ToneMapFn;
+  /** Per-channel curve, or null when a per-pixel operator is used */
+  private readonly mapFn: ToneMapFn | null;
+  private readonly mapPixel: ToneMapPixelFn | null;
+  private readonly mode: ToneMapMode;
+  private readonly desaturation: number;
   private readonly exposureMultiplier: number;
-  private readonly invGamma: number;
+  private readonly encode: (v: number) => number;
+  private readonly colorSpace: OutputColorSpace | null;
   private readonly outputDepth: OutputDepth;
   private readonly maxVal: number;
+  private readonly dither: DitherMethod;
+  private readonly ditherSeed: number;
+  /** Error carried from the last mapRows call, for the rows that follow it */
+  private diffusion: DiffusionState | null = null;
 
   constructor(options: ToneMapOptions) {
     // Resolve algorithm
     if (typeof options.algorithm === 'function') {
       this.mapFn = options.algorithm;
+      this.mapPixel = null;
     } else {
-      const fn = TONE_MAP_ALGORITHMS[options.algorithm];
-      if (!fn) {
-        throw new Error(
-          `Unknown tone map algorithm: "${options.algorithm}". ` +
-          `Available: ${Object.keys(TONE_MAP_ALGORITHMS).join(', ')}`
-        );
-      }
-      this.mapFn = fn;
+      const { algorithm, ...params } =
+        typeof options.algorithm === 'string' ? { algorithm: options.algorithm } : options.algorithm;
+      const def = resolveToneMapAlgorithm(algorithm);
+      this.mapFn = 'channel' in def ? def.channel(params) : null;
+      this.mapPixel = 'pixel' in def ? def.pixel(params) : null;
+    }
+
+    this.mode = options.mode ?? 'channel';
+    if (!TONE_MAP_MODES.includes(this.mode)) {
+      throw new Error(`Unknown tone map mode: "${this.mode}". Available: ${TONE_MAP_MODES.join(', ')}`);
+    }
+    if (this.mode !== 'channel' && this.mapPixel) {
+      throw new Error(`Tone map mode "${this.mode}" needs a per-channel algorithm`);
+    }
+    this.desaturation = options.highlightDesaturation ?? 0;
+    if (!(this.desaturation >= 0 && this.desaturation <= 1)) {
+      throw new RangeError(`Highlight desaturation must be between 0 and 1, got ${this.desaturation}`);
     }
 
     const exposure = options.exposure ?? 0;
     this.exposureMultiplier = Math.pow(2, exposure);
 
-    const gamma = options.gamma ?? 2.2;
-    if (gamma <= 0) {
-      throw new Error(`Gamma must be positive, got: ${gamma}`);
+    this.colorSpace = options.colorSpace ?? null;
+    if (options.gamma === undefined && this.colorSpace) {
+      this.encode = TRANSFER_FUNCTIONS[resolveOutputColorSpace(this.colorSpace).transfer].encode;
+    } else {
+      if (this.colorSpace) resolveOutputColorSpace(this.colorSpace);
+      const gamma = options.gamma ?? 2.2;
+      if (gamma <= 0) {
+        throw new Error(`Gamma must be positive, got: ${gamma}`);
+      }
+      const invGamma = 1 / gamma;
+      this.encode = v => Math.pow(v, invGamma);
     }
-    this.invGamma = 1 / gamma;
 
     this.outputDepth = options.outputDepth ?? 8;
     if (this.outputDepth !== 8 && this.outputDepth !== 16) {
       throw new Error(`Output depth must be 8 or 16, got: ${this.outputDepth}`);
     }
     this.maxVal = this.outputDepth === 16 ? 65535 : 255;
+
+    this.dither = options.dither ?? 'none';
+    if (!DITHER_METHODS.includes(this.dither)) {
+      throw new Error(`Unknown dither method: "${this.dither}". Available: ${DITHER_METHODS.join(', ')}`);
+    }
+    const seed = options.ditherSeed ?? 0;
+    if (!Number.isInteger(seed)) {
+      throw new RangeError(`Dither seed must be an integer, got ${seed}`);
+    }
+    this.ditherSeed = seed | 0;
   }
 
   /**
    * Map a single HDR channel value through the full pipeline.
-   * Useful for testing. Does NOT apply to alpha.
+   * Useful for testing. Does NOT apply to alpha, and skips the color
+   * space conversion (which needs all three channels). Per-pixel
+   * operators map the grey pixel (v, v, v) — as do the luminance and
+   * max-RGB modes, which leave grey unchanged from 'channel'.
    */
   mapValue(v: number): number {
     // 1. Exposure
     const exposed = v * this.exposureMultiplier;
     // 2. Tone map
-    const mapped = this.mapFn(exposed);
-    // 3. Gamma
-    return Math.pow(mapped, this.invGamma);
+    let mapped: number;
+    if (this.mapFn) {
+      mapped = this.mapFn(exposed);
+    } else {
+      const rgb = Float64Array.of(exposed, exposed, exposed);
+      this.mapPixel!(rgb);
+      mapped = rgb[0]!;
+    }
+    // 3. Encode
+    return this.encode(mapped);
+  }
+
+  /**
+   * The whole-pixel mapping for RGB in `space`: the algorithm's own
+   * per-pixel operator, or the channel curve applied in the selected
+   * mode, followed by highlight desaturation. Null when the channel
+   * curve can run on its own.
+   */
+  private pixelOperator(space: WorkingColorSpace | OutputColorSpace): ToneMapPixelFn | null {
+    const operator = this.mapPixel && inRec709(this.mapPixel, space);
+    if (this.mode === 'channel' && this.desaturation === 0) return operator;
+
+    const [wr, wg, wb] = luminanceWeights(space);
+    const curve = this.mapFn;
+    const mode = this.mode;
+    const amount = this.desaturation;
+
+    return (rgb) => {
+      let r = rgb[0]!;
+      let g = rgb[1]!;
+      let b = rgb[2]!;
+      if (operator) {
+        operator(rgb);
+        r = rgb[0]!;
+        g = rgb[1]!;
+        b = rgb[2]!;
+      } else if (mode === 'channel') {
+        r = curve!(r);
+        g = curve!(g);
+        b = curve!(b);
+      } else {
+        // Map one scalar per pixel and scale RGB by the same factor
+        const v = mode === 'luminance' ? wr * r + wg * g + wb * b : Math.max(r, g, b);
+        const scale = v > 0 ? curve!(v) / v : 0;
+        r *= scale;
+        g *= scale;
+        b *= scale;
+      }
+
+      const y = wr * r + wg * g + wb * b;
+      if (amount > 0 && y > 0) {
+        const k = amount * (y < 1 ? y : 1);
+        r += (y - r) * k;
+        g += (y - g) * k;
+        b += (y - b) * k;
+      }
+
+      // Out of range: desaturate toward grey at constant luminance until it fits
+      const max = Math.max(r, g, b);
+      if (max > 1) {
+        if (y >= 1) {
+          r = g = b = 1;
+        } else {
+          const s = (1 - y) / (max - y);
+          r = y + (r - y) * s;
+          g = y + (g - y) * s;
+          b = y + (b - y) * s;
+        }
+      }
+      rgb[0] = r;
+      rgb[1] = g;
+      rgb[2] = b;
+    };
+  }
+
+  /**
+   * The quantizer for `dither`, or null to round to nearest. Patterns are
+   * indexed by image position; Floyd–Steinberg continues from the previous
+   * call when that ended on the row before `firstRow` (at the same width).
+   */
+  private ditherer(width: number, firstRow: number): DitherFn | null {
+    const maxVal = this.maxVal;
+    const seed = this.ditherSeed;
+    const round = (v: number) => (v <= 0 ? 0 : v >= maxVal ? maxVal : Math.round(v));
+
+    switch (this.dither) {
+      case 'none':
+        return null;
+      case 'ordered': {
+        const ox = hashPosition(0, 0, 0, seed) & 7;
+        const oy = hashPosition(0, 0, 1, seed) & 7;
+        return (code, x, y) => round(code + BAYER_8[((y + oy) & 7) * 8 + ((x + ox) & 7)]!);
+      }
+      case 'blue-noise': {
+        const tile = blueNoise();
+        const mask = BLUE_NOISE_SIZE - 1;
+        const ox = hashPosition(0, 0, 0, seed) & mask;
+        const oy = hashPosition(0, 0, 1, seed) & mask;
+        return (code, x, y) => round(code + tile[((y + oy) & mask) * BLUE_NOISE_SIZE + ((x + ox) & mask)]!);
+      }
+      case 'triangular':
+        // Sum of two uniform variables in [0, 1), shifted to (−1, 1)
+        return (code, x, y, c) =>
+          round(code + (hashPosition(x, y, c, seed) + hashPosition(x, y, c + 3, seed)) / 4294967296 - 1);
+      case 'floyd-steinberg': {
+        const carried = this.diffusion;
+        const state: DiffusionState =
+          carried && carried.width === width && carried.row === firstRow - 1
+            ? carried
+            : { width, row: firstRow, current: new Float32Array(width * 3), next: new Float32Array(width * 3) };
+        this.diffusion = state;
+        return (code, x, y, c) => {
+          if (y !== state.row) {
+            const used = state.current;
+            state.current = state.next;
+            state.next = used.fill(0);
+            state.row = y;
+          }
+          const { current, next } = state;
+          const k = x * 3 + c;
+          const v = code + current[k]!;
+          const q = round(v);
+          const error = v - q;
+          if (x + 1 < width) {
+            current[k + 3]! += error * (7 / 16);
+            next[k + 3]! += error * (1 / 16);
+          }
+          if (x > 0) next[k - 3]! += error * (3 / 16);
+          next[k]! += error * (5 / 16);
+          return q;
+        };
+      }
+    }
   }
 
   /**
-   * Quantize a [0,1] float to the output integer range.
+   * Quantize a [0,1] float to the output integer range, rounding to
+   * nearest. Dithering needs the pixel position, so it only applies in
+   * `map` and `mapRows`.
    */
   quantize(v: number): number {
     const clamped = v < 0 ? 0 : v > 1 ? 1 : v;
@@ -160,9 +801,24 @@ export class ToneMapper {
    * Output has the same pixel layout: 4 values per pixel [R, G, B, A].
    */
   map(input: IColorBuffer): Uint8Array | Uint16Array {
-    const pixelCount = input.width * input.height;
+    return this.mapRows(input, 0, input.height);
+  }
+
+  /**
+   * Process `rows` rows starting at row `y` → quantized RGBA output for
+   * just those rows. Lets large buffers be exported strip by strip
+   * without holding the whole LDR image in memory. `originY` is the row
+   * of `input`'s first row in the full image, when `input` holds a band of
+   * it, so dither patterns line up across bands.
+   */
+  mapRows(input: IColorBuffer, y: number, rows: number, originY = 0): Uint8Array | Uint16Array {
+    if (!Number.isInteger(y) || !Number.isInteger(rows) || y < 0 || rows < 0 || y + rows > input.height) {
+      throw new RangeError(`Row range ${y}+${rows} is outside the buffer height ${input.height}`);
+    }
+    const pixelCount = input.width * rows;
     const totalValues = pixelCount * 4;
-    const src = input.data;
+    const start = y * input.width * 4;
+    const src = input.data.subarray(start, start + totalValues);
 
     const dst: Uint8Array | Uint16Array =
       this.outputDepth === 16
@@ -170,14 +826,27 @@ export class ToneMapper {
         : new Uint8Array(totalValues);
 
     const exposureMul = this.exposureMultiplier;
-    const mapFn = this.mapFn;
-    const invGamma = this.invGamma;
+    // Per-pixel operators run first; the channel curve is then a no-op clamp
+    const mapPixel = this.pixelOperator(this.colorSpace ?? input.colorSpace ?? 'linear-srgb');
+    const mapFn = mapPixel ? clamp : this.mapFn!;
+    const encode = this.encode;
     const maxVal = this.maxVal;
-
-    // Build a LUT for gamma correction when outputting 8-bit.
-    // Maps integer [0..LUT_SIZE] → gamma-corrected [0..maxVal].
+    const premultiplied = input.alphaMode === 'premultiplied';
+    const width = input.width;
+    const firstRow = originY + y;
+    const dither = this.ditherer(width, firstRow);
+
+    // Working space → output primaries; identity when no output space is set
+    const matrix = this.colorSpace
+      ? colorSpaceMatrix(input.colorSpace ?? 'linear-srgb', this.colorSpace)
+      : IDENTITY_MATRIX;
+    const convert = matrix !== IDENTITY_MATRIX;
+    const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = matrix;
+
+    // Build a LUT for the transfer curve when outputting 8-bit.
+    // Maps integer [0..LUT_SIZE] → encoded [0..maxVal].
     // This replaces per-pixel Math.pow with a table lookup.
-    const useGammaLut = this.outputDepth === 8;
+    const useGammaLut = this.outputDepth === 8 && !dither;
     const LUT_SIZE = 4096;
     let gammaLut: Uint8Array | null = null;
 
@@ -185,46 +854,88 @@ export class ToneMapper {
       gammaLut = new Uint8Array(LUT_SIZE + 1);
       for (let i = 0; i <= LUT_SIZE; i++) {
         const v = i / LUT_SIZE;
-        gammaLut[i] = Math.round(Math.pow(v, invGamma) * maxVal);
+        gammaLut[i] = Math.round(encode(v) * maxVal);
       }
     }
 
     // Hot loop — fully unrolled RGB channels, no inner loop.
     // Non-null assertions are safe: loop bounds are derived from array length.
     if (gammaLut) {
-      // Fast path: 8-bit output with LUT gamma
+      // Fast path: 8-bit output with LUT encoding
+      const pixel = new Float64Array(3);
       for (let i = 0; i < totalValues; i += 4) {
+        const a = src[i + 3]!;
+        const colorMul = premultiplied ? (a === 0 ? 0 : exposureMul / a) : exposureMul;
+        let r = src[i]! * colorMul;
+        let g = src[i + 1]! * colorMul;
+        let b = src[i + 2]! * colorMul;
+        if (convert) {
+          const r0 = r;
+          const g0 = g;
+          r = m0 * r0 + m1 * g0 + m2 * b;
+          g = m3 * r0 + m4 * g0 + m5 * b;
+          b = m6 * r0 + m7 * g0 + m8 * b;
+        }
+        if (mapPixel) {
+          pixel[0] = r;
+          pixel[1] = g;
+          pixel[2] = b;
+          mapPixel(pixel);
+          r = pixel[0]!;
+          g = pixel[1]!;
+          b = pixel[2]!;
+        }
+
         // R
-        let mapped = mapFn(src[i]! * exposureMul);
+        let mapped = mapFn(r);
         mapped = mapped < 0 ? 0 : mapped > 1 ? 1 : mapped;
         dst[i] = gammaLut[(mapped * LUT_SIZE + 0.5) | 0]!;
 
         // G
-        mapped = mapFn(src[i + 1]! * exposureMul);
+        mapped = mapFn(g);
         mapped = mapped < 0 ? 0 : mapped > 1 ? 1 : mapped;
         dst[i + 1] = gammaLut[(mapped * LUT_SIZE + 0.5) | 0]!;
 
         // B
-        mapped = mapFn(src[i + 2]! * exposureMul);
+        mapped = mapFn(b);
         mapped = mapped < 0 ? 0 : mapped > 1 ? 1 : mapped;
         dst[i + 2] = gammaLut[(mapped * LUT_SIZE + 0.5) | 0]!;
 
         // Alpha: clamp and quantize directly
-        const a = src[i + 3]!;
         dst[i + 3] = Math.round((a < 0 ? 0 : a > 1 ? 1 : a) * maxVal);
       }
     } else {
-      // 16-bit path: use Math.pow (LUT would be too large)
+      // 16-bit or dithered path: encode per value (LUT would be too large,
+      // or too coarse to dither)
+      const rgb = new Float64Array(3);
       for (let i = 0; i < totalValues; i += 4) {
+        const pixelIndex = i >> 2;
+        const px = pixelIndex % width;
+        const py = firstRow + ((pixelIndex / width) | 0);
+        const a = src[i + 3]!;
+        const colorMul = premultiplied ? (a === 0 ? 0 : exposureMul / a) : exposureMul;
+        const r = src[i]! * colorMul;
+        const g = src[i + 1]! * colorMul;
+        const b = src[i + 2]! * colorMul;
+        if (convert) {
+          rgb[0] = m0 * r + m1 * g + m2 * b;
+          rgb[1] = m3 * r + m4 * g + m5 * b;
+          rgb[2] = m6 * r + m7 * g + m8 * b;
+        } else {
+          rgb[0] = r;
+          rgb[1] = g;
+          rgb[2] = b;
+        }
+        if (mapPixel) mapPixel(rgb);
+
         for (let c = 0; c < 3; c++) {
-          const exposed = src[i + c]! * exposureMul;
-          const mapped = mapFn(exposed);
-          const gammaed = Math.pow(mapped, invGamma);
-          const clamped = gammaed < 0 ? 0 : gammaed > 1 ? 1 : gammaed;
-          dst[i + c] = Math.round(clamped * maxVal);
+          let mapped = mapFn(rgb[c]!);
+          mapped = mapped < 0 ? 0 : mapped > 1 ? 1 : mapped;
+          const encoded = encode(mapped);
+          const clamped = encoded < 0 ? 0 : encoded > 1 ? 1 : encoded;
+          dst[i + c] = dither ? dither(clamped * maxVal, px, py, c) : Math.round(clamped * maxVal);
         }
 
-        const a = src[i + 3]!;
         const aClamped = a < 0 ? 0 : a > 1 ? 1 : a;
         dst[i + 3] = Math.round(aClamped * maxVal);
       }
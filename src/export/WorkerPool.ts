@@ -0,0 +1,399 @@
+/**
+ * WorkerPool — Exports off the main thread
+ *
+ * Tone mapping and encoding a print-sized buffer takes seconds, during
+ * which a main-thread export freezes the preview. An ExportWorkerPool
+ * runs the same pipeline in Web Workers (browser) or worker_threads
+ * (Node.js):
+ *
+ *   1. The buffer is split into row bands, one per worker. A buffer whose
+ *      data lives on a SharedArrayBuffer (ColorBuffer's `shared` option)
+ *      is shared with every worker; otherwise each band is copied and
+ *      transferred. Floyd–Steinberg dithering carries error from row to
+ *      row, so it is tone-mapped as a single band.
+ *   2. The workers tone-map their bands in parallel.
+ *   3. One worker encodes the assembled image (or, for EXR, HDR and float
+ *      TIFF, the float buffer itself).
+ *
+ * The result is byte-for-byte the Blob exportBuffer produces. Bloom, when
+ * requested, still runs on the calling thread before the work is handed
+ * out — in strips, yielding and checking the signal like exportBufferAsync.
+ */
+
+import {
+  ExportAbortedError,
+  copyBuffer,
+  encodeExport,
+  encodeToneMapped,
+  prepareExport,
+  progressSpans,
+  runStepsAsync,
+  throwIfAborted,
+  toBlob,
+  trackProgress,
+  type EncodedExport,
+  type ExportPipelineOptions,
+} from './ExportPipeline.js';
+import { resolveExposure } from './AutoExposure.js';
+import type { IColorBuffer } from '../core/ColorBuffer.js';
+import type { ICompositeSource } from '../core/LayerStack.js';
+import { bloomSteps } from '../filters/Bloom.js';
+
+// ─── Messages ────────────────────────────────────────────────────────
+
+/** Export options that can be sent to a worker (no callbacks or signal) */
+export type WorkerExportOptions = Omit<ExportPipelineOptions, 'onProgress' | 'signal' | 'bloom'>;
+
+/**
+ * A band of rows: `rows` × `width` pixels starting at sample `offset` of
+ * `data`, which are rows `y`… of the image
+ */
+interface BufferBand extends Omit<IColorBuffer, 'height'> {
+  y: number;
+  rows: number;
+  offset: number;
+}
+
+export type ExportWorkerRequest =
+  | { id: number; type: 'tone-map'; band: BufferBand; options: WorkerExportOptions }
+  | { id: number; type: 'encode'; ldrData: Uint8Array | Uint16Array; width: number; height: number; options: WorkerExportOptions }
+  | { id: number; type: 'export'; buffer: IColorBuffer; options: WorkerExportOptions };
+
+export type ExportWorkerResponse =
+  | { id: number; ok: true; result: Uint8Array | Uint16Array | EncodedExport }
+  | { id: number; ok: false; error: { name: string; message: string } };
+
+/**
+ * Handle one request inside a worker. Returns the response and the
+ * buffers to transfer with it. Used by ExportWorker.ts; call it from your
+ * own worker script if you bundle one.
+ */
+export function handleExportRequest(request: ExportWorkerRequest): {
+  response: ExportWorkerResponse;
+  transfer: ArrayBuffer[];
+} {
+  const { id } = request;
+  try {
+    if (request.type === 'tone-map') {
+      const { band, options } = request;
+      const length = band.rows * band.width * 4;
+      const view: IColorBuffer = {
+        width: band.width,
+        height: band.rows,
+        depth: band.depth,
+        data: band.data.subarray(band.offset, band.offset + length),
+        alphaMode: band.alphaMode,
+        colorSpace: band.colorSpace,
+      };
+      const ldrData = prepareExport(options)!.mapRows(view, 0, band.rows, band.y);
+      return { response: { id, ok: true, result: ldrData }, transfer: [ldrData.buffer as ArrayBuffer] };
+    }
+    const encoded = request.type === 'encode'
+      ? encodeToneMapped(request.ldrData, request.width, request.height, request.options)
+      : encodeExport(request.buffer, request.options);
+    return {
+      response: { id, ok: true, result: encoded },
+      transfer: encoded.parts.map((p) => p.buffer as ArrayBuffer).filter(unique),
+    };
+  } catch (error) {
+    const { name, message } = error instanceof Error ? error : new Error(String(error));
+    return { response: { id, ok: false, error: { name, message } }, transfer: [] };
+  }
+}
+
+function unique<T>(value: T, index: number, array: T[]): boolean {
+  return array.indexOf(value) === index;
+}
+
+// ─── Workers ─────────────────────────────────────────────────────────
+
+/**
+ * A worker as the pool sees it. Web Workers and worker_threads are
+ * wrapped automatically; implement this to supply workers yourself.
+ */
+export interface ExportWorkerHandle {
+  postMessage(request: ExportWorkerRequest, transfer: Transferable[]): void;
+  /** Register the response and error listeners (called once). */
+  listen(onResponse: (response: ExportWorkerResponse) => void, onError: (error: unknown) => void): void;
+  terminate(): void;
+}
+
+export interface ExportWorkerPoolOptions {
+  /** Number of workers. Default: the number of CPU cores, at most 8. */
+  size?: number;
+  /** URL of the worker script. Default: ExportWorker.js next to this module. */
+  workerUrl?: string | URL;
+  /** Create a worker yourself (e.g. through a bundler plugin). Overrides `workerUrl`. */
+  createWorker?: () => ExportWorkerHandle | Promise<ExportWorkerHandle>;
+}
+
+/** Spawn the worker script as a Web Worker, or with worker_threads in Node.js */
+async function spawnWorker(url: string | URL): Promise<ExportWorkerHandle> {
+  if (typeof Worker !== 'undefined') {
+    const worker = new Worker(url, { type: 'module' });
+    return {
+      postMessage: (request, transfer) => worker.postMessage(request, transfer),
+      listen(onResponse, onError) {
+        worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => onResponse(event.data);
+        worker.onerror = (event) => onError(event.error ?? new Error(event.message));
+      },
+      terminate: () => worker.terminate(),
+    };
+  }
+  const { Worker: NodeWorker } = await import('node:worker_threads');
+  const worker = new NodeWorker(url);
+  return {
+    postMessage: (request, transfer) => worker.postMessage(request, transfer as ArrayBuffer[]),
+    listen(onResponse, onError) {
+      worker.on('message', onResponse);
+      worker.on('error', onError);
+    },
+    terminate: () => void worker.terminate(),
+  };
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 4;
+  return Math.max(1, Math.min(8, cores));
+}
+
+interface PoolWorker {
+  handle: ExportWorkerHandle;
+  task: Task | null;
+}
+
+interface Task {
+  request: ExportWorkerRequest;
+  transfer: Transferable[];
+  resolve(result: ExportWorkerResponse & { ok: true }): void;
+  reject(error: unknown): void;
+  worker: PoolWorker | null;
+}
+
+// ─── ExportWorkerPool class ──────────────────────────────────────────
+
+export class ExportWorkerPool {
+  readonly size: number;
+  private readonly createWorker: () => ExportWorkerHandle | Promise<ExportWorkerHandle>;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: Task[] = [];
+  private spawning = 0;
+  private nextId = 1;
+  private terminated = false;
+
+  constructor(options: ExportWorkerPoolOptions = {}) {
+    this.size = options.size ?? defaultPoolSize();
+    if (!Number.isInteger(this.size) || this.size < 1) {
+      throw new RangeError(`Worker pool size must be a positive integer, got ${this.size}`);
+    }
+    const url = options.workerUrl ?? new URL('./ExportWorker.js', import.meta.url);
+    this.createWorker = options.createWorker ?? (() => spawnWorker(url));
+  }
+
+  /**
+   * Export like exportBuffer, with the work spread over the pool. Progress
+   * is reported as bands finish; aborting `options.signal` terminates the
+   * workers involved (they are replaced on the next export) and rejects
+   * with an ExportAbortedError.
+   */
+  async export(source: IColorBuffer | ICompositeSource, options: ExportPipelineOptions): Promise<Blob> {
+    if (this.terminated) {
+      throw new Error('ExportWorkerPool has been terminated');
+    }
+    const { onProgress, signal, bloom, ...rest } = options;
+    let workerOptions: WorkerExportOptions = rest;
+    throwIfAborted(signal);
+    const toneMapper = prepareExport(options);
+
+    const spans = progressSpans(!!bloom, toneMapper !== null);
+
+    let buffer = 'composite' in source ? source.composite() : source;
+    // Bloom runs here, in steps, as it needs the whole image
+    if (bloom) {
+      onProgress?.(0, 'bloom');
+      buffer = copyBuffer(buffer);
+      await runStepsAsync(trackProgress(bloomSteps(buffer, bloom), 'bloom', spans.bloom, onProgress), signal);
+    }
+
+    // Measured over the whole image, so every band gets the same exposure
+    if (toneMapper && options.autoExposure) {
+      workerOptions = { ...workerOptions, exposure: resolveExposure(buffer, options), autoExposure: false };
+      throwIfAborted(signal);
+    }
+
+    const tasks: Task[] = [];
+    const run = (request: ExportWorkerRequest, transfer: Transferable[]) =>
+      this.run(request, transfer, tasks);
+    const onAbort = () => this.cancel(tasks, signal!.reason);
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      let encoded: EncodedExport;
+      if (!toneMapper) {
+        onProgress?.(spans.encode[0], 'encode');
+        const { data, transfer } = shareOrCopy(buffer, 0, buffer.height);
+        const request = { id: this.nextId++, type: 'export' as const, buffer: { ...bufferInfo(buffer), height: buffer.height, data }, options: workerOptions };
+        encoded = (await run(request, transfer)).result as EncodedExport;
+      } else {
+        const { width, height } = buffer;
+        const ldrData = options.bitDepth === 16 ? new Uint16Array(width * height * 4) : new Uint8Array(width * height * 4);
+        // Error diffusion runs top to bottom, so it is mapped as one band
+        const bandRows = options.dither === 'floyd-steinberg' ? height : Math.ceil(height / this.size);
+        const [from, to] = spans['tone-map'];
+        let done = 0;
+        onProgress?.(from, 'tone-map');
+
+        const bands: Promise<void>[] = [];
+        for (let y = 0; y < height; y += bandRows) {
+          const rows = Math.min(bandRows, height - y);
+          const { data, offset, transfer } = shareOrCopy(buffer, y, rows);
+          const request = { id: this.nextId++, type: 'tone-map' as const, band: { ...bufferInfo(buffer), data, offset, y, rows }, options: workerOptions };
+          bands.push(run(request, transfer).then(({ result }) => {
+            ldrData.set(result as Uint8Array | Uint16Array, y * width * 4);
+            done += rows;
+            onProgress?.(from + Math.round((done / height) * (to - from)), 'tone-map');
+          }));
+        }
+        await Promise.all(bands);
+
+        onProgress?.(50, 'encode');
+        const request = { id: this.nextId++, type: 'encode' as const, ldrData, width, height, options: workerOptions };
+        encoded = (await run(request, [ldrData.buffer as ArrayBuffer])).result as EncodedExport;
+      }
+      onProgress?.(100, 'done');
+      return toBlob(encoded);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /** Stop every worker. Pending exports reject; the pool cannot be used again. */
+  terminate(): void {
+    this.terminated = true;
+    const error = new Error('ExportWorkerPool has been terminated');
+    for (const task of this.queue.splice(0)) task.reject(error);
+    for (const worker of this.workers.splice(0)) {
+      worker.task?.reject(error);
+      worker.handle.terminate();
+    }
+  }
+
+  // ─── Scheduling ──────────────────────────────────────────────────
+
+  private run(request: ExportWorkerRequest, transfer: Transferable[], owner: Task[]) {
+    return new Promise<ExportWorkerResponse & { ok: true }>((resolve, reject) => {
+      const task: Task = { request, transfer, resolve, reject, worker: null };
+      owner.push(task);
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /** Hand queued tasks to idle workers, spawning workers up to the pool size */
+  private dispatch(): void {
+    for (const worker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (!worker.task) this.start(worker, this.queue.shift()!);
+    }
+    while (this.queue.length > this.spawning && this.workers.length + this.spawning < this.size) {
+      this.spawning++;
+      Promise.resolve()
+        .then(() => this.createWorker())
+        .then(
+          (handle) => {
+            this.spawning--;
+            if (this.terminated) {
+              handle.terminate();
+              return;
+            }
+            const worker: PoolWorker = { handle, task: null };
+            handle.listen(
+              (response) => this.settle(worker, response),
+              (error) => this.fail(worker, error)
+            );
+            this.workers.push(worker);
+            this.dispatch();
+          },
+          (error) => {
+            this.spawning--;
+            // Without any worker the queue can never drain
+            if (this.workers.length === 0 && this.spawning === 0) {
+              for (const task of this.queue.splice(0)) task.reject(error);
+            }
+          }
+        );
+    }
+  }
+
+  private start(worker: PoolWorker, task: Task): void {
+    worker.task = task;
+    task.worker = worker;
+    worker.handle.postMessage(task.request, task.transfer);
+  }
+
+  private settle(worker: PoolWorker, response: ExportWorkerResponse): void {
+    const task = worker.task;
+    if (!task || task.request.id !== response.id) return;
+    worker.task = null;
+    if (response.ok) {
+      task.resolve(response);
+    } else {
+      const error = new Error(response.error.message);
+      error.name = response.error.name;
+      task.reject(error);
+    }
+    this.dispatch();
+  }
+
+  /** A worker crashed: fail its task and replace it */
+  private fail(worker: PoolWorker, error: unknown): void {
+    worker.task?.reject(error);
+    worker.task = null;
+    this.remove(worker);
+    this.dispatch();
+  }
+
+  /** Drop an export's tasks, terminating the workers that are running them */
+  private cancel(tasks: Task[], reason: unknown): void {
+    for (const task of tasks) {
+      const queued = this.queue.indexOf(task);
+      if (queued !== -1) this.queue.splice(queued, 1);
+      if (task.worker && task.worker.task === task) {
+        task.worker.task = null;
+        this.remove(task.worker);
+      }
+      task.reject(new ExportAbortedError(reason));
+    }
+    this.dispatch();
+  }
+
+  private remove(worker: PoolWorker): void {
+    const index = this.workers.indexOf(worker);
+    if (index !== -1) this.workers.splice(index, 1);
+    worker.handle.terminate();
+  }
+}
+
+// ─── Buffers ─────────────────────────────────────────────────────────
+
+function bufferInfo(buffer: IColorBuffer): Omit<IColorBuffer, 'data' | 'height'> {
+  return { width: buffer.width, depth: buffer.depth, alphaMode: buffer.alphaMode, colorSpace: buffer.colorSpace };
+}
+
+/**
+ * The data a worker needs for `rows` rows from `y`: the whole shared
+ * array with an offset when the buffer lives on a SharedArrayBuffer,
+ * else a copy of just those rows, to be transferred.
+ */
+function shareOrCopy(buffer: IColorBuffer, y: number, rows: number): {
+  data: Float32Array | Float64Array;
+  offset: number;
+  transfer: ArrayBuffer[];
+} {
+  const start = y * buffer.width * 4;
+  if (typeof SharedArrayBuffer !== 'undefined' && buffer.data.buffer instanceof SharedArrayBuffer) {
+    return { data: buffer.data, offset: start, transfer: [] };
+  }
+  const data = buffer.data.slice(start, start + rows * buffer.width * 4);
+  return { data, offset: 0, transfer: [data.buffer as ArrayBuffer] };
+}
@@ -0,0 +1,262 @@
+/**
+ * Bloom — HDR light bleed around bright pixels
+ *
+ * Runs before tone mapping, on linear HDR values:
+ *   1. Bright pass: keep the part of each pixel above a luminance threshold
+ *      (with a soft knee), downsampled straight to half resolution
+ *   2. Pyramid: repeatedly halve and blur, each level spreading light
+ *      twice as far as the one above
+ *   3. Recombine: upsample from the coarsest level, summing every level,
+ *      and add the result back onto the image scaled by `intensity`
+ *
+ * Working at reduced resolution keeps wide glows cheap and the scratch
+ * memory to about a third of the buffer size.
+ */
+
+import { ColorBuffer, type IColorBuffer } from '../core/ColorBuffer.js';
+import { gaussianBlur } from './Blur.js';
+
+export interface BloomOptions {
+  /** Luminance above which pixels start to glow — default 1.0 (the top of SDR) */
+  threshold?: number;
+  /** Soft transition below the threshold, as a fraction of it (0 = hard cut) — default 0.5 */
+  softKnee?: number;
+  /** Strength of the added glow — default 0.5 */
+  intensity?: number;
+  /** Approximate glow radius in buffer pixels — default 2% of the shorter side */
+  radius?: number;
+}
+
+// Rec. 709 luminance weights
+const LUMA_R = 0.2126;
+const LUMA_G = 0.7152;
+const LUMA_B = 0.0722;
+
+/** Blur σ applied at every pyramid level, in that level's pixels */
+const LEVEL_SIGMA = 1;
+
+/** Full-resolution pixels thresholded or composited per step */
+const STRIP_PIXELS = 256 * 1024;
+
+/**
+ * Add bloom to a buffer in place. Glow is added as light: color grows,
+ * and alpha grows where glow spills onto transparent pixels.
+ */
+export function applyBloom(buffer: IColorBuffer, options: BloomOptions = {}): void {
+  const steps = bloomSteps(buffer, options);
+  while (!steps.next().done);
+}
+
+/**
+ * applyBloom in steps: yields the fraction done (0–1) after each strip of
+ * the full-resolution passes and each pyramid level, so exports can report
+ * progress and stop part-way. The buffer is only written in the last
+ * steps; stopping there leaves the top of it bloomed.
+ */
+export function* bloomSteps(buffer: IColorBuffer, options: BloomOptions = {}): Generator<number, void> {
+  const threshold = options.threshold ?? 1;
+  const softKnee = options.softKnee ?? 0.5;
+  const intensity = options.intensity ?? 0.5;
+  const radius = options.radius ?? Math.max(2, 0.02 * Math.min(buffer.width, buffer.height));
+
+  if (!(threshold >= 0)) {
+    throw new RangeError(`Bloom threshold must be non-negative, got ${threshold}`);
+  }
+  if (!(softKnee >= 0 && softKnee <= 1)) {
+    throw new RangeError(`Bloom softKnee must be in [0, 1], got ${softKnee}`);
+  }
+  if (!(intensity >= 0) || !Number.isFinite(intensity)) {
+    throw new RangeError(`Bloom intensity must be a non-negative number, got ${intensity}`);
+  }
+  if (!(radius > 0) || !Number.isFinite(radius)) {
+    throw new RangeError(`Bloom radius must be a positive number, got ${radius}`);
+  }
+  if (intensity === 0) return;
+
+  // Level i (1-based) is 1/2^i resolution blurred by σ = 1 level pixel ≈ 2^i buffer px
+  const maxLevels = Math.max(1, Math.floor(Math.log2(Math.min(buffer.width, buffer.height))));
+  const levelCount = Math.min(maxLevels, Math.max(1, Math.round(Math.log2(radius))));
+
+  const { width, height } = buffer;
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_PIXELS / width));
+
+  // Bright pass: 0–40% of the work
+  const levels: ColorBuffer[] = [newLevel(Math.ceil(width / 2), Math.ceil(height / 2))];
+  for (let y = 0; y < height; y += rowsPerStrip) {
+    const end = Math.min(height, y + rowsPerStrip);
+    brightPass(buffer, levels[0]!, threshold, softKnee, y, end);
+    yield (0.4 * end) / height;
+  }
+
+  // Pyramid at half resolution and below: 40–60%
+  for (let i = 1; i < levelCount; i++) {
+    levels.push(downsample(levels[i - 1]!));
+  }
+  for (let i = 0; i < levelCount; i++) {
+    gaussianBlur(levels[i]!, LEVEL_SIGMA);
+    yield 0.4 + (0.1 * (i + 1)) / levelCount;
+  }
+
+  // Fold coarse levels into finer ones
+  for (let i = levelCount - 1; i > 0; i--) {
+    addUpsampled(levels[i - 1]!, levels[i]!);
+  }
+  yield 0.6;
+
+  // Add the glow: 60–100%
+  for (let y = 0; y < height; y += rowsPerStrip) {
+    const end = Math.min(height, y + rowsPerStrip);
+    composite(buffer, levels[0]!, intensity / levelCount, y, end);
+    buffer.markChanged?.();
+    yield 0.6 + (0.4 * end) / height;
+  }
+}
+
+// ─── Stages ──────────────────────────────────────────────────────────
+
+/**
+ * Threshold the pixels of rows y0 … y1 - 1 and box-downsample the result
+ * into the half-resolution level `out`.
+ */
+function brightPass(buffer: IColorBuffer, out: ColorBuffer, threshold: number, softKnee: number, y0: number, y1: number): void {
+  const { width: w, data } = buffer;
+  const dst = out.data;
+  const straight = (buffer.alphaMode ?? 'straight') === 'straight';
+  const knee = threshold * softKnee;
+
+  for (let y = y0; y < y1; y++) {
+    const oy = y >> 1;
+    for (let x = 0; x < w; x++) {
+      const i = (y * w + x) * 4;
+      const a = data[i + 3]!;
+      // Premultiplied color = the light this pixel actually emits
+      const m = straight ? a : 1;
+      const r = data[i]! * m;
+      const g = data[i + 1]! * m;
+      const b = data[i + 2]! * m;
+
+      const lum = LUMA_R * r + LUMA_G * g + LUMA_B * b;
+      const f = brightFactor(lum, threshold, knee);
+      if (f === 0) continue;
+
+      // Each half-res pixel averages up to 2×2 source pixels
+      const o = (oy * out.width + (x >> 1)) * 4;
+      dst[o] = dst[o]! + r * f * 0.25;
+      dst[o + 1] = dst[o + 1]! + g * f * 0.25;
+      dst[o + 2] = dst[o + 2]! + b * f * 0.25;
+    }
+  }
+}
+
+/**
+ * Fraction of a pixel's color that passes the threshold. Quadratic soft
+ * knee over [threshold - knee, threshold + knee], linear above.
+ */
+function brightFactor(lum: number, threshold: number, knee: number): number {
+  if (lum <= 0) return 0;
+  let soft = lum - threshold + knee;
+  soft = soft < 0 ? 0 : soft > 2 * knee ? 2 * knee : soft;
+  soft = knee > 0 ? (soft * soft) / (4 * knee) : 0;
+  const contribution = Math.max(soft, lum - threshold);
+  return contribution <= 0 ? 0 : contribution / lum;
+}
+
+/** Halve resolution with a 2×2 box filter. */
+function downsample(src: ColorBuffer): ColorBuffer {
+  const out = newLevel(Math.max(1, Math.ceil(src.width / 2)), Math.max(1, Math.ceil(src.height / 2)));
+  const s = src.data;
+  const d = out.data;
+  for (let y = 0; y < src.height; y++) {
+    const oy = y >> 1;
+    for (let x = 0; x < src.width; x++) {
+      const i = (y * src.width + x) * 4;
+      const o = (oy * out.width + (x >> 1)) * 4;
+      d[o] = d[o]! + s[i]! * 0.25;
+      d[o + 1] = d[o + 1]! + s[i + 1]! * 0.25;
+      d[o + 2] = d[o + 2]! + s[i + 2]! * 0.25;
+    }
+  }
+  return out;
+}
+
+/** Add a bilinearly upsampled coarse level onto the next finer one. */
+function addUpsampled(fine: ColorBuffer, coarse: ColorBuffer): void {
+  const d = fine.data;
+  for (let y = 0; y < fine.height; y++) {
+    for (let x = 0; x < fine.width; x++) {
+      const o = (y * fine.width + x) * 4;
+      sampleBilinear(coarse, (x + 0.5) / 2, (y + 0.5) / 2, d, o, 1);
+    }
+  }
+}
+
+/** Add the half-resolution bloom onto rows y0 … y1 - 1 of the buffer as light. */
+function composite(buffer: IColorBuffer, bloom: ColorBuffer, scale: number, y0: number, y1: number): void {
+  const { width: w, data } = buffer;
+  const straight = (buffer.alphaMode ?? 'straight') === 'straight';
+  const glow = new Float64Array(4);
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = 0; x < w; x++) {
+      glow[0] = glow[1] = glow[2] = 0;
+      sampleBilinear(bloom, (x + 0.5) / 2, (y + 0.5) / 2, glow, 0, scale);
+      if (glow[0] === 0 && glow[1] === 0 && glow[2] === 0) continue;
+
+      const i = (y * w + x) * 4;
+      const a = data[i + 3]!;
+      const cover = Math.min(1, Math.max(glow[0]!, glow[1]!, glow[2]!));
+      const outA = a + (1 - a) * cover;
+      // Work in premultiplied color, then store in the buffer's convention
+      const m = straight ? a : 1;
+      const inv = straight ? (outA === 0 ? 0 : 1 / outA) : 1;
+      data[i] = (data[i]! * m + glow[0]!) * inv;
+      data[i + 1] = (data[i + 1]! * m + glow[1]!) * inv;
+      data[i + 2] = (data[i + 2]! * m + glow[2]!) * inv;
+      data[i + 3] = outA;
+    }
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function newLevel(width: number, height: number): ColorBuffer {
+  // Pyramid levels hold light only; premultiplied mode makes blur treat RGB linearly
+  return new ColorBuffer(width, height, 32, { alphaMode: 'premultiplied' });
+}
+
+/**
+ * Bilinearly sample RGB of `src` at continuous coordinates (u, v) in its
+ * pixel space (pixel centres at +0.5), adding `scale ×` the result into
+ * out[o … o+2]. Edges clamp.
+ */
+function sampleBilinear(src: ColorBuffer, u: number, v: number, out: Float32Array | Float64Array, o: number, scale: number): void {
+  const fx = u - 0.5;
+  const fy = v - 0.5;
+  let x0 = Math.floor(fx);
+  let y0 = Math.floor(fy);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const maxX = src.width - 1;
+  const maxY = src.height - 1;
+  let x1 = x0 + 1;
+  let y1 = y0 + 1;
+  x0 = x0 < 0 ? 0 : x0 > maxX ? maxX : x0;
+  x1 = x1 < 0 ? 0 : x1 > maxX ? maxX : x1;
+  y0 = y0 < 0 ? 0 : y0 > maxY ? maxY : y0;
+  y1 = y1 < 0 ? 0 : y1 > maxY ? maxY : y1;
+
+  const s = src.data;
+  const w = src.width;
+  const i00 = (y0 * w + x0) * 4;
+  const i10 = (y0 * w + x1) * 4;
+  const i01 = (y1 * w + x0) * 4;
+  const i11 = (y1 * w + x1) * 4;
+  const w00 = (1 - tx) * (1 - ty) * scale;
+  const w10 = tx * (1 - ty) * scale;
+  const w01 = (1 - tx) * ty * scale;
+  const w11 = tx * ty * scale;
+
+  for (let c = 0; c < 3; c++) {
+    out[o + c] = out[o + c]! + s[i00 + c]! * w00 + s[i10 + c]! * w10 + s[i01 + c]! * w01 + s[i11 + c]! * w11;
+  }
+}
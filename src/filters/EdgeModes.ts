@@ -0,0 +1,130 @@
+/**
+ * EdgeModes — How filters sample beyond the edges of the filtered area
+ *
+ * Every neighbourhood filter reads pixels past the border. Edge modes map
+ * an out-of-range index back into [0, n), or to -1 for "transparent"
+ * (contributes zero). Also home to the region handling shared by all
+ * filters: a region is filtered exactly as if it were cut out with
+ * getRegion, processed, and written back with putRegion — its edges are
+ * the image edges.
+ */
+
+import type { IColorBuffer } from '../core/ColorBuffer.js';
+
+/** Maps index i (possibly out of range) to a source index in [0, n), or -1 */
+export type EdgeIndexFn = (i: number, n: number) => number;
+
+/** Repeat the nearest edge pixel */
+export const clampEdge: EdgeIndexFn = (i, n) => (i < 0 ? 0 : i >= n ? n - 1 : i);
+
+/** Tile the image */
+export const wrapEdge: EdgeIndexFn = (i, n) => ((i % n) + n) % n;
+
+/** Reflect about the edge, repeating the edge pixel (… 1 0 | 0 1 …) */
+export const mirrorEdge: EdgeIndexFn = (i, n) => {
+  const period = 2 * n;
+  const m = ((i % period) + period) % period;
+  return m < n ? m : period - 1 - m;
+};
+
+/** Treat everything outside as transparent black */
+export const transparentEdge: EdgeIndexFn = (i, n) => (i < 0 || i >= n ? -1 : i);
+
+export const EDGE_MODES = {
+  clamp: clampEdge,
+  wrap: wrapEdge,
+  mirror: mirrorEdge,
+  transparent: transparentEdge,
+} as const;
+
+export type EdgeMode = keyof typeof EDGE_MODES;
+
+export function resolveEdgeMode(mode: EdgeMode): EdgeIndexFn {
+  const fn = EDGE_MODES[mode];
+  if (!fn) {
+    throw new Error(
+      `Unknown edge mode: "${mode}". Available: ${Object.keys(EDGE_MODES).join(', ')}`
+    );
+  }
+  return fn;
+}
+
+// ─── Shared filter plumbing ──────────────────────────────────────────
+
+export interface FilterRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FilterOptions {
+  /** How pixels beyond the edges are sampled — default 'clamp' */
+  edge?: EdgeMode;
+  /** Filter only this rectangle, treating its bounds as the image edges — default: whole buffer */
+  region?: FilterRegion;
+}
+
+/** Validate `region` against the buffer, defaulting to the whole buffer. */
+export function resolveRegion(buffer: IColorBuffer, region?: FilterRegion): FilterRegion {
+  if (!region) return { x: 0, y: 0, width: buffer.width, height: buffer.height };
+
+  const { x, y, width, height } = region;
+  if (!Number.isInteger(x) || !Number.isInteger(y) || !Number.isInteger(width) || !Number.isInteger(height)) {
+    throw new RangeError(`Region must use integer coordinates, got (${x},${y} ${width}×${height})`);
+  }
+  if (width <= 0 || height <= 0) {
+    throw new RangeError(`Region dimensions must be positive, got ${width}×${height}`);
+  }
+  if (x < 0 || y < 0 || x + width > buffer.width || y + height > buffer.height) {
+    throw new RangeError(
+      `Region (${x},${y} ${width}×${height}) exceeds buffer bounds ${buffer.width}×${buffer.height}`
+    );
+  }
+  return { x, y, width, height };
+}
+
+/**
+ * Precomputed edge mapping for positions -before … n + after - 1.
+ * Entry k holds the source index for position k - before, or -1.
+ */
+export function edgeIndices(n: number, before: number, after: number, edge: EdgeIndexFn): Int32Array {
+  const map = new Int32Array(n + before + after);
+  for (let k = 0; k < map.length; k++) map[k] = edge(k - before, n);
+  return map;
+}
+
+/**
+ * Copy a region's pixels into a new tightly packed array of the same
+ * precision, optionally premultiplying straight-alpha data on the way.
+ */
+export function snapshotRegion(
+  buffer: IColorBuffer,
+  region: FilterRegion,
+  premultiply: boolean
+): Float32Array | Float64Array {
+  const { x, y, width, height } = region;
+  const out = buffer.data instanceof Float64Array
+    ? new Float64Array(width * height * 4)
+    : new Float32Array(width * height * 4);
+
+  for (let row = 0; row < height; row++) {
+    const src = ((y + row) * buffer.width + x) * 4;
+    const dst = row * width * 4;
+    out.set(buffer.data.subarray(src, src + width * 4), dst);
+    if (premultiply) {
+      for (let i = dst; i < dst + width * 4; i += 4) {
+        const a = out[i + 3]!;
+        out[i] = out[i]! * a;
+        out[i + 1] = out[i + 1]! * a;
+        out[i + 2] = out[i + 2]! * a;
+      }
+    }
+  }
+  return out;
+}
+
+/** Whether a buffer stores straight alpha (and linear filters must premultiply) */
+export function isStraight(buffer: IColorBuffer): boolean {
+  return (buffer.alphaMode ?? 'straight') === 'straight';
+}
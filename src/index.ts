@@ -8,12 +8,70 @@
 // Core
 export {
   ColorBuffer,
+  premultiply,
+  unpremultiply,
   type IColorBuffer,
+  type ColorBufferOptions,
+  type AlphaMode,
   type ColorDepth,
   type BlendMode,
   type RGBA,
 } from './core/ColorBuffer.js';
 
+export {
+  BLEND_MODES,
+  resolveBlendFn,
+  type BlendFn,
+} from './core/BlendModes.js';
+
+export {
+  COLOR_SPACES,
+  TRANSFER_FUNCTIONS,
+  IDENTITY_MATRIX,
+  resolveColorSpace,
+  resolveWorkingColorSpace,
+  resolveOutputColorSpace,
+  colorSpaceMatrix,
+  applyColorMatrix,
+  luminanceWeights,
+  rgbToXyzMatrix,
+  chromaticAdaptationMatrix,
+  multiplyMatrix,
+  invertMatrix,
+  srgbEncode,
+  srgbDecode,
+  rec2020Encode,
+  rec2020Decode,
+  ADOBE_RGB_GAMMA,
+  type ColorSpace,
+  type WorkingColorSpace,
+  type OutputColorSpace,
+  type ColorSpaceDef,
+  type TransferFunction,
+  type TransferFunctionName,
+  type Chromaticity,
+  type Primaries,
+  type Matrix3,
+} from './core/ColorSpace.js';
+
+export {
+  SPLAT_KERNELS,
+  resolveSplatKernel,
+  splatFootprint,
+  type SplatOptions,
+  type SplatKernelFn,
+  type SplatKernelName,
+  type SplatFootprint,
+} from './core/Splat.js';
+
+export {
+  LayerStack,
+  Layer,
+  type LayerOptions,
+  type MaskChannel,
+  type ICompositeSource,
+} from './core/LayerStack.js';
+
 export {
   PAPER_SIZES,
   sizeToPx,
@@ -24,16 +82,73 @@ export {
   type Orientation,
 } from './core/PaperSize.js';
 
+export {
+  LogHistogram,
+  computeBufferStats,
+  type BufferStatsOptions,
+  type BufferStats,
+  type ChannelStats,
+} from './core/Stats.js';
+
 export {
   HDCanvas,
   type HDCanvasOptions,
   type ExportOptions,
+  type RescaleOptions,
+  type PaperRescaleOptions,
 } from './core/HDCanvas.js';
 
+// Filters
+export {
+  EDGE_MODES,
+  resolveEdgeMode,
+  type EdgeMode,
+  type EdgeIndexFn,
+  type FilterOptions,
+  type FilterRegion,
+} from './filters/EdgeModes.js';
+export { convolve, convolveSeparable, type ConvolutionKernel } from './filters/Convolution.js';
+export {
+  gaussianBlur,
+  gaussianKernel,
+  boxBlur,
+  unsharpMask,
+  type GaussianBlurOptions,
+  type UnsharpMaskOptions,
+} from './filters/Blur.js';
+export { medianFilter } from './filters/Median.js';
+export { applyBloom, bloomSteps, type BloomOptions } from './filters/Bloom.js';
+export {
+  RESAMPLE_FILTERS,
+  resolveResampleFilter,
+  resample,
+  type ResampleFilter,
+  type ResampleFilterDef,
+  type ResampleOptions,
+} from './filters/Resample.js';
+
 // Preview
 export { PreviewRenderer, type PreviewRendererOptions, type OverlayCanvasOptions } from './preview/PreviewRenderer.js';
 export { calculateFit, type FitMode, type FitResult } from './preview/FitStrategy.js';
 
+// Vector drawing
+export { Path, DEFAULT_TOLERANCE, type Polyline } from './draw/Path.js';
+export { type LineCap, type LineJoin } from './draw/Stroker.js';
+export {
+  fillPath,
+  strokePath,
+  drawLine,
+  drawPolyline,
+  fillPolygon,
+  fillCircle,
+  strokeCircle,
+  fillEllipse,
+  strokeEllipse,
+  type FillRule,
+  type FillOptions,
+  type StrokeOptions,
+} from './draw/Rasterizer.js';
+
 // Bridge
 export { drawWith2D, type DrawWith2DOptions } from './bridge/Canvas2DBridge.js';
 
@@ -43,30 +158,172 @@ export {
   clamp,
   reinhard,
   aces,
+  reinhardExtended,
+  hable,
+  acesFitted,
+  agx,
   TONE_MAP_ALGORITHMS,
+  TONE_MAP_MODES,
+  DITHER_METHODS,
+  AGX_LOOKS,
+  resolveToneMapAlgorithm,
+  resolveAgXLook,
   type ToneMapFn,
+  type ToneMapPixelFn,
   type ToneMapAlgorithm,
+  type ToneMapAlgorithmDef,
+  type ToneMapSettings,
+  type ToneMapMode,
+  type DitherMethod,
+  type ToneMapParams,
+  type ReinhardExtendedParams,
+  type HableParams,
+  type AgXParams,
+  type AgXLook,
+  type AgXLookParams,
   type ToneMapOptions,
   type OutputDepth,
 } from './export/ToneMapper.js';
 
+// Auto exposure
+export {
+  computeAutoExposure,
+  resolveExposure,
+  logAverageLuminance,
+  luminancePercentile,
+  AUTO_EXPOSURE_METHODS,
+  type AutoExposureMethod,
+  type AutoExposureOptions,
+} from './export/AutoExposure.js';
+
 // PNG encoding
 export {
   PNGExporter,
   dpiToPixelsPerMeter,
   injectPHYs,
+  physChunk,
+  srgbChunk,
+  gamaChunk,
+  chrmChunk,
+  iccpChunk,
+  colorChunks,
+  RENDERING_INTENTS,
+  type RenderingIntent,
   type PNGExportOptions,
   type PNGExportResult,
 } from './export/PNGExporter.js';
+export { encodeChunk, injectChunks, readChunks, type PNGChunk } from './export/PNGChunks.js';
+
+// Streaming PNG export
+export {
+  PNGStreamEncoder,
+  streamPNG,
+  writePNGStream,
+  type PNGStreamOptions,
+  type NodeWritableLike,
+} from './export/PNGStream.js';
+
+// PNG text metadata
+export {
+  metadataChunks,
+  readPNGMetadata,
+  textChunk,
+  ztxtChunk,
+  itxtChunk,
+  type PNGMetadata,
+  type PNGMetadataValue,
+} from './export/PNGMetadata.js';
+
+// ICC profiles
+export {
+  iccProfile,
+  iccProfileDescription,
+  workingICCProfile,
+  buildICCProfile,
+  type ICCProfileName,
+} from './export/ICCProfile.js';
+
+// OpenEXR encoding
+export {
+  EXRExporter,
+  EXR_PIXEL_TYPES,
+  EXR_COMPRESSIONS,
+  resolveEXRPixelType,
+  resolveEXRCompression,
+  toHalf,
+  fromHalf,
+  type EXRPixelType,
+  type EXRCompression,
+  type EXRExportOptions,
+  type EXRExportResult,
+} from './export/EXRExporter.js';
+
+// TIFF encoding
+export {
+  TIFFExporter,
+  TIFF_COMPRESSIONS,
+  resolveTIFFCompression,
+  lzwEncode,
+  type TIFFCompression,
+  type TIFFColorModel,
+  type TIFFExportOptions,
+  type TIFFExportResult,
+} from './export/TIFFExporter.js';
+
+// CMYK separation
+export {
+  separateCMYK,
+  createCMYKLut,
+  BLACK_GENERATION_MODES,
+  type BlackGenerationMode,
+  type CMYKLut,
+  type CMYKSeparationOptions,
+} from './export/CMYK.js';
+
+// PDF encoding
+export {
+  PDFExporter,
+  type PDFMetadata,
+  type PDFExportOptions,
+  type PDFExportResult,
+} from './export/PDFExporter.js';
+
+// Radiance HDR encoding and loading
+export {
+  HDRExporter,
+  loadHDR,
+  toRGBE,
+  fromRGBE,
+  type HDRExportOptions,
+  type HDRExportResult,
+  type HDRLoadOptions,
+} from './export/RadianceHDR.js';
 
 // Export pipeline
 export {
+  EXPORT_FORMATS,
+  EXPORT_PHASES,
   exportBuffer,
+  exportBufferAsync,
+  ExportAbortedError,
   attachExportPipeline,
   downloadBlob,
   generateFilename,
   exportAndDownload,
   type ExportPipelineOptions,
+  type ExportFormat,
+  type ExportPhase,
   type ExportProgressFn,
   type ExportableCanvas,
 } from './export/ExportPipeline.js';
+
+// Worker-backed export
+export {
+  ExportWorkerPool,
+  handleExportRequest,
+  type ExportWorkerPoolOptions,
+  type ExportWorkerHandle,
+  type ExportWorkerRequest,
+  type ExportWorkerResponse,
+  type WorkerExportOptions,
+} from './export/WorkerPool.js';
@@ -7,11 +7,13 @@
  */
 
 import { type ColorBuffer } from '../core/ColorBuffer.js';
+import { type ICompositeSource } from '../core/LayerStack.js';
 import { calculateFit, type FitMode } from './FitStrategy.js';
 
 export interface PreviewRendererOptions {
   container: HTMLElement;
-  buffer: ColorBuffer;
+  /** Buffer to display, or a layer stack whose composite is displayed */
+  buffer: ColorBuffer | ICompositeSource;
   fitMode?: FitMode;
   /** Minimum zoom: 'fit' means fit-to-container. Default: 'fit' */
   minZoom?: 'fit' | number;
@@ -19,6 +21,11 @@ export interface PreviewRendererOptions {
   maxZoom?: number;
   /** Callback when zoom level changes */
   onZoomChange?: (zoomPercent: number) => void;
+  /**
+   * Exposure in stops — pass the same value as to export (e.g. from
+   * computeAutoExposure) so the preview matches the print. Default: 0.
+   */
+  exposure?: number;
 }
 
 export interface OverlayCanvasOptions {
@@ -49,12 +56,14 @@ interface OverlayEntry {
 
 export class PreviewRenderer {
   private readonly container: HTMLElement;
-  private readonly buffer: ColorBuffer;
+  private readonly buffer: ColorBuffer | ICompositeSource;
   private readonly canvas: HTMLCanvasElement;
   private readonly ctx: CanvasRenderingContext2D;
   private readonly fitMode: FitMode;
   private readonly maxZoom: number;
   private readonly onZoomChange?: (zoomPercent: number) => void;
+  private exposureStops = 0;
+  private exposureMultiplier = 1;
 
   private resizeObserver: ResizeObserver | null = null;
   private destroyed = false;
@@ -89,6 +98,7 @@ export class PreviewRenderer {
     this.fitMode = options.fitMode ?? 'contain';
     this.maxZoom = options.maxZoom ?? 4;
     this.onZoomChange = options.onZoomChange;
+    if (options.exposure !== undefined) this.setExposureValue(options.exposure);
 
     // Container must be positioned for absolute overlay children
     const pos = getComputedStyle(this.container).position;
@@ -169,6 +179,17 @@ export class PreviewRenderer {
     this.refresh();
   }
 
+  /** Exposure in stops applied to the displayed colors */
+  get exposure(): number {
+    return this.exposureStops;
+  }
+
+  /** Change the exposure (stops) and re-render */
+  setExposure(stops: number): void {
+    this.setExposureValue(stops);
+    this.refresh();
+  }
+
   /**
    * Schedule a refresh on the next animation frame.
    * Multiple calls per frame are coalesced into a single render.
@@ -207,8 +228,10 @@ export class PreviewRenderer {
     this.ctx.clearRect(0, 0, containerW, containerH);
 
     const { zoom, panX, panY } = this.viewport;
-    const bufW = this.buffer.width;
-    const bufH = this.buffer.height;
+    const source = this.buffer;
+    const buffer = 'composite' in source ? source.composite() : source;
+    const bufW = buffer.width;
+    const bufH = buffer.height;
 
     // Compute the visible region in buffer coordinates
     const visibleBufW = containerW / zoom;
@@ -243,11 +266,13 @@ export class PreviewRenderer {
     // repeated division and multiplication in the inner loop.
     const imageData = this.ctx.createImageData(dstW, dstH);
     const dst = imageData.data;
-    const srcData = this.buffer.data;
+    const srcData = buffer.data;
     const invZoom = 1 / zoom;
     const bufStride = bufW * 4;
     const maxSrcY = srcY1 - 1;
     const maxSrcX = srcX1 - 1;
+    const premultiplied = buffer.alphaMode === 'premultiplied';
+    const exposureMul = this.exposureMultiplier;
 
     for (let dy = 0; dy < dstH; dy++) {
       // Map screen Y → buffer Y (nearest neighbor, integer math)
@@ -265,10 +290,12 @@ export class PreviewRenderer {
         // Clamp [0,1] → [0,255] using bitwise-or-zero for fast truncation.
         // The +0.5 before |0 gives rounding behavior.
         // Branchless clamp: val < 0 → 0, val > 1 → 1, else val
-        const r = srcData[srcIdx]!;
-        const g = srcData[srcIdx + 1]!;
-        const b = srcData[srcIdx + 2]!;
         const a = srcData[srcIdx + 3]!;
+        // ImageData is straight alpha — undo premultiplication if needed
+        const inv = premultiplied ? (a === 0 ? 0 : exposureMul / a) : exposureMul;
+        const r = srcData[srcIdx]! * inv;
+        const g = srcData[srcIdx + 1]! * inv;
+        const b = srcData[srcIdx + 2]! * inv;
 
         dst[dstIdx]     = ((r <= 0 ? 0 : r >= 1 ? 1 : r) * 255 + 0.5) | 0;
         dst[dstIdx + 1] = ((g <= 0 ? 0 : g >= 1 ? 1 : g) * 255 + 0.5) | 0;
@@ -382,6 +409,14 @@ export class PreviewRenderer {
 
   // --- Private: zoom & pan logic ---
 
+  private setExposureValue(stops: number): void {
+    if (!Number.isFinite(stops)) {
+      throw new RangeError(`Exposure must be a finite number, got ${stops}`);
+    }
+    this.exposureStops = stops;
+    this.exposureMultiplier = Math.pow(2, stops);
+  }
+
   private recomputeFitScale(): void {
     const containerW = this.container.clientWidth;
     const containerH = this.container.clientHeight;